@@ -1,8 +1,22 @@
 'use server'
 
 import { redirect } from 'next/navigation'
+import { revalidatePath } from 'next/cache'
 import { prisma } from '@/src/lib/db'
 import { Prisma } from '@/app/generated/prisma/client'
+import {
+  changeLocationStock,
+  formatLocationCode,
+  InsufficientStockError,
+} from '@/src/lib/inventory'
+import { normalizeCountryCode, normalizeHsCode } from '@/src/lib/customs'
+import {
+  formatPurchaseOrderNumber,
+  getReceivableLines,
+  OverReceiptError,
+  PurchaseOrderReceiptError,
+  recordPurchaseOrderReceipt,
+} from '@/src/lib/purchasing'
 
 export type ProductFormState = {
   errors?: {
@@ -16,6 +30,9 @@ export type ProductFormState = {
     height?: string[]
     lowStockThreshold?: string[]
     imageUrl?: string[]
+    hsCode?: string[]
+    countryOfOrigin?: string[]
+    customsValue?: string[]
     _form?: string[]
   }
   success?: boolean
@@ -31,6 +48,9 @@ function validateProductData(formData: FormData): ProductFormState['errors'] {
   const width = formData.get('width') as string
   const height = formData.get('height') as string
   const lowStockThreshold = formData.get('lowStockThreshold') as string
+  const hsCode = (formData.get('hsCode') as string)?.trim()
+  const countryOfOrigin = (formData.get('countryOfOrigin') as string)?.trim()
+  const customsValue = (formData.get('customsValue') as string)?.trim()
 
   if (!sku || sku.trim() === '') {
     errors.sku = ['SKU is required']
@@ -60,9 +80,35 @@ function validateProductData(formData: FormData): ProductFormState['errors'] {
     errors.lowStockThreshold = ['Low stock threshold must be a valid positive number']
   }
 
+  if (hsCode && !normalizeHsCode(hsCode)) {
+    errors.hsCode = ['HS code must be 6 to 10 digits']
+  }
+
+  if (countryOfOrigin && !normalizeCountryCode(countryOfOrigin)) {
+    errors.countryOfOrigin = ['Country of origin must be a two-letter code, e.g. CN']
+  }
+
+  if (customsValue && (isNaN(parseFloat(customsValue)) || parseFloat(customsValue) < 0)) {
+    errors.customsValue = ['Customs value must be a valid positive number']
+  }
+
   return Object.keys(errors).length > 0 ? errors : undefined
 }
 
+// Customs fields as stored, once validateProductData has passed them
+function readCustomsFields(formData: FormData) {
+  const hsCode = (formData.get('hsCode') as string)?.trim()
+  const countryOfOrigin = (formData.get('countryOfOrigin') as string)?.trim()
+  const customsValue = (formData.get('customsValue') as string)?.trim()
+
+  return {
+    hsCode: hsCode ? normalizeHsCode(hsCode) : null,
+    countryOfOrigin: countryOfOrigin ? normalizeCountryCode(countryOfOrigin) : null,
+    customsValue: customsValue ? new Prisma.Decimal(parseFloat(customsValue)) : null,
+    customsDescription: (formData.get('customsDescription') as string)?.trim() || null,
+  }
+}
+
 export async function createProduct(
   _prevState: ProductFormState,
   formData: FormData
@@ -82,6 +128,7 @@ export async function createProduct(
   const height = parseFloat(formData.get('height') as string)
   const lowStockThreshold = parseInt(formData.get('lowStockThreshold') as string) || 10
   const imageUrl = (formData.get('imageUrl') as string)?.trim() || null
+  const customs = readCustomsFields(formData)
 
   try {
     await prisma.product.create({
@@ -96,6 +143,7 @@ export async function createProduct(
         height: new Prisma.Decimal(height),
         lowStockThreshold,
         imageUrl,
+        ...customs,
       },
     })
   } catch (error) {
@@ -138,6 +186,7 @@ export async function updateProduct(
   const height = parseFloat(formData.get('height') as string)
   const lowStockThreshold = parseInt(formData.get('lowStockThreshold') as string) || 10
   const imageUrl = (formData.get('imageUrl') as string)?.trim() || null
+  const customs = readCustomsFields(formData)
 
   try {
     await prisma.product.update({
@@ -153,6 +202,7 @@ export async function updateProduct(
         height: new Prisma.Decimal(height),
         lowStockThreshold,
         imageUrl,
+        ...customs,
       },
     })
   } catch (error) {
@@ -187,13 +237,17 @@ export async function updateProduct(
 export type ReceiveStockState = {
   errors?: {
     productId?: string[]
+    locationId?: string[]
     quantity?: string[]
+    purchaseOrderLineId?: string[]
     _form?: string[]
   }
   success?: {
     productName: string
     quantity: number
     newStock: number
+    locationCode: string
+    poNumber?: string
   }
 }
 
@@ -224,6 +278,11 @@ export async function searchProducts(query: string) {
   return products
 }
 
+// Open purchase order lines the product can be received against
+export async function getPurchaseOrderLines(productId: string) {
+  return getReceivableLines(productId)
+}
+
 export async function getRecentReceives() {
   const transactions = await prisma.inventoryTransaction.findMany({
     where: { type: 'RECEIVED' },
@@ -233,9 +292,15 @@ export async function getRecentReceives() {
       product: {
         select: { sku: true, name: true },
       },
+      location: {
+        select: { code: true },
+      },
       user: {
         select: { name: true },
       },
+      purchaseOrderLine: {
+        select: { purchaseOrder: { select: { poNumber: true } } },
+      },
     },
   })
 
@@ -243,6 +308,10 @@ export async function getRecentReceives() {
     id: t.id,
     productSku: t.product.sku,
     productName: t.product.name,
+    locationCode: t.location?.code ?? null,
+    poNumber: t.purchaseOrderLine
+      ? formatPurchaseOrderNumber(t.purchaseOrderLine.purchaseOrder.poNumber)
+      : null,
     quantity: t.quantity,
     receivedBy: t.user.name,
     createdAt: t.createdAt.toISOString(),
@@ -255,8 +324,11 @@ export async function receiveStock(
   formData: FormData
 ): Promise<ReceiveStockState> {
   const productId = formData.get('productId') as string
+  const locationId = formData.get('locationId') as string
   const quantityStr = formData.get('quantity') as string
   const notes = (formData.get('notes') as string)?.trim() || null
+  const purchaseOrderLineId = (formData.get('purchaseOrderLineId') as string) || null
+  const acceptOverReceipt = formData.get('acceptOverReceipt') === 'on'
 
   const errors: ReceiveStockState['errors'] = {}
 
@@ -264,6 +336,10 @@ export async function receiveStock(
     errors.productId = ['Please select a product']
   }
 
+  if (!locationId) {
+    errors.locationId = ['Please select the bin the units went into']
+  }
+
   const quantity = parseInt(quantityStr)
   if (!quantityStr || isNaN(quantity) || quantity <= 0) {
     errors.quantity = ['Please enter a valid quantity greater than 0']
@@ -275,37 +351,100 @@ export async function receiveStock(
 
   try {
     const result = await prisma.$transaction(async (tx) => {
-      // Create the inventory transaction
-      await tx.inventoryTransaction.create({
-        data: {
-          productId,
-          quantity,
-          type: 'RECEIVED',
-          notes,
-          userId,
-        },
+      const product = await tx.product.findUnique({
+        where: { id: productId },
+        select: { name: true },
       })
 
-      // Update the product stock
-      const updatedProduct = await tx.product.update({
-        where: { id: productId },
-        data: {
-          currentStock: { increment: quantity },
-        },
-        select: { name: true, currentStock: true },
+      if (!product) {
+        throw new Error('Product not found')
+      }
+
+      const location = await tx.location.findUnique({
+        where: { id: locationId },
+        select: { code: true, warehouseId: true },
       })
 
-      return updatedProduct
+      if (!location) {
+        throw new Error('Location not found')
+      }
+
+      // Book the units against the PO line before they go in the bin
+      let poNumber: string | undefined
+      if (purchaseOrderLineId) {
+        const line = await tx.purchaseOrderLine.findUnique({
+          where: { id: purchaseOrderLineId },
+          select: { productId: true, purchaseOrder: { select: { warehouseId: true } } },
+        })
+        if (!line || line.productId !== productId) {
+          throw new PurchaseOrderReceiptError('This purchase order line is for a different product')
+        }
+        if (line.purchaseOrder.warehouseId !== location.warehouseId) {
+          throw new PurchaseOrderReceiptError(
+            'This purchase order is for another warehouse. Choose a bin there.'
+          )
+        }
+
+        const receipt = await recordPurchaseOrderReceipt(tx, {
+          lineId: purchaseOrderLineId,
+          quantity,
+          acceptOverReceipt,
+        })
+        poNumber = receipt.poNumber
+      }
+
+      // Put the units in the bin and record the inventory transaction
+      const { currentStock } = await changeLocationStock(tx, {
+        productId,
+        locationId,
+        quantity,
+        type: 'RECEIVED',
+        notes: notes ?? (poNumber ? `Received on ${poNumber}` : null),
+        userId,
+        purchaseOrderLineId,
+      })
+
+      return { name: product.name, currentStock, locationCode: location.code, poNumber }
     })
 
+    if (result.poNumber) {
+      revalidatePath('/inventory/purchase-orders')
+    }
+
     return {
       success: {
         productName: result.name,
         quantity,
         newStock: result.currentStock,
+        locationCode: result.locationCode,
+        poNumber: result.poNumber,
       },
     }
   } catch (error) {
+    if (error instanceof OverReceiptError) {
+      return {
+        errors: {
+          quantity: [error.message],
+        },
+      }
+    }
+    if (error instanceof PurchaseOrderReceiptError) {
+      return {
+        errors: {
+          purchaseOrderLineId: [error.message],
+        },
+      }
+    }
+    if (
+      error instanceof Error &&
+      (error.message === 'Product not found' || error.message === 'Location not found')
+    ) {
+      return {
+        errors: {
+          _form: [error.message],
+        },
+      }
+    }
     if (error instanceof Prisma.PrismaClientKnownRequestError) {
       if (error.code === 'P2025') {
         return {
@@ -327,15 +466,18 @@ export async function receiveStock(
 
 export type AdjustStockState = {
   errors?: {
+    locationId?: string[]
     newStock?: string[]
     notes?: string[]
     _form?: string[]
   }
   success?: {
     productName: string
+    locationCode: string
     previousStock: number
     newStock: number
     adjustment: number
+    totalStock: number
   }
 }
 
@@ -345,11 +487,16 @@ export async function adjustStock(
   _prevState: AdjustStockState,
   formData: FormData
 ): Promise<AdjustStockState> {
+  const locationId = formData.get('locationId') as string
   const newStockStr = formData.get('newStock') as string
   const notes = (formData.get('notes') as string)?.trim()
 
   const errors: AdjustStockState['errors'] = {}
 
+  if (!locationId) {
+    errors.locationId = ['Please select the bin being counted']
+  }
+
   const newStock = parseInt(newStockStr)
   if (newStockStr === '' || isNaN(newStock) || newStock < 0) {
     errors.newStock = ['Please enter a valid stock count (0 or greater)']
@@ -365,7 +512,6 @@ export async function adjustStock(
 
   try {
     const result = await prisma.$transaction(async (tx) => {
-      // Get current stock
       const product = await tx.product.findUnique({
         where: { id: productId },
         select: { name: true, currentStock: true },
@@ -375,40 +521,64 @@ export async function adjustStock(
         throw new Error('Product not found')
       }
 
-      const adjustment = newStock - product.currentStock
+      const location = await tx.location.findUnique({
+        where: { id: locationId },
+        select: { code: true },
+      })
+
+      if (!location) {
+        throw new Error('Location not found')
+      }
+
+      // Get current stock in this bin
+      const binStock = await tx.locationStock.findUnique({
+        where: { productId_locationId: { productId, locationId } },
+        select: { quantity: true },
+      })
+
+      const previousStock = binStock?.quantity ?? 0
+      const adjustment = newStock - previousStock
+      let totalStock = product.currentStock
 
       // Only create transaction if there's actually a change
       if (adjustment !== 0) {
-        await tx.inventoryTransaction.create({
-          data: {
-            productId,
-            quantity: adjustment,
-            type: 'ADJUSTED',
-            notes,
-            userId,
-          },
-        })
-
-        await tx.product.update({
-          where: { id: productId },
-          data: { currentStock: newStock },
+        const updated = await changeLocationStock(tx, {
+          productId,
+          locationId,
+          quantity: adjustment,
+          type: 'ADJUSTED',
+          notes,
+          userId,
         })
+        totalStock = updated.currentStock
       }
 
       return {
         productName: product.name,
-        previousStock: product.currentStock,
+        locationCode: location.code,
+        previousStock,
         newStock,
         adjustment,
+        totalStock,
       }
     })
 
     return { success: result }
   } catch (error) {
-    if (error instanceof Error && error.message === 'Product not found') {
+    if (
+      error instanceof Error &&
+      (error.message === 'Product not found' || error.message === 'Location not found')
+    ) {
       return {
         errors: {
-          _form: ['Product not found'],
+          _form: [error.message],
+        },
+      }
+    }
+    if (error instanceof InsufficientStockError) {
+      return {
+        errors: {
+          _form: [error.message],
         },
       }
     }
@@ -428,3 +598,109 @@ export async function adjustStock(
     }
   }
 }
+
+// Location Types and Actions
+
+export type LocationFormState = {
+  errors?: {
+    warehouseId?: string[]
+    zone?: string[]
+    aisle?: string[]
+    shelf?: string[]
+    bin?: string[]
+    _form?: string[]
+  }
+  success?: {
+    code: string
+  }
+}
+
+export async function getLocations() {
+  const locations = await prisma.location.findMany({
+    where: { warehouse: { isActive: true } },
+    orderBy: [
+      { warehouse: { code: 'asc' } },
+      { zone: 'asc' },
+      { aisle: 'asc' },
+      { shelf: 'asc' },
+      { bin: 'asc' },
+    ],
+    select: {
+      id: true,
+      code: true,
+      warehouseId: true,
+      warehouse: { select: { code: true } },
+    },
+  })
+
+  return locations.map((location) => ({
+    id: location.id,
+    code: location.code,
+    warehouseId: location.warehouseId,
+    warehouseCode: location.warehouse.code,
+  }))
+}
+
+export async function createLocation(
+  _prevState: LocationFormState,
+  formData: FormData
+): Promise<LocationFormState> {
+  const warehouseId = formData.get('warehouseId') as string
+  const zone = (formData.get('zone') as string)?.trim().toUpperCase()
+  const aisle = (formData.get('aisle') as string)?.trim().toUpperCase()
+  const shelf = (formData.get('shelf') as string)?.trim().toUpperCase()
+  const bin = (formData.get('bin') as string)?.trim().toUpperCase()
+
+  const errors: LocationFormState['errors'] = {}
+
+  if (!warehouseId) {
+    errors.warehouseId = ['Warehouse is required']
+  }
+
+  if (!zone) {
+    errors.zone = ['Zone is required']
+  }
+
+  if (!aisle) {
+    errors.aisle = ['Aisle is required']
+  }
+
+  if (!shelf) {
+    errors.shelf = ['Shelf is required']
+  }
+
+  if (!bin) {
+    errors.bin = ['Bin is required']
+  }
+
+  if (Object.keys(errors).length > 0) {
+    return { errors }
+  }
+
+  const code = formatLocationCode({ zone, aisle, shelf, bin })
+
+  try {
+    await prisma.location.create({
+      data: { warehouseId, code, zone, aisle, shelf, bin },
+    })
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError) {
+      if (error.code === 'P2002') {
+        return {
+          errors: {
+            _form: [`Location ${code} already exists in this warehouse`],
+          },
+        }
+      }
+    }
+    return {
+      errors: {
+        _form: ['An error occurred while creating the location. Please try again.'],
+      },
+    }
+  }
+
+  revalidatePath('/inventory/locations')
+
+  return { success: { code } }
+}
@@ -0,0 +1,41 @@
+import { prisma } from '@/src/lib/db'
+import { LocationsManager } from '@/src/components/LocationsManager'
+
+export default async function LocationsPage() {
+  const warehouses = await prisma.warehouse.findMany({
+    where: { isActive: true },
+    orderBy: [{ isDefault: 'desc' }, { name: 'asc' }],
+    select: { id: true, code: true, name: true },
+  })
+
+  const locations = await prisma.location.findMany({
+    orderBy: [
+      { warehouse: { code: 'asc' } },
+      { zone: 'asc' },
+      { aisle: 'asc' },
+      { shelf: 'asc' },
+      { bin: 'asc' },
+    ],
+    include: {
+      warehouse: { select: { code: true } },
+      stock: {
+        where: { quantity: { gt: 0 } },
+        select: { quantity: true },
+      },
+    },
+  })
+
+  const locationsData = locations.map((location) => ({
+    id: location.id,
+    code: location.code,
+    warehouseCode: location.warehouse.code,
+    zone: location.zone,
+    aisle: location.aisle,
+    shelf: location.shelf,
+    bin: location.bin,
+    productCount: location.stock.length,
+    unitCount: location.stock.reduce((sum, s) => sum + s.quantity, 0),
+  }))
+
+  return <LocationsManager locations={locationsData} warehouses={warehouses} />
+}
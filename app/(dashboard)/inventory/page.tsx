@@ -1,5 +1,6 @@
 import { prisma } from '@/src/lib/db'
 import { ProductsTable } from '@/src/components/ProductsTable'
+import { getStockLevels } from '@/src/lib/inventory'
 
 export default async function InventoryPage() {
   const products = await prisma.product.findMany({
@@ -9,13 +10,15 @@ export default async function InventoryPage() {
       sku: true,
       name: true,
       currentStock: true,
+      allocatedStock: true,
       lowStockThreshold: true,
       weight: true,
     },
   })
 
-  const formattedProducts = products.map((product) => ({
+  const formattedProducts = products.map(({ currentStock, allocatedStock, ...product }) => ({
     ...product,
+    ...getStockLevels({ currentStock, allocatedStock }),
     weight: product.weight.toString(),
   }))
 
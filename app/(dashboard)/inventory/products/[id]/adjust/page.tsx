@@ -2,6 +2,7 @@ import { notFound, redirect } from 'next/navigation'
 import { auth } from '@/src/lib/auth'
 import { prisma } from '@/src/lib/db'
 import { AdjustStockForm } from '@/src/components/AdjustStockForm'
+import { getLocations } from '../../../actions'
 
 interface AdjustStockPageProps {
   params: Promise<{ id: string }>
@@ -23,6 +24,15 @@ export default async function AdjustStockPage({ params }: AdjustStockPageProps)
       sku: true,
       name: true,
       currentStock: true,
+      locationStock: {
+        where: { quantity: { gt: 0 } },
+        select: {
+          locationId: true,
+          quantity: true,
+          location: { select: { code: true } },
+        },
+        orderBy: { location: { code: 'asc' } },
+      },
     },
   })
 
@@ -30,9 +40,24 @@ export default async function AdjustStockPage({ params }: AdjustStockPageProps)
     notFound()
   }
 
+  const locations = await getLocations()
+
+  const productData = {
+    id: product.id,
+    sku: product.sku,
+    name: product.name,
+    currentStock: product.currentStock,
+    bins: product.locationStock.map((ls) => ({
+      locationId: ls.locationId,
+      code: ls.location.code,
+      quantity: ls.quantity,
+    })),
+  }
+
   return (
     <AdjustStockForm
-      product={product}
+      product={productData}
+      locations={locations}
       userId={session.user.id}
     />
   )
@@ -3,7 +3,8 @@ import Link from 'next/link'
 import { prisma } from '@/src/lib/db'
 import { ProductForm } from '@/src/components/ProductForm'
 import { updateProduct } from '../../actions'
-import { Package, ArrowLeftRight } from 'lucide-react'
+import { getStockLevels } from '@/src/lib/inventory'
+import { Package, ArrowLeftRight, MapPin } from 'lucide-react'
 
 interface EditProductPageProps {
   params: Promise<{ id: string }>
@@ -26,7 +27,21 @@ export default async function EditProductPage({ params }: EditProductPageProps)
       height: true,
       lowStockThreshold: true,
       imageUrl: true,
+      hsCode: true,
+      countryOfOrigin: true,
+      customsValue: true,
+      customsDescription: true,
       currentStock: true,
+      allocatedStock: true,
+      locationStock: {
+        where: { quantity: { gt: 0 } },
+        select: {
+          id: true,
+          quantity: true,
+          location: { select: { code: true, warehouse: { select: { name: true } } } },
+        },
+        orderBy: [{ location: { warehouse: { code: 'asc' } } }, { location: { code: 'asc' } }],
+      },
     },
   })
 
@@ -34,18 +49,25 @@ export default async function EditProductPage({ params }: EditProductPageProps)
     notFound()
   }
 
+  const { locationStock, allocatedStock, ...productFields } = product
+
   const productData = {
-    ...product,
+    ...productFields,
     weight: product.weight.toString(),
     length: product.length.toString(),
     width: product.width.toString(),
     height: product.height.toString(),
+    customsValue: product.customsValue?.toString() ?? null,
   }
 
   const boundUpdateProduct = updateProduct.bind(null, product.id)
 
-  const isLowStock = product.currentStock <= product.lowStockThreshold
-  const isOutOfStock = product.currentStock === 0
+  const { onHand, allocated, available } = getStockLevels({
+    currentStock: product.currentStock,
+    allocatedStock,
+  })
+  const isLowStock = available <= product.lowStockThreshold
+  const isOutOfStock = available <= 0
 
   return (
     <div>
@@ -57,9 +79,17 @@ export default async function EditProductPage({ params }: EditProductPageProps)
               <Package className={`h-6 w-6 ${isOutOfStock ? 'text-red-600' : isLowStock ? 'text-amber-600' : 'text-green-600'}`} />
             </div>
             <div>
-              <p className="text-sm text-gray-500">Current Stock</p>
+              <p className="text-sm text-gray-500">Available</p>
               <p className={`text-3xl font-bold ${isOutOfStock ? 'text-red-600' : isLowStock ? 'text-amber-600' : 'text-gray-900'}`}>
-                {product.currentStock}
+                {available}
+              </p>
+            </div>
+            <div className="pl-4 border-l border-gray-200 text-sm text-gray-500">
+              <p>
+                On hand: <span className="font-semibold text-gray-900">{onHand}</span>
+              </p>
+              <p>
+                Allocated: <span className="font-semibold text-gray-900">{allocated}</span>
               </p>
             </div>
           </div>
@@ -78,8 +108,52 @@ export default async function EditProductPage({ params }: EditProductPageProps)
         )}
         {isOutOfStock && (
           <p className="mt-3 text-sm text-red-600">
-            ⚠ This product is out of stock
+            ⚠ No stock available for new orders
+          </p>
+        )}
+      </div>
+
+      {/* Stock by Location */}
+      <div className="mb-6 bg-white rounded-xl shadow-sm border border-gray-200 max-w-3xl">
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center gap-2">
+          <MapPin className="h-5 w-5 text-gray-400" />
+          <h2 className="font-semibold text-gray-900">Stock by Location</h2>
+        </div>
+        {locationStock.length === 0 ? (
+          <p className="px-6 py-6 text-sm text-gray-500">
+            Not stocked in any bin.
           </p>
+        ) : (
+          <table className="w-full">
+            <thead>
+              <tr className="bg-gray-50 border-b border-gray-200">
+                <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">
+                  Warehouse
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">
+                  Bin
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium uppercase tracking-wider text-gray-500">
+                  Quantity
+                </th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {locationStock.map((ls) => (
+                <tr key={ls.id}>
+                  <td className="px-6 py-3 text-sm text-gray-600">
+                    {ls.location.warehouse.name}
+                  </td>
+                  <td className="px-6 py-3 text-sm font-mono text-gray-900">
+                    {ls.location.code}
+                  </td>
+                  <td className="px-6 py-3 text-sm text-right font-semibold text-gray-900">
+                    {ls.quantity}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
         )}
       </div>
 
@@ -0,0 +1,78 @@
+import { notFound } from 'next/navigation'
+import { prisma } from '@/src/lib/db'
+import { formatPurchaseOrderNumber } from '@/src/lib/purchasing'
+import { PurchaseOrderDetail } from '@/src/components/purchasing/PurchaseOrderDetail'
+
+interface PageProps {
+  params: Promise<{
+    id: string
+  }>
+}
+
+export default async function PurchaseOrderPage({ params }: PageProps) {
+  const { id } = await params
+
+  const po = await prisma.purchaseOrder.findUnique({
+    where: { id },
+    include: {
+      supplier: { select: { name: true } },
+      warehouse: { select: { name: true } },
+      createdBy: { select: { name: true } },
+      lines: {
+        orderBy: { product: { sku: 'asc' } },
+        include: {
+          product: { select: { sku: true, name: true } },
+          inventoryTransactions: {
+            orderBy: { createdAt: 'desc' },
+            include: {
+              location: { select: { code: true } },
+              user: { select: { name: true } },
+            },
+          },
+        },
+      },
+    },
+  })
+
+  if (!po) {
+    notFound()
+  }
+
+  const receipts = po.lines
+    .flatMap((line) =>
+      line.inventoryTransactions.map((transaction) => ({
+        id: transaction.id,
+        sku: line.product.sku,
+        locationCode: transaction.location?.code ?? null,
+        quantity: transaction.quantity,
+        receivedBy: transaction.user.name,
+        createdAt: transaction.createdAt.toISOString(),
+      }))
+    )
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+
+  const poData = {
+    id: po.id,
+    number: formatPurchaseOrderNumber(po.poNumber),
+    status: po.status,
+    supplierName: po.supplier.name,
+    warehouseName: po.warehouse.name,
+    currency: po.currency,
+    expectedAt: po.expectedAt?.toISOString() ?? null,
+    notes: po.notes,
+    createdBy: po.createdBy.name,
+    createdAt: po.createdAt.toISOString(),
+    closedAt: po.closedAt?.toISOString() ?? null,
+    lines: po.lines.map((line) => ({
+      id: line.id,
+      sku: line.product.sku,
+      name: line.product.name,
+      quantityOrdered: line.quantityOrdered,
+      quantityReceived: line.quantityReceived,
+      unitCost: line.unitCost.toString(),
+    })),
+    receipts,
+  }
+
+  return <PurchaseOrderDetail po={poData} />
+}
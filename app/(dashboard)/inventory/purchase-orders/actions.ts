@@ -0,0 +1,42 @@
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import { auth } from '@/src/lib/auth'
+import {
+  closePurchaseOrder,
+  createPurchaseOrder,
+  type PurchaseOrderInput,
+} from '@/src/lib/purchasing'
+
+export async function placePurchaseOrder(input: PurchaseOrderInput) {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return { success: false, error: 'Unauthorized' }
+  }
+
+  const { purchaseOrderId, error } = await createPurchaseOrder(input, session.user.id)
+  if (error || !purchaseOrderId) {
+    return { success: false, error }
+  }
+
+  revalidatePath('/inventory/purchase-orders')
+
+  return { success: true, purchaseOrderId }
+}
+
+export async function closePurchaseOrderShort(purchaseOrderId: string) {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return { success: false, error: 'Unauthorized' }
+  }
+
+  const { error } = await closePurchaseOrder(purchaseOrderId)
+  if (error) {
+    return { success: false, error }
+  }
+
+  revalidatePath(`/inventory/purchase-orders/${purchaseOrderId}`)
+  revalidatePath('/inventory/purchase-orders')
+
+  return { success: true }
+}
@@ -0,0 +1,139 @@
+import Link from 'next/link'
+import { ArrowLeft, CheckCircle } from 'lucide-react'
+import { getDiscrepancies } from '@/src/lib/purchasing'
+
+const kindConfig = {
+  OVER: { label: 'Over', className: 'bg-orange-100 text-orange-800' },
+  SHORT: { label: 'Closed short', className: 'bg-red-100 text-red-800' },
+  LATE: { label: 'Late', className: 'bg-yellow-100 text-yellow-800' },
+}
+
+export default async function PurchaseOrderDiscrepanciesPage() {
+  const discrepancies = await getDiscrepancies()
+
+  // Expected dates are calendar days, stored at midnight UTC
+  const formatExpected = (dateStr: string) => {
+    return new Date(dateStr).toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
+      timeZone: 'UTC',
+    })
+  }
+
+  const formatMoney = (amount: number, currency: string) => {
+    return amount.toLocaleString('en-US', { style: 'currency', currency, signDisplay: 'exceptZero' })
+  }
+
+  return (
+    <div>
+      <Link
+        href="/inventory/purchase-orders"
+        className="inline-flex items-center gap-2 text-sm text-gray-600 hover:text-gray-900 mb-4"
+      >
+        <ArrowLeft className="h-4 w-4" />
+        Back to Purchase Orders
+      </Link>
+
+      {/* Header */}
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold text-gray-900">Receiving Discrepancies</h1>
+        <p className="mt-1 text-sm text-gray-500">
+          PO lines received over what was ordered, closed short, or still short after their
+          expected date
+        </p>
+      </div>
+
+      <div className="overflow-hidden rounded-xl border border-gray-200 bg-white shadow-sm">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-gray-200 bg-gray-50">
+                <th className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">
+                  PO
+                </th>
+                <th className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">
+                  Issue
+                </th>
+                <th className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">
+                  Product
+                </th>
+                <th className="px-4 py-3 text-right text-xs font-medium uppercase tracking-wider text-gray-500">
+                  Ordered
+                </th>
+                <th className="px-4 py-3 text-right text-xs font-medium uppercase tracking-wider text-gray-500">
+                  Received
+                </th>
+                <th className="px-4 py-3 text-right text-xs font-medium uppercase tracking-wider text-gray-500">
+                  Variance
+                </th>
+                <th className="hidden px-4 py-3 text-right text-xs font-medium uppercase tracking-wider text-gray-500 sm:table-cell">
+                  Value
+                </th>
+                <th className="hidden px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500 md:table-cell">
+                  Expected
+                </th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {discrepancies.length === 0 ? (
+                <tr>
+                  <td colSpan={8} className="px-4 py-12 text-center">
+                    <CheckCircle className="mx-auto h-10 w-10 text-gray-300" />
+                    <p className="mt-3 text-sm text-gray-500">
+                      Every purchase order was received as ordered.
+                    </p>
+                  </td>
+                </tr>
+              ) : (
+                discrepancies.map((discrepancy) => {
+                  const kind = kindConfig[discrepancy.kind]
+
+                  return (
+                    <tr key={discrepancy.lineId} className="hover:bg-gray-50 transition-colors">
+                      <td className="px-4 py-3">
+                        <Link
+                          href={`/inventory/purchase-orders/${discrepancy.purchaseOrderId}`}
+                          className="font-medium text-blue-600 hover:text-blue-800"
+                        >
+                          {discrepancy.poNumber}
+                        </Link>
+                        <p className="text-sm text-gray-500">{discrepancy.supplierName}</p>
+                      </td>
+                      <td className="px-4 py-3">
+                        <span
+                          className={`inline-flex rounded-full px-2.5 py-0.5 text-xs font-medium ${kind.className}`}
+                        >
+                          {kind.label}
+                        </span>
+                      </td>
+                      <td className="px-4 py-3">
+                        <p className="text-sm font-medium text-gray-900">{discrepancy.productName}</p>
+                        <p className="font-mono text-xs text-gray-500">{discrepancy.sku}</p>
+                      </td>
+                      <td className="px-4 py-3 text-right text-sm text-gray-700">
+                        {discrepancy.quantityOrdered}
+                      </td>
+                      <td className="px-4 py-3 text-right text-sm text-gray-700">
+                        {discrepancy.quantityReceived}
+                      </td>
+                      <td className="px-4 py-3 text-right text-sm font-semibold text-gray-900">
+                        {discrepancy.variance > 0 ? `+${discrepancy.variance}` : discrepancy.variance}
+                      </td>
+                      <td className="hidden px-4 py-3 text-right text-sm text-gray-700 sm:table-cell">
+                        {formatMoney(discrepancy.costVariance, discrepancy.currency)}
+                      </td>
+                      <td className="hidden px-4 py-3 text-sm text-gray-600 md:table-cell">
+                        {discrepancy.expectedAt ? formatExpected(discrepancy.expectedAt) : '—'}
+                      </td>
+                    </tr>
+                  )
+                })
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,19 @@
+import { prisma } from '@/src/lib/db'
+import { PurchaseOrderForm } from '@/src/components/purchasing/PurchaseOrderForm'
+
+export default async function NewPurchaseOrderPage() {
+  const [suppliers, warehouses] = await Promise.all([
+    prisma.supplier.findMany({
+      where: { isActive: true },
+      orderBy: { name: 'asc' },
+      select: { id: true, name: true },
+    }),
+    prisma.warehouse.findMany({
+      where: { isActive: true },
+      orderBy: [{ isDefault: 'desc' }, { name: 'asc' }],
+      select: { id: true, code: true, name: true },
+    }),
+  ])
+
+  return <PurchaseOrderForm suppliers={suppliers} warehouses={warehouses} />
+}
@@ -0,0 +1,152 @@
+import Link from 'next/link'
+import { prisma } from '@/src/lib/db'
+import { ClipboardCheck, Plus, AlertTriangle, Factory } from 'lucide-react'
+import { formatPurchaseOrderNumber } from '@/src/lib/purchasing'
+
+const statusConfig = {
+  OPEN: { label: 'Open', className: 'bg-yellow-100 text-yellow-800' },
+  PARTIAL: { label: 'Partial', className: 'bg-blue-100 text-blue-800' },
+  CLOSED: { label: 'Closed', className: 'bg-gray-100 text-gray-800' },
+}
+
+export default async function PurchaseOrdersPage() {
+  const purchaseOrders = await prisma.purchaseOrder.findMany({
+    orderBy: [{ status: 'asc' }, { createdAt: 'desc' }],
+    take: 100,
+    include: {
+      supplier: { select: { name: true } },
+      warehouse: { select: { code: true } },
+      createdBy: { select: { name: true } },
+      lines: { select: { quantityOrdered: true, quantityReceived: true } },
+    },
+  })
+
+  const formatDate = (date: Date) => {
+    return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })
+  }
+
+  // Expected dates are calendar days, stored at midnight UTC
+  const formatExpected = (date: Date) => {
+    return date.toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
+      timeZone: 'UTC',
+    })
+  }
+
+  return (
+    <div>
+      {/* Header */}
+      <div className="mb-6 flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Purchase Orders</h1>
+          <p className="mt-1 text-sm text-gray-500">
+            Stock ordered from suppliers. Receive against a PO line from the Receiving page.
+          </p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <Link
+            href="/inventory/suppliers"
+            className="inline-flex items-center gap-2 px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+          >
+            <Factory className="h-4 w-4" />
+            Suppliers
+          </Link>
+          <Link
+            href="/inventory/purchase-orders/discrepancies"
+            className="inline-flex items-center gap-2 px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+          >
+            <AlertTriangle className="h-4 w-4" />
+            Discrepancies
+          </Link>
+          <Link
+            href="/inventory/purchase-orders/new"
+            className="inline-flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            <Plus className="h-4 w-4" />
+            New Purchase Order
+          </Link>
+        </div>
+      </div>
+
+      <div className="overflow-hidden rounded-xl border border-gray-200 bg-white shadow-sm">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-gray-200 bg-gray-50">
+                <th className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">
+                  PO
+                </th>
+                <th className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">
+                  Status
+                </th>
+                <th className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">
+                  Supplier
+                </th>
+                <th className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">
+                  Received
+                </th>
+                <th className="hidden px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500 sm:table-cell">
+                  Expected
+                </th>
+                <th className="hidden px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500 md:table-cell">
+                  Created
+                </th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {purchaseOrders.length === 0 ? (
+                <tr>
+                  <td colSpan={6} className="px-4 py-12 text-center">
+                    <ClipboardCheck className="mx-auto h-10 w-10 text-gray-300" />
+                    <p className="mt-3 text-sm text-gray-500">No purchase orders yet.</p>
+                  </td>
+                </tr>
+              ) : (
+                purchaseOrders.map((po) => {
+                  const status = statusConfig[po.status]
+                  const ordered = po.lines.reduce((sum, line) => sum + line.quantityOrdered, 0)
+                  const received = po.lines.reduce((sum, line) => sum + line.quantityReceived, 0)
+
+                  return (
+                    <tr key={po.id} className="hover:bg-gray-50 transition-colors">
+                      <td className="px-4 py-3">
+                        <Link
+                          href={`/inventory/purchase-orders/${po.id}`}
+                          className="font-medium text-blue-600 hover:text-blue-800"
+                        >
+                          {formatPurchaseOrderNumber(po.poNumber)}
+                        </Link>
+                      </td>
+                      <td className="px-4 py-3">
+                        <span
+                          className={`inline-flex rounded-full px-2.5 py-0.5 text-xs font-medium ${status.className}`}
+                        >
+                          {status.label}
+                        </span>
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-700">
+                        {po.supplier.name}
+                        <span className="text-gray-500"> · {po.warehouse.code}</span>
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-700">
+                        {received} of {ordered}
+                      </td>
+                      <td className="hidden px-4 py-3 text-sm text-gray-600 sm:table-cell">
+                        {po.expectedAt ? formatExpected(po.expectedAt) : '—'}
+                      </td>
+                      <td className="hidden px-4 py-3 text-sm text-gray-600 md:table-cell">
+                        {formatDate(po.createdAt)} by {po.createdBy.name}
+                      </td>
+                    </tr>
+                  )
+                })
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -1,21 +1,47 @@
 import { auth } from '@/src/lib/auth'
 import { redirect } from 'next/navigation'
+import { prisma } from '@/src/lib/db'
 import { ReceiveStockForm } from '@/src/components/ReceiveStockForm'
-import { getRecentReceives } from '../actions'
+import { getLocations, getRecentReceives } from '../actions'
 
-export default async function ReceiveStockPage() {
+interface PageProps {
+  searchParams: Promise<{
+    line?: string
+  }>
+}
+
+export default async function ReceiveStockPage({ searchParams }: PageProps) {
   const session = await auth()
 
   if (!session?.user) {
     redirect('/login')
   }
 
-  const recentReceives = await getRecentReceives()
+  const { line: lineId } = await searchParams
+
+  const [locations, recentReceives, line] = await Promise.all([
+    getLocations(),
+    getRecentReceives(),
+    lineId
+      ? prisma.purchaseOrderLine.findUnique({
+          where: { id: lineId },
+          select: {
+            id: true,
+            product: {
+              select: { id: true, sku: true, name: true, currentStock: true, imageUrl: true },
+            },
+          },
+        })
+      : null,
+  ])
 
   return (
     <ReceiveStockForm
       userId={session.user.id}
+      locations={locations}
       initialRecentReceives={recentReceives}
+      initialProduct={line?.product ?? null}
+      initialLineId={line?.id ?? null}
     />
   )
 }
@@ -0,0 +1,82 @@
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import { prisma } from '@/src/lib/db'
+import { auth } from '@/src/lib/auth'
+import { Prisma } from '@/app/generated/prisma/client'
+
+export type SupplierFormState = {
+  errors?: {
+    name?: string[]
+    email?: string[]
+    _form?: string[]
+  }
+  success?: {
+    name: string
+  }
+}
+
+export async function createSupplier(
+  _prevState: SupplierFormState,
+  formData: FormData
+): Promise<SupplierFormState> {
+  const name = (formData.get('name') as string)?.trim()
+  const contactName = (formData.get('contactName') as string)?.trim() || null
+  const email = (formData.get('email') as string)?.trim() || null
+  const phone = (formData.get('phone') as string)?.trim() || null
+
+  const errors: SupplierFormState['errors'] = {}
+
+  if (!name) {
+    errors.name = ['Name is required']
+  }
+
+  if (email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+    errors.email = ['Enter a valid email address']
+  }
+
+  if (Object.keys(errors).length > 0) {
+    return { errors }
+  }
+
+  try {
+    await prisma.supplier.create({
+      data: { name, contactName, email, phone },
+    })
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError) {
+      if (error.code === 'P2002') {
+        return {
+          errors: {
+            name: ['A supplier with this name already exists'],
+          },
+        }
+      }
+    }
+    return {
+      errors: {
+        _form: ['An error occurred while creating the supplier. Please try again.'],
+      },
+    }
+  }
+
+  revalidatePath('/inventory/suppliers')
+
+  return { success: { name } }
+}
+
+export async function setSupplierActive(supplierId: string, isActive: boolean) {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return { success: false, error: 'Unauthorized' }
+  }
+
+  await prisma.supplier.update({
+    where: { id: supplierId },
+    data: { isActive },
+  })
+
+  revalidatePath('/inventory/suppliers')
+
+  return { success: true }
+}
@@ -0,0 +1,26 @@
+import { prisma } from '@/src/lib/db'
+import { SuppliersManager } from '@/src/components/purchasing/SuppliersManager'
+
+export default async function SuppliersPage() {
+  const suppliers = await prisma.supplier.findMany({
+    orderBy: [{ isActive: 'desc' }, { name: 'asc' }],
+    include: {
+      purchaseOrders: {
+        where: { status: { not: 'CLOSED' } },
+        select: { id: true },
+      },
+    },
+  })
+
+  const suppliersData = suppliers.map((supplier) => ({
+    id: supplier.id,
+    name: supplier.name,
+    contactName: supplier.contactName,
+    email: supplier.email,
+    phone: supplier.phone,
+    isActive: supplier.isActive,
+    openOrderCount: supplier.purchaseOrders.length,
+  }))
+
+  return <SuppliersManager suppliers={suppliersData} />
+}
@@ -2,13 +2,27 @@
 
 import { prisma } from '@/src/lib/db'
 import { revalidatePath } from 'next/cache'
-import { OrderStatus, TransactionType } from '@/app/generated/prisma/client'
+import { OrderStatus } from '@/app/generated/prisma/client'
 import { Prisma } from '@/app/generated/prisma/client'
+import { syncOrderAllocation } from '@/src/lib/inventory'
+import { getOrderWarehouse, getWarehouseStock } from '@/src/lib/warehouses'
+import {
+  getReopenedStatus,
+  recordShipmentItems,
+  resolveShipmentLines,
+  type ShipmentLine,
+} from '@/src/lib/fulfillment'
+import { storeShipmentLabels } from '@/src/lib/label-documents'
+import { auth } from '@/src/lib/auth'
+import { changeOrderAddress, type AddressInput } from '@/src/lib/order-addresses'
 
 export async function updateOrderStatus(orderId: string, status: OrderStatus) {
-  await prisma.order.update({
-    where: { id: orderId },
-    data: { status },
+  await prisma.$transaction(async (tx) => {
+    await tx.order.update({
+      where: { id: orderId },
+      data: { status },
+    })
+    await syncOrderAllocation(tx, orderId)
   })
 
   revalidatePath(`/orders/${orderId}`)
@@ -27,10 +41,14 @@ export interface FulfillOrderInput {
   labelFormat?: string // e.g., 'PNG', 'GIF', 'ZPL'
   shipmentCost: number
   userId: string
+  items?: ShipmentLine[] // lines in this shipment, defaults to everything unshipped
 }
 
 export async function fulfillOrder(input: FulfillOrderInput) {
-  const { orderId, carrier, service, trackingNumber, labelUrl, labelData, labelFormat, shipmentCost, userId } = input
+  const { orderId, carrier, service, trackingNumber, labelUrl, labelData, labelFormat, shipmentCost, userId, items } = input
+
+  // Pick up any stock that arrived since the order was placed
+  await prisma.$transaction((tx) => syncOrderAllocation(tx, orderId))
 
   // Get the order with items
   const order = await prisma.order.findUnique({
@@ -56,16 +74,35 @@ export async function fulfillOrder(input: FulfillOrderInput) {
     return { success: false, error: 'Cannot ship a cancelled order' }
   }
 
-  // Check stock availability for all items
+  const warehouse = await getOrderWarehouse(order)
+  if (!warehouse) {
+    return { success: false, error: 'No warehouse configured' }
+  }
+
+  const { lines, error } = resolveShipmentLines(order.orderItems, items)
+  if (error) {
+    return { success: false, error }
+  }
+
+  // Check stock availability in the ship-from warehouse
   const stockIssues: string[] = []
-  for (const item of order.orderItems) {
+  for (const line of lines) {
+    const item = order.orderItems.find((i) => i.id === line.orderItemId)
+    if (!item) continue
     if (!item.product) {
       stockIssues.push(`${item.name} (${item.sku}): Product not in system`)
       continue
     }
-    if (item.product.currentStock < item.quantity) {
+    if (item.allocatedQuantity < line.quantity) {
+      stockIssues.push(
+        `${item.name} (${item.sku}): Need ${line.quantity}, only ${item.allocatedQuantity} reserved`
+      )
+      continue
+    }
+    const inWarehouse = await getWarehouseStock(item.product.id, warehouse.id)
+    if (inWarehouse < line.quantity) {
       stockIssues.push(
-        `${item.name} (${item.sku}): Need ${item.quantity}, only ${item.product.currentStock} in stock`
+        `${item.name} (${item.sku}): Need ${line.quantity}, only ${inWarehouse} in ${warehouse.name}`
       )
     }
   }
@@ -74,6 +111,10 @@ export async function fulfillOrder(input: FulfillOrderInput) {
     return { success: false, error: 'Stock issues: ' + stockIssues.join('; ') }
   }
 
+  const stored = labelData
+    ? await storeShipmentLabels({ format: labelFormat ?? null, lead: labelData, packages: [] })
+    : null
+
   // Use a transaction to ensure atomic operation
   const result = await prisma.$transaction(async (tx) => {
     // 1. Create the shipment
@@ -81,49 +122,30 @@ export async function fulfillOrder(input: FulfillOrderInput) {
       data: {
         orderId,
         carrier,
+        carrierMode: 'PRODUCTION', // entered by hand from a real label
         service,
         trackingNumber,
         labelUrl,
-        labelData,
+        labelKey: stored?.labelKey ?? null,
         labelFormat,
         shipmentCost: new Prisma.Decimal(shipmentCost),
         shippedByUserId: userId,
+        warehouseId: warehouse.id,
       },
     })
 
-    // 2. Decrement inventory for each item
-    for (const item of order.orderItems) {
-      if (!item.product) continue
-
-      // Decrement stock
-      await tx.product.update({
-        where: { id: item.product.id },
-        data: {
-          currentStock: {
-            decrement: item.quantity,
-          },
-        },
-      })
-
-      // Create inventory transaction record
-      await tx.inventoryTransaction.create({
-        data: {
-          productId: item.product.id,
-          quantity: -item.quantity,
-          type: TransactionType.SHIPPED,
-          notes: `Shipped for order ${order.orderNumber}`,
-          userId,
-        },
-      })
-    }
-
-    // 3. Update order status to SHIPPED
-    await tx.order.update({
-      where: { id: orderId },
-      data: { status: 'SHIPPED' },
+    // 2. Record the lines, take the units out of their bins and update the
+    //    order (SHIPPED once nothing is left, else PROCESSING)
+    const { fullyShipped } = await recordShipmentItems(tx, {
+      orderId,
+      shipmentId: shipment.id,
+      lines,
+      warehouseId: warehouse.id,
+      userId,
+      notes: `Shipped for order ${order.orderNumber}`,
     })
 
-    return shipment
+    return { ...shipment, fullyShipped }
   })
 
   revalidatePath(`/orders/${orderId}`)
@@ -137,13 +159,80 @@ export async function fulfillOrder(input: FulfillOrderInput) {
       trackingNumber: result.trackingNumber,
       labelUrl: result.labelUrl,
     },
+    fullyShipped: result.fullyShipped,
   }
 }
 
-export async function putOrderOnHold(orderId: string, reason?: string) {
+export async function assignOrderWarehouse(orderId: string, warehouseId: string) {
+  const order = await prisma.order.findUnique({
+    where: { id: orderId },
+    select: { status: true },
+  })
+
+  if (!order) {
+    return { success: false, error: 'Order not found' }
+  }
+
+  if (order.status === 'SHIPPED') {
+    return { success: false, error: 'Cannot change the warehouse of a shipped order' }
+  }
+
+  const warehouse = await prisma.warehouse.findUnique({
+    where: { id: warehouseId },
+    select: { isActive: true },
+  })
+
+  if (!warehouse?.isActive) {
+    return { success: false, error: 'Warehouse not found' }
+  }
+
   await prisma.order.update({
     where: { id: orderId },
-    data: { status: 'ON_HOLD' },
+    data: { warehouseId },
+  })
+
+  revalidatePath(`/orders/${orderId}`)
+  revalidatePath('/orders')
+
+  return { success: true }
+}
+
+export async function updateShippingAddress(
+  orderId: string,
+  address: AddressInput,
+  reason: string,
+  pushToShopify: boolean
+) {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return { success: false, error: 'Unauthorized' }
+  }
+
+  const result = await changeOrderAddress({
+    orderId,
+    address,
+    reason,
+    pushToShopify,
+    userId: session.user.id,
+  })
+  if (result.error) {
+    return { success: false, error: result.error }
+  }
+
+  revalidatePath(`/orders/${orderId}`)
+  revalidatePath('/orders')
+
+  // The address changed even if Shopify didn't take it
+  return { success: true, warning: result.shopifyError }
+}
+
+export async function putOrderOnHold(orderId: string, reason?: string) {
+  await prisma.$transaction(async (tx) => {
+    await tx.order.update({
+      where: { id: orderId },
+      data: { status: 'ON_HOLD' },
+    })
+    await syncOrderAllocation(tx, orderId)
   })
 
   revalidatePath(`/orders/${orderId}`)
@@ -165,9 +254,12 @@ export async function cancelOrder(orderId: string, reason?: string) {
     return { success: false, error: 'Cannot cancel a shipped order' }
   }
 
-  await prisma.order.update({
-    where: { id: orderId },
-    data: { status: 'CANCELLED' },
+  await prisma.$transaction(async (tx) => {
+    await tx.order.update({
+      where: { id: orderId },
+      data: { status: 'CANCELLED' },
+    })
+    await syncOrderAllocation(tx, orderId)
   })
 
   revalidatePath(`/orders/${orderId}`)
@@ -177,9 +269,12 @@ export async function cancelOrder(orderId: string, reason?: string) {
 }
 
 export async function resumeOrder(orderId: string) {
-  await prisma.order.update({
-    where: { id: orderId },
-    data: { status: 'PENDING' },
+  await prisma.$transaction(async (tx) => {
+    await tx.order.update({
+      where: { id: orderId },
+      data: { status: await getReopenedStatus(tx, orderId) },
+    })
+    await syncOrderAllocation(tx, orderId)
   })
 
   revalidatePath(`/orders/${orderId}`)
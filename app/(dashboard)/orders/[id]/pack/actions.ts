@@ -0,0 +1,64 @@
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import { auth } from '@/src/lib/auth'
+import {
+  finishPackVerification,
+  recordPackScan,
+  startPackVerification,
+} from '@/src/lib/packing'
+
+export async function scanPackItem(orderId: string, code: string) {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return { success: false, error: 'Unauthorized' }
+  }
+
+  if (!code.trim()) {
+    return { success: false, error: 'Nothing scanned' }
+  }
+
+  const { progress, error } = await recordPackScan(orderId, code, session.user.id)
+
+  if (progress.complete) {
+    revalidatePath(`/orders/${orderId}`)
+  }
+
+  return {
+    success: !error,
+    error,
+    lines: progress.lines,
+    complete: progress.complete,
+  }
+}
+
+export async function finishPacking(orderId: string) {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return { success: false, error: 'Unauthorized' }
+  }
+
+  const finished = await finishPackVerification(orderId)
+  if (!finished) {
+    return { success: false, error: 'Scan at least one item first' }
+  }
+
+  revalidatePath(`/orders/${orderId}`)
+  revalidatePath(`/orders/${orderId}/pack`)
+
+  return { success: true }
+}
+
+export async function restartPackVerification(orderId: string) {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return { success: false, error: 'Unauthorized' }
+  }
+
+  await startPackVerification(orderId, session.user.id)
+
+  revalidatePath(`/orders/${orderId}`)
+  revalidatePath(`/orders/${orderId}/pack`)
+
+  return { success: true }
+}
@@ -0,0 +1,58 @@
+import { notFound } from 'next/navigation'
+import { prisma } from '@/src/lib/db'
+import { getPackProgress } from '@/src/lib/packing'
+import { PackStation } from '@/src/components/orders/PackStation'
+
+interface PageProps {
+  params: Promise<{
+    id: string
+  }>
+}
+
+export default async function PackOrderPage({ params }: PageProps) {
+  const { id } = await params
+
+  const order = await prisma.order.findUnique({
+    where: { id },
+    select: { id: true, orderNumber: true, customerName: true, status: true },
+  })
+
+  if (!order) {
+    notFound()
+  }
+
+  const progress = await getPackProgress(order.id)
+
+  // Recent scans of the current pass, newest first
+  const scans = progress.verificationId
+    ? await prisma.packScan.findMany({
+        where: { verificationId: progress.verificationId },
+        orderBy: { createdAt: 'desc' },
+        take: 20,
+        select: { id: true, code: true, error: true, createdAt: true },
+      })
+    : []
+
+  const verification = progress.verificationId
+    ? await prisma.packVerification.findUnique({
+        where: { id: progress.verificationId },
+        select: { verifiedBy: { select: { name: true } } },
+      })
+    : null
+
+  return (
+    <PackStation
+      order={order}
+      lines={progress.lines}
+      complete={progress.complete}
+      verifiedBy={verification?.verifiedBy.name ?? null}
+      completedAt={progress.completedAt?.toISOString() ?? null}
+      recentScans={scans.map((s) => ({
+        id: s.id,
+        code: s.code,
+        error: s.error,
+        createdAt: s.createdAt.toISOString(),
+      }))}
+    />
+  )
+}
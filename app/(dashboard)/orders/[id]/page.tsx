@@ -1,6 +1,14 @@
 import { prisma } from '@/src/lib/db'
+import { auth } from '@/src/lib/auth'
 import { notFound } from 'next/navigation'
+import { after } from 'next/server'
 import { OrderFulfillment } from '@/src/components/orders/OrderFulfillment'
+import { getOrderWarehouse } from '@/src/lib/warehouses'
+import { getPackedLines } from '@/src/lib/packing'
+import { getUnshippedQuantity } from '@/src/lib/fulfillment'
+import { getActiveBoxes, planCartons } from '@/src/lib/cartonization'
+import { toAddressCheckView, validateOrderAddress } from '@/src/lib/address-validation'
+import { formatReturnNumber } from '@/src/lib/returns'
 
 interface PageProps {
   params: Promise<{
@@ -23,10 +31,21 @@ export default async function OrderDetailPage({ params }: PageProps) {
               sku: true,
               currentStock: true,
               weight: true,
+              length: true,
+              width: true,
+              height: true,
             },
           },
         },
       },
+      addressChanges: {
+        orderBy: { createdAt: 'desc' },
+        include: { changedBy: { select: { name: true } } },
+      },
+      returns: {
+        orderBy: { createdAt: 'desc' },
+        include: { items: { select: { quantity: true } } },
+      },
       shipments: {
         include: {
           shippedBy: {
@@ -35,6 +54,44 @@ export default async function OrderDetailPage({ params }: PageProps) {
               name: true,
             },
           },
+          voidedBy: {
+            select: {
+              name: true,
+            },
+          },
+          warehouse: {
+            select: {
+              name: true,
+            },
+          },
+          trackingEvents: {
+            orderBy: { occurredAt: 'desc' },
+            select: {
+              id: true,
+              status: true,
+              description: true,
+              location: true,
+              occurredAt: true,
+            },
+          },
+          packages: {
+            orderBy: { sequence: 'asc' },
+            select: {
+              sequence: true,
+              trackingNumber: true,
+              box: { select: { name: true } },
+            },
+          },
+          items: {
+            include: {
+              orderItem: {
+                select: {
+                  sku: true,
+                  name: true,
+                },
+              },
+            },
+          },
         },
         orderBy: {
           createdAt: 'desc',
@@ -47,6 +104,58 @@ export default async function OrderDetailPage({ params }: PageProps) {
     notFound()
   }
 
+  // Stock is checked against the warehouse the order ships from
+  const warehouse = await getOrderWarehouse(order)
+  const warehouses = await prisma.warehouse.findMany({
+    where: { isActive: true },
+    orderBy: [{ isDefault: 'desc' }, { name: 'asc' }],
+    select: { id: true, code: true, name: true },
+  })
+
+  const productIds = order.orderItems
+    .map((item) => item.productId)
+    .filter((id): id is string => !!id)
+  const warehouseStock = warehouse
+    ? await prisma.locationStock.groupBy({
+        by: ['productId'],
+        where: { productId: { in: productIds }, location: { warehouseId: warehouse.id } },
+        _sum: { quantity: true },
+      })
+    : []
+  const stockByProduct = new Map(
+    warehouseStock.map((s) => [s.productId, s._sum.quantity ?? 0])
+  )
+
+  // Units packed for the next shipment, if packing has been finished
+  const packed = await getPackedLines(order.id)
+  const packedUnits = packed?.lines.reduce((sum, line) => sum + line.quantity, 0) ?? 0
+
+  // Starting point for the package editor: catalog boxes for what's going out
+  const suggestedPackages = await planCartons(
+    order.orderItems.map((item) => ({
+      quantity: packed
+        ? packed.lines.find((line) => line.orderItemId === item.id)?.quantity ?? 0
+        : getUnshippedQuantity(item),
+      product: item.product,
+    }))
+  )
+  const boxes = await getActiveBoxes()
+
+  // Orders from before address validation, or whose check didn't run, are
+  // checked on first view. The carriers are called after the page is sent so
+  // a slow one can't hold it up; the result shows on the next load.
+  const addressCheck = toAddressCheckView(order)
+  if (
+    addressCheck.status === 'UNCHECKED' &&
+    (order.status === 'PENDING' || order.status === 'PROCESSING' || order.status === 'ON_HOLD')
+  ) {
+    after(() =>
+      validateOrderAddress(order.id).catch((error) => {
+        console.error('[Order] Address check failed:', error)
+      })
+    )
+  }
+
   // Calculate total weight for shipping
   let totalWeight = 0
   for (const item of order.orderItems) {
@@ -66,6 +175,8 @@ export default async function OrderDetailPage({ params }: PageProps) {
     totalPrice: order.totalPrice.toString(),
     currency: order.currency,
     createdAt: order.createdAt.toISOString(),
+    shippingMethod: order.shippingMethod,
+    giftNote: order.giftNote,
     shippingAddress: {
       address1: order.shippingAddress1,
       address2: order.shippingAddress2,
@@ -74,45 +185,125 @@ export default async function OrderDetailPage({ params }: PageProps) {
       zip: order.shippingZip,
       country: order.shippingCountry,
     },
+    addressCheck,
+    addressEdited: order.addressEditedAt !== null,
+    addressHistory: order.addressChanges.map((change) => ({
+      id: change.id,
+      address1: change.address1,
+      address2: change.address2,
+      city: change.city,
+      state: change.state,
+      zip: change.zip,
+      country: change.country,
+      reason: change.reason,
+      pushedToShopify: change.pushedToShopify,
+      changedBy: change.changedBy.name,
+      createdAt: change.createdAt.toISOString(),
+    })),
     items: order.orderItems.map((item) => ({
       id: item.id,
       productId: item.productId,
       sku: item.sku,
       name: item.name,
       quantity: item.quantity,
+      shippedQuantity: item.shippedQuantity,
       price: item.price.toString(),
-      currentStock: item.product?.currentStock ?? 0,
+      // Units this order can actually ship: reserved for it and on the shelf
+      currentStock: item.productId
+        ? Math.min(item.allocatedQuantity, stockByProduct.get(item.productId) ?? 0)
+        : 0,
       hasProduct: !!item.product,
     })),
+    returns: order.returns.map((r) => ({
+      id: r.id,
+      number: formatReturnNumber(r.returnNumber),
+      status: r.status,
+      reason: r.reason,
+      unitCount: r.items.reduce((sum, item) => sum + item.quantity, 0),
+      createdAt: r.createdAt.toISOString(),
+    })),
     shipments: order.shipments.map((s) => ({
       id: s.id,
       carrier: s.carrier,
+      carrierMode: s.carrierMode,
       service: s.service,
       trackingNumber: s.trackingNumber,
       labelUrl: s.labelUrl,
+      labelFormat: s.labelFormat,
+      invoiceUrl: s.invoiceKey ? `/api/shipping/invoice/${s.id}` : null,
       shipmentCost: s.shipmentCost.toString(),
       createdAt: s.createdAt.toISOString(),
       shippedBy: s.shippedBy?.name || 'Unknown',
+      warehouseName: s.warehouse?.name ?? null,
+      voidedAt: s.voidedAt?.toISOString() ?? null,
+      voidedBy: s.voidedBy?.name ?? null,
+      trackingStatus: s.trackingStatus,
+      trackingUpdatedAt: s.trackingUpdatedAt?.toISOString() ?? null,
+      deliveredAt: s.deliveredAt?.toISOString() ?? null,
+      trackingEvents: s.trackingEvents.map((event) => ({
+        id: event.id,
+        status: event.status,
+        description: event.description,
+        location: event.location,
+        occurredAt: event.occurredAt.toISOString(),
+      })),
+      items: s.items.map((si) => ({
+        sku: si.orderItem.sku,
+        name: si.orderItem.name,
+        quantity: si.quantity,
+      })),
+      packages: s.packages.map((pkg) => ({
+        sequence: pkg.sequence,
+        trackingNumber: pkg.trackingNumber,
+        boxName: pkg.box?.name ?? null,
+        labelUrl: `/api/shipping/label/${s.id}?package=${pkg.sequence}`,
+      })),
     })),
     totalWeight,
   }
 
-  // Warehouse address from environment (for shipping labels)
-  const warehouseAddress = {
-    name: process.env.WAREHOUSE_NAME || 'BoxNCase Warehouse',
-    address1: process.env.WAREHOUSE_ADDRESS1 || '123 Warehouse Dr',
-    address2: process.env.WAREHOUSE_ADDRESS2 || '',
-    city: process.env.WAREHOUSE_CITY || 'Los Angeles',
-    state: process.env.WAREHOUSE_STATE || 'CA',
-    zip: process.env.WAREHOUSE_ZIP || '90001',
-    country: process.env.WAREHOUSE_COUNTRY || 'US',
-    phone: process.env.WAREHOUSE_PHONE || '',
-  }
+  // Ship-from warehouse (for shipping labels)
+  const warehouseData = warehouse
+    ? {
+        id: warehouse.id,
+        code: warehouse.code,
+        name: warehouse.name,
+        address1: warehouse.address1,
+        address2: warehouse.address2 || '',
+        city: warehouse.city,
+        state: warehouse.state,
+        zip: warehouse.zip,
+        country: warehouse.country,
+        phone: warehouse.phone || '',
+      }
+    : null
+
+  // Labels are bought in the packer's format and print on their printer
+  const session = await auth()
+  const currentUser = session?.user?.id
+    ? await prisma.user.findUnique({
+        where: { id: session.user.id },
+        select: { labelFormat: true, defaultPrinterId: true },
+      })
+    : null
+
+  const printers = await prisma.printer.findMany({
+    where: { isActive: true },
+    orderBy: { name: 'asc' },
+    select: { id: true, name: true, format: true },
+  })
 
   return (
     <OrderFulfillment
       order={orderData}
-      warehouseAddress={warehouseAddress}
+      warehouse={warehouseData}
+      warehouses={warehouses}
+      packedUnits={packedUnits}
+      suggestedPackages={suggestedPackages}
+      boxes={boxes}
+      labelFormat={currentUser?.labelFormat ?? 'IMAGE'}
+      printers={printers}
+      defaultPrinterId={currentUser?.defaultPrinterId ?? null}
     />
   )
 }
@@ -0,0 +1,45 @@
+import { notFound } from 'next/navigation'
+import { prisma } from '@/src/lib/db'
+import { getReturnableQuantities } from '@/src/lib/returns'
+import { CreateReturnForm } from '@/src/components/returns/CreateReturnForm'
+
+interface PageProps {
+  params: Promise<{
+    id: string
+  }>
+}
+
+export default async function CreateReturnPage({ params }: PageProps) {
+  const { id } = await params
+
+  const order = await prisma.order.findUnique({
+    where: { id },
+    select: {
+      id: true,
+      orderNumber: true,
+      customerName: true,
+      orderItems: {
+        select: { id: true, sku: true, name: true, shippedQuantity: true },
+      },
+    },
+  })
+
+  if (!order) {
+    notFound()
+  }
+
+  const returnable = await getReturnableQuantities(order.id)
+
+  return (
+    <CreateReturnForm
+      order={{ id: order.id, orderNumber: order.orderNumber, customerName: order.customerName }}
+      items={order.orderItems.map((item) => ({
+        id: item.id,
+        sku: item.sku,
+        name: item.name,
+        shippedQuantity: item.shippedQuantity,
+        returnableQuantity: returnable.get(item.id) ?? 0,
+      }))}
+    />
+  )
+}
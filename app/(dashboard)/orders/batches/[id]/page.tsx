@@ -0,0 +1,59 @@
+import { notFound } from 'next/navigation'
+import { prisma } from '@/src/lib/db'
+import { buildPickList } from '@/src/lib/picking'
+import { PickList } from '@/src/components/orders/PickList'
+
+interface PageProps {
+  params: Promise<{
+    id: string
+  }>
+}
+
+export default async function PickBatchPage({ params }: PageProps) {
+  const { id } = await params
+
+  const batch = await prisma.pickBatch.findUnique({
+    where: { id },
+    include: {
+      warehouse: { select: { name: true } },
+      createdBy: { select: { name: true } },
+      orders: {
+        orderBy: { tote: 'asc' },
+        include: {
+          order: {
+            select: {
+              id: true,
+              orderNumber: true,
+              customerName: true,
+              orderItems: { select: { quantity: true } },
+            },
+          },
+        },
+      },
+    },
+  })
+
+  if (!batch) {
+    notFound()
+  }
+
+  const lines = await buildPickList(batch.id)
+
+  const batchData = {
+    id: batch.id,
+    batchNumber: batch.batchNumber,
+    status: batch.status,
+    warehouseName: batch.warehouse.name,
+    createdBy: batch.createdBy.name,
+    createdAt: batch.createdAt.toISOString(),
+    orders: batch.orders.map((bo) => ({
+      id: bo.order.id,
+      tote: bo.tote,
+      orderNumber: bo.order.orderNumber,
+      customerName: bo.order.customerName,
+      unitCount: bo.order.orderItems.reduce((sum, item) => sum + item.quantity, 0),
+    })),
+  }
+
+  return <PickList batch={batchData} lines={lines} />
+}
@@ -0,0 +1,127 @@
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import { prisma } from '@/src/lib/db'
+import { auth } from '@/src/lib/auth'
+import { PickBatchStatus } from '@/app/generated/prisma/client'
+import { NEXT_BATCH_STATUS, toteLabel } from '@/src/lib/picking'
+import { getDefaultWarehouse } from '@/src/lib/warehouses'
+
+export async function createPickBatch(orderIds: string[]) {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return { success: false, error: 'Unauthorized' }
+  }
+
+  if (orderIds.length === 0) {
+    return { success: false, error: 'Select at least one order' }
+  }
+
+  const orders = await prisma.order.findMany({
+    where: { id: { in: orderIds } },
+    orderBy: { createdAt: 'asc' },
+    select: {
+      id: true,
+      orderNumber: true,
+      status: true,
+      warehouseId: true,
+      orderItems: {
+        select: { productId: true, quantity: true, allocatedQuantity: true },
+      },
+    },
+  })
+
+  if (orders.length !== orderIds.length) {
+    return { success: false, error: 'Some orders could not be found' }
+  }
+
+  const issues: string[] = []
+  for (const order of orders) {
+    if (order.status !== 'PENDING') {
+      issues.push(`${order.orderNumber} is not pending`)
+    } else if (
+      order.orderItems.some((item) => !item.productId || item.allocatedQuantity < item.quantity)
+    ) {
+      issues.push(`${order.orderNumber} has stock issues`)
+    }
+  }
+
+  if (issues.length > 0) {
+    return { success: false, error: issues.join('; ') }
+  }
+
+  // A batch is picked in one building
+  const defaultWarehouse = await getDefaultWarehouse()
+  const warehouseIds = new Set(orders.map((o) => o.warehouseId ?? defaultWarehouse?.id))
+  if (warehouseIds.size > 1) {
+    return { success: false, error: 'All orders in a batch must ship from the same warehouse' }
+  }
+
+  const [warehouseId] = [...warehouseIds]
+  if (!warehouseId) {
+    return { success: false, error: 'No warehouse configured' }
+  }
+
+  let batch
+  try {
+    batch = await prisma.$transaction(async (tx) => {
+      // Claim the orders first so a wave created at the same time can't take
+      // them too; if any has moved on, nothing is created
+      const claimed = await tx.order.updateMany({
+        where: { id: { in: orders.map((order) => order.id) }, status: 'PENDING' },
+        data: { status: 'PROCESSING', warehouseId },
+      })
+      if (claimed.count !== orders.length) {
+        throw new Error('Some orders were batched by someone else, refresh and try again')
+      }
+
+      return tx.pickBatch.create({
+        data: {
+          warehouseId,
+          createdByUserId: session.user.id,
+          orders: {
+            create: orders.map((order, index) => ({
+              orderId: order.id,
+              tote: toteLabel(index),
+            })),
+          },
+        },
+      })
+    })
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to create pick batch',
+    }
+  }
+
+  revalidatePath('/orders')
+  revalidatePath('/orders/batches')
+
+  return { success: true, batchId: batch.id }
+}
+
+export async function advancePickBatch(batchId: string, status: PickBatchStatus) {
+  const batch = await prisma.pickBatch.findUnique({
+    where: { id: batchId },
+    select: { status: true },
+  })
+
+  if (!batch) {
+    return { success: false, error: 'Pick batch not found' }
+  }
+
+  if (NEXT_BATCH_STATUS[batch.status] !== status) {
+    return { success: false, error: `Cannot move a ${batch.status.toLowerCase()} batch to ${status.toLowerCase()}` }
+  }
+
+  await prisma.pickBatch.update({
+    where: { id: batchId },
+    data: { status },
+  })
+
+  revalidatePath(`/orders/batches/${batchId}`)
+  revalidatePath('/orders/batches')
+
+  return { success: true }
+}
@@ -0,0 +1,112 @@
+import Link from 'next/link'
+import { prisma } from '@/src/lib/db'
+import { ClipboardList } from 'lucide-react'
+
+const statusConfig = {
+  OPEN: { label: 'Open', className: 'bg-yellow-100 text-yellow-800' },
+  PICKING: { label: 'Picking', className: 'bg-blue-100 text-blue-800' },
+  PICKED: { label: 'Picked', className: 'bg-purple-100 text-purple-800' },
+  PACKED: { label: 'Packed', className: 'bg-green-100 text-green-800' },
+}
+
+export default async function PickBatchesPage() {
+  const batches = await prisma.pickBatch.findMany({
+    orderBy: { createdAt: 'desc' },
+    take: 100,
+    include: {
+      warehouse: { select: { code: true } },
+      createdBy: { select: { name: true } },
+      _count: { select: { orders: true } },
+    },
+  })
+
+  const formatDate = (date: Date) => {
+    return date.toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit',
+    })
+  }
+
+  return (
+    <div>
+      {/* Header */}
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold text-gray-900">Pick Batches</h1>
+        <p className="mt-1 text-sm text-gray-500">
+          Waves of orders picked together. Select pending orders on the Orders page to create one.
+        </p>
+      </div>
+
+      <div className="overflow-hidden rounded-xl border border-gray-200 bg-white shadow-sm">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-gray-200 bg-gray-50">
+                <th className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">
+                  Batch
+                </th>
+                <th className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">
+                  Status
+                </th>
+                <th className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">
+                  Orders
+                </th>
+                <th className="hidden px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500 sm:table-cell">
+                  Warehouse
+                </th>
+                <th className="hidden px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500 md:table-cell">
+                  Created
+                </th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {batches.length === 0 ? (
+                <tr>
+                  <td colSpan={5} className="px-4 py-12 text-center">
+                    <ClipboardList className="mx-auto h-10 w-10 text-gray-300" />
+                    <p className="mt-3 text-sm text-gray-500">No pick batches yet.</p>
+                  </td>
+                </tr>
+              ) : (
+                batches.map((batch) => {
+                  const status = statusConfig[batch.status]
+
+                  return (
+                    <tr key={batch.id} className="hover:bg-gray-50 transition-colors">
+                      <td className="px-4 py-3">
+                        <Link
+                          href={`/orders/batches/${batch.id}`}
+                          className="font-medium text-blue-600 hover:text-blue-800"
+                        >
+                          Batch #{batch.batchNumber}
+                        </Link>
+                      </td>
+                      <td className="px-4 py-3">
+                        <span
+                          className={`inline-flex rounded-full px-2.5 py-0.5 text-xs font-medium ${status.className}`}
+                        >
+                          {status.label}
+                        </span>
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-700">
+                        {batch._count.orders}
+                      </td>
+                      <td className="hidden px-4 py-3 font-mono text-sm text-gray-600 sm:table-cell">
+                        {batch.warehouse.code}
+                      </td>
+                      <td className="hidden px-4 py-3 text-sm text-gray-600 md:table-cell">
+                        {formatDate(batch.createdAt)} by {batch.createdBy.name}
+                      </td>
+                    </tr>
+                  )
+                })
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  )
+}
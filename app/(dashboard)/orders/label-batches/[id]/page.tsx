@@ -0,0 +1,20 @@
+import { notFound } from 'next/navigation'
+import { getLabelBatch } from '@/src/lib/label-batches'
+import { LabelBatchProgress } from '@/src/components/orders/LabelBatchProgress'
+
+interface PageProps {
+  params: Promise<{
+    id: string
+  }>
+}
+
+export default async function LabelBatchPage({ params }: PageProps) {
+  const { id } = await params
+
+  const batch = await getLabelBatch(id)
+  if (!batch) {
+    notFound()
+  }
+
+  return <LabelBatchProgress initialBatch={batch} />
+}
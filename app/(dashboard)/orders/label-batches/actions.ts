@@ -0,0 +1,74 @@
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import { prisma } from '@/src/lib/db'
+import { auth } from '@/src/lib/auth'
+import { getUnshippedQuantity } from '@/src/lib/fulfillment'
+
+export async function createLabelBatch(orderIds: string[]) {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return { success: false, error: 'Unauthorized' }
+  }
+
+  if (orderIds.length === 0) {
+    return { success: false, error: 'Select at least one order' }
+  }
+
+  const orders = await prisma.order.findMany({
+    where: { id: { in: orderIds } },
+    orderBy: { createdAt: 'asc' },
+    select: {
+      id: true,
+      orderNumber: true,
+      status: true,
+      orderItems: { select: { quantity: true, shippedQuantity: true } },
+      shipments: { where: { voidedAt: null }, select: { id: true } },
+    },
+  })
+
+  if (orders.length !== orderIds.length) {
+    return { success: false, error: 'Some orders could not be found' }
+  }
+
+  // A batch buys one label per order for everything it holds, so an order
+  // that already has a label standing can't go in
+  const problems = orders.flatMap((order) => {
+    if (order.status !== 'PENDING' && order.status !== 'PROCESSING') {
+      return [`${order.orderNumber} is ${order.status.toLowerCase().replace('_', ' ')}`]
+    }
+    if (order.orderItems.every((item) => getUnshippedQuantity(item) === 0)) {
+      return [`${order.orderNumber} has nothing left to ship`]
+    }
+    if (order.shipments.length > 0) {
+      return [`${order.orderNumber} already has a label`]
+    }
+    return []
+  })
+  if (problems.length > 0) {
+    return { success: false, error: problems.join('; ') }
+  }
+
+  // Labels come in the format of whoever starts the batch
+  const user = await prisma.user.findUnique({
+    where: { id: session.user.id },
+    select: { labelFormat: true },
+  })
+
+  const batch = await prisma.labelBatch.create({
+    data: {
+      createdByUserId: session.user.id,
+      labelFormat: user?.labelFormat,
+      orders: {
+        create: orders.map((order, index) => ({
+          orderId: order.id,
+          sequence: index + 1,
+        })),
+      },
+    },
+  })
+
+  revalidatePath('/orders')
+
+  return { success: true, batchId: batch.id }
+}
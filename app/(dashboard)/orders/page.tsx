@@ -1,6 +1,7 @@
 import { prisma } from '@/src/lib/db'
 import { OrdersPageClient } from '@/src/components/orders/OrdersPageClient'
 import { OrderStatus } from '@/app/generated/prisma/client'
+import { getUnshippedQuantity } from '@/src/lib/fulfillment'
 
 const ORDERS_PER_PAGE = 50
 
@@ -54,7 +55,6 @@ export default async function OrdersPage({ searchParams }: PageProps) {
           product: {
             select: {
               id: true,
-              currentStock: true,
             },
           },
         },
@@ -107,8 +107,8 @@ export default async function OrdersPage({ searchParams }: PageProps) {
         stockStatus = 'issue'
         break
       }
-      if (item.product.currentStock < item.quantity) {
-        // Not enough stock
+      if (item.allocatedQuantity < getUnshippedQuantity(item)) {
+        // Not enough stock reserved for this order
         stockStatus = 'issue'
         break
       }
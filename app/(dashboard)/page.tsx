@@ -77,20 +77,21 @@ export default async function DashboardPage() {
           gte: todayStart,
           lte: todayEnd,
         },
+        voidedAt: null,
       },
     }),
-    // Low stock (at or below threshold but not zero)
+    // Low stock (available at or below threshold but not zero)
     prisma.product.count({
       where: {
-        currentStock: { gt: 0 },
+        availableStock: { gt: 0 },
         AND: {
-          currentStock: { lte: prisma.product.fields.lowStockThreshold },
+          availableStock: { lte: prisma.product.fields.lowStockThreshold },
         },
       },
     }),
-    // Out of stock
+    // Out of stock (nothing left to promise)
     prisma.product.count({
-      where: { currentStock: 0 },
+      where: { availableStock: { lte: 0 } },
     }),
     // Recent orders (last 10)
     prisma.order.findMany({
@@ -108,22 +109,23 @@ export default async function DashboardPage() {
     prisma.product.findMany({
       where: {
         OR: [
-          { currentStock: 0 },
+          { availableStock: { lte: 0 } },
           {
-            currentStock: { gt: 0 },
+            availableStock: { gt: 0 },
             AND: {
-              currentStock: { lte: prisma.product.fields.lowStockThreshold },
+              availableStock: { lte: prisma.product.fields.lowStockThreshold },
             },
           },
         ],
       },
-      orderBy: { currentStock: 'asc' },
+      orderBy: { availableStock: 'asc' },
       take: 10,
       select: {
         id: true,
         name: true,
         sku: true,
-        currentStock: true,
+        availableStock: true,
+        allocatedStock: true,
         lowStockThreshold: true,
       },
     }),
@@ -272,7 +274,7 @@ export default async function DashboardPage() {
               </div>
             ) : (
               lowStockProducts.map((product) => {
-                const isOutOfStock = product.currentStock === 0
+                const isOutOfStock = product.availableStock <= 0
                 return (
                   <Link
                     key={product.id}
@@ -299,9 +301,10 @@ export default async function DashboardPage() {
                           ) : (
                             <AlertTriangle className="h-4 w-4" />
                           )}
-                          {product.currentStock}
+                          {product.availableStock} available
                         </span>
                         <p className="text-xs text-gray-400">
+                          {product.allocatedStock > 0 && `${product.allocatedStock} allocated · `}
                           Threshold: {product.lowStockThreshold}
                         </p>
                       </div>
@@ -0,0 +1,87 @@
+import { notFound } from 'next/navigation'
+import { prisma } from '@/src/lib/db'
+import { getEnabledCarriers } from '@/src/lib/carriers'
+import { formatReturnNumber } from '@/src/lib/returns'
+import { ReturnDetail } from '@/src/components/returns/ReturnDetail'
+
+interface PageProps {
+  params: Promise<{
+    id: string
+  }>
+}
+
+export default async function ReturnPage({ params }: PageProps) {
+  const { id } = await params
+
+  const rma = await prisma.customerReturn.findUnique({
+    where: { id },
+    include: {
+      order: { select: { id: true, orderNumber: true, customerName: true } },
+      warehouse: { select: { name: true } },
+      createdBy: { select: { name: true } },
+      receivedBy: { select: { name: true } },
+      items: {
+        include: {
+          orderItem: { select: { sku: true, name: true, productId: true } },
+          location: { select: { code: true } },
+        },
+      },
+    },
+  })
+
+  if (!rma) {
+    notFound()
+  }
+
+  // Restocked units go into a bin of the warehouse the parcel came back to
+  const bins = await prisma.location.findMany({
+    where: { warehouseId: rma.warehouseId },
+    orderBy: [{ zone: 'asc' }, { aisle: 'asc' }, { shelf: 'asc' }, { bin: 'asc' }],
+    select: { id: true, code: true },
+  })
+
+  const carriers = getEnabledCarriers()
+    .filter((carrier) => carrier.createReturnShipment)
+    .map((carrier) => ({
+      id: carrier.id,
+      name: carrier.name,
+      services: Object.entries(carrier.services).map(([code, name]) => ({ code, name })),
+    }))
+
+  const returnData = {
+    id: rma.id,
+    number: formatReturnNumber(rma.returnNumber),
+    status: rma.status,
+    reason: rma.reason,
+    orderId: rma.order.id,
+    orderNumber: rma.order.orderNumber,
+    customerName: rma.order.customerName,
+    warehouseName: rma.warehouse.name,
+    createdBy: rma.createdBy.name,
+    createdAt: rma.createdAt.toISOString(),
+    receivedBy: rma.receivedBy?.name ?? null,
+    receivedAt: rma.receivedAt?.toISOString() ?? null,
+    label: rma.trackingNumber
+      ? {
+          carrier: rma.carrier,
+          service: rma.service,
+          carrierMode: rma.carrierMode,
+          trackingNumber: rma.trackingNumber,
+          cost: rma.labelCost?.toString() ?? null,
+          url: `/api/returns/${rma.id}/label`,
+        }
+      : null,
+    items: rma.items.map((item) => ({
+      id: item.id,
+      sku: item.orderItem.sku,
+      name: item.orderItem.name,
+      hasProduct: !!item.orderItem.productId,
+      quantity: item.quantity,
+      receivedQuantity: item.receivedQuantity,
+      disposition: item.disposition,
+      locationCode: item.location?.code ?? null,
+    })),
+  }
+
+  return <ReturnDetail rma={returnData} bins={bins} carriers={carriers} />
+}
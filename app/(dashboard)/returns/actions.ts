@@ -0,0 +1,93 @@
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import { prisma } from '@/src/lib/db'
+import { auth } from '@/src/lib/auth'
+import {
+  cancelReturn,
+  createReturn,
+  purchaseReturnLabel,
+  receiveReturn,
+  type ReceivedLineInput,
+  type ReturnLineInput,
+} from '@/src/lib/returns'
+
+export async function createCustomerReturn(orderId: string, lines: ReturnLineInput[], reason: string) {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return { success: false, error: 'Unauthorized' }
+  }
+
+  const { returnId, error } = await createReturn({ orderId, lines, reason, userId: session.user.id })
+  if (error || !returnId) {
+    return { success: false, error }
+  }
+
+  revalidatePath(`/orders/${orderId}`)
+  revalidatePath('/returns')
+
+  return { success: true, returnId }
+}
+
+export async function buyReturnLabel(returnId: string, carrierId: string, serviceCode: string) {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return { success: false, error: 'Unauthorized' }
+  }
+
+  // Labels are bought in the user's format, like outbound labels
+  const user = await prisma.user.findUnique({
+    where: { id: session.user.id },
+    select: { labelFormat: true },
+  })
+
+  const { error } = await purchaseReturnLabel({
+    returnId,
+    carrierId,
+    serviceCode,
+    labelFormat: user?.labelFormat ?? 'IMAGE',
+  })
+  if (error) {
+    return { success: false, error }
+  }
+
+  revalidatePath(`/returns/${returnId}`)
+  revalidatePath('/returns')
+
+  return { success: true }
+}
+
+export async function receiveCustomerReturn(returnId: string, lines: ReceivedLineInput[]) {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return { success: false, error: 'Unauthorized' }
+  }
+
+  const { error } = await receiveReturn({ returnId, lines, userId: session.user.id })
+  if (error) {
+    return { success: false, error }
+  }
+
+  revalidatePath(`/returns/${returnId}`)
+  revalidatePath('/returns')
+  revalidatePath('/inventory')
+
+  return { success: true }
+}
+
+export async function cancelCustomerReturn(returnId: string) {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return { success: false, error: 'Unauthorized' }
+  }
+
+  const { error } = await cancelReturn(returnId)
+  if (error) {
+    return { success: false, error }
+  }
+
+  revalidatePath(`/returns/${returnId}`)
+  revalidatePath('/returns')
+
+  return { success: true }
+}
@@ -0,0 +1,119 @@
+import Link from 'next/link'
+import { prisma } from '@/src/lib/db'
+import { Undo2 } from 'lucide-react'
+import { formatReturnNumber } from '@/src/lib/returns'
+
+const statusConfig = {
+  OPEN: { label: 'Open', className: 'bg-yellow-100 text-yellow-800' },
+  RECEIVED: { label: 'Received', className: 'bg-green-100 text-green-800' },
+  CANCELLED: { label: 'Cancelled', className: 'bg-gray-100 text-gray-800' },
+}
+
+export default async function ReturnsPage() {
+  const returns = await prisma.customerReturn.findMany({
+    orderBy: { createdAt: 'desc' },
+    take: 100,
+    include: {
+      order: { select: { orderNumber: true, customerName: true } },
+      createdBy: { select: { name: true } },
+      items: { select: { quantity: true } },
+    },
+  })
+
+  const formatDate = (date: Date) => {
+    return date.toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit',
+    })
+  }
+
+  return (
+    <div>
+      {/* Header */}
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold text-gray-900">Returns</h1>
+        <p className="mt-1 text-sm text-gray-500">
+          Units customers send back. Create a return from a shipped order&apos;s page.
+        </p>
+      </div>
+
+      <div className="overflow-hidden rounded-xl border border-gray-200 bg-white shadow-sm">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-gray-200 bg-gray-50">
+                <th className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">
+                  Return
+                </th>
+                <th className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">
+                  Status
+                </th>
+                <th className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">
+                  Order
+                </th>
+                <th className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">
+                  Units
+                </th>
+                <th className="hidden px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500 sm:table-cell">
+                  Tracking
+                </th>
+                <th className="hidden px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500 md:table-cell">
+                  Created
+                </th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {returns.length === 0 ? (
+                <tr>
+                  <td colSpan={6} className="px-4 py-12 text-center">
+                    <Undo2 className="mx-auto h-10 w-10 text-gray-300" />
+                    <p className="mt-3 text-sm text-gray-500">No returns yet.</p>
+                  </td>
+                </tr>
+              ) : (
+                returns.map((rma) => {
+                  const status = statusConfig[rma.status]
+
+                  return (
+                    <tr key={rma.id} className="hover:bg-gray-50 transition-colors">
+                      <td className="px-4 py-3">
+                        <Link
+                          href={`/returns/${rma.id}`}
+                          className="font-medium text-blue-600 hover:text-blue-800"
+                        >
+                          {formatReturnNumber(rma.returnNumber)}
+                        </Link>
+                      </td>
+                      <td className="px-4 py-3">
+                        <span
+                          className={`inline-flex rounded-full px-2.5 py-0.5 text-xs font-medium ${status.className}`}
+                        >
+                          {status.label}
+                        </span>
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-700">
+                        {rma.order.orderNumber}
+                        <span className="text-gray-500"> · {rma.order.customerName}</span>
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-700">
+                        {rma.items.reduce((sum, item) => sum + item.quantity, 0)}
+                      </td>
+                      <td className="hidden px-4 py-3 font-mono text-sm text-gray-600 sm:table-cell">
+                        {rma.trackingNumber ? `${rma.carrier} ${rma.trackingNumber}` : '—'}
+                      </td>
+                      <td className="hidden px-4 py-3 text-sm text-gray-600 md:table-cell">
+                        {formatDate(rma.createdAt)} by {rma.createdBy.name}
+                      </td>
+                    </tr>
+                  )
+                })
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  )
+}
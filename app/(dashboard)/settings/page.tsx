@@ -2,8 +2,8 @@ import { auth } from '@/src/lib/auth'
 import { prisma } from '@/src/lib/db'
 import { redirect } from 'next/navigation'
 import { SettingsPageClient } from '@/src/components/settings/SettingsPageClient'
-import * as ups from '@/src/lib/carriers/ups'
-import * as fedex from '@/src/lib/carriers/fedex'
+import { getCarriers } from '@/src/lib/carriers'
+import { getPackingSlipTemplate } from '@/src/lib/packing-slips'
 
 export default async function SettingsPage() {
   const session = await auth()
@@ -57,14 +57,16 @@ export default async function SettingsPage() {
   }))
 
   // Get carrier configuration status
-  const carriersConfig = {
-    ups: {
-      configured: ups.isConfigured(),
-    },
-    fedex: {
-      configured: fedex.isConfigured(),
-    },
-  }
+  const carriersConfig = getCarriers().map((carrier) => ({
+    id: carrier.id,
+    name: carrier.name,
+    configured: carrier.isConfigured(),
+    enabled: carrier.isEnabled(),
+    mode: carrier.getMode(),
+    requiredEnv: carrier.requiredEnv,
+    modeEnv: carrier.modeEnv,
+    services: Object.entries(carrier.services).map(([code, name]) => ({ code, name })),
+  }))
 
   // Get Shopify configuration
   const shopifyConfig = {
@@ -72,16 +74,95 @@ export default async function SettingsPage() {
     storeDomain: process.env.SHOPIFY_STORE_DOMAIN || '',
   }
 
-  // Get warehouse address from environment
-  const warehouseAddress = {
-    name: process.env.WAREHOUSE_NAME || '',
-    address1: process.env.WAREHOUSE_ADDRESS1 || '',
-    address2: process.env.WAREHOUSE_ADDRESS2 || '',
-    city: process.env.WAREHOUSE_CITY || '',
-    state: process.env.WAREHOUSE_STATE || '',
-    zip: process.env.WAREHOUSE_ZIP || '',
-    country: process.env.WAREHOUSE_COUNTRY || 'US',
-    phone: process.env.WAREHOUSE_PHONE || '',
+  // Fetch warehouses
+  const warehouses = await prisma.warehouse.findMany({
+    orderBy: [{ isDefault: 'desc' }, { name: 'asc' }],
+  })
+
+  const warehousesData = warehouses.map((w) => ({
+    id: w.id,
+    code: w.code,
+    name: w.name,
+    address1: w.address1,
+    address2: w.address2 || '',
+    city: w.city,
+    state: w.state,
+    zip: w.zip,
+    country: w.country,
+    phone: w.phone || '',
+    isDefault: w.isDefault,
+    isActive: w.isActive,
+  }))
+
+  // Fetch the box catalog
+  const boxes = await prisma.shippingBox.findMany({
+    orderBy: [{ isActive: 'desc' }, { code: 'asc' }],
+  })
+
+  const boxesData = boxes.map((b) => ({
+    id: b.id,
+    code: b.code,
+    name: b.name,
+    length: b.length.toString(),
+    width: b.width.toString(),
+    height: b.height.toString(),
+    tareWeight: b.tareWeight.toString(),
+    maxWeight: b.maxWeight?.toString() ?? '',
+    cost: b.cost.toString(),
+    isActive: b.isActive,
+  }))
+
+  // Fetch network printers
+  const printers = await prisma.printer.findMany({
+    orderBy: [{ isActive: 'desc' }, { name: 'asc' }],
+  })
+
+  const printersData = printers.map((p) => ({
+    id: p.id,
+    name: p.name,
+    host: p.host,
+    port: p.port.toString(),
+    protocol: p.protocol,
+    ippPath: p.ippPath ?? '',
+    format: p.format,
+    isActive: p.isActive,
+  }))
+
+  // Fetch shipping rules, in the order they're tried
+  const shippingRules = await prisma.shippingRule.findMany({
+    orderBy: [{ priority: 'asc' }, { createdAt: 'asc' }],
+  })
+
+  const shippingRulesData = shippingRules.map((r) => ({
+    id: r.id,
+    name: r.name,
+    priority: r.priority.toString(),
+    isActive: r.isActive,
+    countries: r.countries.join(', '),
+    states: r.states.join(', '),
+    minWeight: r.minWeight?.toString() ?? '',
+    maxWeight: r.maxWeight?.toString() ?? '',
+    minOrderTotal: r.minOrderTotal?.toString() ?? '',
+    maxOrderTotal: r.maxOrderTotal?.toString() ?? '',
+    skus: r.skus.join(', '),
+    shippingMethods: r.shippingMethods.join(', '),
+    action: r.action,
+    carrier: r.carrier ?? '',
+    serviceCode: r.serviceCode ?? '',
+    maxTransitDays: r.maxTransitDays?.toString() ?? '',
+  }))
+
+  // Packing slip layout, the defaults until it's first saved
+  const packingSlipTemplate = await getPackingSlipTemplate()
+
+  const packingSlipTemplateData = {
+    companyName: packingSlipTemplate.companyName,
+    headerText: packingSlipTemplate.headerText ?? '',
+    footerText: packingSlipTemplate.footerText ?? '',
+    // Changes with each upload, so the preview shows the new logo
+    logoUrl: packingSlipTemplate.logoKey
+      ? `/api/packing-slip-template/logo?v=${encodeURIComponent(packingSlipTemplate.logoKey)}`
+      : null,
   }
 
   return (
@@ -90,7 +171,11 @@ export default async function SettingsPage() {
       users={usersData}
       carriersConfig={carriersConfig}
       shopifyConfig={shopifyConfig}
-      warehouseAddress={warehouseAddress}
+      warehouses={warehousesData}
+      boxes={boxesData}
+      printers={printersData}
+      shippingRules={shippingRulesData}
+      packingSlipTemplate={packingSlipTemplateData}
     />
   )
 }
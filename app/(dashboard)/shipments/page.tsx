@@ -1,4 +1,7 @@
 import { prisma } from '@/src/lib/db'
+import { auth } from '@/src/lib/auth'
+import { TrackingStatus } from '@/app/generated/prisma/client'
+import { getCarrier } from '@/src/lib/carriers'
 import { ShipmentsPageClient } from '@/src/components/shipments/ShipmentsPageClient'
 
 interface PageProps {
@@ -7,6 +10,7 @@ interface PageProps {
     from?: string
     to?: string
     search?: string
+    status?: string
   }>
 }
 
@@ -61,6 +65,8 @@ export default async function ShipmentsPage({ searchParams }: PageProps) {
   // Build where clause
   const where: {
     createdAt?: { gte?: Date; lte?: Date }
+    trackingStatus?: TrackingStatus
+    voidedAt?: null
     OR?: Array<{
       trackingNumber?: { contains: string; mode: 'insensitive' }
       order?: { orderNumber?: { contains: string; mode: 'insensitive' } }
@@ -73,6 +79,19 @@ export default async function ShipmentsPage({ searchParams }: PageProps) {
     if (dateTo) where.createdAt.lte = dateTo
   }
 
+  // Exceptions in the period, whatever else is filtered
+  const exceptionsWhere = {
+    createdAt: where.createdAt,
+    trackingStatus: TrackingStatus.EXCEPTION,
+    voidedAt: null,
+  }
+
+  const status = Object.values(TrackingStatus).find((s) => s === params.status)
+  if (status) {
+    where.trackingStatus = status
+    where.voidedAt = null
+  }
+
   if (params.search) {
     where.OR = [
       { trackingNumber: { contains: params.search, mode: 'insensitive' } },
@@ -81,7 +100,7 @@ export default async function ShipmentsPage({ searchParams }: PageProps) {
   }
 
   // Fetch shipments with related data
-  const [shipments, totalCost] = await Promise.all([
+  const [shipments, totalCost, exceptionCount] = await Promise.all([
     prisma.shipment.findMany({
       where,
       orderBy: { createdAt: 'desc' },
@@ -101,12 +120,14 @@ export default async function ShipmentsPage({ searchParams }: PageProps) {
         },
       },
     }),
+    // Voided labels were refunded
     prisma.shipment.aggregate({
-      where,
+      where: { ...where, voidedAt: null },
       _sum: {
         shipmentCost: true,
       },
     }),
+    prisma.shipment.count({ where: exceptionsWhere }),
   ])
 
   // Format data for client
@@ -117,23 +138,43 @@ export default async function ShipmentsPage({ searchParams }: PageProps) {
     orderNumber: s.order.orderNumber,
     customerName: s.order.customerName,
     carrier: s.carrier,
+    carrierMode: s.carrierMode,
     service: s.service,
     trackingNumber: s.trackingNumber,
+    trackingUrl: s.trackingNumber ? (getCarrier(s.carrier)?.getTrackingUrl(s.trackingNumber) ?? null) : null,
     shipmentCost: s.shipmentCost.toString(),
     shippedBy: s.shippedBy?.name || 'Unknown',
     labelUrl: s.labelUrl,
+    labelFormat: s.labelFormat,
+    voided: s.voidedAt !== null,
+    trackingStatus: s.trackingStatus,
+    trackingUpdatedAt: s.trackingUpdatedAt?.toISOString() ?? null,
+    deliveredAt: s.deliveredAt?.toISOString() ?? null,
   }))
 
   const totalShippingCost = totalCost._sum.shipmentCost?.toString() || '0'
 
+  // Reprints go to the user's own printer
+  const session = await auth()
+  const currentUser = session?.user?.id
+    ? await prisma.user.findUnique({
+        where: { id: session.user.id },
+        select: { defaultPrinter: { select: { name: true, isActive: true } } },
+      })
+    : null
+  const defaultPrinter = currentUser?.defaultPrinter?.isActive ? currentUser.defaultPrinter.name : null
+
   return (
     <ShipmentsPageClient
       shipments={shipmentsData}
       totalShippingCost={totalShippingCost}
+      exceptionCount={exceptionCount}
       currentRange={params.range || '30days'}
       currentFrom={params.from}
       currentTo={params.to}
       currentSearch={params.search}
+      currentStatus={status}
+      defaultPrinter={defaultPrinter}
     />
   )
 }
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/src/lib/db'
+import { auth } from '@/src/lib/auth'
+import { Prisma } from '@/app/generated/prisma/client'
+
+export async function POST(request: NextRequest) {
+  try {
+    // Check authentication and admin role
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const currentUser = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { role: true },
+    })
+
+    if (currentUser?.role !== 'ADMIN') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const body = await request.json()
+    const { code, name, length, width, height, tareWeight, maxWeight, cost } = body
+
+    if (!code || !name) {
+      return NextResponse.json({ error: 'Code and name are required' }, { status: 400 })
+    }
+
+    if (!(Number(length) > 0 && Number(width) > 0 && Number(height) > 0)) {
+      return NextResponse.json(
+        { error: 'Inside length, width and height must be greater than 0' },
+        { status: 400 }
+      )
+    }
+
+    const normalizedCode = String(code).trim().toUpperCase()
+
+    // Check if code already exists
+    const existingBox = await prisma.shippingBox.findUnique({
+      where: { code: normalizedCode },
+    })
+
+    if (existingBox) {
+      return NextResponse.json(
+        { error: 'A box with this code already exists' },
+        { status: 400 }
+      )
+    }
+
+    const box = await prisma.shippingBox.create({
+      data: {
+        code: normalizedCode,
+        name,
+        length: new Prisma.Decimal(length),
+        width: new Prisma.Decimal(width),
+        height: new Prisma.Decimal(height),
+        tareWeight: new Prisma.Decimal(tareWeight || 0),
+        maxWeight: maxWeight ? new Prisma.Decimal(maxWeight) : null,
+        cost: new Prisma.Decimal(cost || 0),
+      },
+    })
+
+    return NextResponse.json({ success: true, box })
+  } catch (error) {
+    console.error('[Boxes API] Error:', error)
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return NextResponse.json({ error: message }, { status: 500 })
+  }
+}
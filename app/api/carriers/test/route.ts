@@ -1,11 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { auth } from '@/src/lib/auth'
 import { prisma } from '@/src/lib/db'
-import * as ups from '@/src/lib/carriers/ups'
-import * as fedex from '@/src/lib/carriers/fedex'
+import { getCarrier } from '@/src/lib/carriers'
+import { getDefaultWarehouse, toShipFromAddress } from '@/src/lib/warehouses'
 
 interface TestRequest {
-  carrier: 'UPS' | 'FedEx'
+  carrier: string // CarrierAdapter id
 }
 
 export async function POST(request: NextRequest) {
@@ -31,7 +31,25 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Carrier is required' }, { status: 400 })
     }
 
-    // Sample test shipment for rate lookup
+    const carrier = getCarrier(body.carrier)
+    if (!carrier) {
+      return NextResponse.json({ error: 'Invalid carrier' }, { status: 400 })
+    }
+
+    if (!carrier.isEnabled()) {
+      return NextResponse.json(
+        { error: `${carrier.name} is not configured` },
+        { status: 400 }
+      )
+    }
+
+    // Rate from the default warehouse to a sample address
+    const warehouse = await getDefaultWarehouse()
+    if (!warehouse) {
+      return NextResponse.json({ error: 'No warehouse configured' }, { status: 400 })
+    }
+    const shipFrom = toShipFromAddress(warehouse)
+
     const testShipTo = {
       city: 'New York',
       state: 'NY',
@@ -48,63 +66,26 @@ export async function POST(request: NextRequest) {
       },
     ]
 
-    if (body.carrier === 'UPS') {
-      if (!ups.isConfigured()) {
-        return NextResponse.json(
-          { error: 'UPS is not configured' },
-          { status: 400 }
-        )
-      }
-
-      const result = await ups.getRates({
-        shipTo: testShipTo,
-        packages: testPackages,
-      })
-
-      if (result.error) {
-        return NextResponse.json({ error: result.error }, { status: 500 })
-      }
-
-      return NextResponse.json({
-        success: true,
-        carrier: 'UPS',
-        rateCount: result.rates.length,
-        rates: result.rates.map((r) => ({
-          service: r.serviceName,
-          price: r.totalCharge,
-        })),
-      })
-    }
-
-    if (body.carrier === 'FedEx') {
-      if (!fedex.isConfigured()) {
-        return NextResponse.json(
-          { error: 'FedEx is not configured' },
-          { status: 400 }
-        )
-      }
-
-      const result = await fedex.getRates({
-        shipTo: testShipTo,
-        packages: testPackages,
-      })
-
-      if (result.error) {
-        return NextResponse.json({ error: result.error }, { status: 500 })
-      }
+    const result = await carrier.getRates({
+      shipFrom,
+      shipTo: testShipTo,
+      packages: testPackages,
+    })
 
-      return NextResponse.json({
-        success: true,
-        carrier: 'FedEx',
-        rateCount: result.rates.length,
-        rates: result.rates.map((r) => ({
-          service: r.serviceName,
-          price: r.totalCharge,
-        })),
-      })
+    if (result.error) {
+      return NextResponse.json({ error: result.error }, { status: 500 })
     }
 
-    return NextResponse.json({ error: 'Invalid carrier' }, { status: 400 })
+    return NextResponse.json({
+      success: true,
+      carrier: carrier.id,
+      mode: carrier.getMode(),
+      rateCount: result.rates.length,
+      rates: result.rates.map((r) => ({
+        service: r.serviceName,
+        price: r.totalCharge,
+      })),
+    })
   } catch (error) {
     console.error('[Carrier Test] Error:', error)
     const message = error instanceof Error ? error.message : 'Unknown error'
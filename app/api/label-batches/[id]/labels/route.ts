@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/src/lib/db'
+import { mergeBatchLabels, mergeBatchZpl } from '@/src/lib/label-batches'
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+/**
+ * GET /api/label-batches/[id]/labels
+ *
+ * Returns the labels of every order bought in the batch as one document, in
+ * batch order. Voided labels are left out. Labels the document can't hold
+ * are listed by tracking number in the X-Skipped-Labels header.
+ *
+ * Query params:
+ *   - format=pdf|zpl: A PDF of 4x6 pages, or one ZPL job for a thermal
+ *     printer. Defaults to the batch's label format.
+ *   - download=true: Forces download instead of inline display
+ */
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const { id } = await context.params
+    const { searchParams } = new URL(request.url)
+    const forceDownload = searchParams.get('download') === 'true'
+
+    const batch = await prisma.labelBatch.findUnique({
+      where: { id },
+      select: { batchNumber: true, labelFormat: true },
+    })
+    if (!batch) {
+      return NextResponse.json({ error: 'Label batch not found' }, { status: 404 })
+    }
+
+    const format = searchParams.get('format') ?? (batch.labelFormat === 'ZPL' ? 'zpl' : 'pdf')
+    if (format !== 'pdf' && format !== 'zpl') {
+      return NextResponse.json({ error: 'Format must be pdf or zpl' }, { status: 400 })
+    }
+
+    let body: Buffer
+    let skipped: string[]
+    let contentType: string
+    if (format === 'zpl') {
+      const merged = await mergeBatchZpl(id)
+      if (merged.labelCount === 0) {
+        return NextResponse.json({ error: 'No ZPL labels to print yet' }, { status: 404 })
+      }
+      body = merged.zpl
+      skipped = merged.skipped
+      contentType = 'x-application/zpl'
+    } else {
+      const merged = await mergeBatchLabels(id)
+      if (merged.pageCount === 0) {
+        return NextResponse.json({ error: 'No labels to print yet' }, { status: 404 })
+      }
+      body = Buffer.from(merged.pdf)
+      skipped = merged.skipped
+      contentType = 'application/pdf'
+    }
+
+    const filename = `labels-batch-${batch.batchNumber}.${format}`
+
+    return new NextResponse(new Uint8Array(body), {
+      status: 200,
+      headers: {
+        'Content-Type': contentType,
+        'Content-Disposition': `${forceDownload ? 'attachment' : 'inline'}; filename="${filename}"`,
+        'Content-Length': body.length.toString(),
+        'Cache-Control': 'no-store',
+        ...(skipped.length > 0 ? { 'X-Skipped-Labels': skipped.join(',') } : {}),
+      },
+    })
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    console.error('[Label Batch Labels] Error:', message)
+    return NextResponse.json({ error: message }, { status: 500 })
+  }
+}
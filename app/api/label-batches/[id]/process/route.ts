@@ -0,0 +1,46 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/src/lib/db'
+import { auth } from '@/src/lib/auth'
+import { getLabelBatch, processNextBatchOrder } from '@/src/lib/label-batches'
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+/**
+ * POST /api/label-batches/[id]/process
+ *
+ * Buys the label of the batch's next waiting order. The batch page calls this
+ * until `done` comes back true, showing the returned batch as it goes. Orders
+ * still being bought in another tab can leave the batch running when done.
+ */
+export async function POST(_request: Request, context: RouteContext) {
+  try {
+    const { id } = await context.params
+
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const batch = await prisma.labelBatch.findUnique({
+      where: { id },
+      select: { status: true },
+    })
+    if (!batch) {
+      return NextResponse.json({ error: 'Label batch not found' }, { status: 404 })
+    }
+
+    const processed = batch.status === 'RUNNING' && (await processNextBatchOrder(id, session.user.id))
+
+    return NextResponse.json({
+      success: true,
+      done: !processed,
+      batch: await getLabelBatch(id),
+    })
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    console.error('[Label Batch] Error:', message)
+    return NextResponse.json({ error: message }, { status: 500 })
+  }
+}
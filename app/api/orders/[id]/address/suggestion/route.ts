@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server'
+import { auth } from '@/src/lib/auth'
+import { applyAddressSuggestion } from '@/src/lib/order-addresses'
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+/**
+ * POST /api/orders/[id]/address/suggestion
+ *
+ * Replaces the order's shipping address with the one the carrier suggested,
+ * keeping the old one in the order's address history.
+ */
+export async function POST(_request: Request, context: RouteContext) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await context.params
+
+    const { check, error } = await applyAddressSuggestion(id, session.user.id)
+    if (error) {
+      const status = error === 'Order not found' ? 404 : 400
+      return NextResponse.json({ error }, { status })
+    }
+
+    return NextResponse.json({ success: true, check })
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    console.error('[Address Suggestion] Error:', message)
+    return NextResponse.json({ error: message }, { status: 500 })
+  }
+}
@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server'
+import { validateOrderAddress } from '@/src/lib/address-validation'
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+/**
+ * POST /api/orders/[id]/address/validate
+ *
+ * Checks the order's shipping address with the carriers again and returns
+ * the result.
+ */
+export async function POST(_request: Request, context: RouteContext) {
+  try {
+    const { id } = await context.params
+
+    const { check, error } = await validateOrderAddress(id)
+    if (error || !check) {
+      return NextResponse.json({ error: error || 'Address check failed' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true, check })
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    console.error('[Address Validate] Error:', message)
+    return NextResponse.json({ error: message }, { status: 500 })
+  }
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/src/lib/db'
+import { getOrderPackingSlip } from '@/src/lib/packing-slips'
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+/**
+ * GET /api/orders/[id]/packing-slip
+ *
+ * Returns the order's packing slip as a PDF.
+ *
+ * Query params:
+ *   - download=true: Forces download instead of inline display
+ */
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const { id } = await context.params
+    const { searchParams } = new URL(request.url)
+    const forceDownload = searchParams.get('download') === 'true'
+
+    const order = await prisma.order.findUnique({
+      where: { id },
+      select: { orderNumber: true },
+    })
+    const pdf = order ? await getOrderPackingSlip(id) : null
+    if (!order || !pdf) {
+      return NextResponse.json({ error: 'Order not found' }, { status: 404 })
+    }
+
+    const filename = `packing-slip-${order.orderNumber.replace(/[^A-Za-z0-9-]/g, '')}.pdf`
+
+    return new NextResponse(new Uint8Array(pdf), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `${forceDownload ? 'attachment' : 'inline'}; filename="${filename}"`,
+        'Content-Length': pdf.length.toString(),
+        // Stock moves between bins, so always rebuild it
+        'Cache-Control': 'no-store',
+      },
+    })
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    console.error('[Packing Slip] Error:', message)
+    return NextResponse.json({ error: message }, { status: 500 })
+  }
+}
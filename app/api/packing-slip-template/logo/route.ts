@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server'
+import { getStorage } from '@/src/lib/storage'
+import { getPackingSlipTemplate } from '@/src/lib/packing-slips'
+
+/**
+ * GET /api/packing-slip-template/logo
+ *
+ * Returns the logo printed on packing slips, to show it in settings.
+ */
+export async function GET() {
+  try {
+    const { logoKey } = await getPackingSlipTemplate()
+    const file = logoKey ? await getStorage().getStream(logoKey) : null
+    if (!logoKey || !file) {
+      return NextResponse.json({ error: 'No logo uploaded' }, { status: 404 })
+    }
+
+    return new NextResponse(file.body, {
+      status: 200,
+      headers: {
+        'Content-Type': logoKey.endsWith('.png') ? 'image/png' : 'image/jpeg',
+        ...(file.size !== null && { 'Content-Length': file.size.toString() }),
+        'Cache-Control': 'private, max-age=3600',
+      },
+    })
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    console.error('[Packing Slip Logo] Error:', message)
+    return NextResponse.json({ error: message }, { status: 500 })
+  }
+}
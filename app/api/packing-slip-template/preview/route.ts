@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server'
+import { getSamplePackingSlip } from '@/src/lib/packing-slips'
+
+/**
+ * GET /api/packing-slip-template/preview
+ *
+ * Returns a sample packing slip in the saved layout as a PDF.
+ */
+export async function GET() {
+  try {
+    const pdf = await getSamplePackingSlip()
+
+    return new NextResponse(new Uint8Array(pdf), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': 'inline; filename="packing-slip-preview.pdf"',
+        'Content-Length': pdf.length.toString(),
+        'Cache-Control': 'no-store',
+      },
+    })
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    console.error('[Packing Slip Preview] Error:', message)
+    return NextResponse.json({ error: message }, { status: 500 })
+  }
+}
@@ -0,0 +1,74 @@
+import { randomUUID } from 'node:crypto'
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/src/lib/db'
+import { auth } from '@/src/lib/auth'
+import { getStorage } from '@/src/lib/storage'
+import { LOGO_CONTENT_TYPES, LOGO_MAX_BYTES } from '@/src/lib/packing-slips'
+
+/**
+ * PUT /api/packing-slip-template
+ *
+ * Saves how packing slips look. Sent as a form so the logo can come along:
+ * companyName, headerText, footerText, logo (a PNG or JPEG file) and
+ * removeLogo=true to go back to the company name on its own.
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    // Check authentication and admin role
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const currentUser = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { role: true },
+    })
+
+    if (currentUser?.role !== 'ADMIN') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const form = await request.formData()
+    const companyName = String(form.get('companyName') ?? '').trim()
+    const headerText = String(form.get('headerText') ?? '').trim() || null
+    const footerText = String(form.get('footerText') ?? '').trim() || null
+    const logo = form.get('logo')
+
+    if (!companyName) {
+      return NextResponse.json({ error: 'Company name is required' }, { status: 400 })
+    }
+
+    const existing = await prisma.packingSlipTemplate.findUnique({
+      where: { id: 'default' },
+      select: { logoKey: true },
+    })
+    let logoKey = form.get('removeLogo') === 'true' ? null : (existing?.logoKey ?? null)
+
+    if (logo instanceof File && logo.size > 0) {
+      const extension = LOGO_CONTENT_TYPES[logo.type]
+      if (!extension) {
+        return NextResponse.json({ error: 'Logo must be a PNG or JPEG image' }, { status: 400 })
+      }
+      if (logo.size > LOGO_MAX_BYTES) {
+        return NextResponse.json({ error: 'Logo must be 1 MB or smaller' }, { status: 400 })
+      }
+
+      // A new key each time, so cached copies of the old logo don't linger
+      logoKey = `packing-slips/logo-${randomUUID()}.${extension}`
+      await getStorage().put(logoKey, Buffer.from(await logo.arrayBuffer()), logo.type)
+    }
+
+    const template = await prisma.packingSlipTemplate.upsert({
+      where: { id: 'default' },
+      create: { companyName, headerText, footerText, logoKey },
+      update: { companyName, headerText, footerText, logoKey },
+    })
+
+    return NextResponse.json({ success: true, template })
+  } catch (error) {
+    console.error('[Packing Slip Template API] Error:', error)
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return NextResponse.json({ error: message }, { status: 500 })
+  }
+}
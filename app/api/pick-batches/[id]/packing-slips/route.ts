@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/src/lib/db'
+import { getPickBatchPackingSlips } from '@/src/lib/packing-slips'
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+/**
+ * GET /api/pick-batches/[id]/packing-slips
+ *
+ * Returns the packing slips of every order in the pick batch as one PDF, in
+ * tote order, each slip marked with its tote.
+ *
+ * Query params:
+ *   - download=true: Forces download instead of inline display
+ */
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const { id } = await context.params
+    const { searchParams } = new URL(request.url)
+    const forceDownload = searchParams.get('download') === 'true'
+
+    const batch = await prisma.pickBatch.findUnique({
+      where: { id },
+      select: { batchNumber: true },
+    })
+    const pdf = batch ? await getPickBatchPackingSlips(id) : null
+    if (!batch || !pdf) {
+      return NextResponse.json({ error: 'Pick batch not found' }, { status: 404 })
+    }
+
+    const filename = `packing-slips-batch-${batch.batchNumber}.pdf`
+
+    return new NextResponse(new Uint8Array(pdf), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `${forceDownload ? 'attachment' : 'inline'}; filename="${filename}"`,
+        'Content-Length': pdf.length.toString(),
+        'Cache-Control': 'no-store',
+      },
+    })
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    console.error('[Packing Slips] Error:', message)
+    return NextResponse.json({ error: message }, { status: 500 })
+  }
+}
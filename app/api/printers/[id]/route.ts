@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/src/lib/db'
+import { auth } from '@/src/lib/auth'
+import { validatePrinter } from '@/src/lib/printing'
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+export async function PUT(request: NextRequest, context: RouteContext) {
+  try {
+    const { id } = await context.params
+
+    // Check authentication and admin role
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const currentUser = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { role: true },
+    })
+
+    if (currentUser?.role !== 'ADMIN') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const body = await request.json()
+    const { data, error } = validatePrinter(body)
+    if (!data) {
+      return NextResponse.json({ error }, { status: 400 })
+    }
+
+    // Check if printer exists
+    const existingPrinter = await prisma.printer.findUnique({
+      where: { id },
+    })
+
+    if (!existingPrinter) {
+      return NextResponse.json({ error: 'Printer not found' }, { status: 404 })
+    }
+
+    // Check if name is taken by another printer
+    if (data.name !== existingPrinter.name) {
+      const nameTaken = await prisma.printer.findUnique({
+        where: { name: data.name },
+      })
+      if (nameTaken) {
+        return NextResponse.json(
+          { error: 'A printer with this name already exists' },
+          { status: 400 }
+        )
+      }
+    }
+
+    const printer = await prisma.printer.update({
+      where: { id },
+      data,
+    })
+
+    return NextResponse.json({ success: true, printer })
+  } catch (error) {
+    console.error('[Printers API] Error:', error)
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return NextResponse.json({ error: message }, { status: 500 })
+  }
+}
+
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  try {
+    const { id } = await context.params
+
+    // Check authentication and admin role
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const currentUser = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { role: true },
+    })
+
+    if (currentUser?.role !== 'ADMIN') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const existingPrinter = await prisma.printer.findUnique({
+      where: { id },
+    })
+
+    if (!existingPrinter) {
+      return NextResponse.json({ error: 'Printer not found' }, { status: 404 })
+    }
+
+    // Users who had it as their default are left without one
+    await prisma.printer.delete({
+      where: { id },
+    })
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('[Printers API] Error:', error)
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return NextResponse.json({ error: message }, { status: 500 })
+  }
+}
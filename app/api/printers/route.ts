@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/src/lib/db'
+import { auth } from '@/src/lib/auth'
+import { validatePrinter } from '@/src/lib/printing'
+
+export async function POST(request: NextRequest) {
+  try {
+    // Check authentication and admin role
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const currentUser = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { role: true },
+    })
+
+    if (currentUser?.role !== 'ADMIN') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const body = await request.json()
+    const { data, error } = validatePrinter(body)
+    if (!data) {
+      return NextResponse.json({ error }, { status: 400 })
+    }
+
+    // Check if name already exists
+    const existingPrinter = await prisma.printer.findUnique({
+      where: { name: data.name },
+    })
+
+    if (existingPrinter) {
+      return NextResponse.json(
+        { error: 'A printer with this name already exists' },
+        { status: 400 }
+      )
+    }
+
+    const printer = await prisma.printer.create({ data })
+
+    return NextResponse.json({ success: true, printer })
+  } catch (error) {
+    console.error('[Printers API] Error:', error)
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return NextResponse.json({ error: message }, { status: 500 })
+  }
+}
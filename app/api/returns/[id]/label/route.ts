@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/src/lib/db'
+import { labelContentType, openLabel } from '@/src/lib/label-documents'
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+/**
+ * GET /api/returns/[id]/label
+ *
+ * Returns the prepaid return label of a customer return, to print or send to
+ * the customer. The label is streamed from storage.
+ *
+ * Query params:
+ *   - download=true: Forces download instead of inline display
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params
+    const forceDownload = new URL(request.url).searchParams.get('download') === 'true'
+
+    const rma = await prisma.customerReturn.findUnique({
+      where: { id },
+      select: {
+        returnNumber: true,
+        carrier: true,
+        trackingNumber: true,
+        labelKey: true,
+        labelFormat: true,
+      },
+    })
+
+    if (!rma) {
+      return NextResponse.json({ error: 'Return not found' }, { status: 404 })
+    }
+
+    const file = await openLabel({ labelKey: rma.labelKey, labelData: null })
+    if (!file) {
+      return NextResponse.json({ error: 'This return has no label' }, { status: 404 })
+    }
+
+    const { contentType, extension } = labelContentType(rma.labelFormat)
+    const filename = `return-${rma.carrier}-${rma.trackingNumber || rma.returnNumber}.${extension}`
+
+    return new NextResponse(file.body, {
+      status: 200,
+      headers: {
+        'Content-Type': contentType,
+        'Content-Disposition': `${forceDownload ? 'attachment' : 'inline'}; filename="${filename}"`,
+        ...(file.size !== null && { 'Content-Length': file.size.toString() }),
+        'Cache-Control': 'private, max-age=3600',
+      },
+    })
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    console.error('[Return Label API] Error:', message)
+    return NextResponse.json({ error: message }, { status: 500 })
+  }
+}
@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/src/lib/db'
+import { auth } from '@/src/lib/auth'
+import { validateShippingRule, type ShippingRuleInput } from '@/src/lib/shipping-rules'
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+export async function PUT(request: NextRequest, context: RouteContext) {
+  try {
+    const { id } = await context.params
+
+    // Check authentication and admin role
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const currentUser = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { role: true },
+    })
+
+    if (currentUser?.role !== 'ADMIN') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const body: ShippingRuleInput = await request.json()
+
+    const validated = validateShippingRule(body)
+    if (!validated.data) {
+      return NextResponse.json({ error: validated.error }, { status: 400 })
+    }
+
+    // Check if rule exists
+    const existingRule = await prisma.shippingRule.findUnique({
+      where: { id },
+    })
+
+    if (!existingRule) {
+      return NextResponse.json({ error: 'Rule not found' }, { status: 404 })
+    }
+
+    const rule = await prisma.shippingRule.update({
+      where: { id },
+      data: validated.data,
+    })
+
+    return NextResponse.json({ success: true, rule })
+  } catch (error) {
+    console.error('[Shipping Rules API] Error:', error)
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return NextResponse.json({ error: message }, { status: 500 })
+  }
+}
+
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  try {
+    const { id } = await context.params
+
+    // Check authentication and admin role
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const currentUser = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { role: true },
+    })
+
+    if (currentUser?.role !== 'ADMIN') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const existingRule = await prisma.shippingRule.findUnique({
+      where: { id },
+    })
+
+    if (!existingRule) {
+      return NextResponse.json({ error: 'Rule not found' }, { status: 404 })
+    }
+
+    await prisma.shippingRule.delete({
+      where: { id },
+    })
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('[Shipping Rules API] Error:', error)
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return NextResponse.json({ error: message }, { status: 500 })
+  }
+}
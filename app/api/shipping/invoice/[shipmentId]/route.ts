@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/src/lib/db'
+import { getStorage } from '@/src/lib/storage'
+
+interface RouteParams {
+  params: Promise<{
+    shipmentId: string
+  }>
+}
+
+/**
+ * GET /api/shipping/invoice/[shipmentId]
+ *
+ * Returns the commercial invoice of an international shipment as a PDF, to
+ * print and put in the pouch on the parcel. The invoice is streamed from
+ * storage.
+ *
+ * Query params:
+ *   - download=true: Forces download instead of inline display
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { shipmentId } = await params
+    const { searchParams } = new URL(request.url)
+    const forceDownload = searchParams.get('download') === 'true'
+
+    const shipment = await prisma.shipment.findUnique({
+      where: { id: shipmentId },
+      select: {
+        id: true,
+        invoiceKey: true,
+        voidedAt: true,
+        order: {
+          select: {
+            orderNumber: true,
+          },
+        },
+      },
+    })
+
+    if (!shipment) {
+      return NextResponse.json(
+        { error: 'Shipment not found' },
+        { status: 404 }
+      )
+    }
+
+    // Goes with the label, so not with a voided one
+    if (shipment.voidedAt) {
+      return NextResponse.json(
+        { error: 'This shipment has been voided' },
+        { status: 410 }
+      )
+    }
+
+    const file = shipment.invoiceKey ? await getStorage().getStream(shipment.invoiceKey) : null
+    if (!file) {
+      return NextResponse.json(
+        { error: 'No commercial invoice for this shipment' },
+        { status: 404 }
+      )
+    }
+
+    const filename = `invoice-${shipment.order.orderNumber.replace(/[^A-Za-z0-9-]/g, '')}.pdf`
+
+    return new NextResponse(file.body, {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `${forceDownload ? 'attachment' : 'inline'}; filename="${filename}"`,
+        ...(file.size !== null && { 'Content-Length': file.size.toString() }),
+        'Cache-Control': 'private, max-age=3600',
+      },
+    })
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    console.error('[Invoice API] Error:', message)
+    return NextResponse.json(
+      { error: message },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/src/lib/db'
+import { isZplRenderingEnabled, renderZpl } from '@/src/lib/zpl'
+import { readLabel } from '@/src/lib/label-documents'
+
+interface RouteParams {
+  params: Promise<{
+    shipmentId: string
+  }>
+}
+
+/**
+ * GET /api/shipping/label/[shipmentId]/preview
+ *
+ * Returns a PNG of a ZPL label, to check it on screen. Image and PDF labels
+ * are shown as they are, so this redirects to the label itself for those.
+ * ZPL previews need LABELARY_URL (see src/lib/zpl) and answer 503 without it.
+ *
+ * Query params:
+ *   - package=N: Label of the Nth box of a multi-package shipment
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { shipmentId } = await params
+    const url = new URL(request.url)
+    const packageParam = url.searchParams.get('package')
+
+    const shipment = await prisma.shipment.findUnique({
+      where: { id: shipmentId },
+      select: { labelKey: true, labelData: true, labelFormat: true, voidedAt: true },
+    })
+
+    if (!shipment) {
+      return NextResponse.json({ error: 'Shipment not found' }, { status: 404 })
+    }
+
+    if (shipment.voidedAt) {
+      return NextResponse.json({ error: 'This label has been voided' }, { status: 410 })
+    }
+
+    if ((shipment.labelFormat || 'PNG').toUpperCase() !== 'ZPL') {
+      const labelUrl = new URL(`/api/shipping/label/${shipmentId}`, url)
+      if (packageParam) labelUrl.searchParams.set('package', packageParam)
+      return NextResponse.redirect(labelUrl)
+    }
+
+    let label = { labelKey: shipment.labelKey, labelData: shipment.labelData }
+    if (packageParam) {
+      const sequence = parseInt(packageParam, 10)
+      const pkg = Number.isInteger(sequence)
+        ? await prisma.shipmentPackage.findUnique({
+            where: { shipmentId_sequence: { shipmentId, sequence } },
+            select: { labelKey: true, labelData: true },
+          })
+        : null
+
+      if (!pkg) {
+        return NextResponse.json({ error: 'Package not found' }, { status: 404 })
+      }
+      label = pkg
+    }
+
+    const labelData = await readLabel(label)
+    if (!labelData) {
+      return NextResponse.json(
+        { error: 'No label data available for this shipment' },
+        { status: 404 }
+      )
+    }
+
+    const rendered = await renderZpl(labelData, 'png')
+    if (!rendered.data) {
+      return NextResponse.json(
+        { error: rendered.error },
+        { status: isZplRenderingEnabled() ? 502 : 503 }
+      )
+    }
+
+    return new NextResponse(new Uint8Array(rendered.data), {
+      status: 200,
+      headers: {
+        'Content-Type': 'image/png',
+        'Content-Length': rendered.data.length.toString(),
+        // Labels don't change
+        'Cache-Control': 'private, max-age=3600',
+      },
+    })
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    console.error('[Label Preview] Error:', message)
+    return NextResponse.json({ error: message }, { status: 500 })
+  }
+}
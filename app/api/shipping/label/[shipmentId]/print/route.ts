@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/src/lib/db'
+import { auth } from '@/src/lib/auth'
+import { toLabelFiles } from '@/src/lib/label-documents'
+import { printLabels } from '@/src/lib/printing'
+
+interface RouteParams {
+  params: Promise<{
+    shipmentId: string
+  }>
+}
+
+/**
+ * POST /api/shipping/label/[shipmentId]/print
+ *
+ * Sends a shipment's labels to a network printer, every box's label unless
+ * one is asked for.
+ *
+ * Body:
+ *   - printerId: Printer to use, defaults to the user's default printer
+ *   - package: Sequence of the one box to print
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { shipmentId } = await params
+
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const { printerId, package: packageSequence } = body
+
+    let printer
+    if (printerId) {
+      printer = await prisma.printer.findUnique({ where: { id: printerId } })
+    } else {
+      const user = await prisma.user.findUnique({
+        where: { id: session.user.id },
+        select: { defaultPrinter: true },
+      })
+      printer = user?.defaultPrinter
+      if (!printer) {
+        return NextResponse.json(
+          { error: 'No default printer set. Choose one on the fulfillment screen.' },
+          { status: 400 }
+        )
+      }
+    }
+
+    if (!printer) {
+      return NextResponse.json({ error: 'Printer not found' }, { status: 404 })
+    }
+    if (!printer.isActive) {
+      return NextResponse.json({ error: `${printer.name} is inactive` }, { status: 400 })
+    }
+
+    const shipment = await prisma.shipment.findUnique({
+      where: { id: shipmentId },
+      select: {
+        labelFormat: true,
+        trackingNumber: true,
+        labelKey: true,
+        labelData: true,
+        voidedAt: true,
+        order: { select: { orderNumber: true } },
+        packages: {
+          where: packageSequence ? { sequence: Number(packageSequence) } : undefined,
+          orderBy: { sequence: 'asc' },
+          select: { trackingNumber: true, labelKey: true, labelData: true },
+        },
+      },
+    })
+
+    if (!shipment) {
+      return NextResponse.json({ error: 'Shipment not found' }, { status: 404 })
+    }
+
+    if (shipment.voidedAt) {
+      return NextResponse.json({ error: 'This label has been voided' }, { status: 410 })
+    }
+
+    if (packageSequence && shipment.packages.length === 0) {
+      return NextResponse.json({ error: 'Package not found' }, { status: 404 })
+    }
+
+    const labels = await toLabelFiles(shipment)
+    if (labels.length === 0) {
+      return NextResponse.json(
+        { error: 'No label data available for this shipment' },
+        { status: 404 }
+      )
+    }
+
+    const result = await printLabels(printer, labels, `Order ${shipment.order.orderNumber}`)
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 502 })
+    }
+
+    return NextResponse.json({
+      success: true,
+      printer: { id: printer.id, name: printer.name },
+      labelCount: labels.length,
+    })
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    console.error('[Label Print] Error:', message)
+    return NextResponse.json({ error: message }, { status: 500 })
+  }
+}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/src/lib/db'
+import { getLabelSize, labelContentType, openLabel } from '@/src/lib/label-documents'
 
 interface RouteParams {
   params: Promise<{
@@ -10,17 +11,20 @@ interface RouteParams {
 /**
  * GET /api/shipping/label/[shipmentId]
  *
- * Returns the shipping label image for a shipment.
- * Sets proper content-type headers for browser display/printing.
+ * Returns the shipping label for a shipment: an image or PDF for display and
+ * printing, or raw ZPL to send to a thermal printer (see ./preview for an
+ * image of a ZPL label). The label is streamed from storage.
  *
  * Query params:
  *   - download=true: Forces download instead of inline display
+ *   - package=N: Label of the Nth box of a multi-package shipment
  */
 export async function GET(request: NextRequest, { params }: RouteParams) {
   try {
     const { shipmentId } = await params
     const { searchParams } = new URL(request.url)
     const forceDownload = searchParams.get('download') === 'true'
+    const packageParam = searchParams.get('package')
 
     // Look up the shipment
     const shipment = await prisma.shipment.findUnique({
@@ -28,9 +32,11 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
       select: {
         id: true,
         trackingNumber: true,
+        labelKey: true,
         labelData: true,
         labelFormat: true,
         carrier: true,
+        voidedAt: true,
         order: {
           select: {
             orderNumber: true,
@@ -46,51 +52,51 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
       )
     }
 
-    if (!shipment.labelData) {
+    // A voided label must not be printed and put on a parcel
+    if (shipment.voidedAt) {
+      return NextResponse.json(
+        { error: 'This label has been voided' },
+        { status: 410 }
+      )
+    }
+
+    let label = { labelKey: shipment.labelKey, labelData: shipment.labelData }
+    let trackingNumber = shipment.trackingNumber
+
+    // A single box of a multi-package shipment
+    if (packageParam) {
+      const sequence = parseInt(packageParam, 10)
+      const pkg = Number.isInteger(sequence)
+        ? await prisma.shipmentPackage.findUnique({
+            where: { shipmentId_sequence: { shipmentId, sequence } },
+            select: { trackingNumber: true, labelKey: true, labelData: true },
+          })
+        : null
+
+      if (!pkg) {
+        return NextResponse.json(
+          { error: 'Package not found' },
+          { status: 404 }
+        )
+      }
+
+      label = { labelKey: pkg.labelKey, labelData: pkg.labelData }
+      trackingNumber = pkg.trackingNumber
+    }
+
+    const file = await openLabel(label)
+    if (!file) {
       return NextResponse.json(
         { error: 'No label data available for this shipment' },
         { status: 404 }
       )
     }
 
-    // Decode base64 label data
-    const labelBuffer = Buffer.from(shipment.labelData, 'base64')
-
     // Determine content type based on label format
-    const format = (shipment.labelFormat || 'PNG').toUpperCase()
-    let contentType: string
-    let fileExtension: string
-
-    switch (format) {
-      case 'PNG':
-        contentType = 'image/png'
-        fileExtension = 'png'
-        break
-      case 'GIF':
-        contentType = 'image/gif'
-        fileExtension = 'gif'
-        break
-      case 'ZPL':
-        // ZPL is a text-based format for thermal printers
-        contentType = 'application/octet-stream'
-        fileExtension = 'zpl'
-        break
-      case 'PDF':
-        contentType = 'application/pdf'
-        fileExtension = 'pdf'
-        break
-      case 'JPG':
-      case 'JPEG':
-        contentType = 'image/jpeg'
-        fileExtension = 'jpg'
-        break
-      default:
-        contentType = 'application/octet-stream'
-        fileExtension = 'bin'
-    }
+    const { contentType, extension } = labelContentType(shipment.labelFormat)
 
     // Build filename for download
-    const filename = `label-${shipment.carrier}-${shipment.trackingNumber || shipment.id}.${fileExtension}`
+    const filename = `label-${shipment.carrier}-${trackingNumber || shipment.id}.${extension}`
 
     // Set content disposition based on whether user wants download
     const disposition = forceDownload
@@ -98,12 +104,12 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
       : `inline; filename="${filename}"`
 
     // Return the label with proper headers
-    return new NextResponse(labelBuffer, {
+    return new NextResponse(file.body, {
       status: 200,
       headers: {
         'Content-Type': contentType,
         'Content-Disposition': disposition,
-        'Content-Length': labelBuffer.length.toString(),
+        ...(file.size !== null && { 'Content-Length': file.size.toString() }),
         // Cache for 1 hour (labels don't change)
         'Cache-Control': 'private, max-age=3600',
       },
@@ -130,32 +136,22 @@ export async function HEAD(request: NextRequest, { params }: RouteParams) {
     const shipment = await prisma.shipment.findUnique({
       where: { id: shipmentId },
       select: {
+        labelKey: true,
         labelData: true,
         labelFormat: true,
       },
     })
 
-    if (!shipment || !shipment.labelData) {
+    const size = shipment ? await getLabelSize(shipment) : null
+    if (!shipment || size === null) {
       return new NextResponse(null, { status: 404 })
     }
 
-    const format = (shipment.labelFormat || 'PNG').toUpperCase()
-    const contentType =
-      format === 'PNG'
-        ? 'image/png'
-        : format === 'GIF'
-          ? 'image/gif'
-          : format === 'PDF'
-            ? 'application/pdf'
-            : 'application/octet-stream'
-
-    const labelBuffer = Buffer.from(shipment.labelData, 'base64')
-
     return new NextResponse(null, {
       status: 200,
       headers: {
-        'Content-Type': contentType,
-        'Content-Length': labelBuffer.length.toString(),
+        'Content-Type': labelContentType(shipment.labelFormat).contentType,
+        'Content-Length': size.toString(),
       },
     })
   } catch {
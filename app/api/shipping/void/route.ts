@@ -0,0 +1,155 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/src/lib/db'
+import { getCarrier } from '@/src/lib/carriers'
+import { cancelFulfillment, findFulfillment } from '@/src/lib/shopify'
+import { reverseShipmentItems } from '@/src/lib/fulfillment'
+import { auth } from '@/src/lib/auth'
+
+interface VoidRequest {
+  shipmentId: string
+}
+
+/**
+ * POST /api/shipping/void
+ *
+ * Voids a shipment's label with the carrier so the postage is refunded, then
+ * puts the units back in stock, reopens the order and cancels the matching
+ * Shopify fulfillment.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Get current user
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    const userId = session.user.id
+
+    const body: VoidRequest = await request.json()
+
+    if (!body.shipmentId) {
+      return NextResponse.json(
+        { error: 'Missing required field: shipmentId' },
+        { status: 400 }
+      )
+    }
+
+    const shipment = await prisma.shipment.findUnique({
+      where: { id: body.shipmentId },
+      include: {
+        order: {
+          select: { id: true, orderNumber: true, shopifyOrderId: true },
+        },
+        packages: {
+          orderBy: { sequence: 'asc' },
+          select: { trackingNumber: true },
+        },
+      },
+    })
+
+    if (!shipment) {
+      return NextResponse.json({ error: 'Shipment not found' }, { status: 404 })
+    }
+
+    if (shipment.voidedAt) {
+      return NextResponse.json({ error: 'Shipment already voided' }, { status: 400 })
+    }
+
+    console.log(`[Void] Voiding ${shipment.carrier} shipment ${shipment.trackingNumber} for order ${shipment.order.orderNumber}`)
+
+    // 1. Void the label with the carrier. Mock labels and manual shipments
+    //    have nothing to void.
+    const carrier = getCarrier(shipment.carrier)
+    if (shipment.trackingNumber && carrier && shipment.carrierMode !== 'MOCK') {
+      // A sandbox label can only be voided with sandbox credentials, and the
+      // same for production
+      if (!carrier.isConfigured() || carrier.getMode() !== shipment.carrierMode) {
+        return NextResponse.json(
+          {
+            error: `This label was bought in ${shipment.carrierMode.toLowerCase()} mode but ${carrier.name} is in ${carrier.getMode().toLowerCase()} mode`,
+          },
+          { status: 400 }
+        )
+      }
+
+      const packageNumbers = shipment.packages.flatMap((pkg) =>
+        pkg.trackingNumber && pkg.trackingNumber !== shipment.trackingNumber ? [pkg.trackingNumber] : []
+      )
+      const result = await carrier.voidShipment([shipment.trackingNumber, ...packageNumbers])
+
+      if (!result.voided) {
+        return NextResponse.json(
+          { error: result.error || 'Carrier refused to void the shipment' },
+          { status: 400 }
+        )
+      }
+    }
+
+    // 2. Mark the shipment voided, return the units to their bins and
+    //    reopen the order. The shipment is claimed so a second request that
+    //    got past the check above can't reverse it again.
+    const voided = await prisma.$transaction(async (tx) => {
+      const claimed = await tx.shipment.updateMany({
+        where: { id: shipment.id, voidedAt: null },
+        data: { voidedAt: new Date(), voidedByUserId: userId },
+      })
+      if (claimed.count === 0) {
+        return null
+      }
+
+      const reversed = await reverseShipmentItems(tx, {
+        orderId: shipment.orderId,
+        shipmentId: shipment.id,
+        userId,
+        notes: `Label voided for order ${shipment.order.orderNumber} via ${shipment.carrier}`,
+      })
+
+      // The units are still packed, so the pack pass can go out on a new label
+      await tx.packVerification.updateMany({
+        where: { shipmentId: shipment.id },
+        data: { shipmentId: null },
+      })
+
+      return reversed
+    })
+
+    if (!voided) {
+      return NextResponse.json({ error: 'Shipment already voided' }, { status: 400 })
+    }
+    const { restocked } = voided
+
+    if (!restocked) {
+      console.warn(`[Void] Shipment ${shipment.id} has no linked stock moves; inventory needs a manual adjustment`)
+    }
+
+    // 3. Try to cancel the Shopify fulfillment (don't fail if this fails)
+    let shopifyCancelled = false
+    try {
+      if (shipment.order.shopifyOrderId) {
+        const fulfillmentId =
+          shipment.shopifyFulfillmentId ??
+          (shipment.trackingNumber
+            ? (await findFulfillment(shipment.order.shopifyOrderId, shipment.trackingNumber))?.id
+            : null)
+
+        if (fulfillmentId) {
+          await cancelFulfillment(fulfillmentId)
+          shopifyCancelled = true
+        }
+      }
+    } catch (error) {
+      console.error('[Void] Failed to cancel Shopify fulfillment:', error)
+      // The label is already voided; the fulfillment can be cancelled in Shopify
+    }
+
+    return NextResponse.json({
+      success: true,
+      restocked,
+      shopifyCancelled,
+    })
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    console.error('[Void] Error:', message)
+    return NextResponse.json({ error: message }, { status: 500 })
+  }
+}
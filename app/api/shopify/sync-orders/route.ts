@@ -1,8 +1,13 @@
-import { NextResponse } from 'next/server'
+import { NextResponse, after } from 'next/server'
 import { auth } from '@/src/lib/auth'
 import { prisma } from '@/src/lib/db'
-import { fetchOrders } from '@/src/lib/shopify'
+import { fetchOrders, getGiftNote } from '@/src/lib/shopify'
 import { Prisma, OrderStatus } from '@/app/generated/prisma/client'
+import { routeOrder } from '@/src/lib/warehouses'
+import { syncOrderAllocation } from '@/src/lib/inventory'
+import { validateOrderAddresses } from '@/src/lib/address-validation'
+import { toShopifyOrderUpdate } from '@/src/lib/order-addresses'
+import { resolveShopifyStatus } from '@/src/lib/fulfillment'
 
 // Extend timeout for syncing many orders
 export const maxDuration = 60
@@ -47,6 +52,7 @@ export async function POST() {
     let lineItemsCreated = 0
     let lineItemsUpdated = 0
     const errors: string[] = []
+    const addressesToCheck: string[] = []
 
     // Build a map of SKU -> Product ID for linking
     const products = await prisma.product.findMany({
@@ -91,6 +97,8 @@ export async function POST() {
           shippingCountry: shopifyOrder.shipping_address?.country_code || shopifyOrder.shipping_address?.country || 'US',
           status,
           totalPrice: new Prisma.Decimal(shopifyOrder.total_price),
+          shippingMethod: shopifyOrder.shipping_lines[0]?.title || null,
+          giftNote: getGiftNote(shopifyOrder),
           currency: shopifyOrder.currency,
           shopifyCreatedAt: new Date(shopifyOrder.created_at),
         }
@@ -98,18 +106,34 @@ export async function POST() {
         let orderId: string
 
         if (existingOrder) {
+          // An address or status changed in the WMS is kept
+          const { data, addressChanged } = toShopifyOrderUpdate(existingOrder, {
+            ...orderData,
+            status: resolveShopifyStatus(existingOrder.status, status),
+          })
           await prisma.order.update({
             where: { id: existingOrder.id },
-            data: orderData,
+            data,
           })
           orderId = existingOrder.id
           updated++
+          if (addressChanged) {
+            addressesToCheck.push(orderId)
+          }
         } else {
+          const warehouseId = await routeOrder(
+            shopifyOrder.line_items.map((li) => ({
+              productId: li.sku ? skuToProductId.get(li.sku.toLowerCase()) || null : null,
+              quantity: li.quantity,
+            }))
+          )
+
           const newOrder = await prisma.order.create({
-            data: orderData,
+            data: { ...orderData, warehouseId },
           })
           orderId = newOrder.id
           created++
+          addressesToCheck.push(orderId)
         }
 
         // Process line items
@@ -149,6 +173,9 @@ export async function POST() {
             lineItemsCreated++
           }
         }
+
+        // Reserve (or release) stock to match the order's status and lines
+        await prisma.$transaction((tx) => syncOrderAllocation(tx, orderId))
       } catch (error) {
         const message = error instanceof Error ? error.message : 'Unknown error'
         console.error(`[Sync] Error processing order ${shopifyOrder.name}:`, message)
@@ -156,6 +183,11 @@ export async function POST() {
       }
     }
 
+    // New and changed addresses are checked with the carriers after responding
+    if (addressesToCheck.length > 0) {
+      after(() => validateOrderAddresses(addressesToCheck))
+    }
+
     const totalOrders = created + updated
     const totalLineItems = lineItemsCreated + lineItemsUpdated
 
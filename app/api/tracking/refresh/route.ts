@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { refreshActiveShipments, refreshShipmentTracking } from '@/src/lib/tracking'
+import { auth } from '@/src/lib/auth'
+
+interface RefreshRequest {
+  shipmentId?: string
+}
+
+/**
+ * Check for the CRON_SECRET bearer token sent by the scheduler
+ */
+function isCronRequest(request: NextRequest): boolean {
+  const secret = process.env.CRON_SECRET
+  return !!secret && request.headers.get('authorization') === `Bearer ${secret}`
+}
+
+/**
+ * POST /api/tracking/refresh
+ *
+ * Polls the carriers for tracking updates. With a shipmentId only that
+ * shipment is refreshed; otherwise every recent shipment that hasn't been
+ * delivered is. A scheduler can call this without a session by sending
+ * `Authorization: Bearer $CRON_SECRET`.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    if (!isCronRequest(request)) {
+      const session = await auth()
+      if (!session?.user?.id) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+      }
+    }
+
+    let body: RefreshRequest = {}
+    try {
+      body = await request.json()
+    } catch {
+      // No body: refresh everything
+    }
+
+    if (body.shipmentId) {
+      const result = await refreshShipmentTracking(body.shipmentId)
+      if (result.error) {
+        return NextResponse.json({ error: result.error }, { status: result.notFound ? 404 : 400 })
+      }
+
+      return NextResponse.json({
+        success: true,
+        status: result.status,
+        newEvents: result.newEvents,
+      })
+    }
+
+    const result = await refreshActiveShipments()
+    console.log(
+      `[Tracking] Checked ${result.checked} shipments, ${result.updated} updated, ${result.errors.length} errors`
+    )
+
+    return NextResponse.json({ success: true, ...result })
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    console.error('[Tracking] Error:', message)
+    return NextResponse.json({ error: message }, { status: 500 })
+  }
+}
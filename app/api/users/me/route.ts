@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/src/lib/db'
+import { auth } from '@/src/lib/auth'
+
+/**
+ * PATCH /api/users/me
+ *
+ * Saves the signed-in user's own preferences. Any user can do this, unlike
+ * editing users in settings.
+ */
+export async function PATCH(request: NextRequest) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const { labelFormat, defaultPrinterId } = body
+
+    const data: { labelFormat?: 'IMAGE' | 'ZPL'; defaultPrinterId?: string | null } = {}
+
+    if (labelFormat !== undefined) {
+      if (labelFormat !== 'IMAGE' && labelFormat !== 'ZPL') {
+        return NextResponse.json({ error: 'Label format must be IMAGE or ZPL' }, { status: 400 })
+      }
+      data.labelFormat = labelFormat
+    }
+
+    // null clears the default printer
+    if (defaultPrinterId !== undefined) {
+      if (defaultPrinterId !== null) {
+        const printer = await prisma.printer.findUnique({
+          where: { id: String(defaultPrinterId) },
+          select: { isActive: true },
+        })
+        if (!printer?.isActive) {
+          return NextResponse.json({ error: 'Printer not found' }, { status: 400 })
+        }
+      }
+      data.defaultPrinterId = defaultPrinterId
+    }
+
+    if (Object.keys(data).length === 0) {
+      return NextResponse.json({ error: 'Nothing to update' }, { status: 400 })
+    }
+
+    const user = await prisma.user.update({
+      where: { id: session.user.id },
+      data,
+      select: { id: true, labelFormat: true, defaultPrinterId: true },
+    })
+
+    return NextResponse.json({ success: true, user })
+  } catch (error) {
+    console.error('[Users API] Error:', error)
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return NextResponse.json({ error: message }, { status: 500 })
+  }
+}
@@ -0,0 +1,165 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/src/lib/db'
+import { auth } from '@/src/lib/auth'
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+export async function PUT(request: NextRequest, context: RouteContext) {
+  try {
+    const { id } = await context.params
+
+    // Check authentication and admin role
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const currentUser = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { role: true },
+    })
+
+    if (currentUser?.role !== 'ADMIN') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const body = await request.json()
+    const { code, name, address1, address2, city, state, zip, country, phone, isDefault, isActive } = body
+
+    if (!code || !name || !address1 || !city || !state || !zip) {
+      return NextResponse.json(
+        { error: 'Code, name, street address, city, state, and ZIP are required' },
+        { status: 400 }
+      )
+    }
+
+    // Check if warehouse exists
+    const existingWarehouse = await prisma.warehouse.findUnique({
+      where: { id },
+    })
+
+    if (!existingWarehouse) {
+      return NextResponse.json({ error: 'Warehouse not found' }, { status: 404 })
+    }
+
+    // Check if code is taken by another warehouse
+    const normalizedCode = String(code).trim().toUpperCase()
+    if (normalizedCode !== existingWarehouse.code) {
+      const codeTaken = await prisma.warehouse.findUnique({
+        where: { code: normalizedCode },
+      })
+      if (codeTaken) {
+        return NextResponse.json(
+          { error: 'A warehouse with this code already exists' },
+          { status: 400 }
+        )
+      }
+    }
+
+    // The default warehouse can't be switched off or un-defaulted directly;
+    // make another warehouse the default instead
+    const makeDefault = existingWarehouse.isDefault || !!isDefault
+    if (existingWarehouse.isDefault && isActive === false) {
+      return NextResponse.json(
+        { error: 'The default warehouse cannot be deactivated' },
+        { status: 400 }
+      )
+    }
+
+    const warehouse = await prisma.$transaction(async (tx) => {
+      if (makeDefault && !existingWarehouse.isDefault) {
+        await tx.warehouse.updateMany({
+          where: { isDefault: true },
+          data: { isDefault: false },
+        })
+      }
+
+      return tx.warehouse.update({
+        where: { id },
+        data: {
+          code: normalizedCode,
+          name,
+          address1,
+          address2: address2 || null,
+          city,
+          state,
+          zip,
+          country: country || 'US',
+          phone: phone || null,
+          isDefault: makeDefault,
+          isActive: makeDefault ? true : isActive !== false,
+        },
+      })
+    })
+
+    return NextResponse.json({ success: true, warehouse })
+  } catch (error) {
+    console.error('[Warehouses API] Error:', error)
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return NextResponse.json({ error: message }, { status: 500 })
+  }
+}
+
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  try {
+    const { id } = await context.params
+
+    // Check authentication and admin role
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const currentUser = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { role: true },
+    })
+
+    if (currentUser?.role !== 'ADMIN') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const existingWarehouse = await prisma.warehouse.findUnique({
+      where: { id },
+      include: { _count: { select: { locations: true, returns: true, purchaseOrders: true } } },
+    })
+
+    if (!existingWarehouse) {
+      return NextResponse.json({ error: 'Warehouse not found' }, { status: 404 })
+    }
+
+    if (existingWarehouse.isDefault) {
+      return NextResponse.json(
+        { error: 'The default warehouse cannot be deleted' },
+        { status: 400 }
+      )
+    }
+
+    // Bins hold stock history; deactivate the warehouse instead
+    if (existingWarehouse._count.locations > 0) {
+      return NextResponse.json(
+        { error: 'This warehouse has bin locations. Deactivate it instead.' },
+        { status: 400 }
+      )
+    }
+
+    if (existingWarehouse._count.returns > 0 || existingWarehouse._count.purchaseOrders > 0) {
+      return NextResponse.json(
+        { error: 'This warehouse has returns or purchase orders. Deactivate it instead.' },
+        { status: 400 }
+      )
+    }
+
+    await prisma.warehouse.delete({
+      where: { id },
+    })
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('[Warehouses API] Error:', error)
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return NextResponse.json({ error: message }, { status: 500 })
+  }
+}
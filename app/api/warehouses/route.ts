@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/src/lib/db'
+import { auth } from '@/src/lib/auth'
+
+export async function POST(request: NextRequest) {
+  try {
+    // Check authentication and admin role
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const currentUser = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { role: true },
+    })
+
+    if (currentUser?.role !== 'ADMIN') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const body = await request.json()
+    const { code, name, address1, address2, city, state, zip, country, phone, isDefault } = body
+
+    if (!code || !name || !address1 || !city || !state || !zip) {
+      return NextResponse.json(
+        { error: 'Code, name, street address, city, state, and ZIP are required' },
+        { status: 400 }
+      )
+    }
+
+    const normalizedCode = String(code).trim().toUpperCase()
+
+    // Check if code already exists
+    const existingWarehouse = await prisma.warehouse.findUnique({
+      where: { code: normalizedCode },
+    })
+
+    if (existingWarehouse) {
+      return NextResponse.json(
+        { error: 'A warehouse with this code already exists' },
+        { status: 400 }
+      )
+    }
+
+    // The first warehouse is always the default
+    const warehouseCount = await prisma.warehouse.count()
+    const makeDefault = !!isDefault || warehouseCount === 0
+
+    const warehouse = await prisma.$transaction(async (tx) => {
+      if (makeDefault) {
+        await tx.warehouse.updateMany({
+          where: { isDefault: true },
+          data: { isDefault: false },
+        })
+      }
+
+      return tx.warehouse.create({
+        data: {
+          code: normalizedCode,
+          name,
+          address1,
+          address2: address2 || null,
+          city,
+          state,
+          zip,
+          country: country || 'US',
+          phone: phone || null,
+          isDefault: makeDefault,
+        },
+      })
+    })
+
+    return NextResponse.json({ success: true, warehouse })
+  } catch (error) {
+    console.error('[Warehouses API] Error:', error)
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return NextResponse.json({ error: message }, { status: 500 })
+  }
+}
@@ -1,7 +1,13 @@
-import { NextRequest, NextResponse } from 'next/server'
+import { NextRequest, NextResponse, after } from 'next/server'
 import crypto from 'crypto'
 import { prisma } from '@/src/lib/db'
 import { Prisma, OrderStatus } from '@/app/generated/prisma/client'
+import { routeOrder } from '@/src/lib/warehouses'
+import { syncOrderAllocation } from '@/src/lib/inventory'
+import { getGiftNote, type ShopifyNoteAttribute } from '@/src/lib/shopify'
+import { validateOrderAddresses } from '@/src/lib/address-validation'
+import { toShopifyOrderUpdate } from '@/src/lib/order-addresses'
+import { resolveShopifyStatus } from '@/src/lib/fulfillment'
 
 // Verify Shopify webhook signature
 function verifyWebhookSignature(body: string, signature: string, secret: string): boolean {
@@ -71,6 +77,12 @@ interface ShopifyWebhookOrder {
     quantity: number
     price: string
   }>
+  shipping_lines: Array<{
+    title: string
+    code: string | null
+  }>
+  note: string | null
+  note_attributes: ShopifyNoteAttribute[]
 }
 
 // Process order webhook (create or update)
@@ -101,6 +113,8 @@ async function processOrderWebhook(order: ShopifyWebhookOrder, topic: string) {
     shippingCountry: order.shipping_address?.country_code || order.shipping_address?.country || 'US',
     status,
     totalPrice: new Prisma.Decimal(order.total_price),
+    shippingMethod: order.shipping_lines[0]?.title || null,
+    giftNote: getGiftNote(order),
     currency: order.currency,
     shopifyCreatedAt: new Date(order.created_at),
   }
@@ -119,11 +133,17 @@ async function processOrderWebhook(order: ShopifyWebhookOrder, topic: string) {
   })
 
   if (existingOrder) {
-    // Update existing order
+    // Update existing order; a changed address is checked again, one
+    // changed in the WMS is kept, and so is a status the WMS moved it to
+    const updatedStatus = resolveShopifyStatus(existingOrder.status, status)
+    const { data, addressChanged } = toShopifyOrderUpdate(existingOrder, { ...orderData, status: updatedStatus })
     await prisma.order.update({
       where: { id: existingOrder.id },
-      data: orderData,
+      data,
     })
+    if (addressChanged && updatedStatus !== 'SHIPPED' && updatedStatus !== 'CANCELLED') {
+      after(() => validateOrderAddresses([existingOrder.id]))
+    }
 
     // Update line items
     for (const lineItem of order.line_items) {
@@ -151,11 +171,21 @@ async function processOrderWebhook(order: ShopifyWebhookOrder, topic: string) {
       })
     }
 
+    // Status or quantities may have changed
+    await prisma.$transaction((tx) => syncOrderAllocation(tx, existingOrder.id))
+
     console.log(`[Webhook] Updated order ${order.name} (${topic})`)
   } else {
-    // Create new order with line items
+    // Route to the warehouse that can ship it, then create with line items
+    const warehouseId = await routeOrder(
+      order.line_items.map((li) => ({
+        productId: li.sku ? skuToProductId.get(li.sku.toLowerCase()) || null : null,
+        quantity: li.quantity,
+      }))
+    )
+
     const newOrder = await prisma.order.create({
-      data: orderData,
+      data: { ...orderData, warehouseId },
     })
 
     // Create line items
@@ -177,7 +207,13 @@ async function processOrderWebhook(order: ShopifyWebhookOrder, topic: string) {
       })
     }
 
-    console.log(`[Webhook] Created order ${order.name} (${topic})`)
+    // Reserve stock so later orders can't promise the same units
+    const fullyAllocated = await prisma.$transaction((tx) => syncOrderAllocation(tx, newOrder.id))
+
+    // Check the address with the carriers once Shopify has its answer
+    after(() => validateOrderAddresses([newOrder.id]))
+
+    console.log(`[Webhook] Created order ${order.name} (${topic})${fullyAllocated ? '' : ' - short on stock'}`)
   }
 }
 
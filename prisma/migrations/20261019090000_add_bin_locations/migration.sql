@@ -0,0 +1,61 @@
+-- AlterTable
+ALTER TABLE "InventoryTransaction" ADD COLUMN     "locationId" TEXT;
+
+-- CreateTable
+CREATE TABLE "Location" (
+    "id" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "zone" TEXT NOT NULL,
+    "aisle" TEXT NOT NULL,
+    "shelf" TEXT NOT NULL,
+    "bin" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Location_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "LocationStock" (
+    "id" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "locationId" TEXT NOT NULL,
+    "quantity" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "LocationStock_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "InventoryTransaction_locationId_idx" ON "InventoryTransaction"("locationId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Location_code_key" ON "Location"("code");
+
+-- CreateIndex
+CREATE INDEX "Location_zone_aisle_shelf_bin_idx" ON "Location"("zone", "aisle", "shelf", "bin");
+
+-- CreateIndex
+CREATE INDEX "LocationStock_locationId_idx" ON "LocationStock"("locationId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "LocationStock_productId_locationId_key" ON "LocationStock"("productId", "locationId");
+
+-- AddForeignKey
+ALTER TABLE "InventoryTransaction" ADD CONSTRAINT "InventoryTransaction_locationId_fkey" FOREIGN KEY ("locationId") REFERENCES "Location"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LocationStock" ADD CONSTRAINT "LocationStock_productId_fkey" FOREIGN KEY ("productId") REFERENCES "Product"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LocationStock" ADD CONSTRAINT "LocationStock_locationId_fkey" FOREIGN KEY ("locationId") REFERENCES "Location"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- Move existing stock into a holding bin so currentStock keeps matching the per-bin total
+INSERT INTO "Location" ("id", "code", "zone", "aisle", "shelf", "bin", "updatedAt")
+VALUES ('unassigned', 'UNASSIGNED', 'UNASSIGNED', '00', '00', '00', CURRENT_TIMESTAMP);
+
+INSERT INTO "LocationStock" ("id", "productId", "locationId", "quantity", "updatedAt")
+SELECT gen_random_uuid()::text, "id", 'unassigned', "currentStock", CURRENT_TIMESTAMP
+FROM "Product"
+WHERE "currentStock" > 0;
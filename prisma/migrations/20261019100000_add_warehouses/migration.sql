@@ -0,0 +1,57 @@
+-- CreateTable
+CREATE TABLE "Warehouse" (
+    "id" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "address1" TEXT NOT NULL,
+    "address2" TEXT,
+    "city" TEXT NOT NULL,
+    "state" TEXT NOT NULL,
+    "zip" TEXT NOT NULL,
+    "country" TEXT NOT NULL DEFAULT 'US',
+    "phone" TEXT,
+    "isDefault" BOOLEAN NOT NULL DEFAULT false,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Warehouse_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Warehouse_code_key" ON "Warehouse"("code");
+
+-- Existing bins and orders belong to the original building. Its address was
+-- previously read from WAREHOUSE_* env vars; fill it in from Settings (or run
+-- the seed script, which copies those vars over).
+INSERT INTO "Warehouse" ("id", "code", "name", "address1", "city", "state", "zip", "isDefault", "updatedAt")
+VALUES ('main', 'MAIN', 'Main Warehouse', '', '', '', '', true, CURRENT_TIMESTAMP);
+
+-- DropIndex
+DROP INDEX "Location_code_key";
+
+-- AlterTable
+ALTER TABLE "Location" ADD COLUMN     "warehouseId" TEXT;
+UPDATE "Location" SET "warehouseId" = 'main';
+ALTER TABLE "Location" ALTER COLUMN "warehouseId" SET NOT NULL;
+
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN     "warehouseId" TEXT;
+
+-- AlterTable
+ALTER TABLE "Shipment" ADD COLUMN     "warehouseId" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Location_warehouseId_code_key" ON "Location"("warehouseId", "code");
+
+-- CreateIndex
+CREATE INDEX "Order_warehouseId_idx" ON "Order"("warehouseId");
+
+-- AddForeignKey
+ALTER TABLE "Location" ADD CONSTRAINT "Location_warehouseId_fkey" FOREIGN KEY ("warehouseId") REFERENCES "Warehouse"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Order" ADD CONSTRAINT "Order_warehouseId_fkey" FOREIGN KEY ("warehouseId") REFERENCES "Warehouse"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Shipment" ADD CONSTRAINT "Shipment_warehouseId_fkey" FOREIGN KEY ("warehouseId") REFERENCES "Warehouse"("id") ON DELETE SET NULL ON UPDATE CASCADE;
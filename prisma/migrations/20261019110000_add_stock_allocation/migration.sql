@@ -0,0 +1,34 @@
+-- AlterTable
+ALTER TABLE "OrderItem" ADD COLUMN     "allocatedQuantity" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "Product" ADD COLUMN     "allocatedStock" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "availableStock" INTEGER NOT NULL DEFAULT 0;
+
+-- Reserve stock for orders that are already open, oldest order first
+WITH ranked AS (
+    SELECT
+        oi."id",
+        oi."quantity",
+        p."currentStock",
+        SUM(oi."quantity") OVER (
+            PARTITION BY oi."productId"
+            ORDER BY o."createdAt", oi."id"
+        ) - oi."quantity" AS "ahead"
+    FROM "OrderItem" oi
+    JOIN "Order" o ON o."id" = oi."orderId"
+    JOIN "Product" p ON p."id" = oi."productId"
+    WHERE o."status" IN ('PENDING', 'PROCESSING', 'ON_HOLD')
+)
+UPDATE "OrderItem" oi
+SET "allocatedQuantity" = GREATEST(0, LEAST(r."quantity", r."currentStock" - r."ahead"))
+FROM ranked r
+WHERE oi."id" = r."id";
+
+UPDATE "Product" p
+SET "allocatedStock" = COALESCE(
+    (SELECT SUM(oi."allocatedQuantity") FROM "OrderItem" oi WHERE oi."productId" = p."id"),
+    0
+);
+
+UPDATE "Product" SET "availableStock" = "currentStock" - "allocatedStock";
@@ -0,0 +1,52 @@
+-- CreateEnum
+CREATE TYPE "PickBatchStatus" AS ENUM ('OPEN', 'PICKING', 'PICKED', 'PACKED');
+
+-- CreateTable
+CREATE TABLE "PickBatch" (
+    "id" TEXT NOT NULL,
+    "batchNumber" SERIAL NOT NULL,
+    "status" "PickBatchStatus" NOT NULL DEFAULT 'OPEN',
+    "warehouseId" TEXT NOT NULL,
+    "createdByUserId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PickBatch_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "PickBatchOrder" (
+    "id" TEXT NOT NULL,
+    "batchId" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "tote" TEXT NOT NULL,
+
+    CONSTRAINT "PickBatchOrder_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PickBatch_batchNumber_key" ON "PickBatch"("batchNumber");
+
+-- CreateIndex
+CREATE INDEX "PickBatch_status_idx" ON "PickBatch"("status");
+
+-- CreateIndex
+CREATE INDEX "PickBatchOrder_orderId_idx" ON "PickBatchOrder"("orderId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PickBatchOrder_batchId_orderId_key" ON "PickBatchOrder"("batchId", "orderId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PickBatchOrder_batchId_tote_key" ON "PickBatchOrder"("batchId", "tote");
+
+-- AddForeignKey
+ALTER TABLE "PickBatch" ADD CONSTRAINT "PickBatch_warehouseId_fkey" FOREIGN KEY ("warehouseId") REFERENCES "Warehouse"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PickBatch" ADD CONSTRAINT "PickBatch_createdByUserId_fkey" FOREIGN KEY ("createdByUserId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PickBatchOrder" ADD CONSTRAINT "PickBatchOrder_batchId_fkey" FOREIGN KEY ("batchId") REFERENCES "PickBatch"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PickBatchOrder" ADD CONSTRAINT "PickBatchOrder_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "Order"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,37 @@
+-- CreateTable
+CREATE TABLE "PackVerification" (
+    "id" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "verifiedByUserId" TEXT NOT NULL,
+    "completedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PackVerification_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "PackScan" (
+    "id" TEXT NOT NULL,
+    "verificationId" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "sku" TEXT,
+    "error" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PackScan_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "PackVerification_orderId_idx" ON "PackVerification"("orderId");
+
+-- CreateIndex
+CREATE INDEX "PackScan_verificationId_idx" ON "PackScan"("verificationId");
+
+-- AddForeignKey
+ALTER TABLE "PackVerification" ADD CONSTRAINT "PackVerification_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "Order"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PackVerification" ADD CONSTRAINT "PackVerification_verifiedByUserId_fkey" FOREIGN KEY ("verifiedByUserId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PackScan" ADD CONSTRAINT "PackScan_verificationId_fkey" FOREIGN KEY ("verificationId") REFERENCES "PackVerification"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,46 @@
+-- AlterTable
+ALTER TABLE "OrderItem" ADD COLUMN     "shippedQuantity" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "PackVerification" ADD COLUMN     "shipmentId" TEXT;
+
+-- CreateTable
+CREATE TABLE "ShipmentItem" (
+    "id" TEXT NOT NULL,
+    "shipmentId" TEXT NOT NULL,
+    "orderItemId" TEXT NOT NULL,
+    "quantity" INTEGER NOT NULL,
+
+    CONSTRAINT "ShipmentItem_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ShipmentItem_orderItemId_idx" ON "ShipmentItem"("orderItemId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ShipmentItem_shipmentId_orderItemId_key" ON "ShipmentItem"("shipmentId", "orderItemId");
+
+-- AddForeignKey
+ALTER TABLE "ShipmentItem" ADD CONSTRAINT "ShipmentItem_shipmentId_fkey" FOREIGN KEY ("shipmentId") REFERENCES "Shipment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ShipmentItem" ADD CONSTRAINT "ShipmentItem_orderItemId_fkey" FOREIGN KEY ("orderItemId") REFERENCES "OrderItem"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PackVerification" ADD CONSTRAINT "PackVerification_shipmentId_fkey" FOREIGN KEY ("shipmentId") REFERENCES "Shipment"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Orders shipped before this change went out in one shipment: their latest
+UPDATE "OrderItem" oi
+SET "shippedQuantity" = oi."quantity"
+FROM "Order" o
+WHERE o."id" = oi."orderId" AND o."status" = 'SHIPPED';
+
+INSERT INTO "ShipmentItem" ("id", "shipmentId", "orderItemId", "quantity")
+SELECT md5(s."id" || oi."id"), s."id", oi."id", oi."quantity"
+FROM (
+    SELECT DISTINCT ON ("orderId") "id", "orderId"
+    FROM "Shipment"
+    ORDER BY "orderId", "createdAt" DESC
+) s
+JOIN "Order" o ON o."id" = s."orderId" AND o."status" = 'SHIPPED'
+JOIN "OrderItem" oi ON oi."orderId" = s."orderId";
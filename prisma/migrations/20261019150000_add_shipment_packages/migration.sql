@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "ShipmentPackage" (
+    "id" TEXT NOT NULL,
+    "shipmentId" TEXT NOT NULL,
+    "sequence" INTEGER NOT NULL,
+    "trackingNumber" TEXT,
+    "labelData" TEXT,
+    "weight" DECIMAL(10,2) NOT NULL,
+    "length" DECIMAL(10,2) NOT NULL,
+    "width" DECIMAL(10,2) NOT NULL,
+    "height" DECIMAL(10,2) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ShipmentPackage_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ShipmentPackage_trackingNumber_idx" ON "ShipmentPackage"("trackingNumber");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ShipmentPackage_shipmentId_sequence_key" ON "ShipmentPackage"("shipmentId", "sequence");
+
+-- AddForeignKey
+ALTER TABLE "ShipmentPackage" ADD CONSTRAINT "ShipmentPackage_shipmentId_fkey" FOREIGN KEY ("shipmentId") REFERENCES "Shipment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,26 @@
+-- AlterTable
+ALTER TABLE "ShipmentPackage" ADD COLUMN     "boxId" TEXT;
+
+-- CreateTable
+CREATE TABLE "ShippingBox" (
+    "id" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "length" DECIMAL(10,2) NOT NULL,
+    "width" DECIMAL(10,2) NOT NULL,
+    "height" DECIMAL(10,2) NOT NULL,
+    "tareWeight" DECIMAL(10,2) NOT NULL,
+    "maxWeight" DECIMAL(10,2),
+    "cost" DECIMAL(10,2) NOT NULL,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ShippingBox_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ShippingBox_code_key" ON "ShippingBox"("code");
+
+-- AddForeignKey
+ALTER TABLE "ShipmentPackage" ADD CONSTRAINT "ShipmentPackage_boxId_fkey" FOREIGN KEY ("boxId") REFERENCES "ShippingBox"("id") ON DELETE SET NULL ON UPDATE CASCADE;
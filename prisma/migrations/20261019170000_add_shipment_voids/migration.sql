@@ -0,0 +1,16 @@
+-- AlterTable
+ALTER TABLE "InventoryTransaction" ADD COLUMN     "shipmentId" TEXT;
+
+-- AlterTable
+ALTER TABLE "Shipment" ADD COLUMN     "shopifyFulfillmentId" TEXT,
+ADD COLUMN     "voidedAt" TIMESTAMP(3),
+ADD COLUMN     "voidedByUserId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "InventoryTransaction_shipmentId_idx" ON "InventoryTransaction"("shipmentId");
+
+-- AddForeignKey
+ALTER TABLE "InventoryTransaction" ADD CONSTRAINT "InventoryTransaction_shipmentId_fkey" FOREIGN KEY ("shipmentId") REFERENCES "Shipment"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Shipment" ADD CONSTRAINT "Shipment_voidedByUserId_fkey" FOREIGN KEY ("voidedByUserId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
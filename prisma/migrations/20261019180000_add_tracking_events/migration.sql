@@ -0,0 +1,30 @@
+-- CreateEnum
+CREATE TYPE "TrackingStatus" AS ENUM ('LABEL_CREATED', 'IN_TRANSIT', 'OUT_FOR_DELIVERY', 'DELIVERED', 'EXCEPTION');
+
+-- AlterTable
+ALTER TABLE "Shipment" ADD COLUMN     "deliveredAt" TIMESTAMP(3),
+ADD COLUMN     "trackingStatus" "TrackingStatus" NOT NULL DEFAULT 'LABEL_CREATED',
+ADD COLUMN     "trackingUpdatedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "TrackingEvent" (
+    "id" TEXT NOT NULL,
+    "shipmentId" TEXT NOT NULL,
+    "status" "TrackingStatus" NOT NULL,
+    "code" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "location" TEXT,
+    "occurredAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "TrackingEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Shipment_trackingStatus_idx" ON "Shipment"("trackingStatus");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TrackingEvent_shipmentId_occurredAt_code_key" ON "TrackingEvent"("shipmentId", "occurredAt", "code");
+
+-- AddForeignKey
+ALTER TABLE "TrackingEvent" ADD CONSTRAINT "TrackingEvent_shipmentId_fkey" FOREIGN KEY ("shipmentId") REFERENCES "Shipment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
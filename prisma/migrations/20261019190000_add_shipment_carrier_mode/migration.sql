@@ -0,0 +1,11 @@
+-- CreateEnum
+CREATE TYPE "CarrierMode" AS ENUM ('PRODUCTION', 'SANDBOX', 'MOCK');
+
+-- AlterTable
+ALTER TABLE "Shipment" ADD COLUMN     "carrierMode" "CarrierMode" NOT NULL DEFAULT 'PRODUCTION';
+
+-- Labels bought while a carrier wasn't configured were mocks with a 1x1 placeholder image
+UPDATE "Shipment" SET "carrierMode" = 'MOCK'
+WHERE "labelData" = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNk+M9QDwADhgGAWjR9awAAAABJRU5ErkJggg==';
+
+ALTER TABLE "Shipment" ALTER COLUMN "carrierMode" DROP DEFAULT;
@@ -0,0 +1,32 @@
+-- CreateEnum
+CREATE TYPE "ShippingRuleAction" AS ENUM ('SERVICE', 'CHEAPEST');
+
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN     "shippingMethod" TEXT;
+
+-- CreateTable
+CREATE TABLE "ShippingRule" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "priority" INTEGER NOT NULL DEFAULT 0,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "countries" TEXT[],
+    "states" TEXT[],
+    "minWeight" DECIMAL(10,2),
+    "maxWeight" DECIMAL(10,2),
+    "minOrderTotal" DECIMAL(10,2),
+    "maxOrderTotal" DECIMAL(10,2),
+    "skus" TEXT[],
+    "shippingMethods" TEXT[],
+    "action" "ShippingRuleAction" NOT NULL,
+    "carrier" TEXT,
+    "serviceCode" TEXT,
+    "maxTransitDays" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ShippingRule_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ShippingRule_priority_idx" ON "ShippingRule"("priority");
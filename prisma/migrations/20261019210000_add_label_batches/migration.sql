@@ -0,0 +1,56 @@
+-- CreateEnum
+CREATE TYPE "LabelBatchStatus" AS ENUM ('RUNNING', 'COMPLETED');
+
+-- CreateEnum
+CREATE TYPE "LabelBatchOrderStatus" AS ENUM ('PENDING', 'PURCHASING', 'PURCHASED', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "LabelBatch" (
+    "id" TEXT NOT NULL,
+    "batchNumber" SERIAL NOT NULL,
+    "status" "LabelBatchStatus" NOT NULL DEFAULT 'RUNNING',
+    "createdByUserId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "completedAt" TIMESTAMP(3),
+
+    CONSTRAINT "LabelBatch_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "LabelBatchOrder" (
+    "id" TEXT NOT NULL,
+    "batchId" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "sequence" INTEGER NOT NULL,
+    "status" "LabelBatchOrderStatus" NOT NULL DEFAULT 'PENDING',
+    "ruleName" TEXT,
+    "error" TEXT,
+    "shipmentId" TEXT,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "LabelBatchOrder_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "LabelBatch_batchNumber_key" ON "LabelBatch"("batchNumber");
+
+-- CreateIndex
+CREATE INDEX "LabelBatch_status_idx" ON "LabelBatch"("status");
+
+-- CreateIndex
+CREATE INDEX "LabelBatchOrder_orderId_idx" ON "LabelBatchOrder"("orderId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "LabelBatchOrder_batchId_orderId_key" ON "LabelBatchOrder"("batchId", "orderId");
+
+-- AddForeignKey
+ALTER TABLE "LabelBatch" ADD CONSTRAINT "LabelBatch_createdByUserId_fkey" FOREIGN KEY ("createdByUserId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LabelBatchOrder" ADD CONSTRAINT "LabelBatchOrder_batchId_fkey" FOREIGN KEY ("batchId") REFERENCES "LabelBatch"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LabelBatchOrder" ADD CONSTRAINT "LabelBatchOrder_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "Order"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LabelBatchOrder" ADD CONSTRAINT "LabelBatchOrder_shipmentId_fkey" FOREIGN KEY ("shipmentId") REFERENCES "Shipment"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,8 @@
+-- CreateEnum
+CREATE TYPE "LabelFormat" AS ENUM ('IMAGE', 'ZPL');
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "labelFormat" "LabelFormat" NOT NULL DEFAULT 'IMAGE';
+
+-- AlterTable
+ALTER TABLE "LabelBatch" ADD COLUMN     "labelFormat" "LabelFormat" NOT NULL DEFAULT 'IMAGE';
@@ -0,0 +1,30 @@
+-- CreateEnum
+CREATE TYPE "PrinterProtocol" AS ENUM ('RAW', 'IPP');
+
+-- CreateEnum
+CREATE TYPE "PrinterFormat" AS ENUM ('ZPL', 'PDF');
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "defaultPrinterId" TEXT;
+
+-- CreateTable
+CREATE TABLE "Printer" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "host" TEXT NOT NULL,
+    "port" INTEGER NOT NULL,
+    "protocol" "PrinterProtocol" NOT NULL DEFAULT 'RAW',
+    "ippPath" TEXT,
+    "format" "PrinterFormat" NOT NULL DEFAULT 'ZPL',
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Printer_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Printer_name_key" ON "Printer"("name");
+
+-- AddForeignKey
+ALTER TABLE "User" ADD CONSTRAINT "User_defaultPrinterId_fkey" FOREIGN KEY ("defaultPrinterId") REFERENCES "Printer"("id") ON DELETE SET NULL ON UPDATE CASCADE;
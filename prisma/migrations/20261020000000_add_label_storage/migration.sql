@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Shipment" ADD COLUMN     "labelKey" TEXT;
+
+-- AlterTable
+ALTER TABLE "ShipmentPackage" ADD COLUMN     "labelKey" TEXT;
@@ -0,0 +1,14 @@
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN     "giftNote" TEXT;
+
+-- CreateTable
+CREATE TABLE "PackingSlipTemplate" (
+    "id" TEXT NOT NULL DEFAULT 'default',
+    "companyName" TEXT NOT NULL,
+    "headerText" TEXT,
+    "footerText" TEXT,
+    "logoKey" TEXT,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PackingSlipTemplate_pkey" PRIMARY KEY ("id")
+);
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "Product" ADD COLUMN     "countryOfOrigin" TEXT,
+ADD COLUMN     "customsDescription" TEXT,
+ADD COLUMN     "customsValue" DECIMAL(10,2),
+ADD COLUMN     "hsCode" TEXT;
+
+-- AlterTable
+ALTER TABLE "Shipment" ADD COLUMN     "invoiceKey" TEXT;
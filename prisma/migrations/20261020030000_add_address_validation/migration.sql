@@ -0,0 +1,13 @@
+-- CreateEnum
+CREATE TYPE "AddressStatus" AS ENUM ('UNCHECKED', 'VALID', 'SUGGESTED', 'INVALID', 'UNVERIFIED');
+
+-- CreateEnum
+CREATE TYPE "AddressType" AS ENUM ('RESIDENTIAL', 'COMMERCIAL', 'UNKNOWN');
+
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN     "addressCarrier" TEXT,
+ADD COLUMN     "addressCheckedAt" TIMESTAMP(3),
+ADD COLUMN     "addressMessage" TEXT,
+ADD COLUMN     "addressStatus" "AddressStatus" NOT NULL DEFAULT 'UNCHECKED',
+ADD COLUMN     "addressSuggestion" JSONB,
+ADD COLUMN     "addressType" "AddressType" NOT NULL DEFAULT 'UNKNOWN';
@@ -0,0 +1,29 @@
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN     "addressEditedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "OrderAddressChange" (
+    "id" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "address1" TEXT NOT NULL,
+    "address2" TEXT,
+    "city" TEXT NOT NULL,
+    "state" TEXT NOT NULL,
+    "zip" TEXT NOT NULL,
+    "country" TEXT NOT NULL,
+    "reason" TEXT NOT NULL,
+    "pushedToShopify" BOOLEAN NOT NULL DEFAULT false,
+    "changedByUserId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "OrderAddressChange_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "OrderAddressChange_orderId_idx" ON "OrderAddressChange"("orderId");
+
+-- AddForeignKey
+ALTER TABLE "OrderAddressChange" ADD CONSTRAINT "OrderAddressChange_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "Order"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "OrderAddressChange" ADD CONSTRAINT "OrderAddressChange_changedByUserId_fkey" FOREIGN KEY ("changedByUserId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
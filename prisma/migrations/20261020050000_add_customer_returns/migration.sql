@@ -0,0 +1,87 @@
+-- CreateEnum
+CREATE TYPE "ReturnStatus" AS ENUM ('OPEN', 'RECEIVED', 'CANCELLED');
+
+-- CreateEnum
+CREATE TYPE "ReturnDisposition" AS ENUM ('RESTOCK', 'DAMAGED', 'DISCARD');
+
+-- AlterTable
+ALTER TABLE "InventoryTransaction" ADD COLUMN     "returnId" TEXT;
+
+-- CreateTable
+CREATE TABLE "CustomerReturn" (
+    "id" TEXT NOT NULL,
+    "returnNumber" SERIAL NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "warehouseId" TEXT NOT NULL,
+    "status" "ReturnStatus" NOT NULL DEFAULT 'OPEN',
+    "reason" TEXT NOT NULL,
+    "carrier" TEXT,
+    "service" TEXT,
+    "carrierMode" "CarrierMode",
+    "trackingNumber" TEXT,
+    "labelKey" TEXT,
+    "labelFormat" TEXT,
+    "labelCost" DECIMAL(10,2),
+    "createdByUserId" TEXT NOT NULL,
+    "receivedAt" TIMESTAMP(3),
+    "receivedByUserId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "CustomerReturn_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "CustomerReturnItem" (
+    "id" TEXT NOT NULL,
+    "returnId" TEXT NOT NULL,
+    "orderItemId" TEXT NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "receivedQuantity" INTEGER,
+    "disposition" "ReturnDisposition",
+    "locationId" TEXT,
+
+    CONSTRAINT "CustomerReturnItem_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "InventoryTransaction_returnId_idx" ON "InventoryTransaction"("returnId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CustomerReturn_returnNumber_key" ON "CustomerReturn"("returnNumber");
+
+-- CreateIndex
+CREATE INDEX "CustomerReturn_orderId_idx" ON "CustomerReturn"("orderId");
+
+-- CreateIndex
+CREATE INDEX "CustomerReturn_status_idx" ON "CustomerReturn"("status");
+
+-- CreateIndex
+CREATE INDEX "CustomerReturnItem_orderItemId_idx" ON "CustomerReturnItem"("orderItemId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CustomerReturnItem_returnId_orderItemId_key" ON "CustomerReturnItem"("returnId", "orderItemId");
+
+-- AddForeignKey
+ALTER TABLE "InventoryTransaction" ADD CONSTRAINT "InventoryTransaction_returnId_fkey" FOREIGN KEY ("returnId") REFERENCES "CustomerReturn"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CustomerReturn" ADD CONSTRAINT "CustomerReturn_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "Order"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CustomerReturn" ADD CONSTRAINT "CustomerReturn_warehouseId_fkey" FOREIGN KEY ("warehouseId") REFERENCES "Warehouse"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CustomerReturn" ADD CONSTRAINT "CustomerReturn_createdByUserId_fkey" FOREIGN KEY ("createdByUserId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CustomerReturn" ADD CONSTRAINT "CustomerReturn_receivedByUserId_fkey" FOREIGN KEY ("receivedByUserId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CustomerReturnItem" ADD CONSTRAINT "CustomerReturnItem_returnId_fkey" FOREIGN KEY ("returnId") REFERENCES "CustomerReturn"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CustomerReturnItem" ADD CONSTRAINT "CustomerReturnItem_orderItemId_fkey" FOREIGN KEY ("orderItemId") REFERENCES "OrderItem"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CustomerReturnItem" ADD CONSTRAINT "CustomerReturnItem_locationId_fkey" FOREIGN KEY ("locationId") REFERENCES "Location"("id") ON DELETE SET NULL ON UPDATE CASCADE;
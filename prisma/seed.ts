@@ -34,7 +34,53 @@ async function main() {
     },
   })
 
-  console.log({ admin, employee })
+  // Default warehouse. Older installs kept the ship-from address in
+  // WAREHOUSE_* env vars; copy it over when present.
+  const warehouseAddress = process.env.WAREHOUSE_ADDRESS1
+    ? {
+        name: process.env.WAREHOUSE_NAME || 'Main Warehouse',
+        address1: process.env.WAREHOUSE_ADDRESS1,
+        address2: process.env.WAREHOUSE_ADDRESS2 || null,
+        city: process.env.WAREHOUSE_CITY || '',
+        state: process.env.WAREHOUSE_STATE || '',
+        zip: process.env.WAREHOUSE_ZIP || '',
+        country: process.env.WAREHOUSE_COUNTRY || 'US',
+        phone: process.env.WAREHOUSE_PHONE || null,
+      }
+    : null
+
+  const warehouse = await prisma.warehouse.upsert({
+    where: { code: 'MAIN' },
+    update: warehouseAddress ?? {},
+    create: {
+      code: 'MAIN',
+      name: 'Main Warehouse',
+      address1: '',
+      city: '',
+      state: '',
+      zip: '',
+      ...warehouseAddress,
+      isDefault: true,
+    },
+  })
+
+  // Starter box catalog, edit under Settings
+  const boxes = [
+    { code: 'S1', name: 'Small Mailer', length: 9, width: 6, height: 3, tareWeight: 0.3, cost: 0.45 },
+    { code: 'M1', name: 'Medium Box', length: 12, width: 10, height: 6, tareWeight: 0.6, cost: 0.85 },
+    { code: 'L1', name: 'Large Box', length: 18, width: 14, height: 10, tareWeight: 1.2, cost: 1.6 },
+    { code: 'XL1', name: 'Extra Large Box', length: 24, width: 18, height: 16, tareWeight: 2.1, cost: 2.75 },
+  ]
+
+  for (const box of boxes) {
+    await prisma.shippingBox.upsert({
+      where: { code: box.code },
+      update: {},
+      create: box,
+    })
+  }
+
+  console.log({ admin, employee, warehouse, boxes: boxes.length })
 }
 
 main()
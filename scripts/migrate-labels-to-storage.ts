@@ -0,0 +1,98 @@
+/**
+ * Move labels out of the database
+ *
+ * Labels used to be stored base64 in Shipment.labelData and
+ * ShipmentPackage.labelData. This puts each of them in the configured
+ * storage (see src/lib/storage), records its key and empties labelData.
+ * The app reads both, so it can run while this does.
+ *
+ * Usage:
+ *   npm run labels:migrate-storage
+ *
+ * Uses the same STORAGE_* and S3_* settings as the app. Safe to run again:
+ * only labels still in the database are moved.
+ */
+
+import 'dotenv/config'
+import { Pool } from 'pg'
+import { PrismaPg } from '@prisma/adapter-pg'
+import { PrismaClient } from '../app/generated/prisma/client.js'
+import { storeShipmentLabels } from '../src/lib/label-documents'
+import { getStorage } from '../src/lib/storage'
+
+const BATCH_SIZE = 50
+
+const connectionString = process.env.DATABASE_URL!
+const pool = new Pool({ connectionString })
+const adapter = new PrismaPg(pool)
+const prisma = new PrismaClient({ adapter })
+
+async function main() {
+  console.log(`Moving labels to ${getStorage().id} storage...`)
+
+  let shipmentCount = 0
+  let labelCount = 0
+
+  for (;;) {
+    const shipments = await prisma.shipment.findMany({
+      where: {
+        OR: [
+          { labelData: { not: null } },
+          { packages: { some: { labelData: { not: null } } } },
+        ],
+      },
+      orderBy: { createdAt: 'asc' },
+      take: BATCH_SIZE,
+      select: {
+        id: true,
+        labelFormat: true,
+        labelKey: true,
+        labelData: true,
+        packages: {
+          orderBy: { sequence: 'asc' },
+          select: { id: true, labelKey: true, labelData: true },
+        },
+      },
+    })
+    if (shipments.length === 0) break
+
+    for (const shipment of shipments) {
+      const { labelKey, packageKeys } = await storeShipmentLabels({
+        format: shipment.labelFormat,
+        lead: shipment.labelData,
+        packages: shipment.packages.map((pkg) => pkg.labelData),
+      })
+
+      // A label already in storage keeps its key
+      await prisma.$transaction([
+        prisma.shipment.update({
+          where: { id: shipment.id },
+          data: { labelKey: shipment.labelKey ?? labelKey, labelData: null },
+        }),
+        ...shipment.packages.map((pkg, index) =>
+          prisma.shipmentPackage.update({
+            where: { id: pkg.id },
+            data: { labelKey: pkg.labelKey ?? packageKeys[index], labelData: null },
+          })
+        ),
+      ])
+
+      shipmentCount++
+      labelCount += [labelKey, ...packageKeys].filter(Boolean).length
+    }
+
+    console.log(`  ${shipmentCount} shipments done`)
+  }
+
+  console.log(`\nMoved ${labelCount} labels of ${shipmentCount} shipments.`)
+}
+
+main()
+  .catch((error) => {
+    console.error('Failed to move labels:', error)
+    process.exitCode = 1
+  })
+  .finally(async () => {
+    await prisma.$disconnect()
+    await pool.end()
+  })
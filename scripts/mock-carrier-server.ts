@@ -0,0 +1,792 @@
+/**
+ * Mock Carrier Server
+ *
+ * A local stand-in for the UPS and FedEx APIs, so the whole shipping flow
+ * (rate, ship, void, track, address checks) can run in CI or on a laptop without touching the
+ * carriers. It answers the endpoints used by src/lib/carriers/ups.ts and
+ * fedex.ts with deterministic responses: tracking numbers count up from 1 and
+ * prices only depend on the service and the package weights.
+ *
+ * Usage:
+ *   npx tsx scripts/mock-carrier-server.ts [port]
+ *
+ * Then point the app at it (the carriers must not be in production mode):
+ *   UPS_BASE_URL=http://localhost:4010/ups
+ *   FEDEX_BASE_URL=http://localhost:4010/fedex
+ * Any UPS_* and FEDEX_* credentials are accepted.
+ *
+ * Tracking moves one step each time a package is tracked: label created, in
+ * transit, out for delivery, delivered. Scanned shipments can't be voided.
+ *
+ * Address checks give the address back in capitals. Street lines without a
+ * house number aren't found; suites and floors are businesses, the rest homes.
+ *
+ * Failures can be injected per endpoint (ups.oauth, ups.rate, ups.ship,
+ * ups.void, ups.track, ups.address and the same for fedex):
+ *   - at startup: MOCK_CARRIER_FAILURES="ups.ship=500,fedex.track=503"
+ *   - at runtime: POST /__mock/failures {"endpoint": "ups.ship", "status": 500,
+ *     "times": 1, "message": "..."}; leave out times to fail until reset
+ *
+ * Control endpoints:
+ *   GET  /__mock/state    - shipments and pending failures
+ *   POST /__mock/failures - inject a failure
+ *   POST /__mock/reset    - forget shipments and failures, restart counters
+ */
+
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http'
+import type {
+  UPSAddressKeyFormat,
+  UPSAddressValidationResponse,
+  UPSRateRequest,
+  UPSRateResponse,
+  UPSRatedShipment,
+  UPSShipmentRequest,
+  UPSShipmentResponse,
+  UPSTrackResponse,
+  UPSVoidResponse,
+} from '../src/lib/carriers/ups'
+import type {
+  FedExAddressResolveResponse,
+  FedExCancelResponse,
+  FedExRateReply,
+  FedExRateRequest,
+  FedExShipmentRequest,
+  FedExShipmentResponse,
+  FedExTrackResponse,
+} from '../src/lib/carriers/fedex'
+import { MOCK_LABEL_BASE64, checkMockAddress, mockZplLabel } from '../src/lib/carriers/mock'
+
+const DEFAULT_PORT = 4010
+
+type Carrier = 'ups' | 'fedex'
+
+const ENDPOINTS = [
+  'ups.oauth',
+  'ups.rate',
+  'ups.ship',
+  'ups.void',
+  'ups.track',
+  'ups.address',
+  'fedex.oauth',
+  'fedex.rate',
+  'fedex.ship',
+  'fedex.void',
+  'fedex.track',
+  'fedex.address',
+] as const
+
+type Endpoint = (typeof ENDPOINTS)[number]
+
+interface Failure {
+  status: number
+  message: string
+  remaining: number | null // null fails until reset
+}
+
+interface MockShipment {
+  carrier: Carrier
+  trackingNumber: string // lead package
+  packageNumbers: string[]
+  serviceCode: string
+  cost: number
+  createdAt: Date
+  voided: boolean
+  stage: number // last TRACKING_STAGES entry reported, -1 before the first lookup
+}
+
+// Fixed start time so tracking timestamps are the same on every run
+const EPOCH = new Date('2026-01-05T09:00:00Z')
+
+// ============================================================================
+// State
+// ============================================================================
+
+let shipments = new Map<string, MockShipment>() // by every package number
+let failures = new Map<Endpoint, Failure>()
+let sequence = 0
+
+function reset() {
+  shipments = new Map()
+  failures = new Map()
+  sequence = 0
+}
+
+function nextTrackingNumber(carrier: Carrier): string {
+  sequence++
+  return carrier === 'ups'
+    ? `1Z999AA1${String(sequence).padStart(10, '0')}`
+    : `7949${String(sequence).padStart(8, '0')}`
+}
+
+function isEndpoint(value: unknown): value is Endpoint {
+  return ENDPOINTS.some((endpoint) => endpoint === value)
+}
+
+function addFailure(endpoint: Endpoint, spec: { status?: number; message?: string; times?: number }) {
+  failures.set(endpoint, {
+    status: spec.status ?? 500,
+    message: spec.message ?? `Injected failure for ${endpoint}`,
+    remaining: spec.times ?? null,
+  })
+}
+
+/**
+ * Use up the endpoint's injected failure, if it has one
+ */
+function takeFailure(endpoint: Endpoint): Failure | null {
+  const failure = failures.get(endpoint)
+  if (!failure) {
+    return null
+  }
+
+  if (failure.remaining !== null) {
+    failure.remaining--
+    if (failure.remaining <= 0) {
+      failures.delete(endpoint)
+    }
+  }
+  return failure
+}
+
+function loadStartupFailures() {
+  const value = process.env.MOCK_CARRIER_FAILURES
+  if (!value) {
+    return
+  }
+
+  for (const entry of value.split(',')) {
+    const [endpoint, status] = entry.trim().split('=')
+    if (!isEndpoint(endpoint)) {
+      console.warn(`[MockCarrier] Ignoring unknown endpoint "${endpoint}" in MOCK_CARRIER_FAILURES`)
+      continue
+    }
+    addFailure(endpoint, { status: status ? parseInt(status) : undefined })
+  }
+}
+
+// ============================================================================
+// Rates
+// ============================================================================
+
+interface MockService {
+  code: string
+  name: string
+  basePrice: number
+  perPound: number
+  transitDays: number
+}
+
+const UPS_SERVICES: MockService[] = [
+  { code: '03', name: 'UPS Ground', basePrice: 9.5, perPound: 0.85, transitDays: 5 },
+  { code: '12', name: 'UPS 3 Day Select', basePrice: 16.25, perPound: 1.4, transitDays: 3 },
+  { code: '02', name: 'UPS 2nd Day Air', basePrice: 22.75, perPound: 2.1, transitDays: 2 },
+  { code: '01', name: 'UPS Next Day Air', basePrice: 38.5, perPound: 3.6, transitDays: 1 },
+]
+
+const FEDEX_SERVICES: MockService[] = [
+  { code: 'FEDEX_GROUND', name: 'FedEx Ground', basePrice: 9.25, perPound: 0.8, transitDays: 5 },
+  { code: 'FEDEX_EXPRESS_SAVER', name: 'FedEx Express Saver', basePrice: 15.75, perPound: 1.35, transitDays: 3 },
+  { code: 'FEDEX_2_DAY', name: 'FedEx 2Day', basePrice: 21.5, perPound: 2, transitDays: 2 },
+  { code: 'STANDARD_OVERNIGHT', name: 'FedEx Standard Overnight', basePrice: 36.75, perPound: 3.4, transitDays: 1 },
+]
+
+const FEDEX_TRANSIT_TIMES = ['ONE_DAY', 'TWO_DAYS', 'THREE_DAYS', 'FOUR_DAYS', 'FIVE_DAYS']
+
+function price(service: MockService, weights: number[]): number {
+  const total = weights.reduce((sum, weight) => sum + service.basePrice + service.perPound * Math.ceil(weight), 0)
+  return Math.round(total * 100) / 100
+}
+
+// ============================================================================
+// Tracking
+// ============================================================================
+
+const TRACKING_STAGES = [
+  {
+    hours: 0,
+    ups: { type: 'M', code: 'MP', description: 'Shipper created a label, UPS has not received the package yet.' },
+    fedex: { eventType: 'OC', description: 'Shipment information sent to FedEx' },
+    location: null,
+  },
+  {
+    hours: 6,
+    ups: { type: 'I', code: 'OR', description: 'Origin Scan' },
+    fedex: { eventType: 'PU', description: 'Picked up' },
+    location: { city: 'Louisville', state: 'KY' },
+  },
+  {
+    hours: 48,
+    ups: { type: 'I', code: 'OT', description: 'Out For Delivery Today', statusCode: '021' },
+    fedex: { eventType: 'OD', description: 'On FedEx vehicle for delivery' },
+    location: { city: 'New York', state: 'NY' },
+  },
+  {
+    hours: 53,
+    ups: { type: 'D', code: 'KB', description: 'DELIVERED' },
+    fedex: { eventType: 'DL', description: 'Delivered' },
+    location: { city: 'New York', state: 'NY' },
+  },
+]
+
+/**
+ * Move the shipment on a stage and return its scans so far, newest first
+ */
+function advanceTracking(shipment: MockShipment) {
+  shipment.stage = Math.min(shipment.stage + 1, TRACKING_STAGES.length - 1)
+
+  return TRACKING_STAGES.slice(0, shipment.stage + 1)
+    .reverse()
+    .map((stage) => ({
+      ...stage,
+      occurredAt: new Date(shipment.createdAt.getTime() + stage.hours * 60 * 60 * 1000),
+    }))
+}
+
+function isScanned(shipment: MockShipment): boolean {
+  return shipment.stage > 0
+}
+
+// ============================================================================
+// UPS
+// ============================================================================
+
+function upsError(res: ServerResponse, status: number, code: string, message: string) {
+  send(res, status, { response: { errors: [{ code, message }] } })
+}
+
+async function handleUps(endpoint: string, req: IncomingMessage, res: ServerResponse) {
+  if (endpoint === '/security/v1/oauth/token' && req.method === 'POST') {
+    const failure = takeFailure('ups.oauth')
+    if (failure) {
+      return upsError(res, failure.status, '250002', failure.message)
+    }
+    if (!req.headers.authorization?.startsWith('Basic ')) {
+      return upsError(res, 401, '250003', 'Invalid Authentication Information.')
+    }
+    return send(res, 200, { access_token: 'mock-ups-token', token_type: 'Bearer', expires_in: '14399' })
+  }
+
+  if (req.headers.authorization !== 'Bearer mock-ups-token') {
+    return upsError(res, 401, '250002', 'Invalid Authentication Information.')
+  }
+
+  if (endpoint === '/api/rating/v2403/Rate' && req.method === 'POST') {
+    const failure = takeFailure('ups.rate')
+    if (failure) {
+      return upsError(res, failure.status, '111210', failure.message)
+    }
+
+    const body = (await readJson(req)) as UPSRateRequest
+    const weights = body.RateRequest.Shipment.Package.map((pkg) => parseFloat(pkg.packageWeight.weight))
+
+    const rated: UPSRatedShipment[] = UPS_SERVICES.map((service) => ({
+      Service: { Code: service.code, Description: '' },
+      TotalCharges: { CurrencyCode: 'USD', MonetaryValue: price(service, weights).toFixed(2) },
+      GuaranteedDelivery: { BusinessDaysInTransit: String(service.transitDays) },
+    }))
+
+    const response: UPSRateResponse = {
+      RateResponse: {
+        Response: { ResponseStatus: { Code: '1', Description: 'Success' } },
+        RatedShipment: rated,
+      },
+    }
+    return send(res, 200, response)
+  }
+
+  if (endpoint === '/api/shipments/v2403/ship' && req.method === 'POST') {
+    const failure = takeFailure('ups.ship')
+    if (failure) {
+      return upsError(res, failure.status, '120100', failure.message)
+    }
+
+    const body = (await readJson(req)) as UPSShipmentRequest
+    const { Service, Package } = body.ShipmentRequest.Shipment
+    const service = UPS_SERVICES.find((s) => s.code === Service.Code)
+    if (!service) {
+      return upsError(res, 400, '111100', 'The requested service is unavailable between the selected locations.')
+    }
+
+    const format = body.ShipmentRequest.LabelSpecification.LabelImageFormat.Code
+    const weights = Package.map((pkg) => parseFloat(pkg.PackageWeight.Weight))
+    const shipment = recordShipment('ups', service, weights)
+
+    const response: UPSShipmentResponse = {
+      ShipmentResponse: {
+        Response: { ResponseStatus: { Code: '1', Description: 'Success' } },
+        ShipmentResults: {
+          ShipmentCharges: {
+            TotalCharges: { CurrencyCode: 'USD', MonetaryValue: shipment.cost.toFixed(2) },
+          },
+          ShipmentIdentificationNumber: shipment.trackingNumber,
+          PackageResults: shipment.packageNumbers.map((trackingNumber) => ({
+            TrackingNumber: trackingNumber,
+            ShippingLabel: {
+              ImageFormat: { Code: format },
+              GraphicImage: mockLabel(format, trackingNumber),
+            },
+          })),
+        },
+      },
+    }
+    return send(res, 200, response)
+  }
+
+  const voidMatch = endpoint.match(/^\/api\/shipments\/v2403\/void\/cancel\/([^/]+)$/)
+  if (voidMatch && req.method === 'DELETE') {
+    const failure = takeFailure('ups.void')
+    if (failure) {
+      return upsError(res, failure.status, '190100', failure.message)
+    }
+
+    const shipment = shipments.get(decodeURIComponent(voidMatch[1]))
+    if (!shipment || shipment.carrier !== 'ups') {
+      return upsError(res, 400, '190117', 'No shipment found within the allowed void period.')
+    }
+    if (shipment.voided || isScanned(shipment)) {
+      return upsError(res, 400, '190101', 'The shipment has already been voided or picked up.')
+    }
+    shipment.voided = true
+
+    const response: UPSVoidResponse = {
+      VoidShipmentResponse: {
+        Response: { ResponseStatus: { Code: '1', Description: 'Success' } },
+        SummaryResult: { Status: { Code: '1', Description: 'Voided' } },
+      },
+    }
+    return send(res, 200, response)
+  }
+
+  const trackMatch = endpoint.match(/^\/api\/track\/v1\/details\/([^/?]+)/)
+  if (trackMatch && req.method === 'GET') {
+    const failure = takeFailure('ups.track')
+    if (failure) {
+      return upsError(res, failure.status, 'TV1002', failure.message)
+    }
+
+    const inquiryNumber = decodeURIComponent(trackMatch[1])
+    const shipment = shipments.get(inquiryNumber)
+    if (!shipment || shipment.carrier !== 'ups' || shipment.voided) {
+      const response: UPSTrackResponse = {
+        trackResponse: {
+          shipment: [
+            { inquiryNumber, warnings: [{ code: 'TW0001', message: 'Tracking Information Not Found' }] },
+          ],
+        },
+      }
+      return send(res, 200, response)
+    }
+
+    const response: UPSTrackResponse = {
+      trackResponse: {
+        shipment: [
+          {
+            inquiryNumber,
+            package: [
+              {
+                trackingNumber: inquiryNumber,
+                activity: advanceTracking(shipment).map((scan) => {
+                  // UPS reports local time without an offset
+                  const iso = scan.occurredAt.toISOString()
+                  return {
+                    location: scan.location
+                      ? { address: { city: scan.location.city, stateProvince: scan.location.state, countryCode: 'US' } }
+                      : undefined,
+                    status: scan.ups,
+                    date: iso.slice(0, 10).replace(/-/g, ''),
+                    time: iso.slice(11, 19).replace(/:/g, ''),
+                  }
+                }),
+              },
+            ],
+          },
+        ],
+      },
+    }
+    return send(res, 200, response)
+  }
+
+  if (endpoint === '/api/addressvalidation/v2/3' && req.method === 'POST') {
+    const failure = takeFailure('ups.address')
+    if (failure) {
+      return upsError(res, failure.status, '264002', failure.message)
+    }
+
+    const body = (await readJson(req)) as { XAVRequest: { AddressKeyFormat: UPSAddressKeyFormat } }
+    const key = body.XAVRequest.AddressKeyFormat
+    const lines = [key.AddressLine].flat()
+    if (!hasHouseNumber(lines[0])) {
+      const response: UPSAddressValidationResponse = { XAVResponse: { NoCandidatesIndicator: '' } }
+      return send(res, 200, response)
+    }
+
+    const check = checkMockAddress({
+      addressLine1: lines[0],
+      addressLine2: lines[1],
+      city: key.PoliticalDivision2,
+      state: key.PoliticalDivision1,
+      postalCode: key.PostcodePrimaryLow,
+      countryCode: key.CountryCode,
+    })
+    const classification =
+      check.type === 'COMMERCIAL'
+        ? { Code: '1', Description: 'Commercial' }
+        : { Code: '2', Description: 'Residential' }
+
+    const response: UPSAddressValidationResponse = {
+      XAVResponse: {
+        ValidAddressIndicator: '',
+        AddressClassification: classification,
+        Candidate: {
+          AddressClassification: classification,
+          AddressKeyFormat: {
+            AddressLine: lines.map((line) => line.toUpperCase()),
+            PoliticalDivision2: key.PoliticalDivision2.toUpperCase(),
+            PoliticalDivision1: key.PoliticalDivision1.toUpperCase(),
+            PostcodePrimaryLow: key.PostcodePrimaryLow,
+            CountryCode: key.CountryCode,
+          },
+        },
+      },
+    }
+    return send(res, 200, response)
+  }
+
+  return upsError(res, 404, '10001', `Unknown UPS endpoint ${req.method} ${endpoint}`)
+}
+
+// ============================================================================
+// FedEx
+// ============================================================================
+
+function fedexError(res: ServerResponse, status: number, code: string, message: string) {
+  send(res, status, { transactionId: 'mock', errors: [{ code, message }] })
+}
+
+async function handleFedex(endpoint: string, req: IncomingMessage, res: ServerResponse) {
+  if (endpoint === '/oauth/token' && req.method === 'POST') {
+    const failure = takeFailure('fedex.oauth')
+    if (failure) {
+      return fedexError(res, failure.status, 'NOT.AUTHORIZED.ERROR', failure.message)
+    }
+    const form = new URLSearchParams(await readBody(req))
+    if (!form.get('client_id') || !form.get('client_secret')) {
+      return fedexError(res, 401, 'NOT.AUTHORIZED.ERROR', 'The given client credentials were not valid.')
+    }
+    return send(res, 200, { access_token: 'mock-fedex-token', token_type: 'bearer', expires_in: 3599 })
+  }
+
+  if (req.headers.authorization !== 'Bearer mock-fedex-token') {
+    return fedexError(res, 401, 'NOT.AUTHORIZED.ERROR', 'Access token expired or invalid.')
+  }
+
+  if (endpoint === '/rate/v1/rates/quotes' && req.method === 'POST') {
+    const failure = takeFailure('fedex.rate')
+    if (failure) {
+      return fedexError(res, failure.status, 'RATE.ERROR', failure.message)
+    }
+
+    const body = (await readJson(req)) as FedExRateRequest
+    const weights = body.requestedShipment.requestedPackageLineItems.map((item) => item.weight.value)
+
+    const response: FedExRateReply = {
+      transactionId: 'mock',
+      output: {
+        rateReplyDetails: FEDEX_SERVICES.map((service) => ({
+          serviceType: service.code,
+          serviceName: service.name,
+          packagingType: 'YOUR_PACKAGING',
+          ratedShipmentDetails: [
+            {
+              rateType: 'ACCOUNT',
+              ratedWeightMethod: 'ACTUAL',
+              totalNetCharge: price(service, weights),
+              currency: 'USD',
+            },
+          ],
+          commit: {
+            transitDays: { minimumTransitTime: FEDEX_TRANSIT_TIMES[service.transitDays - 1] },
+          },
+        })),
+      },
+    }
+    return send(res, 200, response)
+  }
+
+  if (endpoint === '/ship/v1/shipments' && req.method === 'POST') {
+    const failure = takeFailure('fedex.ship')
+    if (failure) {
+      return fedexError(res, failure.status, 'SHIPMENT.ERROR', failure.message)
+    }
+
+    const body = (await readJson(req)) as FedExShipmentRequest
+    const { serviceType, requestedPackageLineItems, labelSpecification } = body.requestedShipment
+    const service = FEDEX_SERVICES.find((s) => s.code === serviceType)
+    if (!service) {
+      return fedexError(res, 400, 'SERVICE.TYPE.INVALID', 'Invalid service type.')
+    }
+
+    const weights = requestedPackageLineItems.map((item) => item.weight.value)
+    const shipment = recordShipment('fedex', service, weights)
+
+    const response: FedExShipmentResponse = {
+      transactionId: 'mock',
+      output: {
+        transactionShipments: [
+          {
+            masterTrackingNumber: shipment.trackingNumber,
+            serviceType: service.code,
+            serviceName: service.name,
+            shipDatestamp: EPOCH.toISOString().slice(0, 10),
+            pieceResponses: shipment.packageNumbers.map((trackingNumber) => ({
+              trackingNumber,
+              packageDocuments: [
+                {
+                  contentType: 'LABEL',
+                  encodedLabel: mockLabel(labelSpecification.imageType, trackingNumber),
+                },
+              ],
+            })),
+            completedShipmentDetail: {
+              completedPackageDetails: shipment.packageNumbers.map((trackingNumber) => ({
+                trackingIds: [{ trackingNumber }],
+              })),
+              shipmentRating: {
+                actualRateType: 'PAYOR_ACCOUNT_SHIPMENT',
+                shipmentRateDetails: [
+                  { rateType: 'PAYOR_ACCOUNT_SHIPMENT', totalNetCharge: shipment.cost, currency: 'USD' },
+                ],
+              },
+            },
+          },
+        ],
+      },
+    }
+    return send(res, 200, response)
+  }
+
+  if (endpoint === '/ship/v1/shipments/cancel' && req.method === 'PUT') {
+    const failure = takeFailure('fedex.void')
+    if (failure) {
+      return fedexError(res, failure.status, 'SHIPMENT.CANCEL.ERROR', failure.message)
+    }
+
+    const body = (await readJson(req)) as { trackingNumber: string }
+    const shipment = shipments.get(body.trackingNumber)
+
+    let message: string | undefined
+    if (!shipment || shipment.carrier !== 'fedex') {
+      message = 'Tracking number not found'
+    } else if (shipment.voided || isScanned(shipment)) {
+      message = 'Shipment has already been cancelled or picked up'
+    } else {
+      shipment.voided = true
+    }
+
+    const response: FedExCancelResponse = {
+      transactionId: 'mock',
+      output: { cancelledShipment: !message, message },
+    }
+    return send(res, 200, response)
+  }
+
+  if (endpoint === '/track/v1/trackingnumbers' && req.method === 'POST') {
+    const failure = takeFailure('fedex.track')
+    if (failure) {
+      return fedexError(res, failure.status, 'TRACKING.ERROR', failure.message)
+    }
+
+    const body = (await readJson(req)) as {
+      trackingInfo: Array<{ trackingNumberInfo: { trackingNumber: string } }>
+    }
+    const trackingNumber = body.trackingInfo[0]?.trackingNumberInfo.trackingNumber
+    const shipment = shipments.get(trackingNumber)
+
+    const trackResult: FedExTrackResponse['output']['completeTrackResults'][0]['trackResults'][0] =
+      !shipment || shipment.carrier !== 'fedex' || shipment.voided
+        ? {
+            error: {
+              code: 'TRACKING.TRACKINGNUMBER.NOTFOUND',
+              message: 'Tracking number cannot be found. Please correct the tracking number and try again.',
+            },
+          }
+        : {
+            scanEvents: advanceTracking(shipment).map((scan) => ({
+              date: scan.occurredAt.toISOString().replace('Z', '+00:00'),
+              eventType: scan.fedex.eventType,
+              eventDescription: scan.fedex.description,
+              scanLocation: scan.location
+                ? { city: scan.location.city, stateOrProvinceCode: scan.location.state, countryCode: 'US' }
+                : undefined,
+            })),
+          }
+
+    const response: FedExTrackResponse = {
+      transactionId: 'mock',
+      output: { completeTrackResults: [{ trackingNumber, trackResults: [trackResult] }] },
+    }
+    return send(res, 200, response)
+  }
+
+  if (endpoint === '/address/v1/addresses/resolve' && req.method === 'POST') {
+    const failure = takeFailure('fedex.address')
+    if (failure) {
+      return fedexError(res, failure.status, 'ADDRESS.VALIDATION.ERROR', failure.message)
+    }
+
+    const body = (await readJson(req)) as {
+      addressesToValidate: Array<{
+        address: {
+          streetLines: string[]
+          city: string
+          stateOrProvinceCode: string
+          postalCode: string
+          countryCode: string
+        }
+      }>
+    }
+    const response: FedExAddressResolveResponse = {
+      transactionId: 'mock',
+      output: {
+        resolvedAddresses: body.addressesToValidate.map(({ address }) => {
+          const found = hasHouseNumber(address.streetLines[0])
+          const check = checkMockAddress({
+            addressLine1: address.streetLines[0] ?? '',
+            addressLine2: address.streetLines[1],
+            city: address.city,
+            state: address.stateOrProvinceCode,
+            postalCode: address.postalCode,
+            countryCode: address.countryCode,
+          })
+          return {
+            streetLinesToken: address.streetLines.map((line) => line.toUpperCase()),
+            city: address.city.toUpperCase(),
+            stateOrProvinceCode: address.stateOrProvinceCode.toUpperCase(),
+            postalCode: address.postalCode,
+            countryCode: address.countryCode,
+            classification: !found ? 'UNKNOWN' : check.type === 'COMMERCIAL' ? 'BUSINESS' : 'RESIDENTIAL',
+            attributes: { Resolved: String(found), DPV: String(found) },
+          }
+        }),
+      },
+    }
+    return send(res, 200, response)
+  }
+
+  return fedexError(res, 404, 'NOT.FOUND.ERROR', `Unknown FedEx endpoint ${req.method} ${endpoint}`)
+}
+
+// ============================================================================
+// Shared
+// ============================================================================
+
+function recordShipment(carrier: Carrier, service: MockService, weights: number[]): MockShipment {
+  const packageNumbers = weights.map(() => nextTrackingNumber(carrier))
+  const shipment: MockShipment = {
+    carrier,
+    trackingNumber: packageNumbers[0],
+    packageNumbers,
+    serviceCode: service.code,
+    cost: price(service, weights),
+    createdAt: new Date(EPOCH.getTime() + sequence * 60 * 1000),
+    voided: false,
+    stage: -1,
+  }
+
+  for (const trackingNumber of packageNumbers) {
+    shipments.set(trackingNumber, shipment)
+  }
+  console.log(`[MockCarrier] ${carrier.toUpperCase()} ${service.code} shipment ${shipment.trackingNumber}`)
+  return shipment
+}
+
+// Mock address checks only find street lines that start with a number
+function hasHouseNumber(line: string | undefined): boolean {
+  return /^\s*\d/.test(line ?? '')
+}
+
+/**
+ * A ZPL label that prints the tracking number, or the placeholder image
+ */
+function mockLabel(format: string, trackingNumber: string): string {
+  return format.startsWith('ZPL') ? mockZplLabel(trackingNumber) : MOCK_LABEL_BASE64
+}
+
+async function readBody(req: IncomingMessage): Promise<string> {
+  const chunks: Buffer[] = []
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer)
+  }
+  return Buffer.concat(chunks).toString('utf8')
+}
+
+async function readJson(req: IncomingMessage): Promise<unknown> {
+  const body = await readBody(req)
+  return body ? JSON.parse(body) : {}
+}
+
+function send(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { 'Content-Type': 'application/json' })
+  res.end(JSON.stringify(body))
+}
+
+async function handleControl(endpoint: string, req: IncomingMessage, res: ServerResponse) {
+  if (endpoint === '/state' && req.method === 'GET') {
+    const unique = [...new Set(shipments.values())]
+    return send(res, 200, { shipments: unique, failures: Object.fromEntries(failures) })
+  }
+
+  if (endpoint === '/failures' && req.method === 'POST') {
+    const body = (await readJson(req)) as {
+      endpoint?: string
+      status?: number
+      message?: string
+      times?: number
+    }
+    if (!isEndpoint(body.endpoint)) {
+      return send(res, 400, { error: `endpoint must be one of ${ENDPOINTS.join(', ')}` })
+    }
+    addFailure(body.endpoint, body)
+    return send(res, 200, { success: true })
+  }
+
+  if (endpoint === '/reset' && req.method === 'POST') {
+    reset()
+    return send(res, 200, { success: true })
+  }
+
+  return send(res, 404, { error: `Unknown control endpoint ${req.method} ${endpoint}` })
+}
+
+async function main() {
+  const port = parseInt(process.argv[2] || process.env.MOCK_CARRIER_PORT || String(DEFAULT_PORT))
+  loadStartupFailures()
+
+  const server = createServer(async (req, res) => {
+    const path = (req.url || '/').split('?')[0]
+
+    try {
+      if (path.startsWith('/ups/')) {
+        await handleUps(path.slice('/ups'.length), req, res)
+      } else if (path.startsWith('/fedex/')) {
+        await handleFedex(path.slice('/fedex'.length), req, res)
+      } else if (path.startsWith('/__mock/')) {
+        await handleControl(path.slice('/__mock'.length), req, res)
+      } else {
+        send(res, 404, { error: `Unknown path ${path}. Carrier APIs are under /ups and /fedex.` })
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error'
+      console.error('[MockCarrier] Error:', message)
+      send(res, 500, { error: message })
+    }
+  })
+
+  server.listen(port, () => {
+    console.log(`Mock carrier server listening on http://localhost:${port}`)
+    console.log(`  UPS_BASE_URL=http://localhost:${port}/ups`)
+    console.log(`  FEDEX_BASE_URL=http://localhost:${port}/fedex`)
+  })
+}
+
+main()
@@ -7,27 +7,46 @@ import { ArrowLeft, CheckCircle } from 'lucide-react'
 import { adjustStock } from '@/app/(dashboard)/inventory/actions'
 import type { AdjustStockState } from '@/app/(dashboard)/inventory/actions'
 
+interface BinStock {
+  locationId: string
+  code: string
+  quantity: number
+}
+
 interface Product {
   id: string
   sku: string
   name: string
   currentStock: number
+  bins: BinStock[]
+}
+
+interface Location {
+  id: string
+  code: string
+  warehouseCode: string
 }
 
 interface AdjustStockFormProps {
   product: Product
+  locations: Location[]
   userId: string
 }
 
-export function AdjustStockForm({ product, userId }: AdjustStockFormProps) {
+export function AdjustStockForm({ product, locations, userId }: AdjustStockFormProps) {
   const router = useRouter()
-  const [newStock, setNewStock] = useState<string>(product.currentStock.toString())
+  const initialBin = product.bins[0]
+  const [locationId, setLocationId] = useState<string>(initialBin?.locationId ?? '')
+  const [newStock, setNewStock] = useState<string>((initialBin?.quantity ?? 0).toString())
   const [showSuccess, setShowSuccess] = useState(false)
 
   const boundAdjustStock = adjustStock.bind(null, product.id, userId)
   const [state, formAction, isPending] = useActionState(boundAdjustStock, {})
 
-  const currentStock = product.currentStock
+  const binQuantity = (id: string) =>
+    product.bins.find((b) => b.locationId === id)?.quantity ?? 0
+
+  const currentStock = locationId ? binQuantity(locationId) : 0
   const newStockNum = parseInt(newStock) || 0
   const adjustment = newStockNum - currentStock
 
@@ -64,14 +83,16 @@ export function AdjustStockForm({ product, userId }: AdjustStockFormProps) {
               Stock adjusted successfully
             </p>
             <p className="text-lg text-green-700">
-              {state.success.previousStock} → {state.success.newStock}
+              {state.success.locationCode}: {state.success.previousStock} → {state.success.newStock}
               {state.success.adjustment !== 0 && (
                 <span className={state.success.adjustment > 0 ? 'text-green-600' : 'text-red-600'}>
                   {' '}({state.success.adjustment > 0 ? '+' : ''}{state.success.adjustment})
                 </span>
               )}
             </p>
-            <p className="text-sm text-green-600 mt-1">Redirecting...</p>
+            <p className="text-sm text-green-600 mt-1">
+              Total stock now {state.success.totalStock}. Redirecting...
+            </p>
           </div>
         </div>
       )}
@@ -83,7 +104,7 @@ export function AdjustStockForm({ product, userId }: AdjustStockFormProps) {
           <p className="text-xl font-semibold text-gray-900">{product.name}</p>
           <p className="text-gray-600">SKU: {product.sku}</p>
           <p className="text-lg mt-2">
-            Current Stock: <span className="font-bold text-2xl">{currentStock}</span>
+            Total Stock: <span className="font-bold text-2xl">{product.currentStock}</span>
           </p>
         </div>
 
@@ -96,10 +117,46 @@ export function AdjustStockForm({ product, userId }: AdjustStockFormProps) {
         )}
 
         <form action={formAction}>
+          {/* Bin Select */}
+          <div className="mb-6">
+            <label htmlFor="locationId" className="block text-lg font-medium text-gray-700 mb-2">
+              Bin Location
+            </label>
+            <select
+              id="locationId"
+              name="locationId"
+              value={locationId}
+              onChange={(e) => {
+                setLocationId(e.target.value)
+                setNewStock(binQuantity(e.target.value).toString())
+              }}
+              className={`w-full px-4 py-3 text-lg border-2 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none bg-white ${
+                state.errors?.locationId ? 'border-red-500 bg-red-50' : 'border-gray-300'
+              }`}
+            >
+              <option value="" disabled>
+                Select a bin...
+              </option>
+              {locations.map((location) => (
+                <option key={location.id} value={location.id}>
+                  {location.warehouseCode} · {location.code} ({binQuantity(location.id)} in bin)
+                </option>
+              ))}
+            </select>
+            {state.errors?.locationId && (
+              <p className="mt-2 text-red-600">{state.errors.locationId[0]}</p>
+            )}
+            {locationId && (
+              <p className="mt-2 text-gray-600">
+                Currently in this bin: <span className="font-semibold">{currentStock}</span>
+              </p>
+            )}
+          </div>
+
           {/* New Stock Input */}
           <div className="mb-6">
             <label htmlFor="newStock" className="block text-lg font-medium text-gray-700 mb-2">
-              New Stock Count
+              New Bin Count
             </label>
             <input
               type="number"
@@ -156,7 +213,7 @@ export function AdjustStockForm({ product, userId }: AdjustStockFormProps) {
           <div className="flex items-center gap-4">
             <button
               type="submit"
-              disabled={isPending || adjustment === 0}
+              disabled={isPending || !locationId || adjustment === 0}
               className="flex-1 py-4 text-xl font-bold text-white bg-blue-600 rounded-xl hover:bg-blue-700 focus:ring-4 focus:ring-blue-200 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors"
             >
               {isPending ? 'Saving...' : 'Save Adjustment'}
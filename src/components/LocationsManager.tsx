@@ -0,0 +1,194 @@
+'use client'
+
+import { useActionState } from 'react'
+import { MapPin, Plus, CheckCircle } from 'lucide-react'
+import { createLocation } from '@/app/(dashboard)/inventory/actions'
+
+interface Location {
+  id: string
+  code: string
+  warehouseCode: string
+  zone: string
+  aisle: string
+  shelf: string
+  bin: string
+  productCount: number
+  unitCount: number
+}
+
+interface LocationsManagerProps {
+  locations: Location[]
+  warehouses: Array<{ id: string; code: string; name: string }>
+}
+
+const fields = [
+  { name: 'zone', label: 'Zone', placeholder: 'A' },
+  { name: 'aisle', label: 'Aisle', placeholder: '01' },
+  { name: 'shelf', label: 'Shelf', placeholder: '03' },
+  { name: 'bin', label: 'Bin', placeholder: 'B' },
+] as const
+
+export function LocationsManager({ locations, warehouses }: LocationsManagerProps) {
+  const [state, formAction, isPending] = useActionState(createLocation, {})
+
+  return (
+    <div>
+      {/* Header */}
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold text-gray-900">Locations</h1>
+        <p className="mt-1 text-sm text-gray-500">
+          Bins where stock is put away and picked from
+        </p>
+      </div>
+
+      {/* Add Location Form */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-5 mb-6">
+        <h2 className="text-sm font-medium text-gray-900 mb-3">Add Location</h2>
+
+        {state.errors?._form && (
+          <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg">
+            {state.errors._form.map((error, i) => (
+              <p key={i} className="text-sm text-red-600">{error}</p>
+            ))}
+          </div>
+        )}
+
+        {state.success && (
+          <div className="mb-4 p-3 bg-green-50 border border-green-200 rounded-lg flex items-center gap-2">
+            <CheckCircle className="h-4 w-4 text-green-600" />
+            <p className="text-sm text-green-800">Created location {state.success.code}</p>
+          </div>
+        )}
+
+        <form action={formAction} className="flex flex-wrap items-start gap-4">
+          <div className="w-48">
+            <label htmlFor="warehouseId" className="block text-sm text-gray-600 mb-1">
+              Warehouse
+            </label>
+            <select
+              id="warehouseId"
+              name="warehouseId"
+              defaultValue={warehouses[0]?.id ?? ''}
+              className={`w-full px-3 py-2 text-sm border rounded-lg focus:ring-1 focus:ring-blue-500 focus:border-blue-500 outline-none ${
+                state.errors?.warehouseId ? 'border-red-500 bg-red-50' : 'border-gray-300'
+              }`}
+            >
+              {warehouses.map((warehouse) => (
+                <option key={warehouse.id} value={warehouse.id}>
+                  {warehouse.name}
+                </option>
+              ))}
+            </select>
+            {state.errors?.warehouseId && (
+              <p className="mt-1 text-xs text-red-600">{state.errors.warehouseId[0]}</p>
+            )}
+          </div>
+          {fields.map((field) => (
+            <div key={field.name} className="w-28">
+              <label htmlFor={field.name} className="block text-sm text-gray-600 mb-1">
+                {field.label}
+              </label>
+              <input
+                type="text"
+                id={field.name}
+                name={field.name}
+                placeholder={field.placeholder}
+                className={`w-full px-3 py-2 text-sm border rounded-lg uppercase focus:ring-1 focus:ring-blue-500 focus:border-blue-500 outline-none ${
+                  state.errors?.[field.name] ? 'border-red-500 bg-red-50' : 'border-gray-300'
+                }`}
+              />
+              {state.errors?.[field.name] && (
+                <p className="mt-1 text-xs text-red-600">{state.errors[field.name]![0]}</p>
+              )}
+            </div>
+          ))}
+          <button
+            type="submit"
+            disabled={isPending}
+            className="mt-6 inline-flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:bg-blue-400 disabled:cursor-not-allowed transition-colors"
+          >
+            <Plus className="h-4 w-4" />
+            {isPending ? 'Adding...' : 'Add Location'}
+          </button>
+        </form>
+      </div>
+
+      {/* Locations Table */}
+      <div className="overflow-hidden rounded-xl border border-gray-200 bg-white shadow-sm">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-gray-200 bg-gray-50">
+                <th className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">
+                  Warehouse
+                </th>
+                <th className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">
+                  Code
+                </th>
+                <th className="hidden px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500 sm:table-cell">
+                  Zone
+                </th>
+                <th className="hidden px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500 sm:table-cell">
+                  Aisle
+                </th>
+                <th className="hidden px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500 sm:table-cell">
+                  Shelf
+                </th>
+                <th className="hidden px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500 sm:table-cell">
+                  Bin
+                </th>
+                <th className="px-4 py-3 text-right text-xs font-medium uppercase tracking-wider text-gray-500">
+                  Products
+                </th>
+                <th className="px-4 py-3 text-right text-xs font-medium uppercase tracking-wider text-gray-500">
+                  Units
+                </th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {locations.length === 0 ? (
+                <tr>
+                  <td colSpan={8} className="px-4 py-12 text-center">
+                    <MapPin className="mx-auto h-10 w-10 text-gray-300" />
+                    <p className="mt-3 text-sm text-gray-500">
+                      No locations yet. Add your first bin above.
+                    </p>
+                  </td>
+                </tr>
+              ) : (
+                locations.map((location) => (
+                  <tr key={location.id} className="hover:bg-gray-50 transition-colors">
+                    <td className="px-4 py-3 font-mono text-sm text-gray-600">
+                      {location.warehouseCode}
+                    </td>
+                    <td className="px-4 py-3 font-mono text-sm font-medium text-gray-900">
+                      {location.code}
+                    </td>
+                    <td className="hidden px-4 py-3 text-sm text-gray-600 sm:table-cell">
+                      {location.zone}
+                    </td>
+                    <td className="hidden px-4 py-3 text-sm text-gray-600 sm:table-cell">
+                      {location.aisle}
+                    </td>
+                    <td className="hidden px-4 py-3 text-sm text-gray-600 sm:table-cell">
+                      {location.shelf}
+                    </td>
+                    <td className="hidden px-4 py-3 text-sm text-gray-600 sm:table-cell">
+                      {location.bin}
+                    </td>
+                    <td className="px-4 py-3 text-right text-sm text-gray-700">
+                      {location.productCount}
+                    </td>
+                    <td className="px-4 py-3 text-right text-sm font-semibold text-gray-900">
+                      {location.unitCount}
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -17,6 +17,10 @@ interface ProductData {
   height: string
   lowStockThreshold: number
   imageUrl: string | null
+  hsCode: string | null
+  countryOfOrigin: string | null
+  customsValue: string | null
+  customsDescription: string | null
 }
 
 interface ProductFormProps {
@@ -242,6 +246,49 @@ export function ProductForm({ product, action, title, submitLabel }: ProductForm
             />
           </div>
 
+          {/* Customs */}
+          <div>
+            <h3 className="text-sm font-medium text-gray-700 mb-1">Customs</h3>
+            <p className="text-sm text-gray-500 mb-3">
+              Needed to ship this product outside the warehouse&apos;s country.
+            </p>
+            <div className="grid grid-cols-1 gap-6 sm:grid-cols-3">
+              <FormField
+                label="HS Code"
+                name="hsCode"
+                defaultValue={product?.hsCode}
+                placeholder="e.g., 4202.32"
+                errors={state.errors?.hsCode}
+              />
+              <FormField
+                label="Country of Origin"
+                name="countryOfOrigin"
+                defaultValue={product?.countryOfOrigin}
+                placeholder="e.g., CN"
+                errors={state.errors?.countryOfOrigin}
+                hint="Two-letter code"
+              />
+              <FormField
+                label="Customs Value"
+                name="customsValue"
+                type="number"
+                defaultValue={product?.customsValue}
+                placeholder="0.00"
+                errors={state.errors?.customsValue}
+                hint="Per unit. Defaults to the price paid."
+              />
+            </div>
+            <div className="mt-6">
+              <FormField
+                label="Customs Description"
+                name="customsDescription"
+                defaultValue={product?.customsDescription}
+                placeholder="e.g., Plastic phone case"
+                hint="What it is and what it's made of. Defaults to the product name."
+              />
+            </div>
+          </div>
+
           {/* Actions */}
           <div className="flex items-center gap-4 pt-4 border-t border-gray-200">
             <button
@@ -8,7 +8,9 @@ interface Product {
   id: string
   sku: string
   name: string
-  currentStock: number
+  onHand: number
+  allocated: number
+  available: number
   lowStockThreshold: number
   weight: string
 }
@@ -18,7 +20,7 @@ interface ProductsTableProps {
 }
 
 function getStockStatus(stock: number, threshold: number) {
-  if (stock === 0) {
+  if (stock <= 0) {
     return { label: 'Out of Stock', className: 'bg-red-100 text-red-700' }
   }
   if (stock <= threshold) {
@@ -81,8 +83,14 @@ export function ProductsTable({ products }: ProductsTableProps) {
                 <th className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">
                   Product Name
                 </th>
+                <th className="hidden px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500 md:table-cell">
+                  On Hand
+                </th>
+                <th className="hidden px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500 md:table-cell">
+                  Allocated
+                </th>
                 <th className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">
-                  Stock
+                  Available
                 </th>
                 <th className="hidden px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500 md:table-cell">
                   Weight
@@ -96,7 +104,7 @@ export function ProductsTable({ products }: ProductsTableProps) {
               {filteredProducts.length === 0 ? (
                 <tr>
                   <td
-                    colSpan={5}
+                    colSpan={7}
                     className="px-4 py-8 text-center text-sm text-gray-500"
                   >
                     {searchQuery
@@ -107,7 +115,7 @@ export function ProductsTable({ products }: ProductsTableProps) {
               ) : (
                 filteredProducts.map((product) => {
                   const status = getStockStatus(
-                    product.currentStock,
+                    product.available,
                     product.lowStockThreshold
                   )
 
@@ -132,8 +140,14 @@ export function ProductsTable({ products }: ProductsTableProps) {
                           {product.name}
                         </Link>
                       </td>
-                      <td className="px-4 py-3 text-gray-700">
-                        {product.currentStock}
+                      <td className="hidden px-4 py-3 text-gray-700 md:table-cell">
+                        {product.onHand}
+                      </td>
+                      <td className="hidden px-4 py-3 text-gray-500 md:table-cell">
+                        {product.allocated}
+                      </td>
+                      <td className="px-4 py-3 font-medium text-gray-900">
+                        {product.available}
                       </td>
                       <td className="hidden px-4 py-3 text-gray-700 md:table-cell">
                         {product.weight} lbs
@@ -2,8 +2,13 @@
 
 import { useState, useEffect, useRef, useActionState, useTransition } from 'react'
 import { Search, Package, CheckCircle, X } from 'lucide-react'
-import { searchProducts, receiveStock } from '@/app/(dashboard)/inventory/actions'
+import {
+  searchProducts,
+  receiveStock,
+  getPurchaseOrderLines,
+} from '@/app/(dashboard)/inventory/actions'
 import type { ReceiveStockState } from '@/app/(dashboard)/inventory/actions'
+import type { ReceivableLine } from '@/src/lib/purchasing'
 
 interface Product {
   id: string
@@ -13,10 +18,19 @@ interface Product {
   imageUrl: string | null
 }
 
+interface Location {
+  id: string
+  code: string
+  warehouseId: string
+  warehouseCode: string
+}
+
 interface RecentReceive {
   id: string
   productSku: string
   productName: string
+  locationCode: string | null
+  poNumber: string | null
   quantity: number
   receivedBy: string
   createdAt: string
@@ -24,13 +38,25 @@ interface RecentReceive {
 
 interface ReceiveStockFormProps {
   userId: string
+  locations: Location[]
   initialRecentReceives: RecentReceive[]
+  // Opened from a purchase order line: its product and line are preselected
+  initialProduct?: Product | null
+  initialLineId?: string | null
 }
 
-export function ReceiveStockForm({ userId, initialRecentReceives }: ReceiveStockFormProps) {
+export function ReceiveStockForm({
+  userId,
+  locations,
+  initialRecentReceives,
+  initialProduct = null,
+  initialLineId = null,
+}: ReceiveStockFormProps) {
   const [searchQuery, setSearchQuery] = useState('')
   const [searchResults, setSearchResults] = useState<Product[]>([])
-  const [selectedProduct, setSelectedProduct] = useState<Product | null>(null)
+  const [selectedProduct, setSelectedProduct] = useState<Product | null>(initialProduct)
+  const [poLines, setPoLines] = useState<ReceivableLine[]>([])
+  const [selectedLineId, setSelectedLineId] = useState('')
   const [isSearching, setIsSearching] = useState(false)
   const [showDropdown, setShowDropdown] = useState(false)
   const [successMessage, setSuccessMessage] = useState<ReceiveStockState['success'] | null>(null)
@@ -39,6 +65,7 @@ export function ReceiveStockForm({ userId, initialRecentReceives }: ReceiveStock
   const searchRef = useRef<HTMLDivElement>(null)
   const quantityRef = useRef<HTMLInputElement>(null)
   const formRef = useRef<HTMLFormElement>(null)
+  const preferredLineIdRef = useRef(initialLineId)
 
   const boundReceiveStock = receiveStock.bind(null, userId)
   const [state, formAction] = useActionState(boundReceiveStock, {})
@@ -66,6 +93,26 @@ export function ReceiveStockForm({ userId, initialRecentReceives }: ReceiveStock
     return () => clearTimeout(debounce)
   }, [searchQuery])
 
+  // Load the open purchase order lines for the selected product
+  useEffect(() => {
+    setPoLines([])
+    setSelectedLineId('')
+    if (!selectedProduct) return
+
+    let cancelled = false
+    getPurchaseOrderLines(selectedProduct.id).then((lines) => {
+      if (cancelled) return
+      const preferred = lines.find((line) => line.id === preferredLineIdRef.current)
+      preferredLineIdRef.current = null
+      setPoLines(lines)
+      setSelectedLineId((preferred ?? lines[0])?.id ?? '')
+    })
+
+    return () => {
+      cancelled = true
+    }
+  }, [selectedProduct])
+
   // Handle click outside to close dropdown
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
@@ -91,6 +138,8 @@ export function ReceiveStockForm({ userId, initialRecentReceives }: ReceiveStock
         id: Date.now().toString(),
         productSku: selectedProduct?.sku || '',
         productName: state.success.productName,
+        locationCode: state.success.locationCode,
+        poNumber: state.success.poNumber ?? null,
         quantity: state.success.quantity,
         receivedBy: 'You',
         createdAt: new Date().toISOString(),
@@ -118,6 +167,12 @@ export function ReceiveStockForm({ userId, initialRecentReceives }: ReceiveStock
     setSelectedProduct(null)
   }
 
+  const selectedLine = poLines.find((line) => line.id === selectedLineId) ?? null
+  // Units received on a PO go to a bin in the PO's warehouse
+  const binOptions = selectedLine
+    ? locations.filter((location) => location.warehouseId === selectedLine.warehouseId)
+    : locations
+
   const handleSubmit = (formData: FormData) => {
     startTransition(() => {
       formAction(formData)
@@ -150,7 +205,9 @@ export function ReceiveStockForm({ userId, initialRecentReceives }: ReceiveStock
           <CheckCircle className="h-5 w-5 text-green-600 flex-shrink-0" />
           <div className="flex-1">
             <p className="text-sm font-medium text-green-800">
-              Received {successMessage.quantity} x {successMessage.productName}
+              Received {successMessage.quantity} x {successMessage.productName} into{' '}
+              {successMessage.locationCode}
+              {successMessage.poNumber && ` on ${successMessage.poNumber}`}
             </p>
             <p className="text-sm text-green-700">
               New stock level: {successMessage.newStock}
@@ -279,8 +336,85 @@ export function ReceiveStockForm({ userId, initialRecentReceives }: ReceiveStock
             )}
           </div>
 
-          {/* Quantity and Notes in a row */}
-          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mb-5">
+          {/* Purchase Order Line */}
+          {selectedProduct && poLines.length > 0 && (
+            <div className="mb-4">
+              <label
+                htmlFor="purchaseOrderLineId"
+                className="block text-sm font-medium text-gray-700 mb-1.5"
+              >
+                Purchase Order
+              </label>
+              <select
+                id="purchaseOrderLineId"
+                name="purchaseOrderLineId"
+                value={selectedLineId}
+                onChange={(e) => setSelectedLineId(e.target.value)}
+                className={`w-full px-3 py-2.5 text-sm border rounded-lg focus:ring-1 focus:ring-blue-500 focus:border-blue-500 outline-none bg-white ${
+                  state.errors?.purchaseOrderLineId ? 'border-red-500 bg-red-50' : 'border-gray-300'
+                }`}
+              >
+                {poLines.map((line) => (
+                  <option key={line.id} value={line.id}>
+                    {line.poNumber} · {line.supplierName} · {line.quantityReceived} of{' '}
+                    {line.quantityOrdered} received
+                    {line.expectedAt &&
+                      ` · expected ${new Date(line.expectedAt).toLocaleDateString('en-US', {
+                        month: 'short',
+                        day: 'numeric',
+                        timeZone: 'UTC',
+                      })}`}
+                  </option>
+                ))}
+                <option value="">No purchase order</option>
+              </select>
+              {state.errors?.purchaseOrderLineId && (
+                <p className="mt-1.5 text-sm text-red-600">{state.errors.purchaseOrderLineId[0]}</p>
+              )}
+              {selectedLine && (
+                <label className="mt-2 flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    name="acceptOverReceipt"
+                    className="h-4 w-4 rounded border-gray-300"
+                  />
+                  Accept more than the{' '}
+                  {Math.max(0, selectedLine.quantityOrdered - selectedLine.quantityReceived)} left on
+                  this line
+                </label>
+              )}
+            </div>
+          )}
+
+          {/* Location, Quantity and Notes in a row */}
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-5">
+            {/* Location Select */}
+            <div>
+              <label htmlFor="locationId" className="block text-sm font-medium text-gray-700 mb-1.5">
+                Bin Location
+              </label>
+              <select
+                id="locationId"
+                name="locationId"
+                defaultValue=""
+                className={`w-full px-3 py-2.5 text-sm border rounded-lg focus:ring-1 focus:ring-blue-500 focus:border-blue-500 outline-none bg-white ${
+                  state.errors?.locationId ? 'border-red-500 bg-red-50' : 'border-gray-300'
+                }`}
+              >
+                <option value="" disabled>
+                  {binOptions.length === 0 ? 'No locations set up' : 'Select a bin...'}
+                </option>
+                {binOptions.map((location) => (
+                  <option key={location.id} value={location.id}>
+                    {location.warehouseCode} · {location.code}
+                  </option>
+                ))}
+              </select>
+              {state.errors?.locationId && (
+                <p className="mt-1.5 text-sm text-red-600">{state.errors.locationId[0]}</p>
+              )}
+            </div>
+
             {/* Quantity Input */}
             <div>
               <label htmlFor="quantity" className="block text-sm font-medium text-gray-700 mb-1.5">
@@ -311,7 +445,7 @@ export function ReceiveStockForm({ userId, initialRecentReceives }: ReceiveStock
                 type="text"
                 id="notes"
                 name="notes"
-                placeholder="PO number, vendor, etc..."
+                placeholder="Carton count, condition, etc..."
                 className="w-full px-3 py-2.5 text-sm border border-gray-300 rounded-lg focus:ring-1 focus:ring-blue-500 focus:border-blue-500 outline-none"
               />
             </div>
@@ -345,6 +479,12 @@ export function ReceiveStockForm({ userId, initialRecentReceives }: ReceiveStock
                     <th className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">
                       Product
                     </th>
+                    <th className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500 hidden sm:table-cell">
+                      Location
+                    </th>
+                    <th className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500 hidden sm:table-cell">
+                      PO
+                    </th>
                     <th className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">
                       Qty
                     </th>
@@ -363,6 +503,12 @@ export function ReceiveStockForm({ userId, initialRecentReceives }: ReceiveStock
                         <p className="text-sm font-medium text-gray-900">{receive.productName}</p>
                         <p className="text-xs text-gray-500">{receive.productSku}</p>
                       </td>
+                      <td className="px-4 py-3 text-sm text-gray-600 font-mono hidden sm:table-cell">
+                        {receive.locationCode || '—'}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-600 hidden sm:table-cell">
+                        {receive.poNumber || '—'}
+                      </td>
                       <td className="px-4 py-3">
                         <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-sm font-medium bg-green-100 text-green-800">
                           +{receive.quantity}
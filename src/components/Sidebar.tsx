@@ -10,6 +10,11 @@ import {
   ShoppingCart,
   Send,
   Settings,
+  MapPin,
+  ClipboardList,
+  ClipboardCheck,
+  Factory,
+  Undo2,
   X,
 } from 'lucide-react'
 
@@ -24,8 +29,13 @@ const navItems: NavItem[] = [
   { name: 'Dashboard', href: '/', icon: Home },
   { name: 'Inventory', href: '/inventory', icon: Package },
   { name: 'Receiving', href: '/inventory/receive', icon: Truck },
+  { name: 'Purchase Orders', href: '/inventory/purchase-orders', icon: ClipboardCheck },
+  { name: 'Suppliers', href: '/inventory/suppliers', icon: Factory },
+  { name: 'Locations', href: '/inventory/locations', icon: MapPin },
   { name: 'Orders', href: '/orders', icon: ShoppingCart },
+  { name: 'Pick Batches', href: '/orders/batches', icon: ClipboardList },
   { name: 'Shipments', href: '/shipments', icon: Send },
+  { name: 'Returns', href: '/returns', icon: Undo2 },
   { name: 'Settings', href: '/settings', icon: Settings, adminOnly: true },
 ]
 
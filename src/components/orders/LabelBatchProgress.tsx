@@ -0,0 +1,312 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import {
+  ArrowLeft,
+  XCircle,
+  CheckCircle,
+  Clock,
+  Loader2,
+  Printer,
+  Pause,
+  Play,
+  FileText,
+} from 'lucide-react'
+
+type CarrierMode = 'PRODUCTION' | 'SANDBOX' | 'MOCK'
+type BatchOrderStatus = 'PENDING' | 'PURCHASING' | 'PURCHASED' | 'FAILED'
+
+interface LabelBatch {
+  id: string
+  batchNumber: number
+  status: 'RUNNING' | 'COMPLETED'
+  labelFormat: 'IMAGE' | 'ZPL'
+  createdBy: string
+  createdAt: string
+  orders: Array<{
+    id: string
+    orderId: string
+    orderNumber: string
+    customerName: string
+    status: BatchOrderStatus
+    ruleName: string | null
+    error: string | null
+    shipment: {
+      carrier: string
+      mode: CarrierMode
+      service: string
+      trackingNumber: string | null
+      cost: string | null
+      voided: boolean
+    } | null
+  }>
+}
+
+interface LabelBatchProgressProps {
+  initialBatch: LabelBatch
+}
+
+const orderStatusConfig: Record<BatchOrderStatus, { label: string; className: string }> = {
+  PENDING: { label: 'Waiting', className: 'bg-gray-100 text-gray-700' },
+  PURCHASING: { label: 'Buying', className: 'bg-blue-100 text-blue-800' },
+  PURCHASED: { label: 'Purchased', className: 'bg-green-100 text-green-800' },
+  FAILED: { label: 'Failed', className: 'bg-red-100 text-red-800' },
+}
+
+const carrierModeConfig: Record<Exclude<CarrierMode, 'PRODUCTION'>, { label: string; color: string }> = {
+  SANDBOX: { label: 'Sandbox', color: 'bg-yellow-100 text-yellow-800 border-yellow-200' },
+  MOCK: { label: 'Mock', color: 'bg-fuchsia-100 text-fuchsia-800 border-fuchsia-200' },
+}
+
+export function LabelBatchProgress({ initialBatch }: LabelBatchProgressProps) {
+  const [batch, setBatch] = useState(initialBatch)
+  const [isPaused, setIsPaused] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const isRunning = batch.status === 'RUNNING' && !isPaused && !error
+  const count = (status: BatchOrderStatus) =>
+    batch.orders.filter((order) => order.status === status).length
+  const purchased = count('PURCHASED')
+  const failed = count('FAILED')
+  const finished = purchased + failed
+  const percent = batch.orders.length > 0 ? Math.round((finished / batch.orders.length) * 100) : 100
+
+  // Work through the orders one request at a time while the page is open
+  useEffect(() => {
+    if (!isRunning) return
+
+    let cancelled = false
+    const processNext = async () => {
+      try {
+        const response = await fetch(`/api/label-batches/${batch.id}/process`, { method: 'POST' })
+        const data = await response.json()
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to buy labels')
+        }
+        if (!cancelled) {
+          setBatch(data.batch)
+          // Nothing left here to buy; another tab may still be finishing an order
+          if (data.done) {
+            setIsPaused(true)
+          }
+        }
+      } catch (err) {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Failed to buy labels')
+        }
+      }
+    }
+
+    processNext()
+    return () => {
+      cancelled = true
+    }
+  }, [batch, isRunning])
+
+  const formatDate = (dateStr: string) => {
+    return new Date(dateStr).toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit',
+    })
+  }
+
+  const handleResume = () => {
+    setError(null)
+    setIsPaused(false)
+  }
+
+  return (
+    <div className="max-w-5xl mx-auto">
+      {/* Back button */}
+      <Link
+        href="/orders"
+        className="inline-flex items-center gap-2 text-sm text-gray-600 hover:text-gray-900 mb-4"
+      >
+        <ArrowLeft className="h-4 w-4" />
+        Back to Orders
+      </Link>
+
+      {/* Error Banner */}
+      {error && (
+        <div className="mb-6 rounded-xl bg-red-50 border border-red-200 p-4">
+          <div className="flex items-center gap-3">
+            <XCircle className="h-5 w-5 text-red-600" />
+            <p className="text-red-800">{error}</p>
+          </div>
+        </div>
+      )}
+
+      {/* Header */}
+      <div className="mb-6 bg-white rounded-xl border border-gray-200 shadow-sm p-6">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">
+              Label Batch #{batch.batchNumber}
+            </h1>
+            <p className="mt-1 text-gray-600">
+              {batch.orders.length} order{batch.orders.length !== 1 ? 's' : ''} · {purchased}{' '}
+              purchased · {failed} failed
+            </p>
+            <p className="mt-1 text-sm text-gray-500">
+              Created {formatDate(batch.createdAt)} by {batch.createdBy}
+            </p>
+          </div>
+          <div className="flex items-center gap-3">
+            {batch.status === 'RUNNING' &&
+              (isRunning ? (
+                <button
+                  onClick={() => setIsPaused(true)}
+                  className="inline-flex items-center gap-2 px-4 py-2.5 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+                >
+                  <Pause className="h-4 w-4" />
+                  Pause
+                </button>
+              ) : (
+                <button
+                  onClick={handleResume}
+                  className="inline-flex items-center gap-2 px-4 py-2.5 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+                >
+                  <Play className="h-4 w-4" />
+                  Resume
+                </button>
+              ))}
+            {purchased > 0 && batch.labelFormat === 'ZPL' && (
+              <a
+                href={`/api/label-batches/${batch.id}/labels?format=pdf`}
+                target="_blank"
+                rel="noopener noreferrer"
+                title="Every label rendered as a PDF, to check them on screen"
+                className="inline-flex items-center gap-2 px-4 py-2.5 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+              >
+                <FileText className="h-4 w-4" />
+                Preview PDF
+              </a>
+            )}
+            {purchased > 0 && (
+              <a
+                href={`/api/label-batches/${batch.id}/labels`}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="inline-flex items-center gap-2 px-4 py-2.5 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 transition-colors"
+              >
+                <Printer className="h-4 w-4" />
+                {batch.labelFormat === 'ZPL' ? 'Print ZPL' : 'Print Labels'} ({purchased})
+              </a>
+            )}
+          </div>
+        </div>
+
+        {/* Progress */}
+        <div className="mt-6">
+          <div className="flex items-center justify-between text-sm text-gray-600 mb-2">
+            <span className="inline-flex items-center gap-2">
+              {batch.status === 'COMPLETED' ? (
+                <CheckCircle className="h-4 w-4 text-green-600" />
+              ) : isRunning ? (
+                <Loader2 className="h-4 w-4 animate-spin text-blue-600" />
+              ) : (
+                <Clock className="h-4 w-4 text-gray-400" />
+              )}
+              {batch.status === 'COMPLETED'
+                ? 'Finished'
+                : isRunning
+                  ? 'Buying labels...'
+                  : 'Paused'}
+            </span>
+            <span>
+              {finished} of {batch.orders.length}
+            </span>
+          </div>
+          <div className="h-2 rounded-full bg-gray-100 overflow-hidden">
+            <div
+              className={`h-full transition-all ${failed > 0 ? 'bg-yellow-500' : 'bg-green-500'}`}
+              style={{ width: `${percent}%` }}
+            />
+          </div>
+        </div>
+      </div>
+
+      {/* Orders */}
+      <div className="overflow-hidden rounded-xl border border-gray-200 bg-white shadow-sm">
+        <table className="w-full">
+          <thead>
+            <tr className="border-b border-gray-200 bg-gray-50">
+              <th className="w-12 px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">
+                #
+              </th>
+              <th className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">
+                Order
+              </th>
+              <th className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">
+                Status
+              </th>
+              <th className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">
+                Label
+              </th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {batch.orders.map((order, index) => {
+              const status = orderStatusConfig[order.status]
+              const shipment = order.shipment
+
+              return (
+                <tr key={order.id}>
+                  <td className="px-4 py-3 text-sm text-gray-500">{index + 1}</td>
+                  <td className="px-4 py-3">
+                    <Link
+                      href={`/orders/${order.orderId}`}
+                      className="font-medium text-blue-600 hover:text-blue-800"
+                    >
+                      {order.orderNumber}
+                    </Link>
+                    <p className="text-sm text-gray-500">{order.customerName}</p>
+                  </td>
+                  <td className="px-4 py-3">
+                    <span
+                      className={`inline-flex items-center gap-1 rounded-full px-2.5 py-0.5 text-xs font-medium ${status.className}`}
+                    >
+                      {order.status === 'PURCHASING' && <Loader2 className="h-3 w-3 animate-spin" />}
+                      {status.label}
+                    </span>
+                  </td>
+                  <td className="px-4 py-3 text-sm">
+                    {shipment ? (
+                      <div>
+                        <p className="text-gray-900">
+                          {shipment.carrier} {shipment.service}
+                          {shipment.cost && <span className="text-gray-500"> · ${shipment.cost}</span>}
+                          {shipment.mode !== 'PRODUCTION' && (
+                            <span
+                              className={`ml-2 inline-flex px-1.5 py-0.5 rounded text-xs font-medium border ${
+                                carrierModeConfig[shipment.mode].color
+                              }`}
+                            >
+                              {carrierModeConfig[shipment.mode].label}
+                            </span>
+                          )}
+                        </p>
+                        <p className="font-mono text-xs text-gray-500">
+                          {shipment.voided ? 'Voided' : shipment.trackingNumber}
+                          {order.ruleName && ` · rule "${order.ruleName}"`}
+                        </p>
+                      </div>
+                    ) : order.error ? (
+                      <p className="text-red-600">{order.error}</p>
+                    ) : (
+                      <span className="text-gray-400">-</span>
+                    )}
+                  </td>
+                </tr>
+              )
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
@@ -19,11 +19,28 @@ import {
   PauseCircle,
   XOctagon,
   PlayCircle,
+  Warehouse as WarehouseIcon,
+  ScanLine,
+  Plus,
+  X,
+  RotateCcw,
+  Ban,
+  RefreshCw,
+  Eye,
+  FileText,
+  Gift,
+  Home,
+  Building2,
+  Pencil,
+  History,
+  Undo2,
 } from 'lucide-react'
 import {
   putOrderOnHold,
   cancelOrder,
   resumeOrder,
+  assignOrderWarehouse,
+  updateShippingAddress,
 } from '@/app/(dashboard)/orders/[id]/actions'
 
 interface OrderItem {
@@ -32,22 +49,106 @@ interface OrderItem {
   sku: string
   name: string
   quantity: number
+  shippedQuantity: number
   price: string
   currentStock: number
   hasProduct: boolean
 }
 
+type TrackingStatus = 'LABEL_CREATED' | 'IN_TRANSIT' | 'OUT_FOR_DELIVERY' | 'DELIVERED' | 'EXCEPTION'
+
+const trackingStatusConfig: Record<TrackingStatus, { label: string; color: string }> = {
+  LABEL_CREATED: { label: 'Label Created', color: 'bg-gray-100 text-gray-800 border-gray-200' },
+  IN_TRANSIT: { label: 'In Transit', color: 'bg-blue-100 text-blue-800 border-blue-200' },
+  OUT_FOR_DELIVERY: { label: 'Out for Delivery', color: 'bg-indigo-100 text-indigo-800 border-indigo-200' },
+  DELIVERED: { label: 'Delivered', color: 'bg-green-100 text-green-800 border-green-200' },
+  EXCEPTION: { label: 'Exception', color: 'bg-red-100 text-red-800 border-red-200' },
+}
+
+type CarrierMode = 'PRODUCTION' | 'SANDBOX' | 'MOCK'
+
+type LabelFormat = 'IMAGE' | 'ZPL'
+
+const labelFormatOptions: Array<{ value: LabelFormat; label: string }> = [
+  { value: 'IMAGE', label: 'Image / PDF' },
+  { value: 'ZPL', label: 'ZPL (thermal)' },
+]
+
+interface PrinterOption {
+  id: string
+  name: string
+  format: 'ZPL' | 'PDF'
+}
+
+// ZPL labels are printer commands; the preview route renders them as images
+const previewUrl = (labelUrl: string) => labelUrl.replace(/(\/api\/shipping\/label\/[^/?]+)/, '$1/preview')
+
+// Production labels get no badge
+const carrierModeConfig: Record<Exclude<CarrierMode, 'PRODUCTION'>, { label: string; color: string }> = {
+  SANDBOX: { label: 'Sandbox', color: 'bg-yellow-100 text-yellow-800 border-yellow-200' },
+  MOCK: { label: 'Mock', color: 'bg-fuchsia-100 text-fuchsia-800 border-fuchsia-200' },
+}
+
 interface Shipment {
   id: string
   carrier: string
+  carrierMode: CarrierMode
   service: string
   trackingNumber: string | null
   labelUrl: string | null
+  labelFormat: string | null // "PNG", "PDF" or "ZPL"
+  invoiceUrl: string | null // commercial invoice, international shipments only
   shipmentCost: string
   createdAt: string
   shippedBy: string
+  warehouseName: string | null
+  voidedAt: string | null
+  voidedBy: string | null
+  trackingStatus: TrackingStatus
+  trackingUpdatedAt: string | null
+  deliveredAt: string | null
+  trackingEvents: Array<{
+    id: string
+    status: TrackingStatus
+    description: string
+    location: string | null
+    occurredAt: string
+  }>
+  items: Array<{ sku: string; name: string; quantity: number }>
+  packages: Array<{
+    sequence: number
+    trackingNumber: string | null
+    boxName: string | null
+    labelUrl: string
+  }>
+}
+
+interface PackageDimensions {
+  weight: number
+  length: number
+  width: number
+  height: number
+}
+
+interface SuggestedPackage extends PackageDimensions {
+  boxId: string | null
+  boxName: string | null
 }
 
+interface ShippingBox {
+  id: string
+  code: string
+  name: string
+  length: number
+  width: number
+  height: number
+  tareWeight: number
+  maxWeight: number | null
+}
+
+// Package editor rows keep the raw input text; boxId is '' for a custom box
+type PackageRow = Record<keyof PackageDimensions | 'boxId', string>
+
 interface ShippingAddress {
   address1: string
   address2: string | null
@@ -57,7 +158,61 @@ interface ShippingAddress {
   country: string
 }
 
-interface WarehouseAddress {
+type AddressStatus = 'UNCHECKED' | 'VALID' | 'SUGGESTED' | 'INVALID' | 'UNVERIFIED'
+
+const addressStatusConfig: Record<AddressStatus, { label: string; color: string }> = {
+  UNCHECKED: { label: 'Not checked', color: 'bg-gray-100 text-gray-800 border-gray-200' },
+  VALID: { label: 'Verified', color: 'bg-green-100 text-green-800 border-green-200' },
+  SUGGESTED: { label: 'Correction suggested', color: 'bg-yellow-100 text-yellow-800 border-yellow-200' },
+  INVALID: { label: 'Undeliverable', color: 'bg-red-100 text-red-800 border-red-200' },
+  UNVERIFIED: { label: 'Unverified', color: 'bg-gray-100 text-gray-800 border-gray-200' },
+}
+
+// An address the order had before it was changed in the WMS
+interface AddressChange {
+  id: string
+  address1: string
+  address2: string | null
+  city: string
+  state: string
+  zip: string
+  country: string
+  reason: string
+  pushedToShopify: boolean
+  changedBy: string
+  createdAt: string
+}
+
+// What the carriers made of the address, see src/lib/address-validation.ts
+interface AddressCheck {
+  status: AddressStatus
+  type: 'RESIDENTIAL' | 'COMMERCIAL' | 'UNKNOWN'
+  suggestion: {
+    addressLine1: string
+    addressLine2?: string
+    city: string
+    state: string
+    postalCode: string
+    countryCode: string
+  } | null
+  message: string | null
+  carrier: string | null
+  checkedAt: string | null
+}
+
+// A customer return of this order, see src/lib/returns.ts
+interface OrderReturn {
+  id: string
+  number: string // e.g. "RMA-12"
+  status: 'OPEN' | 'RECEIVED' | 'CANCELLED'
+  reason: string
+  unitCount: number
+  createdAt: string
+}
+
+interface Warehouse {
+  id: string
+  code: string
   name: string
   address1: string
   address2: string
@@ -78,15 +233,22 @@ interface Order {
   totalPrice: string
   currency: string
   createdAt: string
+  shippingMethod: string | null // chosen by the customer at checkout
+  giftNote: string | null // printed on the packing slip
   shippingAddress: ShippingAddress
+  addressCheck: AddressCheck
+  addressEdited: boolean // changed here and not in Shopify, Shopify updates leave it alone
+  addressHistory: AddressChange[] // newest first
   items: OrderItem[]
+  returns: OrderReturn[] // newest first
   shipments: Shipment[]
   totalWeight: number
 }
 
 interface ShippingRate {
   id: string
-  carrier: 'UPS' | 'FedEx'
+  carrier: string
+  mode: CarrierMode
   service: string
   serviceCode: string
   price: number
@@ -95,9 +257,23 @@ interface ShippingRate {
   estimatedDelivery: string
 }
 
+// Shipping rule that matched the order, see src/lib/shipping-rules.ts
+interface RuleSelection {
+  ruleId: string
+  ruleName: string
+  rateId: string | null // null when no rate satisfies the rule
+}
+
 interface OrderFulfillmentProps {
   order: Order
-  warehouseAddress: WarehouseAddress
+  warehouse: Warehouse | null
+  warehouses: Array<{ id: string; code: string; name: string }>
+  packedUnits: number // units packed for the next shipment, 0 until packing is finished
+  suggestedPackages: SuggestedPackage[] // from cartonization
+  boxes: ShippingBox[] // active box catalog
+  labelFormat: LabelFormat // the user's preference
+  printers: PrinterOption[] // active network printers
+  defaultPrinterId: string | null // the user's printer; labels print there when bought
 }
 
 const statusConfig = {
@@ -123,6 +299,12 @@ const statusConfig = {
   },
 }
 
+const returnStatusConfig = {
+  OPEN: { label: 'Open', className: 'bg-yellow-100 text-yellow-800' },
+  RECEIVED: { label: 'Received', className: 'bg-green-100 text-green-800' },
+  CANCELLED: { label: 'Cancelled', className: 'bg-gray-100 text-gray-800' },
+}
+
 const carrierLogos: Record<string, string> = {
   UPS: '📦',
   FedEx: '📮',
@@ -131,27 +313,75 @@ const carrierLogos: Record<string, string> = {
 
 export function OrderFulfillment({
   order,
-  warehouseAddress,
+  warehouse,
+  warehouses,
+  packedUnits,
+  suggestedPackages,
+  boxes,
+  labelFormat: initialLabelFormat,
+  printers,
+  defaultPrinterId,
 }: OrderFulfillmentProps) {
   const router = useRouter()
   const [isLoadingRates, setIsLoadingRates] = useState(false)
   const [rates, setRates] = useState<ShippingRate[]>([])
   const [ratesError, setRatesError] = useState<string | null>(null)
+  const [ruleSelection, setRuleSelection] = useState<RuleSelection | null>(null)
   const [isShipping, setIsShipping] = useState<string | null>(null) // rate ID being processed
+  const [labelFormat, setLabelFormat] = useState<LabelFormat>(initialLabelFormat)
+  const [printerId, setPrinterId] = useState(
+    printers.some((p) => p.id === defaultPrinterId) ? (defaultPrinterId ?? '') : ''
+  )
+  const [printStatus, setPrintStatus] = useState<{
+    state: 'printing' | 'printed' | 'failed'
+    message: string
+  } | null>(null)
   const [shipSuccess, setShipSuccess] = useState<{
     trackingNumber: string
     labelUrl: string
+    labelFormat: string
+    invoiceUrl: string | null
+    fullyShipped: boolean
+    packages: Array<{ sequence: number; trackingNumber: string; labelUrl: string }>
   } | null>(null)
+  const toPackageRow = (pkg: SuggestedPackage): PackageRow => ({
+    boxId: pkg.boxId ?? '',
+    weight: String(pkg.weight),
+    length: String(pkg.length),
+    width: String(pkg.width),
+    height: String(pkg.height),
+  })
+  const [packages, setPackages] = useState<PackageRow[]>(suggestedPackages.map(toPackageRow))
   const [actionLoading, setActionLoading] = useState<string | null>(null)
   const [error, setError] = useState<string | null>(null)
+  const toAddressForm = () => ({
+    address1: order.shippingAddress.address1,
+    address2: order.shippingAddress.address2 ?? '',
+    city: order.shippingAddress.city,
+    state: order.shippingAddress.state,
+    zip: order.shippingAddress.zip,
+    country: order.shippingAddress.country,
+    reason: '',
+    pushToShopify: true,
+  })
+  const [addressForm, setAddressForm] = useState<ReturnType<typeof toAddressForm> | null>(null)
+  const [addressWarning, setAddressWarning] = useState<string | null>(null)
+  const [showAddressHistory, setShowAddressHistory] = useState(false)
 
-  // Check stock status
+  // Check stock status of what is left to ship
+  const unshipped = (item: OrderItem) => Math.max(0, item.quantity - item.shippedQuantity)
   const stockIssues = order.items.filter(
-    (item) => !item.hasProduct || item.currentStock < item.quantity
+    (item) => unshipped(item) > 0 && (!item.hasProduct || item.currentStock < unshipped(item))
   )
   const allInStock = stockIssues.length === 0
+  // Whatever is on hand can go now; the rest stays on backorder
+  const canShipSome = order.items.some(
+    (item) => unshipped(item) > 0 && item.hasProduct && item.currentStock > 0
+  )
   const canFulfill =
-    allInStock && (order.status === 'PENDING' || order.status === 'PROCESSING')
+    canShipSome && (order.status === 'PENDING' || order.status === 'PROCESSING')
+  const isOpen = order.status !== 'SHIPPED' && order.status !== 'CANCELLED'
+  const { addressCheck } = order
 
   const formatDate = (dateStr: string) => {
     return new Date(dateStr).toLocaleDateString('en-US', {
@@ -180,6 +410,7 @@ export function OrderFulfillment({
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           orderId: order.id,
+          packages,
         }),
       })
 
@@ -194,11 +425,7 @@ export function OrderFulfillment({
       }
 
       setRates(data.rates)
-
-      // Show warning if using mock data
-      if (data.mock) {
-        console.log('[Rates] Using mock data - carriers not configured')
-      }
+      setRuleSelection(data.selection ?? null)
     } catch (err) {
       setRatesError(err instanceof Error ? err.message : 'Failed to get rates')
     } finally {
@@ -206,6 +433,80 @@ export function OrderFulfillment({
     }
   }
 
+  // Remembered for the user's next label, and for label batches they start
+  const handleLabelFormatChange = async (format: LabelFormat) => {
+    setLabelFormat(format)
+
+    try {
+      const response = await fetch('/api/users/me', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ labelFormat: format }),
+      })
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error || 'Failed to save label format')
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save label format')
+    }
+  }
+
+  // Thermal printers only take ZPL, so choosing one switches the label format
+  const handlePrinterChange = async (id: string) => {
+    const printer = printers.find((p) => p.id === id)
+    setPrinterId(id)
+    if (printer?.format === 'ZPL') {
+      setLabelFormat('ZPL')
+    }
+
+    try {
+      const response = await fetch('/api/users/me', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          defaultPrinterId: id || null,
+          ...(printer?.format === 'ZPL' && { labelFormat: 'ZPL' }),
+        }),
+      })
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error || 'Failed to save printer')
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save printer')
+    }
+  }
+
+  // Sends the shipment's labels to the chosen printer; returns the error if any
+  const printShipment = async (shipmentId: string): Promise<string | null> => {
+    try {
+      const response = await fetch(`/api/shipping/label/${shipmentId}/print`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ printerId }),
+      })
+      if (!response.ok) {
+        const data = await response.json()
+        return data.error || 'Failed to print label'
+      }
+      return null
+    } catch {
+      return 'Failed to print label'
+    }
+  }
+
+  const handleReprint = async (shipment: Shipment) => {
+    setActionLoading(`print-${shipment.id}`)
+    setError(null)
+
+    const printError = await printShipment(shipment.id)
+    if (printError) {
+      setError(printError)
+    }
+    setActionLoading(null)
+  }
+
   const handleShipWithRate = async (rate: ShippingRate) => {
     setIsShipping(rate.id)
     setError(null)
@@ -225,6 +526,8 @@ export function OrderFulfillment({
           carrier: rate.carrier,
           serviceCode: rate.serviceCode,
           serviceName: rate.service,
+          packages,
+          labelFormat,
         }),
       })
 
@@ -241,10 +544,28 @@ export function OrderFulfillment({
       setShipSuccess({
         trackingNumber: data.shipment.trackingNumber,
         labelUrl: data.shipment.labelUrl,
+        labelFormat: data.shipment.labelFormat,
+        invoiceUrl: data.shipment.invoiceUrl,
+        fullyShipped: data.fullyShipped,
+        packages: data.shipment.packages ?? [],
       })
 
       // Refresh the page data
       router.refresh()
+
+      // The label is bought; printing it is best effort
+      const printer = printers.find((p) => p.id === printerId)
+      if (printer) {
+        setPrintStatus({ state: 'printing', message: `Printing on ${printer.name}...` })
+        const printError = await printShipment(data.shipment.id)
+        setPrintStatus(
+          printError
+            ? { state: 'failed', message: `${printError}. Print it from the links below.` }
+            : { state: 'printed', message: `Sent to ${printer.name}` }
+        )
+      } else {
+        setPrintStatus(null)
+      }
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to ship order')
     } finally {
@@ -252,6 +573,200 @@ export function OrderFulfillment({
     }
   }
 
+  // Rates are for a specific set of boxes, so any change needs new rates.
+  // Dimensions typed by hand no longer describe a catalog box.
+  const updatePackage = (index: number, field: keyof PackageDimensions, value: string) => {
+    setPackages((prev) =>
+      prev.map((pkg, i) =>
+        i === index
+          ? { ...pkg, [field]: value, boxId: field === 'weight' ? pkg.boxId : '' }
+          : pkg
+      )
+    )
+    setRates([])
+  }
+
+  // Swapping boxes keeps the weight of the contents but changes the tare
+  const selectBox = (index: number, boxId: string) => {
+    setPackages((prev) =>
+      prev.map((pkg, i) => {
+        if (i !== index) return pkg
+
+        const box = boxes.find((b) => b.id === boxId)
+        if (!box) return { ...pkg, boxId: '' }
+
+        const previous = boxes.find((b) => b.id === pkg.boxId)
+        const contents = Math.max(0, (parseFloat(pkg.weight) || 0) - (previous?.tareWeight ?? 0))
+
+        return {
+          boxId: box.id,
+          weight: String(Math.round((contents + box.tareWeight) * 100) / 100),
+          length: String(box.length),
+          width: String(box.width),
+          height: String(box.height),
+        }
+      })
+    )
+    setRates([])
+  }
+
+  const addPackage = () => {
+    setPackages((prev) => [...prev, toPackageRow(suggestedPackages[0])])
+    setRates([])
+  }
+
+  const resetPackages = () => {
+    setPackages(suggestedPackages.map(toPackageRow))
+    setRates([])
+  }
+
+  const removePackage = (index: number) => {
+    setPackages((prev) => prev.filter((_, i) => i !== index))
+    setRates([])
+  }
+
+  const handleChangeWarehouse = async (warehouseId: string) => {
+    setActionLoading('warehouse')
+    setError(null)
+    try {
+      const result = await assignOrderWarehouse(order.id, warehouseId)
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to change warehouse')
+      }
+      // Rates depend on the ship-from address
+      setRates([])
+      router.refresh()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to change warehouse')
+    } finally {
+      setActionLoading(null)
+    }
+  }
+
+  const handleSaveAddress = async () => {
+    if (!addressForm) return
+    if (!addressForm.reason.trim()) {
+      setError('Enter a reason for the change')
+      return
+    }
+
+    setActionLoading('address-save')
+    setError(null)
+    setAddressWarning(null)
+    try {
+      const { reason, pushToShopify, ...address } = addressForm
+      const result = await updateShippingAddress(order.id, address, reason, pushToShopify)
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to update address')
+      }
+
+      setAddressWarning(result.warning ?? null)
+      setAddressForm(null)
+      // Rates were for the old address
+      setRates([])
+      router.refresh()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update address')
+    } finally {
+      setActionLoading(null)
+    }
+  }
+
+  const handleRecheckAddress = async () => {
+    setActionLoading('address-check')
+    setError(null)
+    try {
+      const response = await fetch(`/api/orders/${order.id}/address/validate`, { method: 'POST' })
+      const data = await response.json()
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to check address')
+      }
+
+      // Rates depend on whether the address is a home or a business
+      setRates([])
+      router.refresh()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to check address')
+    } finally {
+      setActionLoading(null)
+    }
+  }
+
+  const handleUseSuggestedAddress = async () => {
+    setActionLoading('address-suggestion')
+    setError(null)
+    try {
+      const response = await fetch(`/api/orders/${order.id}/address/suggestion`, { method: 'POST' })
+      const data = await response.json()
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to update address')
+      }
+
+      setRates([])
+      router.refresh()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update address')
+    } finally {
+      setActionLoading(null)
+    }
+  }
+
+  const handleVoidShipment = async (shipment: Shipment) => {
+    if (!confirm(`Void the ${shipment.carrier} label ${shipment.trackingNumber ?? ''}? The units go back into stock and the order reopens.`)) return
+
+    setActionLoading(`void-${shipment.id}`)
+    setError(null)
+    try {
+      const response = await fetch('/api/shipping/void', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ shipmentId: shipment.id }),
+      })
+
+      const data = await response.json()
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to void label')
+      }
+
+      if (!data.restocked) {
+        setError('Label voided, but the stock could not be traced to its bins. Adjust inventory manually.')
+      }
+      setShipSuccess(null)
+      router.refresh()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to void label')
+    } finally {
+      setActionLoading(null)
+    }
+  }
+
+  const handleRefreshTracking = async (shipment: Shipment) => {
+    setActionLoading(`track-${shipment.id}`)
+    setError(null)
+    try {
+      const response = await fetch('/api/tracking/refresh', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ shipmentId: shipment.id }),
+      })
+
+      const data = await response.json()
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to refresh tracking')
+      }
+
+      router.refresh()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to refresh tracking')
+    } finally {
+      setActionLoading(null)
+    }
+  }
+
   const handlePutOnHold = async () => {
     setActionLoading('hold')
     setError(null)
@@ -304,6 +819,9 @@ export function OrderFulfillment({
 
   const status = statusConfig[order.status]
 
+  // Rate pre-selected by the matching shipping rule, shown first
+  const ruleRate = rates.find((rate) => rate.id === ruleSelection?.rateId) ?? null
+
   return (
     <div className="max-w-5xl mx-auto">
       {/* Back button */}
@@ -322,7 +840,9 @@ export function OrderFulfillment({
             <CheckCircle className="h-8 w-8 text-green-600 flex-shrink-0" />
             <div className="flex-1">
               <h3 className="text-lg font-bold text-green-800">
-                Order Shipped Successfully!
+                {shipSuccess.fullyShipped
+                  ? 'Order Shipped Successfully!'
+                  : 'Partial Shipment Created'}
               </h3>
               <p className="mt-1 text-green-700">
                 Tracking Number:{' '}
@@ -330,17 +850,78 @@ export function OrderFulfillment({
                   {shipSuccess.trackingNumber}
                 </span>
               </p>
-              <div className="mt-4">
-                <a
-                  href={shipSuccess.labelUrl}
-                  target="_blank"
-                  rel="noopener noreferrer"
-                  className="inline-flex items-center gap-2 px-6 py-3 bg-green-600 text-white font-medium rounded-lg hover:bg-green-700 transition-colors"
+              {printStatus && (
+                <p
+                  className={`mt-2 inline-flex items-center gap-2 text-sm ${
+                    printStatus.state === 'failed' ? 'text-red-700' : 'text-green-700'
+                  }`}
                 >
-                  <Printer className="h-5 w-5" />
-                  Print Label
-                  <ExternalLink className="h-4 w-4" />
-                </a>
+                  {printStatus.state === 'printing' ? (
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  ) : printStatus.state === 'failed' ? (
+                    <AlertTriangle className="h-4 w-4" />
+                  ) : (
+                    <Printer className="h-4 w-4" />
+                  )}
+                  {printStatus.message}
+                </p>
+              )}
+              <div className="mt-4 flex flex-wrap gap-3">
+                {shipSuccess.packages.length > 1 ? (
+                  shipSuccess.packages.map((pkg) => (
+                    <a
+                      key={pkg.sequence}
+                      href={pkg.labelUrl}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      title={pkg.trackingNumber}
+                      className="inline-flex items-center gap-2 px-6 py-3 bg-green-600 text-white font-medium rounded-lg hover:bg-green-700 transition-colors"
+                    >
+                      <Printer className="h-5 w-5" />
+                      Box {pkg.sequence} Label
+                      <ExternalLink className="h-4 w-4" />
+                    </a>
+                  ))
+                ) : (
+                  <a
+                    href={shipSuccess.labelUrl}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="inline-flex items-center gap-2 px-6 py-3 bg-green-600 text-white font-medium rounded-lg hover:bg-green-700 transition-colors"
+                  >
+                    <Printer className="h-5 w-5" />
+                    Print Label
+                    <ExternalLink className="h-4 w-4" />
+                  </a>
+                )}
+                {shipSuccess.labelFormat === 'ZPL' &&
+                  (shipSuccess.packages.length > 1
+                    ? shipSuccess.packages.map((pkg) => pkg.labelUrl)
+                    : [shipSuccess.labelUrl]
+                  ).map((labelUrl, index, urls) => (
+                    <a
+                      key={labelUrl}
+                      href={previewUrl(labelUrl)}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="inline-flex items-center gap-2 px-6 py-3 bg-white text-green-700 font-medium border border-green-300 rounded-lg hover:bg-green-100 transition-colors"
+                    >
+                      <Eye className="h-5 w-5" />
+                      {urls.length > 1 ? `Preview Box ${index + 1}` : 'Preview Label'}
+                    </a>
+                  ))}
+                {shipSuccess.invoiceUrl && (
+                  <a
+                    href={shipSuccess.invoiceUrl}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="inline-flex items-center gap-2 px-6 py-3 bg-white text-green-700 font-medium border border-green-300 rounded-lg hover:bg-green-100 transition-colors"
+                  >
+                    <FileText className="h-5 w-5" />
+                    Commercial Invoice
+                    <ExternalLink className="h-4 w-4" />
+                  </a>
+                )}
               </div>
             </div>
           </div>
@@ -371,6 +952,12 @@ export function OrderFulfillment({
               <p className="mt-2 text-sm text-gray-500">
                 Ordered {formatDate(order.createdAt)}
               </p>
+              {order.giftNote && (
+                <p className="mt-3 inline-flex items-start gap-2 text-sm text-gray-700">
+                  <Gift className="h-4 w-4 mt-0.5 text-pink-500 flex-shrink-0" />
+                  <span className="whitespace-pre-line">{order.giftNote}</span>
+                </p>
+              )}
             </div>
             <div className="text-right">
               <span
@@ -381,27 +968,285 @@ export function OrderFulfillment({
               <p className="mt-3 text-2xl font-bold text-gray-900">
                 {formatCurrency(order.totalPrice, order.currency)}
               </p>
+              <a
+                href={`/api/orders/${order.id}/packing-slip`}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="mt-3 inline-flex items-center gap-2 px-3 py-1.5 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+              >
+                <FileText className="h-4 w-4" />
+                Packing Slip
+              </a>
             </div>
           </div>
         </div>
 
-        {/* Shipping Address */}
-        <div className="bg-white rounded-xl border border-gray-200 shadow-sm p-6">
-          <div className="flex items-center gap-2 mb-3">
-            <MapPin className="h-5 w-5 text-gray-400" />
-            <h2 className="font-semibold text-gray-900">Ship To</h2>
+        <div className="space-y-6">
+          {/* Shipping Address */}
+          <div className="bg-white rounded-xl border border-gray-200 shadow-sm p-6">
+            <div className="flex items-center justify-between gap-2 mb-3">
+              <div className="flex items-center gap-2">
+                <MapPin className="h-5 w-5 text-gray-400" />
+                <h2 className="font-semibold text-gray-900">Ship To</h2>
+              </div>
+              <div className="flex items-center gap-2">
+                {isOpen && !addressForm && (
+                  <button
+                    onClick={() => {
+                      setAddressForm(toAddressForm())
+                      setAddressWarning(null)
+                    }}
+                    disabled={actionLoading !== null}
+                    title="Edit address"
+                    className="p-1 text-gray-400 hover:text-gray-700 disabled:opacity-50"
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </button>
+                )}
+                <span
+                  title={
+                    addressCheck.carrier && addressCheck.checkedAt
+                      ? `Checked with ${addressCheck.carrier} ${formatDate(addressCheck.checkedAt)}`
+                      : undefined
+                  }
+                  className={`inline-flex px-2 py-0.5 rounded-full text-xs font-medium border ${addressStatusConfig[addressCheck.status].color}`}
+                >
+                  {addressStatusConfig[addressCheck.status].label}
+                </span>
+              </div>
+            </div>
+            {addressForm ? (
+              <div className="space-y-2 text-sm">
+                <p className="font-medium text-gray-700">{order.customerName}</p>
+                {(
+                  [
+                    ['address1', 'Address'],
+                    ['address2', 'Apartment, suite, etc.'],
+                    ['city', 'City'],
+                  ] as const
+                ).map(([field, placeholder]) => (
+                  <input
+                    key={field}
+                    type="text"
+                    value={addressForm[field]}
+                    onChange={(e) => setAddressForm({ ...addressForm, [field]: e.target.value })}
+                    placeholder={placeholder}
+                    className="w-full rounded-lg border border-gray-300 px-3 py-1.5 focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                  />
+                ))}
+                <div className="grid grid-cols-3 gap-2">
+                  {(
+                    [
+                      ['state', 'State'],
+                      ['zip', 'ZIP'],
+                      ['country', 'Country'],
+                    ] as const
+                  ).map(([field, placeholder]) => (
+                    <input
+                      key={field}
+                      type="text"
+                      value={addressForm[field]}
+                      onChange={(e) => setAddressForm({ ...addressForm, [field]: e.target.value })}
+                      placeholder={placeholder}
+                      className="w-full rounded-lg border border-gray-300 px-3 py-1.5 focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                    />
+                  ))}
+                </div>
+                <input
+                  type="text"
+                  value={addressForm.reason}
+                  onChange={(e) => setAddressForm({ ...addressForm, reason: e.target.value })}
+                  placeholder="Reason, e.g. customer emailed a new address"
+                  className="w-full rounded-lg border border-gray-300 px-3 py-1.5 focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                />
+                <label className="flex items-center gap-2 text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={addressForm.pushToShopify}
+                    onChange={(e) => setAddressForm({ ...addressForm, pushToShopify: e.target.checked })}
+                    className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  Also update the address in Shopify
+                </label>
+                <div className="flex gap-2 pt-1">
+                  <button
+                    onClick={handleSaveAddress}
+                    disabled={actionLoading !== null}
+                    className="inline-flex items-center gap-1.5 px-3 py-1.5 font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+                  >
+                    {actionLoading === 'address-save' && <Loader2 className="h-4 w-4 animate-spin" />}
+                    Save Address
+                  </button>
+                  <button
+                    onClick={() => setAddressForm(null)}
+                    disabled={actionLoading !== null}
+                    className="px-3 py-1.5 font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 transition-colors"
+                  >
+                    Cancel
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <div className="text-gray-700">
+                <p className="font-medium">{order.customerName}</p>
+                <p>{order.shippingAddress.address1}</p>
+                {order.shippingAddress.address2 && (
+                  <p>{order.shippingAddress.address2}</p>
+                )}
+                <p>
+                  {order.shippingAddress.city}, {order.shippingAddress.state}{' '}
+                  {order.shippingAddress.zip}
+                </p>
+                <p>{order.shippingAddress.country}</p>
+              </div>
+            )}
+            {addressWarning && (
+              <p className="mt-3 flex items-start gap-2 text-sm text-yellow-800">
+                <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                {addressWarning}
+              </p>
+            )}
+            {order.addressEdited && !addressForm && (
+              <p className="mt-2 text-xs text-gray-500">
+                Changed here, not in Shopify. Address changes from Shopify are ignored.
+              </p>
+            )}
+            {addressCheck.type !== 'UNKNOWN' && (
+              <p className="mt-2 inline-flex items-center gap-1.5 text-sm text-gray-500">
+                {addressCheck.type === 'RESIDENTIAL' ? (
+                  <Home className="h-4 w-4" />
+                ) : (
+                  <Building2 className="h-4 w-4" />
+                )}
+                {addressCheck.type === 'RESIDENTIAL' ? 'Residential' : 'Commercial'}
+              </p>
+            )}
+            {addressCheck.message && addressCheck.status !== 'VALID' && (
+              <p
+                className={`mt-3 flex items-start gap-2 text-sm ${
+                  addressCheck.status === 'INVALID' ? 'text-red-700' : 'text-gray-600'
+                }`}
+              >
+                <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                {addressCheck.message}
+              </p>
+            )}
+            {addressCheck.status === 'SUGGESTED' && addressCheck.suggestion && (
+              <div className="mt-3 p-3 rounded-lg bg-yellow-50 border border-yellow-200 text-sm">
+                <p className="font-medium text-yellow-900 mb-1">
+                  {addressCheck.carrier ?? 'The carrier'} suggests
+                </p>
+                <div className="text-yellow-900">
+                  <p>{addressCheck.suggestion.addressLine1}</p>
+                  {addressCheck.suggestion.addressLine2 && <p>{addressCheck.suggestion.addressLine2}</p>}
+                  <p>
+                    {addressCheck.suggestion.city}, {addressCheck.suggestion.state}{' '}
+                    {addressCheck.suggestion.postalCode}
+                  </p>
+                  <p>{addressCheck.suggestion.countryCode}</p>
+                </div>
+                {isOpen && (
+                  <button
+                    onClick={handleUseSuggestedAddress}
+                    disabled={actionLoading !== null}
+                    className="mt-2 inline-flex items-center gap-1.5 px-3 py-1.5 text-sm font-medium text-white bg-yellow-600 rounded-lg hover:bg-yellow-700 disabled:opacity-50 transition-colors"
+                  >
+                    {actionLoading === 'address-suggestion' ? (
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                    ) : (
+                      <CheckCircle className="h-4 w-4" />
+                    )}
+                    Use this address
+                  </button>
+                )}
+              </div>
+            )}
+            {isOpen && (
+              <button
+                onClick={handleRecheckAddress}
+                disabled={actionLoading !== null}
+                className="mt-3 inline-flex items-center gap-1.5 text-sm text-blue-600 hover:text-blue-800 disabled:opacity-50"
+              >
+                <RefreshCw className={`h-4 w-4 ${actionLoading === 'address-check' ? 'animate-spin' : ''}`} />
+                Re-check address
+              </button>
+            )}
+            {order.addressHistory.length > 0 && (
+              <div className="mt-4 border-t border-gray-100 pt-3">
+                <button
+                  onClick={() => setShowAddressHistory(!showAddressHistory)}
+                  className="inline-flex items-center gap-1.5 text-sm text-gray-600 hover:text-gray-900"
+                >
+                  <History className="h-4 w-4" />
+                  {showAddressHistory ? 'Hide' : 'Show'} previous addresses ({order.addressHistory.length})
+                </button>
+                {showAddressHistory && (
+                  <ul className="mt-3 space-y-3">
+                    {order.addressHistory.map((change) => (
+                      <li key={change.id} className="text-sm">
+                        <p className="text-gray-700">
+                          {[
+                            change.address1,
+                            change.address2,
+                            `${change.city}, ${change.state} ${change.zip}`,
+                            change.country,
+                          ]
+                            .filter(Boolean)
+                            .join(', ')}
+                        </p>
+                        <p className="text-gray-500">
+                          Changed by {change.changedBy} {formatDate(change.createdAt)}: {change.reason}
+                          {change.pushedToShopify && ' (also in Shopify)'}
+                        </p>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+            {order.shippingMethod && (
+              <p className="text-sm text-gray-500 mt-3">
+                Customer chose <span className="font-medium text-gray-700">{order.shippingMethod}</span>
+              </p>
+            )}
           </div>
-          <div className="text-gray-700">
-            <p className="font-medium">{order.customerName}</p>
-            <p>{order.shippingAddress.address1}</p>
-            {order.shippingAddress.address2 && (
-              <p>{order.shippingAddress.address2}</p>
+
+          {/* Ship-from Warehouse */}
+          <div className="bg-white rounded-xl border border-gray-200 shadow-sm p-6">
+            <div className="flex items-center gap-2 mb-3">
+              <WarehouseIcon className="h-5 w-5 text-gray-400" />
+              <h2 className="font-semibold text-gray-900">Ship From</h2>
+            </div>
+            {warehouse ? (
+              <div className="text-gray-700">
+                {order.status !== 'SHIPPED' && order.status !== 'CANCELLED' && warehouses.length > 1 ? (
+                  <select
+                    value={warehouse.id}
+                    onChange={(e) => handleChangeWarehouse(e.target.value)}
+                    disabled={actionLoading !== null}
+                    className="mb-2 w-full rounded-lg border border-gray-300 px-3 py-2 text-sm font-medium focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500 disabled:opacity-50"
+                  >
+                    {warehouses.map((w) => (
+                      <option key={w.id} value={w.id}>
+                        {w.name} ({w.code})
+                      </option>
+                    ))}
+                  </select>
+                ) : (
+                  <p className="font-medium">{warehouse.name}</p>
+                )}
+                <p>{warehouse.address1}</p>
+                {warehouse.address2 && <p>{warehouse.address2}</p>}
+                <p>
+                  {warehouse.city}, {warehouse.state} {warehouse.zip}
+                </p>
+                <p>{warehouse.country}</p>
+              </div>
+            ) : (
+              <p className="text-sm text-red-600">
+                No warehouse configured. Add one in Settings.
+              </p>
             )}
-            <p>
-              {order.shippingAddress.city}, {order.shippingAddress.state}{' '}
-              {order.shippingAddress.zip}
-            </p>
-            <p>{order.shippingAddress.country}</p>
           </div>
         </div>
       </div>
@@ -422,12 +1267,14 @@ export function OrderFulfillment({
             <AlertTriangle className="h-6 w-6 text-red-600 flex-shrink-0 mt-0.5" />
             <div>
               <span className="text-lg font-semibold text-red-800">
-                Stock Issue — Cannot ship
+                {canShipSome
+                  ? 'Stock Issue — Can ship part of this order'
+                  : 'Stock Issue — Cannot ship'}
               </span>
               <ul className="mt-2 space-y-1">
                 {stockIssues.map((item) => (
                   <li key={item.id} className="text-red-700">
-                    {item.name} ({item.sku}): Need {item.quantity}, only{' '}
+                    {item.name} ({item.sku}): Need {unshipped(item)}, only{' '}
                     {item.hasProduct ? item.currentStock : '0 (not in system)'}{' '}
                     available
                   </li>
@@ -462,7 +1309,10 @@ export function OrderFulfillment({
                   Qty Ordered
                 </th>
                 <th className="px-6 py-3 text-center text-xs font-medium uppercase tracking-wider text-gray-500">
-                  In Stock
+                  Shipped
+                </th>
+                <th className="px-6 py-3 text-center text-xs font-medium uppercase tracking-wider text-gray-500">
+                  Available
                 </th>
                 <th className="px-6 py-3 text-center text-xs font-medium uppercase tracking-wider text-gray-500">
                   Status
@@ -471,7 +1321,9 @@ export function OrderFulfillment({
             </thead>
             <tbody className="divide-y divide-gray-200">
               {order.items.map((item) => {
-                const inStock = item.hasProduct && item.currentStock >= item.quantity
+                const remaining = unshipped(item)
+                const inStock =
+                  remaining === 0 || (item.hasProduct && item.currentStock >= remaining)
 
                 return (
                   <tr key={item.id}>
@@ -484,11 +1336,14 @@ export function OrderFulfillment({
                     <td className="px-6 py-4 text-sm text-gray-900 text-center font-semibold">
                       {item.quantity}
                     </td>
+                    <td className="px-6 py-4 text-sm text-gray-600 text-center">
+                      {item.shippedQuantity}
+                    </td>
                     <td className="px-6 py-4 text-sm text-center">
                       {item.hasProduct ? (
                         <span
                           className={
-                            item.currentStock >= item.quantity
+                            item.currentStock >= remaining
                               ? 'text-green-600 font-semibold'
                               : 'text-red-600 font-semibold'
                           }
@@ -526,7 +1381,183 @@ export function OrderFulfillment({
             <h2 className="font-semibold text-gray-900">Shipping</h2>
           </div>
 
-          {rates.length === 0 && !isLoadingRates && (
+          {packedUnits === 0 && (
+            <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+              <p className="text-gray-600">
+                Scan the items going in the box at the pack station before buying a label.
+              </p>
+              <Link
+                href={`/orders/${order.id}/pack`}
+                className="inline-flex items-center justify-center gap-2 px-8 py-4 bg-blue-600 text-white text-lg font-semibold rounded-xl hover:bg-blue-700 transition-colors shadow-lg hover:shadow-xl"
+              >
+                <ScanLine className="h-5 w-5" />
+                Pack &amp; Verify
+              </Link>
+            </div>
+          )}
+
+          {packedUnits > 0 && (
+            <p className="mb-4 text-sm text-gray-500">
+              {packedUnits} unit{packedUnits !== 1 ? 's' : ''} packed for this shipment
+            </p>
+          )}
+
+          {/* Packages */}
+          {packedUnits > 0 && (
+            <div className="mb-6">
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead>
+                    <tr className="border-b border-gray-200">
+                      <th className="py-2 pr-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">
+                        #
+                      </th>
+                      <th className="px-3 py-2 text-left text-xs font-medium uppercase tracking-wider text-gray-500">
+                        Box
+                      </th>
+                      <th className="px-3 py-2 text-left text-xs font-medium uppercase tracking-wider text-gray-500">
+                        Weight (lb)
+                      </th>
+                      <th className="px-3 py-2 text-left text-xs font-medium uppercase tracking-wider text-gray-500">
+                        L × W × H (in)
+                      </th>
+                      <th className="w-8" />
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {packages.map((pkg, index) => (
+                      <tr key={index}>
+                        <td className="py-2 pr-3 text-sm font-medium text-gray-900">{index + 1}</td>
+                        <td className="px-3 py-2">
+                          <select
+                            value={pkg.boxId}
+                            onChange={(e) => selectBox(index, e.target.value)}
+                            disabled={isShipping !== null}
+                            className="rounded-lg border border-gray-300 px-2 py-1.5 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                          >
+                            <option value="">Custom</option>
+                            {boxes.map((box) => (
+                              <option key={box.id} value={box.id}>
+                                {box.code} — {box.name}
+                              </option>
+                            ))}
+                          </select>
+                        </td>
+                        <td className="px-3 py-2">
+                          <input
+                            type="number"
+                            min="0"
+                            step="0.1"
+                            value={pkg.weight}
+                            onChange={(e) => updatePackage(index, 'weight', e.target.value)}
+                            disabled={isShipping !== null}
+                            className="w-24 rounded-lg border border-gray-300 px-2 py-1.5 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                          />
+                        </td>
+                        <td className="px-3 py-2">
+                          <div className="flex items-center gap-1.5 text-gray-400">
+                            {(['length', 'width', 'height'] as const).map((field, i) => (
+                              <span key={field} className="flex items-center gap-1.5">
+                                {i > 0 && '×'}
+                                <input
+                                  type="number"
+                                  min="0"
+                                  step="0.5"
+                                  value={pkg[field]}
+                                  onChange={(e) => updatePackage(index, field, e.target.value)}
+                                  disabled={isShipping !== null}
+                                  className="w-20 rounded-lg border border-gray-300 px-2 py-1.5 text-sm text-gray-900 focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                                />
+                              </span>
+                            ))}
+                          </div>
+                        </td>
+                        <td className="py-2 text-right">
+                          {packages.length > 1 && (
+                            <button
+                              onClick={() => removePackage(index)}
+                              disabled={isShipping !== null}
+                              className="p-1 text-gray-400 hover:text-red-600"
+                              title="Remove box"
+                            >
+                              <X className="h-4 w-4" />
+                            </button>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              <button
+                onClick={addPackage}
+                disabled={isShipping !== null}
+                className="mt-2 inline-flex items-center gap-1.5 text-sm font-medium text-blue-600 hover:text-blue-800 disabled:opacity-50"
+              >
+                <Plus className="h-4 w-4" />
+                Add Box
+              </button>
+              <button
+                onClick={resetPackages}
+                disabled={isShipping !== null}
+                className="mt-2 ml-4 inline-flex items-center gap-1.5 text-sm text-gray-600 hover:text-gray-900 disabled:opacity-50"
+              >
+                <RotateCcw className="h-4 w-4" />
+                Use Suggested Boxes
+              </button>
+            </div>
+          )}
+
+          {packedUnits > 0 && (
+            <div className="mb-4 flex flex-wrap items-center gap-3">
+              <span className="text-sm font-medium text-gray-700">Label format</span>
+              <div className="inline-flex rounded-lg border border-gray-300 p-0.5">
+                {labelFormatOptions.map((option) => (
+                  <button
+                    key={option.value}
+                    onClick={() => handleLabelFormatChange(option.value)}
+                    disabled={isShipping !== null}
+                    className={`px-3 py-1.5 text-sm font-medium rounded-md transition-colors ${
+                      labelFormat === option.value
+                        ? 'bg-blue-600 text-white'
+                        : 'text-gray-700 hover:bg-gray-100'
+                    }`}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+              {printers.length > 0 && (
+                <>
+                  <span className="ml-4 text-sm font-medium text-gray-700">Print on</span>
+                  <select
+                    value={printerId}
+                    onChange={(e) => handlePrinterChange(e.target.value)}
+                    disabled={isShipping !== null}
+                    className="px-3 py-1.5 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  >
+                    <option value="">Don&apos;t print automatically</option>
+                    {printers.map((printer) => (
+                      <option key={printer.id} value={printer.id}>
+                        {printer.name} ({printer.format})
+                      </option>
+                    ))}
+                  </select>
+                </>
+              )}
+            </div>
+          )}
+
+          {packedUnits > 0 && (addressCheck.status === 'INVALID' || addressCheck.status === 'SUGGESTED') && (
+            <div className="rounded-lg bg-yellow-50 border border-yellow-200 p-4 mb-4 flex items-start gap-2 text-sm text-yellow-800">
+              <AlertTriangle className="h-5 w-5 flex-shrink-0" />
+              {addressCheck.status === 'INVALID'
+                ? 'The carriers could not find the shipping address. Check it with the customer before buying a label.'
+                : 'The carrier suggests a correction to the shipping address. Review it before buying a label.'}
+            </div>
+          )}
+
+          {packedUnits > 0 && rates.length === 0 && !isLoadingRates && (
             <button
               onClick={handleGetRates}
               className="w-full sm:w-auto px-8 py-4 bg-blue-600 text-white text-lg font-semibold rounded-xl hover:bg-blue-700 transition-colors shadow-lg hover:shadow-xl"
@@ -557,26 +1588,49 @@ export function OrderFulfillment({
           {rates.length > 0 && (
             <div>
               <p className="text-sm text-gray-500 mb-4">
-                {rates.length} rates found — cheapest option highlighted
+                {!ruleSelection ? (
+                  `${rates.length} rates found — cheapest option highlighted`
+                ) : ruleRate ? (
+                  <>
+                    {rates.length} rates found — rule{' '}
+                    <span className="font-medium text-gray-700">{ruleSelection.ruleName}</span> picked{' '}
+                    {ruleRate.service}
+                  </>
+                ) : (
+                  <>
+                    {rates.length} rates found — rule{' '}
+                    <span className="font-medium text-gray-700">{ruleSelection.ruleName}</span> matched, but
+                    none of the rates meets it
+                  </>
+                )}
               </p>
               <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
-                {rates.map((rate, index) => {
-                  const isCheapest = index === 0
+                {(ruleRate ? [ruleRate, ...rates.filter((rate) => rate !== ruleRate)] : rates).map((rate) => {
+                  const isCheapest = rate.id === rates[0].id
+                  const isRulePick = rate.id === ruleRate?.id
                   const isProcessing = isShipping === rate.id
 
                   return (
                     <div
                       key={rate.id}
                       className={`relative rounded-xl border-2 p-4 transition-all ${
-                        isCheapest
-                          ? 'border-green-500 bg-green-50'
-                          : 'border-gray-200 bg-white hover:border-gray-300'
+                        isRulePick
+                          ? 'border-blue-500 bg-blue-50'
+                          : isCheapest
+                            ? 'border-green-500 bg-green-50'
+                            : 'border-gray-200 bg-white hover:border-gray-300'
                       }`}
                     >
-                      {isCheapest && (
-                        <span className="absolute -top-2.5 left-4 px-2 py-0.5 bg-green-500 text-white text-xs font-semibold rounded">
-                          BEST PRICE
+                      {isRulePick ? (
+                        <span className="absolute -top-2.5 left-4 px-2 py-0.5 bg-blue-500 text-white text-xs font-semibold rounded">
+                          RULE PICK{isCheapest && ' · BEST PRICE'}
                         </span>
+                      ) : (
+                        isCheapest && (
+                          <span className="absolute -top-2.5 left-4 px-2 py-0.5 bg-green-500 text-white text-xs font-semibold rounded">
+                            BEST PRICE
+                          </span>
+                        )
                       )}
 
                       <div className="flex items-start justify-between mb-3">
@@ -587,6 +1641,15 @@ export function OrderFulfillment({
                           <span className="font-semibold text-gray-900">
                             {rate.carrier}
                           </span>
+                          {rate.mode !== 'PRODUCTION' && (
+                            <span
+                              className={`ml-2 inline-flex px-2 py-0.5 rounded-full text-xs font-medium border ${
+                                carrierModeConfig[rate.mode].color
+                              }`}
+                            >
+                              {carrierModeConfig[rate.mode].label}
+                            </span>
+                          )}
                         </div>
                         <span className="text-2xl font-bold text-gray-900">
                           ${rate.price.toFixed(2)}
@@ -610,9 +1673,11 @@ export function OrderFulfillment({
                         onClick={() => handleShipWithRate(rate)}
                         disabled={isShipping !== null}
                         className={`w-full py-2.5 px-4 rounded-lg font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
-                          isCheapest
-                            ? 'bg-green-600 text-white hover:bg-green-700'
-                            : 'bg-gray-900 text-white hover:bg-gray-800'
+                          isRulePick
+                            ? 'bg-blue-600 text-white hover:bg-blue-700'
+                            : isCheapest
+                              ? 'bg-green-600 text-white hover:bg-green-700'
+                              : 'bg-gray-900 text-white hover:bg-gray-800'
                         }`}
                       >
                         {isProcessing ? (
@@ -649,6 +1714,29 @@ export function OrderFulfillment({
                   <div>
                     <p className="font-medium text-gray-900">
                       {shipment.carrier} — {shipment.service}
+                      {shipment.carrierMode !== 'PRODUCTION' && (
+                        <span
+                          className={`ml-2 inline-flex px-2 py-0.5 rounded-full text-xs font-medium border ${
+                            carrierModeConfig[shipment.carrierMode].color
+                          }`}
+                        >
+                          {carrierModeConfig[shipment.carrierMode].label}
+                        </span>
+                      )}
+                      {shipment.voidedAt && (
+                        <span className="ml-2 inline-flex px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-700 border border-gray-200">
+                          Voided
+                        </span>
+                      )}
+                      {!shipment.voidedAt && (
+                        <span
+                          className={`ml-2 inline-flex px-2 py-0.5 rounded-full text-xs font-medium border ${
+                            trackingStatusConfig[shipment.trackingStatus].color
+                          }`}
+                        >
+                          {trackingStatusConfig[shipment.trackingStatus].label}
+                        </span>
+                      )}
                     </p>
                     <p className="text-sm text-gray-600 mt-1">
                       Tracking:{' '}
@@ -659,13 +1747,94 @@ export function OrderFulfillment({
                     <p className="text-sm text-gray-500 mt-1">
                       Shipped {formatDate(shipment.createdAt)} by{' '}
                       {shipment.shippedBy}
+                      {shipment.warehouseName && ` from ${shipment.warehouseName}`}
                     </p>
+                    {shipment.voidedAt && (
+                      <p className="text-sm text-gray-500 mt-1">
+                        Voided {formatDate(shipment.voidedAt)}
+                        {shipment.voidedBy && ` by ${shipment.voidedBy}`}
+                      </p>
+                    )}
+                    {shipment.deliveredAt && (
+                      <p className="text-sm text-green-700 mt-1">
+                        Delivered {formatDate(shipment.deliveredAt)}
+                      </p>
+                    )}
+                    {shipment.packages.length > 1 && (
+                      <ul className="mt-2 space-y-0.5 text-sm text-gray-600">
+                        {shipment.packages.map((pkg) => (
+                          <li key={pkg.sequence} className="flex items-center gap-2">
+                            Box {pkg.sequence}
+                            {pkg.boxName && ` (${pkg.boxName})`}:{' '}
+                            <span className="font-mono">{pkg.trackingNumber}</span>
+                            <a
+                              href={pkg.labelUrl}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="text-blue-600 hover:text-blue-800"
+                              title="Print label"
+                            >
+                              <Printer className="h-3.5 w-3.5" />
+                            </a>
+                            {shipment.labelFormat === 'ZPL' && (
+                              <a
+                                href={previewUrl(pkg.labelUrl)}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="text-blue-600 hover:text-blue-800"
+                                title="Preview label"
+                              >
+                                <Eye className="h-3.5 w-3.5" />
+                              </a>
+                            )}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                    {shipment.items.length > 0 && (
+                      <ul className="mt-2 space-y-0.5 text-sm text-gray-600">
+                        {shipment.items.map((item) => (
+                          <li key={item.sku}>
+                            {item.quantity} × {item.name}{' '}
+                            <span className="font-mono text-gray-400">{item.sku}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                    {shipment.trackingEvents.length > 0 && (
+                      <ol className="mt-3 border-l-2 border-gray-200 pl-4 space-y-2">
+                        {shipment.trackingEvents.map((event) => (
+                          <li key={event.id} className="text-sm">
+                            <p
+                              className={
+                                event.status === 'EXCEPTION' ? 'text-red-700 font-medium' : 'text-gray-900'
+                              }
+                            >
+                              {event.description}
+                            </p>
+                            <p className="text-xs text-gray-500">
+                              {formatDate(event.occurredAt)}
+                              {event.location && ` — ${event.location}`}
+                            </p>
+                          </li>
+                        ))}
+                      </ol>
+                    )}
+                    {shipment.trackingUpdatedAt && (
+                      <p className="text-xs text-gray-400 mt-2">
+                        Tracking checked {formatDate(shipment.trackingUpdatedAt)}
+                      </p>
+                    )}
                   </div>
                   <div className="text-right">
-                    <p className="text-lg font-semibold text-gray-900">
+                    <p
+                      className={`text-lg font-semibold ${
+                        shipment.voidedAt ? 'text-gray-400 line-through' : 'text-gray-900'
+                      }`}
+                    >
                       ${parseFloat(shipment.shipmentCost).toFixed(2)}
                     </p>
-                    {shipment.labelUrl && (
+                    {shipment.labelUrl && !shipment.voidedAt && (
                       <a
                         href={shipment.labelUrl}
                         target="_blank"
@@ -673,9 +1842,74 @@ export function OrderFulfillment({
                         className="inline-flex items-center gap-1 mt-2 text-sm text-blue-600 hover:text-blue-800"
                       >
                         <Printer className="h-4 w-4" />
-                        Print Label
+                        {shipment.labelFormat === 'ZPL' ? 'Print ZPL' : 'Print Label'}
+                      </a>
+                    )}
+                    {shipment.labelUrl && !shipment.voidedAt && shipment.labelFormat === 'ZPL' && (
+                      <a
+                        href={previewUrl(shipment.labelUrl)}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="flex items-center justify-end gap-1 mt-2 text-sm text-blue-600 hover:text-blue-800"
+                      >
+                        <Eye className="h-4 w-4" />
+                        Preview
+                      </a>
+                    )}
+                    {shipment.invoiceUrl && !shipment.voidedAt && (
+                      <a
+                        href={shipment.invoiceUrl}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="flex items-center justify-end gap-1 mt-2 text-sm text-blue-600 hover:text-blue-800"
+                      >
+                        <FileText className="h-4 w-4" />
+                        Invoice
                       </a>
                     )}
+                    {shipment.labelUrl && !shipment.voidedAt && printerId && (
+                      <button
+                        onClick={() => handleReprint(shipment)}
+                        disabled={actionLoading !== null}
+                        title={`Send to ${printers.find((p) => p.id === printerId)?.name}`}
+                        className="flex items-center gap-1 ml-auto mt-2 text-sm text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                      >
+                        {actionLoading === `print-${shipment.id}` ? (
+                          <Loader2 className="h-4 w-4 animate-spin" />
+                        ) : (
+                          <Printer className="h-4 w-4" />
+                        )}
+                        Reprint
+                      </button>
+                    )}
+                    {!shipment.voidedAt && shipment.trackingNumber && (
+                      <button
+                        onClick={() => handleRefreshTracking(shipment)}
+                        disabled={actionLoading !== null}
+                        className="flex items-center gap-1 ml-auto mt-2 text-sm text-gray-600 hover:text-gray-800 disabled:opacity-50"
+                      >
+                        {actionLoading === `track-${shipment.id}` ? (
+                          <Loader2 className="h-4 w-4 animate-spin" />
+                        ) : (
+                          <RefreshCw className="h-4 w-4" />
+                        )}
+                        Refresh Tracking
+                      </button>
+                    )}
+                    {!shipment.voidedAt && (
+                      <button
+                        onClick={() => handleVoidShipment(shipment)}
+                        disabled={actionLoading !== null}
+                        className="flex items-center gap-1 ml-auto mt-2 text-sm text-red-600 hover:text-red-800 disabled:opacity-50"
+                      >
+                        {actionLoading === `void-${shipment.id}` ? (
+                          <Loader2 className="h-4 w-4 animate-spin" />
+                        ) : (
+                          <Ban className="h-4 w-4" />
+                        )}
+                        Void Label
+                      </button>
+                    )}
                   </div>
                 </div>
               </div>
@@ -684,6 +1918,54 @@ export function OrderFulfillment({
         </div>
       )}
 
+      {/* Returns */}
+      {order.items.some((item) => item.shippedQuantity > 0) && (
+        <div className="bg-white rounded-xl border border-gray-200 shadow-sm mb-6">
+          <div className="px-6 py-4 border-b border-gray-200">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-2">
+                <Undo2 className="h-5 w-5 text-gray-400" />
+                <h2 className="font-semibold text-gray-900">Returns</h2>
+              </div>
+              <Link
+                href={`/orders/${order.id}/return`}
+                className="inline-flex items-center gap-2 px-3 py-1.5 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+              >
+                <Plus className="h-4 w-4" />
+                Create Return
+              </Link>
+            </div>
+          </div>
+          {order.returns.length === 0 ? (
+            <p className="px-6 py-4 text-sm text-gray-500">No returns for this order.</p>
+          ) : (
+            <div className="divide-y divide-gray-200">
+              {order.returns.map((rma) => (
+                <div key={rma.id} className="flex items-center justify-between gap-4 px-6 py-3">
+                  <div>
+                    <Link
+                      href={`/returns/${rma.id}`}
+                      className="font-medium text-blue-600 hover:text-blue-800"
+                    >
+                      {rma.number}
+                    </Link>
+                    <span className="ml-2 text-sm text-gray-600">
+                      {rma.unitCount} unit{rma.unitCount !== 1 ? 's' : ''} · {rma.reason}
+                    </span>
+                    <p className="text-xs text-gray-500">{formatDate(rma.createdAt)}</p>
+                  </div>
+                  <span
+                    className={`inline-flex rounded-full px-2.5 py-0.5 text-xs font-medium ${returnStatusConfig[rma.status].className}`}
+                  >
+                    {returnStatusConfig[rma.status].label}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Bottom Actions */}
       {order.status !== 'SHIPPED' && order.status !== 'CANCELLED' && (
         <div className="bg-white rounded-xl border border-gray-200 shadow-sm p-6">
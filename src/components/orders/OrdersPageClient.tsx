@@ -2,6 +2,7 @@
 
 import { useState, useTransition } from 'react'
 import { useRouter, useSearchParams } from 'next/navigation'
+import Link from 'next/link'
 import {
   Search,
   RefreshCw,
@@ -9,7 +10,12 @@ import {
   AlertTriangle,
   ChevronLeft,
   ChevronRight,
+  ClipboardList,
+  Loader2,
+  Tag,
 } from 'lucide-react'
+import { createPickBatch } from '@/app/(dashboard)/orders/batches/actions'
+import { createLabelBatch } from '@/app/(dashboard)/orders/label-batches/actions'
 
 interface Order {
   id: string
@@ -78,6 +84,21 @@ export function OrdersPageClient({
     success: boolean
     message: string
   } | null>(null)
+  const [selectedIds, setSelectedIds] = useState<string[]>([])
+  const [isBatching, setIsBatching] = useState(false)
+  const [isBuyingLabels, setIsBuyingLabels] = useState(false)
+  const [batchError, setBatchError] = useState<string | null>(null)
+
+  // Open orders can go into a label batch; only those with their stock reserved can
+  // go into a pick batch
+  const selectableIds = orders
+    .filter((o) => o.status === 'PENDING' || o.status === 'PROCESSING')
+    .map((o) => o.id)
+  const allSelected =
+    selectableIds.length > 0 && selectableIds.every((id) => selectedIds.includes(id))
+  const canPickSelected = orders
+    .filter((o) => selectedIds.includes(o.id))
+    .every((o) => o.stockStatus === 'ready')
 
   const updateUrl = (updates: { status?: string; search?: string; page?: number }) => {
     const params = new URLSearchParams(searchParams.toString())
@@ -152,6 +173,48 @@ export function OrdersPageClient({
     }
   }
 
+  const toggleSelected = (orderId: string) => {
+    setSelectedIds((prev) =>
+      prev.includes(orderId) ? prev.filter((id) => id !== orderId) : [...prev, orderId]
+    )
+  }
+
+  const toggleAllSelected = () => {
+    setSelectedIds(allSelected ? [] : selectableIds)
+  }
+
+  const handleCreateBatch = async () => {
+    setIsBatching(true)
+    setBatchError(null)
+
+    try {
+      const result = await createPickBatch(selectedIds)
+      if (!result.success || !result.batchId) {
+        throw new Error(result.error || 'Failed to create pick batch')
+      }
+      router.push(`/orders/batches/${result.batchId}`)
+    } catch (err) {
+      setBatchError(err instanceof Error ? err.message : 'Failed to create pick batch')
+      setIsBatching(false)
+    }
+  }
+
+  const handleBuyLabels = async () => {
+    setIsBuyingLabels(true)
+    setBatchError(null)
+
+    try {
+      const result = await createLabelBatch(selectedIds)
+      if (!result.success || !result.batchId) {
+        throw new Error(result.error || 'Failed to start label batch')
+      }
+      router.push(`/orders/label-batches/${result.batchId}`)
+    } catch (err) {
+      setBatchError(err instanceof Error ? err.message : 'Failed to start label batch')
+      setIsBuyingLabels(false)
+    }
+  }
+
   const handleRowClick = (orderId: string) => {
     router.push(`/orders/${orderId}`)
   }
@@ -178,6 +241,9 @@ export function OrdersPageClient({
           </p>
         </div>
         <div className="flex items-center gap-3">
+          {batchError && (
+            <span className="text-sm text-red-600">{batchError}</span>
+          )}
           {syncResult && (
             <span
               className={`text-sm ${
@@ -187,6 +253,44 @@ export function OrdersPageClient({
               {syncResult.message}
             </span>
           )}
+          {selectedIds.length > 0 && (
+            <button
+              onClick={handleBuyLabels}
+              disabled={isBuyingLabels || isBatching}
+              title="Buy a label for each selected order with its shipping rule, or the cheapest rate"
+              className="inline-flex items-center gap-2 px-4 py-2.5 text-sm font-medium text-white bg-purple-600 rounded-lg hover:bg-purple-700 disabled:bg-purple-400 disabled:cursor-not-allowed transition-colors"
+            >
+              {isBuyingLabels ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : (
+                <Tag className="h-4 w-4" />
+              )}
+              Buy Labels ({selectedIds.length})
+            </button>
+          )}
+          {selectedIds.length > 0 ? (
+            <button
+              onClick={handleCreateBatch}
+              disabled={isBatching || isBuyingLabels || !canPickSelected}
+              title={canPickSelected ? undefined : 'Some selected orders have stock issues'}
+              className="inline-flex items-center gap-2 px-4 py-2.5 text-sm font-medium text-white bg-green-600 rounded-lg hover:bg-green-700 disabled:bg-green-400 disabled:cursor-not-allowed transition-colors"
+            >
+              {isBatching ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : (
+                <ClipboardList className="h-4 w-4" />
+              )}
+              Create Pick Batch ({selectedIds.length})
+            </button>
+          ) : (
+            <Link
+              href="/orders/batches"
+              className="inline-flex items-center gap-2 px-4 py-2.5 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              <ClipboardList className="h-4 w-4" />
+              Pick Batches
+            </Link>
+          )}
           <button
             onClick={handleSync}
             disabled={isSyncing}
@@ -263,6 +367,16 @@ export function OrdersPageClient({
           <table className="w-full">
             <thead>
               <tr className="border-b border-gray-200 bg-gray-50">
+                <th className="w-10 px-4 py-3">
+                  <input
+                    type="checkbox"
+                    checked={allSelected}
+                    onChange={toggleAllSelected}
+                    disabled={selectableIds.length === 0}
+                    title="Select all pending orders"
+                    className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  />
+                </th>
                 <th className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">
                   Order #
                 </th>
@@ -286,7 +400,7 @@ export function OrdersPageClient({
             <tbody className="divide-y divide-gray-200">
               {orders.length === 0 ? (
                 <tr>
-                  <td colSpan={6} className="px-4 py-12 text-center text-sm text-gray-500">
+                  <td colSpan={7} className="px-4 py-12 text-center text-sm text-gray-500">
                     {currentSearch || currentStatus !== 'all'
                       ? 'No orders found matching your filters.'
                       : 'No orders yet. Click "Sync from Shopify" to import orders.'}
@@ -302,6 +416,16 @@ export function OrdersPageClient({
                       onClick={() => handleRowClick(order.id)}
                       className="cursor-pointer hover:bg-gray-50 transition-colors"
                     >
+                      <td className="px-4 py-3" onClick={(e) => e.stopPropagation()}>
+                        {selectableIds.includes(order.id) && (
+                          <input
+                            type="checkbox"
+                            checked={selectedIds.includes(order.id)}
+                            onChange={() => toggleSelected(order.id)}
+                            className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                          />
+                        )}
+                      </td>
                       <td className="px-4 py-3">
                         <span className="font-medium text-blue-600">
                           {order.orderNumber}
@@ -0,0 +1,380 @@
+'use client'
+
+import { useRef, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import Link from 'next/link'
+import {
+  ArrowLeft,
+  CheckCircle,
+  XCircle,
+  ScanLine,
+  Loader2,
+  RotateCcw,
+  Truck,
+  PackageCheck,
+} from 'lucide-react'
+import {
+  scanPackItem,
+  finishPacking,
+  restartPackVerification,
+} from '@/app/(dashboard)/orders/[id]/pack/actions'
+
+interface PackLine {
+  orderItemId: string
+  sku: string
+  name: string
+  barcode: string | null
+  quantity: number
+  scanned: number
+}
+
+interface PackScan {
+  id: string
+  code: string
+  error: string | null
+  createdAt: string
+}
+
+interface PackStationProps {
+  order: {
+    id: string
+    orderNumber: string
+    customerName: string
+    status: 'PENDING' | 'PROCESSING' | 'SHIPPED' | 'CANCELLED' | 'ON_HOLD'
+  }
+  lines: PackLine[]
+  complete: boolean
+  verifiedBy: string | null
+  completedAt: string | null
+  recentScans: PackScan[]
+}
+
+export function PackStation({
+  order,
+  lines: initialLines,
+  complete: initialComplete,
+  verifiedBy,
+  completedAt,
+  recentScans,
+}: PackStationProps) {
+  const router = useRouter()
+  const inputRef = useRef<HTMLInputElement>(null)
+  const [code, setCode] = useState('')
+  const [lines, setLines] = useState(initialLines)
+  const [complete, setComplete] = useState(initialComplete)
+  const [scans, setScans] = useState(recentScans)
+  const [isScanning, setIsScanning] = useState(false)
+  const [isRestarting, setIsRestarting] = useState(false)
+  const [isFinishing, setIsFinishing] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [lastMatch, setLastMatch] = useState<string | null>(null)
+
+  const canPack = order.status !== 'SHIPPED' && order.status !== 'CANCELLED'
+  const totalUnits = lines.reduce((sum, l) => sum + l.quantity, 0)
+  const scannedUnits = lines.reduce((sum, l) => sum + l.scanned, 0)
+  // Packing was finished early to ship part of the order
+  const finishedPartial = !complete && completedAt !== null && scannedUnits > 0
+  const canScan = canPack && !complete && !finishedPartial
+
+  const formatTime = (dateStr: string) => {
+    return new Date(dateStr).toLocaleTimeString('en-US', {
+      hour: 'numeric',
+      minute: '2-digit',
+      second: '2-digit',
+    })
+  }
+
+  const handleScan = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const scanned = code.trim()
+    if (!scanned) return
+
+    setIsScanning(true)
+    setError(null)
+    setLastMatch(null)
+
+    try {
+      const result = await scanPackItem(order.id, scanned)
+
+      // Rejected scans are still recorded, so the progress comes back either way
+      if (result.lines) {
+        setLines(result.lines)
+        setComplete(!!result.complete)
+        setScans((prev) => [
+          {
+            id: `${Date.now()}`,
+            code: scanned,
+            error: result.error,
+            createdAt: new Date().toISOString(),
+          },
+          ...prev,
+        ].slice(0, 20))
+      }
+
+      if (!result.success) {
+        throw new Error(result.error || 'Scan rejected')
+      }
+
+      setLastMatch(scanned)
+      if (result.complete) {
+        router.refresh()
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Scan failed')
+    } finally {
+      setCode('')
+      setIsScanning(false)
+      inputRef.current?.focus()
+    }
+  }
+
+  const handleFinish = async () => {
+    if (!confirm(`Ship only the ${scannedUnits} scanned unit${scannedUnits !== 1 ? 's' : ''} now?`)) return
+
+    setIsFinishing(true)
+    setError(null)
+    try {
+      const result = await finishPacking(order.id)
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to finish packing')
+      }
+      router.refresh()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to finish packing')
+    } finally {
+      setIsFinishing(false)
+    }
+  }
+
+  const handleRestart = async () => {
+    if (!confirm('Discard the scans so far and start over?')) return
+
+    setIsRestarting(true)
+    setError(null)
+    setLastMatch(null)
+    try {
+      const result = await restartPackVerification(order.id)
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to restart')
+      }
+      setLines((prev) => prev.map((l) => ({ ...l, scanned: 0 })))
+      setComplete(false)
+      setScans([])
+      router.refresh()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to restart')
+    } finally {
+      setIsRestarting(false)
+      inputRef.current?.focus()
+    }
+  }
+
+  return (
+    <div className="max-w-4xl mx-auto">
+      {/* Back button */}
+      <Link
+        href={`/orders/${order.id}`}
+        className="inline-flex items-center gap-2 text-sm text-gray-600 hover:text-gray-900 mb-4"
+      >
+        <ArrowLeft className="h-4 w-4" />
+        Back to Order
+      </Link>
+
+      {/* Header */}
+      <div className="mb-6 bg-white rounded-xl border border-gray-200 shadow-sm p-6">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">
+              Pack {order.orderNumber}
+            </h1>
+            <p className="mt-1 text-lg text-gray-600">{order.customerName}</p>
+          </div>
+          <div className="text-right">
+            <p className="text-3xl font-bold text-gray-900">
+              {scannedUnits} / {totalUnits}
+            </p>
+            <p className="text-sm text-gray-500">units scanned</p>
+          </div>
+        </div>
+
+        {canScan && (
+          <form onSubmit={handleScan} className="mt-6">
+            <div className="relative">
+              <ScanLine className="absolute left-4 top-1/2 h-6 w-6 -translate-y-1/2 text-gray-400" />
+              <input
+                ref={inputRef}
+                type="text"
+                autoFocus
+                placeholder="Scan barcode or type SKU..."
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                disabled={isScanning}
+                className="w-full rounded-xl border-2 border-gray-300 py-4 pl-14 pr-4 font-mono text-lg focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500 disabled:opacity-60"
+              />
+              {isScanning && (
+                <Loader2 className="absolute right-4 top-1/2 h-5 w-5 -translate-y-1/2 animate-spin text-gray-400" />
+              )}
+            </div>
+          </form>
+        )}
+      </div>
+
+      {/* Scan feedback */}
+      {error && (
+        <div className="mb-6 rounded-xl bg-red-50 border-2 border-red-300 p-4">
+          <div className="flex items-center gap-3">
+            <XCircle className="h-6 w-6 text-red-600" />
+            <p className="text-lg font-semibold text-red-800">{error}</p>
+          </div>
+        </div>
+      )}
+
+      {lastMatch && !complete && (
+        <div className="mb-6 rounded-xl bg-green-50 border border-green-200 p-4">
+          <div className="flex items-center gap-3">
+            <CheckCircle className="h-5 w-5 text-green-600" />
+            <p className="text-green-800">
+              <span className="font-mono">{lastMatch}</span> scanned
+            </p>
+          </div>
+        </div>
+      )}
+
+      {(complete || finishedPartial) && (
+        <div className="mb-6 rounded-xl bg-green-50 border-2 border-green-200 p-6">
+          <div className="flex items-start gap-4">
+            <CheckCircle className="h-8 w-8 text-green-600 flex-shrink-0" />
+            <div className="flex-1">
+              <h3 className="text-lg font-bold text-green-800">
+                {complete
+                  ? 'All items verified'
+                  : `${scannedUnits} of ${totalUnits} units verified — partial shipment`}
+              </h3>
+              {verifiedBy && completedAt && (
+                <p className="mt-1 text-green-700">
+                  Packed by {verifiedBy} at {formatTime(completedAt)}
+                </p>
+              )}
+              {canPack && (
+                <div className="mt-4">
+                  <Link
+                    href={`/orders/${order.id}`}
+                    className="inline-flex items-center gap-2 px-6 py-3 bg-green-600 text-white font-medium rounded-lg hover:bg-green-700 transition-colors"
+                  >
+                    <Truck className="h-5 w-5" />
+                    Continue to Shipping
+                  </Link>
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Lines */}
+      <div className="bg-white rounded-xl border border-gray-200 shadow-sm mb-6">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+          <h2 className="font-semibold text-gray-900">Items</h2>
+          <div className="flex items-center gap-4">
+            {canScan && scannedUnits > 0 && (
+              <button
+                onClick={handleFinish}
+                disabled={isFinishing}
+                className="inline-flex items-center gap-1.5 text-sm font-medium text-blue-600 hover:text-blue-800 disabled:opacity-50"
+              >
+                <PackageCheck className="h-4 w-4" />
+                Ship Scanned Items Only
+              </button>
+            )}
+            {canPack && scannedUnits > 0 && (
+              <button
+                onClick={handleRestart}
+                disabled={isRestarting}
+                className="inline-flex items-center gap-1.5 text-sm text-gray-600 hover:text-gray-900 disabled:opacity-50"
+              >
+                <RotateCcw className="h-4 w-4" />
+                Start Over
+              </button>
+            )}
+          </div>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead>
+              <tr className="bg-gray-50 border-b border-gray-200">
+                <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">
+                  Product
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">
+                  SKU / Barcode
+                </th>
+                <th className="px-6 py-3 text-center text-xs font-medium uppercase tracking-wider text-gray-500">
+                  Scanned
+                </th>
+                <th className="px-6 py-3 text-center text-xs font-medium uppercase tracking-wider text-gray-500">
+                  Status
+                </th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {lines.map((line) => {
+                const done = line.scanned === line.quantity
+
+                return (
+                  <tr key={line.orderItemId} className={done ? 'bg-green-50' : ''}>
+                    <td className="px-6 py-4 text-sm font-medium text-gray-900">
+                      {line.name}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-600 font-mono">
+                      {line.sku}
+                      {line.barcode && (
+                        <span className="block text-xs text-gray-400">{line.barcode}</span>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 text-center text-lg font-semibold text-gray-900">
+                      {line.scanned} / {line.quantity}
+                    </td>
+                    <td className="px-6 py-4 text-center">
+                      {done ? (
+                        <CheckCircle className="mx-auto h-5 w-5 text-green-600" />
+                      ) : (
+                        <span className="text-sm text-gray-400">
+                          {line.quantity - line.scanned} to go
+                        </span>
+                      )}
+                    </td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Scan log */}
+      {scans.length > 0 && (
+        <div className="bg-white rounded-xl border border-gray-200 shadow-sm">
+          <div className="px-6 py-4 border-b border-gray-200">
+            <h2 className="font-semibold text-gray-900">Scan Log</h2>
+          </div>
+          <ul className="divide-y divide-gray-200">
+            {scans.map((scan) => (
+              <li key={scan.id} className="flex items-center justify-between gap-4 px-6 py-2.5 text-sm">
+                <span className="flex items-center gap-2">
+                  {scan.error ? (
+                    <XCircle className="h-4 w-4 text-red-500" />
+                  ) : (
+                    <CheckCircle className="h-4 w-4 text-green-500" />
+                  )}
+                  <span className="font-mono text-gray-900">{scan.code}</span>
+                  {scan.error && <span className="text-red-600">{scan.error}</span>}
+                </span>
+                <span className="text-gray-400">{formatTime(scan.createdAt)}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  )
+}
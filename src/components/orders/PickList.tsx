@@ -0,0 +1,315 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import Link from 'next/link'
+import {
+  ArrowLeft,
+  XCircle,
+  AlertTriangle,
+  Printer,
+  Loader2,
+  ArrowRight,
+  FileText,
+} from 'lucide-react'
+import { advancePickBatch } from '@/app/(dashboard)/orders/batches/actions'
+
+type BatchStatus = 'OPEN' | 'PICKING' | 'PICKED' | 'PACKED'
+
+interface BatchOrder {
+  id: string
+  tote: string
+  orderNumber: string
+  customerName: string
+  unitCount: number
+}
+
+interface PickListLine {
+  locationCode: string | null
+  productId: string
+  sku: string
+  name: string
+  quantity: number
+  totes: Array<{ tote: string; orderNumber: string; quantity: number }>
+}
+
+interface PickListProps {
+  batch: {
+    id: string
+    batchNumber: number
+    status: BatchStatus
+    warehouseName: string
+    createdBy: string
+    createdAt: string
+    orders: BatchOrder[]
+  }
+  lines: PickListLine[]
+}
+
+const statusConfig = {
+  OPEN: { label: 'Open', className: 'bg-yellow-100 text-yellow-800 border-yellow-200' },
+  PICKING: { label: 'Picking', className: 'bg-blue-100 text-blue-800 border-blue-200' },
+  PICKED: { label: 'Picked', className: 'bg-purple-100 text-purple-800 border-purple-200' },
+  PACKED: { label: 'Packed', className: 'bg-green-100 text-green-800 border-green-200' },
+}
+
+// Button shown for the next step of each status
+const nextAction: Record<BatchStatus, { status: BatchStatus; label: string } | null> = {
+  OPEN: { status: 'PICKING', label: 'Start Picking' },
+  PICKING: { status: 'PICKED', label: 'Mark Picked' },
+  PICKED: { status: 'PACKED', label: 'Mark Packed' },
+  PACKED: null,
+}
+
+export function PickList({ batch, lines }: PickListProps) {
+  const router = useRouter()
+  const [isAdvancing, setIsAdvancing] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const status = statusConfig[batch.status]
+  const next = nextAction[batch.status]
+  const shortLines = lines.filter((line) => line.locationCode === null)
+  const totalUnits = lines.reduce((sum, line) => sum + line.quantity, 0)
+
+  const formatDate = (dateStr: string) => {
+    return new Date(dateStr).toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit',
+    })
+  }
+
+  const handleAdvance = async () => {
+    if (!next) return
+
+    setIsAdvancing(true)
+    setError(null)
+    try {
+      const result = await advancePickBatch(batch.id, next.status)
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to update batch')
+      }
+      router.refresh()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update batch')
+    } finally {
+      setIsAdvancing(false)
+    }
+  }
+
+  return (
+    <div className="max-w-5xl mx-auto">
+      {/* Back button */}
+      <Link
+        href="/orders/batches"
+        className="inline-flex items-center gap-2 text-sm text-gray-600 hover:text-gray-900 mb-4 print:hidden"
+      >
+        <ArrowLeft className="h-4 w-4" />
+        Back to Pick Batches
+      </Link>
+
+      {/* Error Banner */}
+      {error && (
+        <div className="mb-6 rounded-xl bg-red-50 border border-red-200 p-4">
+          <div className="flex items-center gap-3">
+            <XCircle className="h-5 w-5 text-red-600" />
+            <p className="text-red-800">{error}</p>
+          </div>
+        </div>
+      )}
+
+      {/* Header */}
+      <div className="mb-6 bg-white rounded-xl border border-gray-200 shadow-sm p-6">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">
+              Batch #{batch.batchNumber}
+            </h1>
+            <p className="mt-1 text-gray-600">
+              {batch.orders.length} order{batch.orders.length !== 1 ? 's' : ''} ·{' '}
+              {totalUnits} unit{totalUnits !== 1 ? 's' : ''} · {batch.warehouseName}
+            </p>
+            <p className="mt-1 text-sm text-gray-500">
+              Created {formatDate(batch.createdAt)} by {batch.createdBy}
+            </p>
+          </div>
+          <div className="flex flex-col items-end gap-3">
+            <span
+              className={`inline-flex px-4 py-2 rounded-full text-lg font-semibold border ${status.className}`}
+            >
+              {status.label}
+            </span>
+            <div className="flex items-center gap-2 print:hidden">
+              <button
+                onClick={() => window.print()}
+                className="inline-flex items-center gap-2 px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+              >
+                <Printer className="h-4 w-4" />
+                Print
+              </button>
+              <a
+                href={`/api/pick-batches/${batch.id}/packing-slips`}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="inline-flex items-center gap-2 px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+              >
+                <FileText className="h-4 w-4" />
+                Packing Slips
+              </a>
+              {next && (
+                <button
+                  onClick={handleAdvance}
+                  disabled={isAdvancing}
+                  className="inline-flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:bg-blue-400 disabled:cursor-not-allowed transition-colors"
+                >
+                  {isAdvancing ? (
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  ) : (
+                    <ArrowRight className="h-4 w-4" />
+                  )}
+                  {next.label}
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Shortage warning */}
+      {shortLines.length > 0 && (
+        <div className="mb-6 rounded-xl bg-yellow-50 border border-yellow-200 p-4">
+          <div className="flex items-center gap-3">
+            <AlertTriangle className="h-5 w-5 text-yellow-600" />
+            <p className="text-yellow-800">
+              {shortLines.length} line{shortLines.length !== 1 ? 's' : ''} can&apos;t be
+              covered from the bins in this warehouse
+            </p>
+          </div>
+        </div>
+      )}
+
+      {/* Pick List */}
+      <div className="mb-6 overflow-hidden rounded-xl border border-gray-200 bg-white shadow-sm">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h2 className="font-semibold text-gray-900">Pick List</h2>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-gray-200 bg-gray-50">
+                <th className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">
+                  Location
+                </th>
+                <th className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">
+                  SKU
+                </th>
+                <th className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">
+                  Product
+                </th>
+                <th className="px-4 py-3 text-right text-xs font-medium uppercase tracking-wider text-gray-500">
+                  Qty
+                </th>
+                <th className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">
+                  Totes
+                </th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {lines.length === 0 ? (
+                <tr>
+                  <td colSpan={5} className="px-4 py-12 text-center text-sm text-gray-500">
+                    Nothing to pick.
+                  </td>
+                </tr>
+              ) : (
+                lines.map((line) => (
+                  <tr
+                    key={`${line.productId}-${line.locationCode ?? 'short'}`}
+                    className={line.locationCode === null ? 'bg-yellow-50' : ''}
+                  >
+                    <td className="px-4 py-3 font-mono text-sm font-medium text-gray-900">
+                      {line.locationCode ?? (
+                        <span className="inline-flex items-center gap-1 text-yellow-700">
+                          <AlertTriangle className="h-4 w-4" />
+                          Short
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 font-mono text-sm text-gray-600">{line.sku}</td>
+                    <td className="px-4 py-3 text-sm text-gray-900">{line.name}</td>
+                    <td className="px-4 py-3 text-right text-sm font-semibold text-gray-900">
+                      {line.quantity}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-600">
+                      <div className="flex flex-wrap gap-1.5">
+                        {line.totes.map((tote) => (
+                          <span
+                            key={tote.tote}
+                            title={tote.orderNumber}
+                            className="inline-flex rounded bg-gray-100 px-2 py-0.5 font-mono text-xs text-gray-700"
+                          >
+                            {tote.tote} × {tote.quantity}
+                          </span>
+                        ))}
+                      </div>
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Totes */}
+      <div className="overflow-hidden rounded-xl border border-gray-200 bg-white shadow-sm">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h2 className="font-semibold text-gray-900">Totes</h2>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-gray-200 bg-gray-50">
+                <th className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">
+                  Tote
+                </th>
+                <th className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">
+                  Order #
+                </th>
+                <th className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">
+                  Customer
+                </th>
+                <th className="px-4 py-3 text-right text-xs font-medium uppercase tracking-wider text-gray-500">
+                  Units
+                </th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {batch.orders.map((order) => (
+                <tr key={order.id}>
+                  <td className="px-4 py-3 font-mono text-sm font-semibold text-gray-900">
+                    {order.tote}
+                  </td>
+                  <td className="px-4 py-3">
+                    <Link
+                      href={`/orders/${order.id}`}
+                      className="font-medium text-blue-600 hover:text-blue-800"
+                    >
+                      {order.orderNumber}
+                    </Link>
+                  </td>
+                  <td className="px-4 py-3 text-sm text-gray-900">{order.customerName}</td>
+                  <td className="px-4 py-3 text-right text-sm text-gray-600">
+                    {order.unitCount}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,263 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import Link from 'next/link'
+import { ArrowLeft, XCircle, Loader2, Ban, Truck } from 'lucide-react'
+import { closePurchaseOrderShort } from '@/app/(dashboard)/inventory/purchase-orders/actions'
+
+type PurchaseOrderStatus = 'OPEN' | 'PARTIAL' | 'CLOSED'
+
+interface PurchaseOrderLine {
+  id: string
+  sku: string
+  name: string
+  quantityOrdered: number
+  quantityReceived: number
+  unitCost: string
+}
+
+interface Receipt {
+  id: string
+  sku: string
+  locationCode: string | null
+  quantity: number
+  receivedBy: string
+  createdAt: string
+}
+
+interface PurchaseOrderDetailProps {
+  po: {
+    id: string
+    number: string
+    status: PurchaseOrderStatus
+    supplierName: string
+    warehouseName: string
+    currency: string
+    expectedAt: string | null
+    notes: string | null
+    createdBy: string
+    createdAt: string
+    closedAt: string | null
+    lines: PurchaseOrderLine[]
+    receipts: Receipt[]
+  }
+}
+
+const statusConfig = {
+  OPEN: { label: 'Open', className: 'bg-yellow-100 text-yellow-800 border-yellow-200' },
+  PARTIAL: { label: 'Partial', className: 'bg-blue-100 text-blue-800 border-blue-200' },
+  CLOSED: { label: 'Closed', className: 'bg-gray-100 text-gray-800 border-gray-200' },
+}
+
+export function PurchaseOrderDetail({ po }: PurchaseOrderDetailProps) {
+  const router = useRouter()
+  const [error, setError] = useState<string | null>(null)
+  const [isClosing, setIsClosing] = useState(false)
+
+  const status = statusConfig[po.status]
+  const total = po.lines.reduce((sum, line) => sum + line.quantityOrdered * Number(line.unitCost), 0)
+
+  const formatDate = (dateStr: string) => {
+    return new Date(dateStr).toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit',
+    })
+  }
+
+  // Expected dates are calendar days, stored at midnight UTC
+  const formatExpected = (dateStr: string) => {
+    return new Date(dateStr).toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
+      timeZone: 'UTC',
+    })
+  }
+
+  const handleClose = async () => {
+    if (!confirm(`Close ${po.number}? Units not yet received will no longer be expected.`)) return
+
+    setIsClosing(true)
+    setError(null)
+    try {
+      const result = await closePurchaseOrderShort(po.id)
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to close purchase order')
+      }
+      router.refresh()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to close purchase order')
+    } finally {
+      setIsClosing(false)
+    }
+  }
+
+  return (
+    <div className="max-w-5xl mx-auto">
+      {/* Back button */}
+      <Link
+        href="/inventory/purchase-orders"
+        className="inline-flex items-center gap-2 text-sm text-gray-600 hover:text-gray-900 mb-4"
+      >
+        <ArrowLeft className="h-4 w-4" />
+        Back to Purchase Orders
+      </Link>
+
+      {/* Error Banner */}
+      {error && (
+        <div className="mb-6 rounded-xl bg-red-50 border border-red-200 p-4">
+          <div className="flex items-center gap-3">
+            <XCircle className="h-5 w-5 text-red-600" />
+            <p className="text-red-800">{error}</p>
+          </div>
+        </div>
+      )}
+
+      {/* Header */}
+      <div className="mb-6 bg-white rounded-xl border border-gray-200 shadow-sm p-6">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">{po.number}</h1>
+            <p className="mt-1 text-gray-600">
+              {po.supplierName} · to {po.warehouseName}
+            </p>
+            {po.expectedAt && (
+              <p className="mt-2 text-sm text-gray-700">Expected {formatExpected(po.expectedAt)}</p>
+            )}
+            {po.notes && <p className="mt-1 text-sm text-gray-700">{po.notes}</p>}
+            <p className="mt-1 text-sm text-gray-500">
+              Created {formatDate(po.createdAt)} by {po.createdBy}
+            </p>
+            {po.closedAt && (
+              <p className="text-sm text-gray-500">Closed {formatDate(po.closedAt)}</p>
+            )}
+          </div>
+          <div className="flex flex-col items-end gap-3">
+            <span
+              className={`inline-flex px-4 py-2 rounded-full text-lg font-semibold border ${status.className}`}
+            >
+              {status.label}
+            </span>
+            {po.status !== 'CLOSED' && (
+              <button
+                onClick={handleClose}
+                disabled={isClosing}
+                className="inline-flex items-center gap-2 px-4 py-2 text-sm font-medium border border-red-300 text-red-700 rounded-lg hover:bg-red-50 disabled:opacity-50"
+              >
+                {isClosing ? <Loader2 className="h-4 w-4 animate-spin" /> : <Ban className="h-4 w-4" />}
+                Close PO
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {/* Lines */}
+      <div className="mb-6 bg-white rounded-xl border border-gray-200 shadow-sm">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-gray-200 bg-gray-50">
+                <th className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">
+                  Product
+                </th>
+                <th className="px-4 py-3 text-right text-xs font-medium uppercase tracking-wider text-gray-500">
+                  Ordered
+                </th>
+                <th className="px-4 py-3 text-right text-xs font-medium uppercase tracking-wider text-gray-500">
+                  Received
+                </th>
+                <th className="px-4 py-3 text-right text-xs font-medium uppercase tracking-wider text-gray-500">
+                  Remaining
+                </th>
+                <th className="hidden px-4 py-3 text-right text-xs font-medium uppercase tracking-wider text-gray-500 sm:table-cell">
+                  Unit Cost
+                </th>
+                <th className="px-4 py-3" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {po.lines.map((line) => {
+                const remaining = line.quantityOrdered - line.quantityReceived
+
+                return (
+                  <tr key={line.id}>
+                    <td className="px-4 py-3">
+                      <p className="font-medium text-gray-900">{line.name}</p>
+                      <p className="font-mono text-sm text-gray-500">{line.sku}</p>
+                    </td>
+                    <td className="px-4 py-3 text-right text-sm text-gray-700">
+                      {line.quantityOrdered}
+                    </td>
+                    <td className="px-4 py-3 text-right text-sm text-gray-700">
+                      {line.quantityReceived}
+                    </td>
+                    <td className="px-4 py-3 text-right text-sm">
+                      {remaining < 0 ? (
+                        <span className="font-medium text-orange-700">{-remaining} over</span>
+                      ) : (
+                        <span className="text-gray-700">{remaining}</span>
+                      )}
+                    </td>
+                    <td className="hidden px-4 py-3 text-right text-sm text-gray-700 sm:table-cell">
+                      ${line.unitCost}
+                    </td>
+                    <td className="px-4 py-3 text-right">
+                      {po.status !== 'CLOSED' && (
+                        <Link
+                          href={`/inventory/receive?line=${line.id}`}
+                          className="inline-flex items-center gap-1.5 text-sm font-medium text-blue-600 hover:text-blue-800"
+                        >
+                          <Truck className="h-4 w-4" />
+                          Receive
+                        </Link>
+                      )}
+                    </td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        </div>
+        <div className="flex justify-end px-6 py-3 border-t border-gray-200">
+          <p className="text-sm text-gray-700">
+            Order total: <span className="font-semibold">${total.toFixed(2)}</span> {po.currency}
+          </p>
+        </div>
+      </div>
+
+      {/* Receipts */}
+      <div className="bg-white rounded-xl border border-gray-200 shadow-sm">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h2 className="font-semibold text-gray-900">Receipts</h2>
+        </div>
+        {po.receipts.length === 0 ? (
+          <p className="px-6 py-6 text-center text-sm text-gray-500">Nothing received yet</p>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {po.receipts.map((receipt) => (
+              <li key={receipt.id} className="flex items-center justify-between gap-4 px-6 py-3">
+                <div>
+                  <p className="text-sm text-gray-900">
+                    <span className="font-medium">+{receipt.quantity}</span>{' '}
+                    <span className="font-mono">{receipt.sku}</span>
+                    {receipt.locationCode && (
+                      <span className="text-gray-500"> into {receipt.locationCode}</span>
+                    )}
+                  </p>
+                </div>
+                <p className="text-sm text-gray-500">
+                  {formatDate(receipt.createdAt)} by {receipt.receivedBy}
+                </p>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,346 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import Link from 'next/link'
+import { ArrowLeft, XCircle, Loader2, Plus, Search, Trash2, X } from 'lucide-react'
+import { searchProducts } from '@/app/(dashboard)/inventory/actions'
+import { placePurchaseOrder } from '@/app/(dashboard)/inventory/purchase-orders/actions'
+
+interface Product {
+  id: string
+  sku: string
+  name: string
+}
+
+interface Line {
+  key: number
+  product: Product | null
+  quantity: string
+  unitCost: string
+}
+
+interface PurchaseOrderFormProps {
+  suppliers: Array<{ id: string; name: string }>
+  warehouses: Array<{ id: string; code: string; name: string }>
+}
+
+const inputClassName =
+  'w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:ring-1 focus:ring-blue-500 focus:border-blue-500 outline-none'
+
+function ProductPicker({
+  product,
+  onChange,
+}: {
+  product: Product | null
+  onChange: (product: Product | null) => void
+}) {
+  const [query, setQuery] = useState('')
+  const [results, setResults] = useState<Product[]>([])
+
+  useEffect(() => {
+    if (query.length < 1) return
+
+    const debounce = setTimeout(async () => {
+      setResults(await searchProducts(query))
+    }, 200)
+    return () => clearTimeout(debounce)
+  }, [query])
+
+  if (product) {
+    return (
+      <div className="flex items-center gap-2">
+        <div className="min-w-0 flex-1">
+          <p className="truncate text-sm font-medium text-gray-900">{product.name}</p>
+          <p className="font-mono text-xs text-gray-500">{product.sku}</p>
+        </div>
+        <button
+          type="button"
+          onClick={() => onChange(null)}
+          className="p-1 text-gray-400 hover:text-gray-600"
+        >
+          <X className="h-4 w-4" />
+        </button>
+      </div>
+    )
+  }
+
+  return (
+    <div className="relative">
+      <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-gray-400" />
+      <input
+        type="text"
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        placeholder="Search by SKU or name..."
+        className={`${inputClassName} pl-9`}
+      />
+      {query && results.length > 0 && (
+        <div className="absolute z-50 mt-1 max-h-56 w-full overflow-y-auto rounded-lg border border-gray-200 bg-white shadow-lg">
+          {results.map((result) => (
+            <button
+              key={result.id}
+              type="button"
+              onClick={() => {
+                onChange(result)
+                setQuery('')
+                setResults([])
+              }}
+              className="w-full border-b border-gray-100 px-3 py-2 text-left last:border-b-0 hover:bg-gray-50"
+            >
+              <p className="truncate text-sm font-medium text-gray-900">{result.name}</p>
+              <p className="font-mono text-xs text-gray-500">{result.sku}</p>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export function PurchaseOrderForm({ suppliers, warehouses }: PurchaseOrderFormProps) {
+  const router = useRouter()
+  const [supplierId, setSupplierId] = useState(suppliers[0]?.id ?? '')
+  const [warehouseId, setWarehouseId] = useState(warehouses[0]?.id ?? '')
+  const [expectedAt, setExpectedAt] = useState('')
+  const [notes, setNotes] = useState('')
+  const [lines, setLines] = useState<Line[]>([{ key: 0, product: null, quantity: '', unitCost: '' }])
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const updateLine = (key: number, changes: Partial<Line>) => {
+    setLines((current) => current.map((line) => (line.key === key ? { ...line, ...changes } : line)))
+  }
+
+  const addLine = () => {
+    setLines((current) => [
+      ...current,
+      { key: Math.max(...current.map((line) => line.key)) + 1, product: null, quantity: '', unitCost: '' },
+    ])
+  }
+
+  const removeLine = (key: number) => {
+    setLines((current) => current.filter((line) => line.key !== key))
+  }
+
+  const total = lines.reduce(
+    (sum, line) => sum + (Number(line.quantity) || 0) * (Number(line.unitCost) || 0),
+    0
+  )
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    setIsSaving(true)
+    setError(null)
+    try {
+      const result = await placePurchaseOrder({
+        supplierId,
+        warehouseId,
+        expectedAt: expectedAt || null,
+        notes,
+        lines: lines.map((line) => ({
+          productId: line.product?.id ?? '',
+          quantity: Number(line.quantity),
+          unitCost: line.unitCost === '' ? NaN : Number(line.unitCost),
+        })),
+      })
+      if (!result.success || !result.purchaseOrderId) {
+        throw new Error(result.error || 'Failed to create purchase order')
+      }
+      router.push(`/inventory/purchase-orders/${result.purchaseOrderId}`)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create purchase order')
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className="max-w-4xl mx-auto">
+      {/* Back button */}
+      <Link
+        href="/inventory/purchase-orders"
+        className="inline-flex items-center gap-2 text-sm text-gray-600 hover:text-gray-900 mb-4"
+      >
+        <ArrowLeft className="h-4 w-4" />
+        Back to Purchase Orders
+      </Link>
+
+      {/* Error Banner */}
+      {error && (
+        <div className="mb-6 rounded-xl bg-red-50 border border-red-200 p-4">
+          <div className="flex items-center gap-3">
+            <XCircle className="h-5 w-5 text-red-600" />
+            <p className="text-red-800">{error}</p>
+          </div>
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit} className="bg-white rounded-xl border border-gray-200 shadow-sm">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h1 className="text-2xl font-bold text-gray-900">New Purchase Order</h1>
+          {suppliers.length === 0 && (
+            <p className="mt-1 text-sm text-gray-500">
+              Add a supplier on the{' '}
+              <Link href="/inventory/suppliers" className="text-blue-600 hover:text-blue-800">
+                Suppliers
+              </Link>{' '}
+              page first.
+            </p>
+          )}
+        </div>
+
+        <div className="grid grid-cols-1 gap-4 px-6 py-4 sm:grid-cols-3">
+          <div>
+            <label htmlFor="supplierId" className="block text-sm font-medium text-gray-700 mb-1.5">
+              Supplier
+            </label>
+            <select
+              id="supplierId"
+              value={supplierId}
+              onChange={(e) => setSupplierId(e.target.value)}
+              className={`${inputClassName} bg-white`}
+            >
+              {suppliers.map((supplier) => (
+                <option key={supplier.id} value={supplier.id}>
+                  {supplier.name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="warehouseId" className="block text-sm font-medium text-gray-700 mb-1.5">
+              Deliver To
+            </label>
+            <select
+              id="warehouseId"
+              value={warehouseId}
+              onChange={(e) => setWarehouseId(e.target.value)}
+              className={`${inputClassName} bg-white`}
+            >
+              {warehouses.map((warehouse) => (
+                <option key={warehouse.id} value={warehouse.id}>
+                  {warehouse.name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="expectedAt" className="block text-sm font-medium text-gray-700 mb-1.5">
+              Expected <span className="text-gray-400 font-normal">(optional)</span>
+            </label>
+            <input
+              id="expectedAt"
+              type="date"
+              value={expectedAt}
+              onChange={(e) => setExpectedAt(e.target.value)}
+              className={inputClassName}
+            />
+          </div>
+        </div>
+
+        <div className="overflow-x-auto border-t border-gray-200">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-gray-200 bg-gray-50">
+                <th className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">
+                  Product
+                </th>
+                <th className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">
+                  Quantity
+                </th>
+                <th className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">
+                  Unit Cost
+                </th>
+                <th className="px-4 py-3" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {lines.map((line) => (
+                <tr key={line.key}>
+                  <td className="px-4 py-3">
+                    <ProductPicker
+                      product={line.product}
+                      onChange={(product) => updateLine(line.key, { product })}
+                    />
+                  </td>
+                  <td className="w-32 px-4 py-3">
+                    <input
+                      type="number"
+                      min={1}
+                      value={line.quantity}
+                      placeholder="0"
+                      onChange={(e) => updateLine(line.key, { quantity: e.target.value })}
+                      className={inputClassName}
+                    />
+                  </td>
+                  <td className="w-36 px-4 py-3">
+                    <input
+                      type="number"
+                      min={0}
+                      step="0.01"
+                      value={line.unitCost}
+                      placeholder="0.00"
+                      onChange={(e) => updateLine(line.key, { unitCost: e.target.value })}
+                      className={inputClassName}
+                    />
+                  </td>
+                  <td className="w-12 px-4 py-3 text-right">
+                    {lines.length > 1 && (
+                      <button
+                        type="button"
+                        onClick={() => removeLine(line.key)}
+                        className="p-1 text-gray-400 hover:text-red-600"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="flex items-center justify-between px-6 py-3 border-t border-gray-200">
+          <button
+            type="button"
+            onClick={addLine}
+            className="inline-flex items-center gap-1.5 text-sm font-medium text-blue-600 hover:text-blue-800"
+          >
+            <Plus className="h-4 w-4" />
+            Add Product
+          </button>
+          <p className="text-sm text-gray-700">
+            Total: <span className="font-semibold">${total.toFixed(2)}</span>
+          </p>
+        </div>
+
+        <div className="px-6 py-4 border-t border-gray-200">
+          <label htmlFor="poNotes" className="block text-sm font-medium text-gray-700 mb-1.5">
+            Notes <span className="text-gray-400 font-normal">(optional)</span>
+          </label>
+          <input
+            id="poNotes"
+            type="text"
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            placeholder="e.g. Supplier reference, shipping terms"
+            className={inputClassName}
+          />
+        </div>
+
+        <div className="flex justify-end px-6 py-4 border-t border-gray-200">
+          <button
+            type="submit"
+            disabled={isSaving || suppliers.length === 0}
+            className="inline-flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:bg-blue-400 disabled:cursor-not-allowed transition-colors"
+          >
+            {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+            Place Order
+          </button>
+        </div>
+      </form>
+    </div>
+  )
+}
@@ -0,0 +1,189 @@
+'use client'
+
+import { useActionState, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Factory, Plus, CheckCircle, Loader2 } from 'lucide-react'
+import { createSupplier, setSupplierActive } from '@/app/(dashboard)/inventory/suppliers/actions'
+
+interface Supplier {
+  id: string
+  name: string
+  contactName: string | null
+  email: string | null
+  phone: string | null
+  isActive: boolean
+  openOrderCount: number
+}
+
+interface SuppliersManagerProps {
+  suppliers: Supplier[]
+}
+
+const fields = [
+  { name: 'name', label: 'Name', placeholder: 'Acme Packaging', width: 'w-56' },
+  { name: 'contactName', label: 'Contact', placeholder: 'Jane Smith', width: 'w-44' },
+  { name: 'email', label: 'Email', placeholder: 'orders@acme.com', width: 'w-56' },
+  { name: 'phone', label: 'Phone', placeholder: '555-0100', width: 'w-36' },
+] as const
+
+export function SuppliersManager({ suppliers }: SuppliersManagerProps) {
+  const router = useRouter()
+  const [state, formAction, isPending] = useActionState(createSupplier, {})
+  const [updatingId, setUpdatingId] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleToggleActive = async (supplier: Supplier) => {
+    setUpdatingId(supplier.id)
+    setError(null)
+    try {
+      const result = await setSupplierActive(supplier.id, !supplier.isActive)
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to update supplier')
+      }
+      router.refresh()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update supplier')
+    } finally {
+      setUpdatingId(null)
+    }
+  }
+
+  return (
+    <div>
+      {/* Header */}
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold text-gray-900">Suppliers</h1>
+        <p className="mt-1 text-sm text-gray-500">
+          Who purchase orders are placed with. Inactive suppliers can&apos;t get new orders.
+        </p>
+      </div>
+
+      {/* Add Supplier Form */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-5 mb-6">
+        <h2 className="text-sm font-medium text-gray-900 mb-3">Add Supplier</h2>
+
+        {state.errors?._form && (
+          <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg">
+            {state.errors._form.map((error, i) => (
+              <p key={i} className="text-sm text-red-600">{error}</p>
+            ))}
+          </div>
+        )}
+
+        {state.success && (
+          <div className="mb-4 p-3 bg-green-50 border border-green-200 rounded-lg flex items-center gap-2">
+            <CheckCircle className="h-4 w-4 text-green-600" />
+            <p className="text-sm text-green-800">Added supplier {state.success.name}</p>
+          </div>
+        )}
+
+        <form action={formAction} className="flex flex-wrap items-start gap-4">
+          {fields.map((field) => {
+            const fieldError =
+              field.name === 'name' || field.name === 'email' ? state.errors?.[field.name] : undefined
+
+            return (
+              <div key={field.name} className={field.width}>
+                <label htmlFor={field.name} className="block text-sm text-gray-600 mb-1">
+                  {field.label}
+                </label>
+                <input
+                  type={field.name === 'email' ? 'email' : 'text'}
+                  id={field.name}
+                  name={field.name}
+                  placeholder={field.placeholder}
+                  className={`w-full px-3 py-2 text-sm border rounded-lg focus:ring-1 focus:ring-blue-500 focus:border-blue-500 outline-none ${
+                    fieldError ? 'border-red-500 bg-red-50' : 'border-gray-300'
+                  }`}
+                />
+                {fieldError && <p className="mt-1 text-xs text-red-600">{fieldError[0]}</p>}
+              </div>
+            )
+          })}
+          <button
+            type="submit"
+            disabled={isPending}
+            className="mt-6 inline-flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:bg-blue-400 disabled:cursor-not-allowed transition-colors"
+          >
+            <Plus className="h-4 w-4" />
+            {isPending ? 'Adding...' : 'Add Supplier'}
+          </button>
+        </form>
+      </div>
+
+      {/* Error Banner */}
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-sm text-red-600">{error}</p>
+        </div>
+      )}
+
+      {/* Suppliers Table */}
+      <div className="overflow-hidden rounded-xl border border-gray-200 bg-white shadow-sm">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-gray-200 bg-gray-50">
+                <th className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">
+                  Supplier
+                </th>
+                <th className="hidden px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500 sm:table-cell">
+                  Contact
+                </th>
+                <th className="px-4 py-3 text-right text-xs font-medium uppercase tracking-wider text-gray-500">
+                  Open POs
+                </th>
+                <th className="px-4 py-3 text-right text-xs font-medium uppercase tracking-wider text-gray-500">
+                  Status
+                </th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {suppliers.length === 0 ? (
+                <tr>
+                  <td colSpan={4} className="px-4 py-12 text-center">
+                    <Factory className="mx-auto h-10 w-10 text-gray-300" />
+                    <p className="mt-3 text-sm text-gray-500">
+                      No suppliers yet. Add your first supplier above.
+                    </p>
+                  </td>
+                </tr>
+              ) : (
+                suppliers.map((supplier) => (
+                  <tr key={supplier.id} className="hover:bg-gray-50 transition-colors">
+                    <td
+                      className={`px-4 py-3 text-sm font-medium ${
+                        supplier.isActive ? 'text-gray-900' : 'text-gray-400'
+                      }`}
+                    >
+                      {supplier.name}
+                    </td>
+                    <td className="hidden px-4 py-3 text-sm text-gray-600 sm:table-cell">
+                      {[supplier.contactName, supplier.email, supplier.phone]
+                        .filter(Boolean)
+                        .join(' · ') || '—'}
+                    </td>
+                    <td className="px-4 py-3 text-right text-sm text-gray-700">
+                      {supplier.openOrderCount}
+                    </td>
+                    <td className="px-4 py-3 text-right">
+                      <button
+                        type="button"
+                        onClick={() => handleToggleActive(supplier)}
+                        disabled={updatingId === supplier.id}
+                        className="inline-flex items-center gap-1.5 text-sm font-medium text-blue-600 hover:text-blue-800 disabled:text-gray-400"
+                      >
+                        {updatingId === supplier.id && <Loader2 className="h-3.5 w-3.5 animate-spin" />}
+                        {supplier.isActive ? 'Deactivate' : 'Activate'}
+                      </button>
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,161 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import Link from 'next/link'
+import { ArrowLeft, XCircle, Loader2, Undo2 } from 'lucide-react'
+import { createCustomerReturn } from '@/app/(dashboard)/returns/actions'
+
+interface ReturnableItem {
+  id: string
+  sku: string
+  name: string
+  shippedQuantity: number
+  returnableQuantity: number // shipped and not on another return
+}
+
+interface CreateReturnFormProps {
+  order: {
+    id: string
+    orderNumber: string
+    customerName: string
+  }
+  items: ReturnableItem[]
+}
+
+export function CreateReturnForm({ order, items }: CreateReturnFormProps) {
+  const router = useRouter()
+  const [quantities, setQuantities] = useState<Record<string, string>>({})
+  const [reason, setReason] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const hasReturnable = items.some((item) => item.returnableQuantity > 0)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    setIsSaving(true)
+    setError(null)
+    try {
+      const result = await createCustomerReturn(
+        order.id,
+        items.map((item) => ({ orderItemId: item.id, quantity: Number(quantities[item.id] || 0) })),
+        reason
+      )
+      if (!result.success || !result.returnId) {
+        throw new Error(result.error || 'Failed to create return')
+      }
+      router.push(`/returns/${result.returnId}`)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create return')
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className="max-w-3xl mx-auto">
+      {/* Back button */}
+      <Link
+        href={`/orders/${order.id}`}
+        className="inline-flex items-center gap-2 text-sm text-gray-600 hover:text-gray-900 mb-4"
+      >
+        <ArrowLeft className="h-4 w-4" />
+        Back to Order
+      </Link>
+
+      {/* Error Banner */}
+      {error && (
+        <div className="mb-6 rounded-xl bg-red-50 border border-red-200 p-4">
+          <div className="flex items-center gap-3">
+            <XCircle className="h-5 w-5 text-red-600" />
+            <p className="text-red-800">{error}</p>
+          </div>
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit} className="bg-white rounded-xl border border-gray-200 shadow-sm">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h1 className="text-2xl font-bold text-gray-900">Return for {order.orderNumber}</h1>
+          <p className="mt-1 text-sm text-gray-500">
+            {order.customerName}. Choose the units the customer is sending back.
+          </p>
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-gray-200 bg-gray-50">
+                <th className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">
+                  Item
+                </th>
+                <th className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">
+                  Shipped
+                </th>
+                <th className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">
+                  Return
+                </th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {items.map((item) => (
+                <tr key={item.id}>
+                  <td className="px-4 py-3">
+                    <p className="font-medium text-gray-900">{item.name}</p>
+                    <p className="font-mono text-sm text-gray-500">{item.sku}</p>
+                  </td>
+                  <td className="px-4 py-3 text-sm text-gray-700">{item.shippedQuantity}</td>
+                  <td className="px-4 py-3">
+                    {item.returnableQuantity > 0 ? (
+                      <div className="flex items-center gap-2">
+                        <input
+                          type="number"
+                          min={0}
+                          max={item.returnableQuantity}
+                          value={quantities[item.id] ?? ''}
+                          placeholder="0"
+                          onChange={(e) =>
+                            setQuantities((current) => ({ ...current, [item.id]: e.target.value }))
+                          }
+                          className="w-20 rounded-lg border border-gray-300 px-3 py-2 text-sm"
+                        />
+                        <span className="text-sm text-gray-500">of {item.returnableQuantity}</span>
+                      </div>
+                    ) : (
+                      <span className="text-sm text-gray-400">Nothing to return</span>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="px-6 py-4 border-t border-gray-200">
+          <label htmlFor="returnReason" className="block text-sm font-medium text-gray-700 mb-1.5">
+            Reason
+          </label>
+          <input
+            id="returnReason"
+            type="text"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="e.g. Wrong size, arrived damaged"
+            className="w-full rounded-lg border border-gray-300 px-3 py-2 text-sm"
+          />
+        </div>
+
+        <div className="flex justify-end px-6 py-4 border-t border-gray-200">
+          <button
+            type="submit"
+            disabled={isSaving || !hasReturnable}
+            className="inline-flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:bg-blue-400 disabled:cursor-not-allowed transition-colors"
+          >
+            {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Undo2 className="h-4 w-4" />}
+            Create Return
+          </button>
+        </div>
+      </form>
+    </div>
+  )
+}
@@ -0,0 +1,454 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import Link from 'next/link'
+import {
+  ArrowLeft,
+  XCircle,
+  Loader2,
+  Printer,
+  PackageCheck,
+  Truck,
+  Ban,
+} from 'lucide-react'
+import {
+  buyReturnLabel,
+  cancelCustomerReturn,
+  receiveCustomerReturn,
+} from '@/app/(dashboard)/returns/actions'
+
+type ReturnStatus = 'OPEN' | 'RECEIVED' | 'CANCELLED'
+type Disposition = 'RESTOCK' | 'DAMAGED' | 'DISCARD'
+
+interface ReturnItem {
+  id: string
+  sku: string
+  name: string
+  hasProduct: boolean // only products in the system can be restocked
+  quantity: number // authorized
+  receivedQuantity: number | null
+  disposition: Disposition | null
+  locationCode: string | null
+}
+
+interface ReturnCarrier {
+  id: string
+  name: string
+  services: Array<{ code: string; name: string }>
+}
+
+interface ReturnDetailProps {
+  rma: {
+    id: string
+    number: string
+    status: ReturnStatus
+    reason: string
+    orderId: string
+    orderNumber: string
+    customerName: string
+    warehouseName: string
+    createdBy: string
+    createdAt: string
+    receivedBy: string | null
+    receivedAt: string | null
+    label: {
+      carrier: string | null
+      service: string | null
+      carrierMode: 'PRODUCTION' | 'SANDBOX' | 'MOCK' | null
+      trackingNumber: string
+      cost: string | null
+      url: string
+    } | null
+    items: ReturnItem[]
+  }
+  bins: Array<{ id: string; code: string }> // of the return's warehouse
+  carriers: ReturnCarrier[] // enabled carriers that sell return labels
+}
+
+// What was received of a line, as entered
+interface ReceiptLine {
+  receivedQuantity: string
+  disposition: Disposition
+  locationId: string
+}
+
+const statusConfig = {
+  OPEN: { label: 'Open', className: 'bg-yellow-100 text-yellow-800 border-yellow-200' },
+  RECEIVED: { label: 'Received', className: 'bg-green-100 text-green-800 border-green-200' },
+  CANCELLED: { label: 'Cancelled', className: 'bg-gray-100 text-gray-800 border-gray-200' },
+}
+
+const dispositionLabels: Record<Disposition, string> = {
+  RESTOCK: 'Restock',
+  DAMAGED: 'Damaged',
+  DISCARD: 'Discard',
+}
+
+export function ReturnDetail({ rma, bins, carriers }: ReturnDetailProps) {
+  const router = useRouter()
+  const [error, setError] = useState<string | null>(null)
+  const [actionLoading, setActionLoading] = useState<'label' | 'receive' | 'cancel' | null>(null)
+  const [carrierId, setCarrierId] = useState(carriers[0]?.id ?? '')
+  const [serviceCode, setServiceCode] = useState(carriers[0]?.services[0]?.code ?? '')
+  const [receipt, setReceipt] = useState<Record<string, ReceiptLine>>(() =>
+    Object.fromEntries(
+      rma.items.map((item) => [
+        item.id,
+        {
+          receivedQuantity: String(item.quantity),
+          disposition: item.hasProduct ? 'RESTOCK' : 'DAMAGED',
+          locationId: '',
+        },
+      ])
+    )
+  )
+
+  const status = statusConfig[rma.status]
+  const carrier = carriers.find((c) => c.id === carrierId)
+
+  const formatDate = (dateStr: string) => {
+    return new Date(dateStr).toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit',
+    })
+  }
+
+  const updateReceipt = (itemId: string, changes: Partial<ReceiptLine>) => {
+    setReceipt((current) => ({ ...current, [itemId]: { ...current[itemId], ...changes } }))
+  }
+
+  const run = async (
+    action: 'label' | 'receive' | 'cancel',
+    request: () => Promise<{ success: boolean; error?: string }>
+  ) => {
+    setActionLoading(action)
+    setError(null)
+    try {
+      const result = await request()
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to update return')
+      }
+      router.refresh()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update return')
+    } finally {
+      setActionLoading(null)
+    }
+  }
+
+  const handleBuyLabel = () => run('label', () => buyReturnLabel(rma.id, carrierId, serviceCode))
+
+  const handleReceive = () =>
+    run('receive', () =>
+      receiveCustomerReturn(
+        rma.id,
+        rma.items.map((item) => ({
+          itemId: item.id,
+          receivedQuantity: Number(receipt[item.id].receivedQuantity),
+          disposition: receipt[item.id].disposition,
+          locationId: receipt[item.id].locationId || null,
+        }))
+      )
+    )
+
+  const handleCancel = () => {
+    if (!confirm(`Cancel ${rma.number}? The customer should not send it back.`)) return
+    run('cancel', () => cancelCustomerReturn(rma.id))
+  }
+
+  return (
+    <div className="max-w-5xl mx-auto">
+      {/* Back button */}
+      <Link
+        href="/returns"
+        className="inline-flex items-center gap-2 text-sm text-gray-600 hover:text-gray-900 mb-4"
+      >
+        <ArrowLeft className="h-4 w-4" />
+        Back to Returns
+      </Link>
+
+      {/* Error Banner */}
+      {error && (
+        <div className="mb-6 rounded-xl bg-red-50 border border-red-200 p-4">
+          <div className="flex items-center gap-3">
+            <XCircle className="h-5 w-5 text-red-600" />
+            <p className="text-red-800">{error}</p>
+          </div>
+        </div>
+      )}
+
+      {/* Header */}
+      <div className="mb-6 bg-white rounded-xl border border-gray-200 shadow-sm p-6">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">{rma.number}</h1>
+            <p className="mt-1 text-gray-600">
+              <Link href={`/orders/${rma.orderId}`} className="text-blue-600 hover:text-blue-800">
+                {rma.orderNumber}
+              </Link>{' '}
+              · {rma.customerName} · back to {rma.warehouseName}
+            </p>
+            <p className="mt-2 text-sm text-gray-700">{rma.reason}</p>
+            <p className="mt-1 text-sm text-gray-500">
+              Created {formatDate(rma.createdAt)} by {rma.createdBy}
+            </p>
+            {rma.receivedAt && (
+              <p className="text-sm text-gray-500">
+                Received {formatDate(rma.receivedAt)} by {rma.receivedBy ?? 'Unknown'}
+              </p>
+            )}
+          </div>
+          <div className="flex flex-col items-end gap-3">
+            <span
+              className={`inline-flex px-4 py-2 rounded-full text-lg font-semibold border ${status.className}`}
+            >
+              {status.label}
+            </span>
+            {rma.status === 'OPEN' && (
+              <button
+                onClick={handleCancel}
+                disabled={actionLoading !== null}
+                className="inline-flex items-center gap-2 px-4 py-2 text-sm font-medium border border-red-300 text-red-700 rounded-lg hover:bg-red-50 disabled:opacity-50"
+              >
+                {actionLoading === 'cancel' ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : (
+                  <Ban className="h-4 w-4" />
+                )}
+                Cancel Return
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {/* Return Label */}
+      <div className="mb-6 bg-white rounded-xl border border-gray-200 shadow-sm">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <div className="flex items-center gap-2">
+            <Truck className="h-5 w-5 text-gray-400" />
+            <h2 className="font-semibold text-gray-900">Return Label</h2>
+          </div>
+        </div>
+        <div className="px-6 py-4">
+          {rma.label ? (
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <p className="font-medium text-gray-900">
+                  {rma.label.carrier} — {rma.label.service}
+                  {rma.label.carrierMode && rma.label.carrierMode !== 'PRODUCTION' && (
+                    <span className="ml-2 inline-flex px-2 py-0.5 rounded text-xs font-medium bg-orange-100 text-orange-800">
+                      {rma.label.carrierMode === 'MOCK' ? 'Mock' : 'Sandbox'}
+                    </span>
+                  )}
+                </p>
+                <p className="font-mono text-sm text-gray-600">{rma.label.trackingNumber}</p>
+                {rma.label.cost && (
+                  <p className="text-sm text-gray-500">${rma.label.cost}, billed when used</p>
+                )}
+              </div>
+              <a
+                href={rma.label.url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="inline-flex items-center gap-2 px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+              >
+                <Printer className="h-4 w-4" />
+                Label
+              </a>
+            </div>
+          ) : rma.status !== 'OPEN' ? (
+            <p className="text-sm text-gray-500">No return label was bought.</p>
+          ) : carriers.length === 0 ? (
+            <p className="text-sm text-gray-500">
+              No enabled carrier sells return labels. The customer ships it back on their own.
+            </p>
+          ) : (
+            <div className="flex flex-wrap items-end gap-3">
+              <div>
+                <label htmlFor="returnCarrier" className="block text-sm font-medium text-gray-700 mb-1.5">
+                  Carrier
+                </label>
+                <select
+                  id="returnCarrier"
+                  value={carrierId}
+                  onChange={(e) => {
+                    setCarrierId(e.target.value)
+                    setServiceCode(carriers.find((c) => c.id === e.target.value)?.services[0]?.code ?? '')
+                  }}
+                  className="rounded-lg border border-gray-300 px-3 py-2 text-sm"
+                >
+                  {carriers.map((c) => (
+                    <option key={c.id} value={c.id}>
+                      {c.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label htmlFor="returnService" className="block text-sm font-medium text-gray-700 mb-1.5">
+                  Service
+                </label>
+                <select
+                  id="returnService"
+                  value={serviceCode}
+                  onChange={(e) => setServiceCode(e.target.value)}
+                  className="rounded-lg border border-gray-300 px-3 py-2 text-sm"
+                >
+                  {carrier?.services.map((service) => (
+                    <option key={service.code} value={service.code}>
+                      {service.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <button
+                onClick={handleBuyLabel}
+                disabled={actionLoading !== null || !serviceCode}
+                className="inline-flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:bg-blue-400 disabled:cursor-not-allowed transition-colors"
+              >
+                {actionLoading === 'label' ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : (
+                  <Printer className="h-4 w-4" />
+                )}
+                Buy Return Label
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Items */}
+      <div className="mb-6 overflow-hidden rounded-xl border border-gray-200 bg-white shadow-sm">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h2 className="font-semibold text-gray-900">Items</h2>
+          {rma.status === 'OPEN' && (
+            <p className="mt-1 text-sm text-gray-500">
+              When the parcel arrives, enter what came back. Only restocked units go back into stock.
+            </p>
+          )}
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-gray-200 bg-gray-50">
+                <th className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">
+                  Item
+                </th>
+                <th className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">
+                  Authorized
+                </th>
+                <th className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">
+                  Received
+                </th>
+                <th className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">
+                  Disposition
+                </th>
+                <th className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">
+                  Bin
+                </th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {rma.items.map((item) => {
+                const line = receipt[item.id]
+
+                return (
+                  <tr key={item.id}>
+                    <td className="px-4 py-3">
+                      <p className="font-medium text-gray-900">{item.name}</p>
+                      <p className="font-mono text-sm text-gray-500">{item.sku}</p>
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-700">{item.quantity}</td>
+                    {rma.status === 'OPEN' ? (
+                      <>
+                        <td className="px-4 py-3">
+                          <input
+                            type="number"
+                            min={0}
+                            max={item.quantity}
+                            value={line.receivedQuantity}
+                            onChange={(e) => updateReceipt(item.id, { receivedQuantity: e.target.value })}
+                            className="w-20 rounded-lg border border-gray-300 px-3 py-2 text-sm"
+                          />
+                        </td>
+                        <td className="px-4 py-3">
+                          <select
+                            value={line.disposition}
+                            onChange={(e) =>
+                              updateReceipt(item.id, { disposition: e.target.value as Disposition })
+                            }
+                            className="rounded-lg border border-gray-300 px-3 py-2 text-sm"
+                          >
+                            {(Object.keys(dispositionLabels) as Disposition[]).map((disposition) => (
+                              <option
+                                key={disposition}
+                                value={disposition}
+                                disabled={disposition === 'RESTOCK' && !item.hasProduct}
+                              >
+                                {dispositionLabels[disposition]}
+                              </option>
+                            ))}
+                          </select>
+                        </td>
+                        <td className="px-4 py-3">
+                          {line.disposition === 'RESTOCK' ? (
+                            <select
+                              value={line.locationId}
+                              onChange={(e) => updateReceipt(item.id, { locationId: e.target.value })}
+                              className="rounded-lg border border-gray-300 px-3 py-2 text-sm"
+                            >
+                              <option value="">
+                                {bins.length === 0 ? 'No locations set up' : 'Select a bin...'}
+                              </option>
+                              {bins.map((bin) => (
+                                <option key={bin.id} value={bin.id}>
+                                  {bin.code}
+                                </option>
+                              ))}
+                            </select>
+                          ) : (
+                            <span className="text-sm text-gray-400">—</span>
+                          )}
+                        </td>
+                      </>
+                    ) : (
+                      <>
+                        <td className="px-4 py-3 text-sm text-gray-700">{item.receivedQuantity ?? '—'}</td>
+                        <td className="px-4 py-3 text-sm text-gray-700">
+                          {item.disposition ? dispositionLabels[item.disposition] : '—'}
+                        </td>
+                        <td className="px-4 py-3 font-mono text-sm text-gray-600">{item.locationCode ?? '—'}</td>
+                      </>
+                    )}
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        </div>
+        {rma.status === 'OPEN' && (
+          <div className="flex justify-end px-6 py-4 border-t border-gray-200">
+            <button
+              onClick={handleReceive}
+              disabled={actionLoading !== null}
+              className="inline-flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-green-600 rounded-lg hover:bg-green-700 disabled:bg-green-400 disabled:cursor-not-allowed transition-colors"
+            >
+              {actionLoading === 'receive' ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : (
+                <PackageCheck className="h-4 w-4" />
+              )}
+              Receive Return
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -1,6 +1,6 @@
 'use client'
 
-import { useState } from 'react'
+import { useRef, useState } from 'react'
 import { useRouter } from 'next/navigation'
 import {
   Users,
@@ -16,6 +16,12 @@ import {
   MapPin,
   AlertCircle,
   X,
+  Plus,
+  Box,
+  Signpost,
+  Printer,
+  Send,
+  FileText,
 } from 'lucide-react'
 
 interface User {
@@ -27,27 +33,173 @@ interface User {
   createdAt: string
 }
 
+interface Warehouse {
+  id: string
+  code: string
+  name: string
+  address1: string
+  address2: string
+  city: string
+  state: string
+  zip: string
+  country: string
+  phone: string
+  isDefault: boolean
+  isActive: boolean
+}
+
+const emptyWarehouseForm = {
+  code: '',
+  name: '',
+  address1: '',
+  address2: '',
+  city: '',
+  state: '',
+  zip: '',
+  country: 'US',
+  phone: '',
+  isDefault: false,
+  isActive: true,
+}
+
+interface ShippingBox {
+  id: string
+  code: string
+  name: string
+  length: string
+  width: string
+  height: string
+  tareWeight: string
+  maxWeight: string
+  cost: string
+  isActive: boolean
+}
+
+const emptyBoxForm = {
+  code: '',
+  name: '',
+  length: '',
+  width: '',
+  height: '',
+  tareWeight: '',
+  maxWeight: '',
+  cost: '',
+  isActive: true,
+}
+
+interface NetworkPrinter {
+  id: string
+  name: string
+  host: string
+  port: string
+  protocol: 'RAW' | 'IPP'
+  ippPath: string
+  format: 'ZPL' | 'PDF'
+  isActive: boolean
+}
+
+const emptyPrinterForm: Omit<NetworkPrinter, 'id'> = {
+  name: '',
+  host: '',
+  port: '9100',
+  protocol: 'RAW',
+  ippPath: '',
+  format: 'ZPL',
+  isActive: true,
+}
+
+interface PackingSlipTemplate {
+  companyName: string
+  headerText: string
+  footerText: string
+  logoUrl: string | null
+}
+
+// List conditions are comma separated, empty conditions match every order
+interface ShippingRule {
+  id: string
+  name: string
+  priority: string
+  isActive: boolean
+  countries: string
+  states: string
+  minWeight: string
+  maxWeight: string
+  minOrderTotal: string
+  maxOrderTotal: string
+  skus: string
+  shippingMethods: string
+  action: 'SERVICE' | 'CHEAPEST'
+  carrier: string
+  serviceCode: string
+  maxTransitDays: string
+}
+
+const emptyRuleForm: Omit<ShippingRule, 'id'> = {
+  name: '',
+  priority: '0',
+  isActive: true,
+  countries: '',
+  states: '',
+  minWeight: '',
+  maxWeight: '',
+  minOrderTotal: '',
+  maxOrderTotal: '',
+  skus: '',
+  shippingMethods: '',
+  action: 'SERVICE',
+  carrier: '',
+  serviceCode: '',
+  maxTransitDays: '',
+}
+
+function formatRange(min: string, max: string, unit: string): string | null {
+  if (min && max) return `${min}–${max} ${unit}`
+  if (min) return `≥ ${min} ${unit}`
+  if (max) return `≤ ${max} ${unit}`
+  return null
+}
+
+function describeConditions(rule: ShippingRule): string {
+  const conditions = [
+    rule.countries && `Country ${rule.countries}`,
+    rule.states && `State ${rule.states}`,
+    formatRange(rule.minWeight, rule.maxWeight, 'lb'),
+    formatRange(rule.minOrderTotal, rule.maxOrderTotal, 'total'),
+    rule.skus && `SKU ${rule.skus}`,
+    rule.shippingMethods && `Method ${rule.shippingMethods}`,
+  ].filter(Boolean)
+  return conditions.length > 0 ? conditions.join(' · ') : 'Every order'
+}
+
+const carrierModeConfig = {
+  PRODUCTION: { label: 'Production', color: 'bg-green-100 text-green-800' },
+  SANDBOX: { label: 'Sandbox', color: 'bg-yellow-100 text-yellow-800' },
+  MOCK: { label: 'Mock', color: 'bg-fuchsia-100 text-fuchsia-800' },
+}
+
 interface SettingsPageClientProps {
   currentUserId: string
   users: User[]
-  carriersConfig: {
-    ups: { configured: boolean }
-    fedex: { configured: boolean }
-  }
+  carriersConfig: Array<{
+    id: string
+    name: string
+    configured: boolean
+    enabled: boolean // configured, or in mock mode
+    mode: 'PRODUCTION' | 'SANDBOX' | 'MOCK'
+    requiredEnv: string[]
+    modeEnv: string
+    services: Array<{ code: string; name: string }>
+  }>
   shopifyConfig: {
     configured: boolean
     storeDomain: string
   }
-  warehouseAddress: {
-    name: string
-    address1: string
-    address2: string
-    city: string
-    state: string
-    zip: string
-    country: string
-    phone: string
-  }
+  warehouses: Warehouse[]
+  boxes: ShippingBox[]
+  printers: NetworkPrinter[]
+  shippingRules: ShippingRule[]
+  packingSlipTemplate: PackingSlipTemplate
 }
 
 function formatDate(dateString: string): string {
@@ -65,7 +217,11 @@ export function SettingsPageClient({
   users,
   carriersConfig,
   shopifyConfig,
-  warehouseAddress,
+  warehouses,
+  boxes,
+  printers,
+  shippingRules,
+  packingSlipTemplate,
 }: SettingsPageClientProps) {
   const router = useRouter()
 
@@ -81,6 +237,48 @@ export function SettingsPageClient({
   const [userLoading, setUserLoading] = useState(false)
   const [userError, setUserError] = useState('')
 
+  // Warehouse management state
+  const [showWarehouseModal, setShowWarehouseModal] = useState(false)
+  const [editingWarehouse, setEditingWarehouse] = useState<Warehouse | null>(null)
+  const [warehouseForm, setWarehouseForm] = useState(emptyWarehouseForm)
+  const [warehouseLoading, setWarehouseLoading] = useState(false)
+  const [warehouseError, setWarehouseError] = useState('')
+
+  // Box catalog state
+  const [showBoxModal, setShowBoxModal] = useState(false)
+  const [editingBox, setEditingBox] = useState<ShippingBox | null>(null)
+  const [boxForm, setBoxForm] = useState(emptyBoxForm)
+  const [boxLoading, setBoxLoading] = useState(false)
+  const [boxError, setBoxError] = useState('')
+
+  // Printer state
+  const [showPrinterModal, setShowPrinterModal] = useState(false)
+  const [editingPrinter, setEditingPrinter] = useState<NetworkPrinter | null>(null)
+  const [printerForm, setPrinterForm] = useState(emptyPrinterForm)
+  const [printerLoading, setPrinterLoading] = useState(false)
+  const [printerError, setPrinterError] = useState('')
+  const [testingPrinterId, setTestingPrinterId] = useState<string | null>(null)
+
+  // Packing slip state
+  const [slipForm, setSlipForm] = useState({
+    companyName: packingSlipTemplate.companyName,
+    headerText: packingSlipTemplate.headerText,
+    footerText: packingSlipTemplate.footerText,
+  })
+  const [slipLogo, setSlipLogo] = useState<File | null>(null)
+  const [removeSlipLogo, setRemoveSlipLogo] = useState(false)
+  const [slipLoading, setSlipLoading] = useState(false)
+  const [slipError, setSlipError] = useState('')
+  const [slipSaved, setSlipSaved] = useState(false)
+  const slipLogoInput = useRef<HTMLInputElement>(null)
+
+  // Shipping rules state
+  const [showRuleModal, setShowRuleModal] = useState(false)
+  const [editingRule, setEditingRule] = useState<ShippingRule | null>(null)
+  const [ruleForm, setRuleForm] = useState(emptyRuleForm)
+  const [ruleLoading, setRuleLoading] = useState(false)
+  const [ruleError, setRuleError] = useState('')
+
   // Shopify state
   const [syncProductsLoading, setSyncProductsLoading] = useState(false)
   const [syncProductsResult, setSyncProductsResult] = useState<string | null>(null)
@@ -95,10 +293,10 @@ export function SettingsPageClient({
   const [webhookResult, setWebhookResult] = useState<string | null>(null)
 
   // Carrier test state
-  const [upsTestLoading, setUpsTestLoading] = useState(false)
-  const [upsTestResult, setUpsTestResult] = useState<{ success: boolean; message: string } | null>(null)
-  const [fedexTestLoading, setFedexTestLoading] = useState(false)
-  const [fedexTestResult, setFedexTestResult] = useState<{ success: boolean; message: string } | null>(null)
+  const [carrierTestLoading, setCarrierTestLoading] = useState<string | null>(null) // carrier ID being tested
+  const [carrierTestResults, setCarrierTestResults] = useState<
+    Record<string, { success: boolean; message: string } | null>
+  >({})
 
   // User management functions
   const openAddUserModal = () => {
@@ -182,6 +380,382 @@ export function SettingsPageClient({
     }
   }
 
+  // Warehouse management functions
+  const openAddWarehouseModal = () => {
+    setEditingWarehouse(null)
+    setWarehouseForm(emptyWarehouseForm)
+    setWarehouseError('')
+    setShowWarehouseModal(true)
+  }
+
+  const openEditWarehouseModal = (warehouse: Warehouse) => {
+    setEditingWarehouse(warehouse)
+    setWarehouseForm({
+      code: warehouse.code,
+      name: warehouse.name,
+      address1: warehouse.address1,
+      address2: warehouse.address2,
+      city: warehouse.city,
+      state: warehouse.state,
+      zip: warehouse.zip,
+      country: warehouse.country,
+      phone: warehouse.phone,
+      isDefault: warehouse.isDefault,
+      isActive: warehouse.isActive,
+    })
+    setWarehouseError('')
+    setShowWarehouseModal(true)
+  }
+
+  const handleWarehouseSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setWarehouseLoading(true)
+    setWarehouseError('')
+
+    try {
+      const url = editingWarehouse
+        ? `/api/warehouses/${editingWarehouse.id}`
+        : '/api/warehouses'
+      const method = editingWarehouse ? 'PUT' : 'POST'
+
+      const response = await fetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(warehouseForm),
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        setWarehouseError(data.error || 'Failed to save warehouse')
+        return
+      }
+
+      setShowWarehouseModal(false)
+      router.refresh()
+    } catch {
+      setWarehouseError('Failed to save warehouse')
+    } finally {
+      setWarehouseLoading(false)
+    }
+  }
+
+  const handleDeleteWarehouse = async (warehouseId: string) => {
+    if (!confirm('Are you sure you want to delete this warehouse?')) return
+
+    try {
+      const response = await fetch(`/api/warehouses/${warehouseId}`, {
+        method: 'DELETE',
+      })
+
+      if (!response.ok) {
+        const data = await response.json()
+        alert(data.error || 'Failed to delete warehouse')
+        return
+      }
+
+      router.refresh()
+    } catch {
+      alert('Failed to delete warehouse')
+    }
+  }
+
+  // Box catalog functions
+  const openAddBoxModal = () => {
+    setEditingBox(null)
+    setBoxForm(emptyBoxForm)
+    setBoxError('')
+    setShowBoxModal(true)
+  }
+
+  const openEditBoxModal = (box: ShippingBox) => {
+    setEditingBox(box)
+    setBoxForm({
+      code: box.code,
+      name: box.name,
+      length: box.length,
+      width: box.width,
+      height: box.height,
+      tareWeight: box.tareWeight,
+      maxWeight: box.maxWeight,
+      cost: box.cost,
+      isActive: box.isActive,
+    })
+    setBoxError('')
+    setShowBoxModal(true)
+  }
+
+  const handleBoxSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setBoxLoading(true)
+    setBoxError('')
+
+    try {
+      const url = editingBox ? `/api/boxes/${editingBox.id}` : '/api/boxes'
+      const method = editingBox ? 'PUT' : 'POST'
+
+      const response = await fetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(boxForm),
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        setBoxError(data.error || 'Failed to save box')
+        return
+      }
+
+      setShowBoxModal(false)
+      router.refresh()
+    } catch {
+      setBoxError('Failed to save box')
+    } finally {
+      setBoxLoading(false)
+    }
+  }
+
+  const handleDeleteBox = async (boxId: string) => {
+    if (!confirm('Are you sure you want to delete this box?')) return
+
+    try {
+      const response = await fetch(`/api/boxes/${boxId}`, {
+        method: 'DELETE',
+      })
+
+      if (!response.ok) {
+        const data = await response.json()
+        alert(data.error || 'Failed to delete box')
+        return
+      }
+
+      router.refresh()
+    } catch {
+      alert('Failed to delete box')
+    }
+  }
+
+  // Printer functions
+  const openAddPrinterModal = () => {
+    setEditingPrinter(null)
+    setPrinterForm(emptyPrinterForm)
+    setPrinterError('')
+    setShowPrinterModal(true)
+  }
+
+  const openEditPrinterModal = (printer: NetworkPrinter) => {
+    setEditingPrinter(printer)
+    setPrinterForm({
+      name: printer.name,
+      host: printer.host,
+      port: printer.port,
+      protocol: printer.protocol,
+      ippPath: printer.ippPath,
+      format: printer.format,
+      isActive: printer.isActive,
+    })
+    setPrinterError('')
+    setShowPrinterModal(true)
+  }
+
+  // Each protocol has its usual port
+  const setPrinterProtocol = (protocol: NetworkPrinter['protocol']) => {
+    setPrinterForm({
+      ...printerForm,
+      protocol,
+      port: protocol === 'IPP' ? '631' : '9100',
+      ippPath: protocol === 'IPP' ? printerForm.ippPath || '/ipp/print' : '',
+    })
+  }
+
+  const handlePrinterSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setPrinterLoading(true)
+    setPrinterError('')
+
+    try {
+      const url = editingPrinter ? `/api/printers/${editingPrinter.id}` : '/api/printers'
+      const method = editingPrinter ? 'PUT' : 'POST'
+
+      const response = await fetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(printerForm),
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        setPrinterError(data.error || 'Failed to save printer')
+        return
+      }
+
+      setShowPrinterModal(false)
+      router.refresh()
+    } catch {
+      setPrinterError('Failed to save printer')
+    } finally {
+      setPrinterLoading(false)
+    }
+  }
+
+  const handleDeletePrinter = async (printerId: string) => {
+    if (!confirm('Are you sure you want to delete this printer?')) return
+
+    try {
+      const response = await fetch(`/api/printers/${printerId}`, {
+        method: 'DELETE',
+      })
+
+      if (!response.ok) {
+        const data = await response.json()
+        alert(data.error || 'Failed to delete printer')
+        return
+      }
+
+      router.refresh()
+    } catch {
+      alert('Failed to delete printer')
+    }
+  }
+
+  const handleTestPrinter = async (printer: NetworkPrinter) => {
+    setTestingPrinterId(printer.id)
+
+    try {
+      const response = await fetch(`/api/printers/${printer.id}/test`, {
+        method: 'POST',
+      })
+
+      const data = await response.json()
+      alert(response.ok ? `Test label sent to ${printer.name}` : data.error || 'Test print failed')
+    } catch {
+      alert('Test print failed')
+    } finally {
+      setTestingPrinterId(null)
+    }
+  }
+
+  // Packing slip functions
+  const handleSlipSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setSlipLoading(true)
+    setSlipError('')
+    setSlipSaved(false)
+
+    try {
+      const body = new FormData()
+      body.set('companyName', slipForm.companyName)
+      body.set('headerText', slipForm.headerText)
+      body.set('footerText', slipForm.footerText)
+      if (slipLogo) {
+        body.set('logo', slipLogo)
+      } else if (removeSlipLogo) {
+        body.set('removeLogo', 'true')
+      }
+
+      const response = await fetch('/api/packing-slip-template', {
+        method: 'PUT',
+        body,
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        setSlipError(data.error || 'Failed to save packing slip')
+        return
+      }
+
+      setSlipLogo(null)
+      setRemoveSlipLogo(false)
+      setSlipSaved(true)
+      if (slipLogoInput.current) {
+        slipLogoInput.current.value = ''
+      }
+      router.refresh()
+    } catch {
+      setSlipError('Failed to save packing slip')
+    } finally {
+      setSlipLoading(false)
+    }
+  }
+
+  // Shipping rule functions
+  const openAddRuleModal = () => {
+    setEditingRule(null)
+    setRuleForm(emptyRuleForm)
+    setRuleError('')
+    setShowRuleModal(true)
+  }
+
+  const openEditRuleModal = (rule: ShippingRule) => {
+    setEditingRule(rule)
+    setRuleForm({ ...rule })
+    setRuleError('')
+    setShowRuleModal(true)
+  }
+
+  const handleRuleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setRuleLoading(true)
+    setRuleError('')
+
+    try {
+      const url = editingRule ? `/api/shipping-rules/${editingRule.id}` : '/api/shipping-rules'
+      const method = editingRule ? 'PUT' : 'POST'
+
+      const response = await fetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(ruleForm),
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        setRuleError(data.error || 'Failed to save rule')
+        return
+      }
+
+      setShowRuleModal(false)
+      router.refresh()
+    } catch {
+      setRuleError('Failed to save rule')
+    } finally {
+      setRuleLoading(false)
+    }
+  }
+
+  const handleDeleteRule = async (ruleId: string) => {
+    if (!confirm('Are you sure you want to delete this rule?')) return
+
+    try {
+      const response = await fetch(`/api/shipping-rules/${ruleId}`, {
+        method: 'DELETE',
+      })
+
+      if (!response.ok) {
+        const data = await response.json()
+        alert(data.error || 'Failed to delete rule')
+        return
+      }
+
+      router.refresh()
+    } catch {
+      alert('Failed to delete rule')
+    }
+  }
+
+  const describeChoice = (rule: ShippingRule): string => {
+    const carrier = carriersConfig.find((c) => c.id === rule.carrier)
+    if (rule.action === 'SERVICE') {
+      return carrier?.services.find((s) => s.code === rule.serviceCode)?.name ?? `${rule.carrier} ${rule.serviceCode}`
+    }
+    const within = rule.maxTransitDays ? ` within ${rule.maxTransitDays} day${rule.maxTransitDays === '1' ? '' : 's'}` : ''
+    return `Cheapest${carrier ? ` ${carrier.name}` : ''} rate${within}`
+  }
+
   // Shopify functions
   const handleSyncProducts = async () => {
     setSyncProductsLoading(true)
@@ -298,65 +872,43 @@ export function SettingsPageClient({
   }
 
   // Carrier test functions
-  const handleTestUps = async () => {
-    setUpsTestLoading(true)
-    setUpsTestResult(null)
+  const handleTestCarrier = async (carrierId: string) => {
+    const setResult = (result: { success: boolean; message: string } | null) =>
+      setCarrierTestResults((prev) => ({ ...prev, [carrierId]: result }))
+
+    setCarrierTestLoading(carrierId)
+    setResult(null)
 
     try {
       const response = await fetch('/api/carriers/test', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ carrier: 'UPS' }),
+        body: JSON.stringify({ carrier: carrierId }),
       })
       const data = await response.json()
 
-      setUpsTestResult({
+      setResult({
         success: response.ok,
         message: response.ok
           ? `Success! Got ${data.rateCount} rates`
           : data.error || 'Test failed',
       })
     } catch {
-      setUpsTestResult({ success: false, message: 'Test failed' })
+      setResult({ success: false, message: 'Test failed' })
     } finally {
-      setUpsTestLoading(false)
+      setCarrierTestLoading(null)
     }
   }
 
-  const handleTestFedex = async () => {
-    setFedexTestLoading(true)
-    setFedexTestResult(null)
-
-    try {
-      const response = await fetch('/api/carriers/test', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ carrier: 'FedEx' }),
-      })
-      const data = await response.json()
-
-      setFedexTestResult({
-        success: response.ok,
-        message: response.ok
-          ? `Success! Got ${data.rateCount} rates`
-          : data.error || 'Test failed',
-      })
-    } catch {
-      setFedexTestResult({ success: false, message: 'Test failed' })
-    } finally {
-      setFedexTestLoading(false)
-    }
-  }
-
-  return (
-    <div>
-      {/* Header */}
-      <div className="mb-6">
-        <h1 className="text-2xl font-bold text-gray-900">Settings</h1>
-        <p className="mt-1 text-sm text-gray-500">
-          Manage users, integrations, and system configuration
-        </p>
-      </div>
+  return (
+    <div>
+      {/* Header */}
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold text-gray-900">Settings</h1>
+        <p className="mt-1 text-sm text-gray-500">
+          Manage users, integrations, and system configuration
+        </p>
+      </div>
 
       <div className="space-y-8">
         {/* User Management Section */}
@@ -570,120 +1122,600 @@ export function SettingsPageClient({
             </div>
           </div>
           <div className="p-6 space-y-6">
-            {/* UPS */}
-            <div className="flex items-center justify-between p-4 bg-gray-50 rounded-lg">
-              <div className="flex items-center gap-4">
-                {carriersConfig.ups.configured ? (
-                  <CheckCircle className="h-5 w-5 text-green-500" />
-                ) : (
-                  <XCircle className="h-5 w-5 text-red-500" />
-                )}
-                <div>
-                  <p className="text-sm font-medium text-gray-900">UPS</p>
-                  <p className="text-sm text-gray-500">
-                    {carriersConfig.ups.configured
-                      ? 'Configured'
-                      : 'Not configured - set UPS_CLIENT_ID, UPS_CLIENT_SECRET, UPS_ACCOUNT_NUMBER'}
-                  </p>
-                </div>
-              </div>
-              <div className="flex items-center gap-3">
-                {upsTestResult && (
-                  <span className={`text-sm ${upsTestResult.success ? 'text-green-600' : 'text-red-600'}`}>
-                    {upsTestResult.message}
-                  </span>
-                )}
-                <button
-                  onClick={handleTestUps}
-                  disabled={upsTestLoading || !carriersConfig.ups.configured}
-                  className="inline-flex items-center gap-2 px-3 py-1.5 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            {carriersConfig.map((carrier) => {
+              const testResult = carrierTestResults[carrier.id]
+
+              return (
+                <div
+                  key={carrier.id}
+                  className="flex items-center justify-between p-4 bg-gray-50 rounded-lg"
                 >
-                  {upsTestLoading ? (
-                    <RefreshCw className="h-4 w-4 animate-spin" />
-                  ) : (
-                    'Test Connection'
-                  )}
-                </button>
-              </div>
+                  <div className="flex items-center gap-4">
+                    {carrier.enabled ? (
+                      <CheckCircle className="h-5 w-5 text-green-500" />
+                    ) : (
+                      <XCircle className="h-5 w-5 text-red-500" />
+                    )}
+                    <div>
+                      <p className="text-sm font-medium text-gray-900">
+                        {carrier.name}
+                        <span
+                          className={`ml-2 inline-flex px-2 py-0.5 rounded-full text-xs font-medium ${
+                            carrierModeConfig[carrier.mode].color
+                          }`}
+                          title={`Set by ${carrier.modeEnv}`}
+                        >
+                          {carrierModeConfig[carrier.mode].label}
+                        </span>
+                      </p>
+                      <p className="text-sm text-gray-500">
+                        {carrier.mode === 'MOCK'
+                          ? 'Mock mode - rates and labels are simulated'
+                          : carrier.configured
+                            ? 'Configured'
+                            : `Not configured - set ${carrier.requiredEnv.join(', ')}`}
+                      </p>
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-3">
+                    {testResult && (
+                      <span className={`text-sm ${testResult.success ? 'text-green-600' : 'text-red-600'}`}>
+                        {testResult.message}
+                      </span>
+                    )}
+                    <button
+                      onClick={() => handleTestCarrier(carrier.id)}
+                      disabled={carrierTestLoading !== null || !carrier.enabled}
+                      className="inline-flex items-center gap-2 px-3 py-1.5 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                    >
+                      {carrierTestLoading === carrier.id ? (
+                        <RefreshCw className="h-4 w-4 animate-spin" />
+                      ) : (
+                        'Test Connection'
+                      )}
+                    </button>
+                  </div>
+                </div>
+              )
+            })}
+          </div>
+        </section>
+
+        {/* Warehouses Section */}
+        <section className="bg-white rounded-xl shadow-sm border border-gray-200">
+          <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <MapPin className="h-5 w-5 text-gray-500" />
+              <h2 className="font-semibold text-gray-900">Warehouses</h2>
+            </div>
+            <button
+              onClick={openAddWarehouseModal}
+              className="inline-flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 transition-colors"
+            >
+              <Plus className="h-4 w-4" />
+              Add Warehouse
+            </button>
+          </div>
+          {warehouses.length === 0 ? (
+            <div className="p-6 flex items-center gap-3 text-amber-600">
+              <AlertCircle className="h-5 w-5" />
+              <p className="text-sm">No warehouses yet. Add one to rate and ship orders.</p>
             </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                      Warehouse
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                      Ship-From Address
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                      Status
+                    </th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">
+                      Actions
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {warehouses.map((warehouse) => {
+                    const incomplete = !warehouse.address1 || !warehouse.city || !warehouse.state || !warehouse.zip
 
-            {/* FedEx */}
-            <div className="flex items-center justify-between p-4 bg-gray-50 rounded-lg">
-              <div className="flex items-center gap-4">
-                {carriersConfig.fedex.configured ? (
-                  <CheckCircle className="h-5 w-5 text-green-500" />
-                ) : (
-                  <XCircle className="h-5 w-5 text-red-500" />
-                )}
+                    return (
+                      <tr key={warehouse.id} className="hover:bg-gray-50">
+                        <td className="px-6 py-4 whitespace-nowrap text-sm">
+                          <p className="font-medium text-gray-900">{warehouse.name}</p>
+                          <p className="font-mono text-xs text-gray-500">{warehouse.code}</p>
+                        </td>
+                        <td className="px-6 py-4 text-sm text-gray-700">
+                          {incomplete ? (
+                            <span className="inline-flex items-center gap-1 text-amber-600">
+                              <AlertCircle className="h-4 w-4" />
+                              Address incomplete
+                            </span>
+                          ) : (
+                            <>
+                              <p>
+                                {warehouse.address1}
+                                {warehouse.address2 && `, ${warehouse.address2}`}
+                              </p>
+                              <p className="text-gray-500">
+                                {warehouse.city}, {warehouse.state} {warehouse.zip}, {warehouse.country}
+                              </p>
+                            </>
+                          )}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap">
+                          <div className="flex gap-2">
+                            {warehouse.isDefault && (
+                              <span className="inline-flex px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
+                                Default
+                              </span>
+                            )}
+                            <span
+                              className={`inline-flex px-2.5 py-0.5 rounded-full text-xs font-medium ${
+                                warehouse.isActive
+                                  ? 'bg-green-100 text-green-800'
+                                  : 'bg-gray-100 text-gray-800'
+                              }`}
+                            >
+                              {warehouse.isActive ? 'Active' : 'Inactive'}
+                            </span>
+                          </div>
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-right">
+                          <div className="flex items-center justify-end gap-2">
+                            <button
+                              onClick={() => openEditWarehouseModal(warehouse)}
+                              className="p-1.5 text-gray-500 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+                              title="Edit warehouse"
+                            >
+                              <Edit2 className="h-4 w-4" />
+                            </button>
+                            {!warehouse.isDefault && (
+                              <button
+                                onClick={() => handleDeleteWarehouse(warehouse.id)}
+                                className="p-1.5 text-gray-500 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                                title="Delete warehouse"
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </button>
+                            )}
+                          </div>
+                        </td>
+                      </tr>
+                    )
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </section>
+
+        {/* Shipping Boxes Section */}
+        <section className="bg-white rounded-xl shadow-sm border border-gray-200">
+          <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <Box className="h-5 w-5 text-gray-500" />
+              <h2 className="font-semibold text-gray-900">Shipping Boxes</h2>
+            </div>
+            <button
+              onClick={openAddBoxModal}
+              className="inline-flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 transition-colors"
+            >
+              <Plus className="h-4 w-4" />
+              Add Box
+            </button>
+          </div>
+          {boxes.length === 0 ? (
+            <div className="p-6 flex items-center gap-3 text-amber-600">
+              <AlertCircle className="h-5 w-5" />
+              <p className="text-sm">
+                No boxes yet. Orders are rated as one box sized from the products until you add some.
+              </p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                      Box
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                      Inside (in)
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                      Tare / Max (lb)
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                      Cost
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                      Status
+                    </th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">
+                      Actions
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {boxes.map((box) => (
+                    <tr key={box.id} className="hover:bg-gray-50">
+                      <td className="px-6 py-4 whitespace-nowrap text-sm">
+                        <p className="font-medium text-gray-900">{box.name}</p>
+                        <p className="font-mono text-xs text-gray-500">{box.code}</p>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">
+                        {box.length} × {box.width} × {box.height}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">
+                        {box.tareWeight} / {box.maxWeight || '—'}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">
+                        ${parseFloat(box.cost).toFixed(2)}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <span
+                          className={`inline-flex px-2.5 py-0.5 rounded-full text-xs font-medium ${
+                            box.isActive
+                              ? 'bg-green-100 text-green-800'
+                              : 'bg-gray-100 text-gray-800'
+                          }`}
+                        >
+                          {box.isActive ? 'Active' : 'Inactive'}
+                        </span>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-right">
+                        <div className="flex items-center justify-end gap-2">
+                          <button
+                            onClick={() => openEditBoxModal(box)}
+                            className="p-1.5 text-gray-500 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+                            title="Edit box"
+                          >
+                            <Edit2 className="h-4 w-4" />
+                          </button>
+                          <button
+                            onClick={() => handleDeleteBox(box.id)}
+                            className="p-1.5 text-gray-500 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                            title="Delete box"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </section>
+
+        {/* Printers Section */}
+        <section className="bg-white rounded-xl shadow-sm border border-gray-200">
+          <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <Printer className="h-5 w-5 text-gray-500" />
+              <h2 className="font-semibold text-gray-900">Printers</h2>
+            </div>
+            <button
+              onClick={openAddPrinterModal}
+              className="inline-flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 transition-colors"
+            >
+              <Plus className="h-4 w-4" />
+              Add Printer
+            </button>
+          </div>
+          {printers.length === 0 ? (
+            <div className="p-6 flex items-center gap-3 text-gray-500">
+              <AlertCircle className="h-5 w-5" />
+              <p className="text-sm">
+                No printers yet. Labels open in the browser to print until you add one.
+              </p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                      Printer
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                      Address
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                      Format
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                      Status
+                    </th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">
+                      Actions
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {printers.map((printer) => (
+                    <tr key={printer.id} className="hover:bg-gray-50">
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                        {printer.name}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">
+                        <p className="font-mono">
+                          {printer.host}:{printer.port}
+                          {printer.protocol === 'IPP' && printer.ippPath}
+                        </p>
+                        <p className="text-xs text-gray-500">
+                          {printer.protocol === 'IPP' ? 'IPP' : 'Raw TCP'}
+                        </p>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">
+                        {printer.format}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <span
+                          className={`inline-flex px-2.5 py-0.5 rounded-full text-xs font-medium ${
+                            printer.isActive
+                              ? 'bg-green-100 text-green-800'
+                              : 'bg-gray-100 text-gray-800'
+                          }`}
+                        >
+                          {printer.isActive ? 'Active' : 'Inactive'}
+                        </span>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-right">
+                        <div className="flex items-center justify-end gap-2">
+                          <button
+                            onClick={() => handleTestPrinter(printer)}
+                            disabled={testingPrinterId === printer.id}
+                            className="p-1.5 text-gray-500 hover:text-green-600 hover:bg-green-50 rounded-lg transition-colors disabled:opacity-50"
+                            title="Print a test label"
+                          >
+                            <Send className="h-4 w-4" />
+                          </button>
+                          <button
+                            onClick={() => openEditPrinterModal(printer)}
+                            className="p-1.5 text-gray-500 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+                            title="Edit printer"
+                          >
+                            <Edit2 className="h-4 w-4" />
+                          </button>
+                          <button
+                            onClick={() => handleDeletePrinter(printer.id)}
+                            className="p-1.5 text-gray-500 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                            title="Delete printer"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </section>
+
+        {/* Packing Slips Section */}
+        <section className="bg-white rounded-xl shadow-sm border border-gray-200">
+          <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <FileText className="h-5 w-5 text-gray-500" />
+              <h2 className="font-semibold text-gray-900">Packing Slips</h2>
+            </div>
+          </div>
+          <form onSubmit={handleSlipSubmit} className="p-6 space-y-4">
+            {slipError && (
+              <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+                {slipError}
+              </div>
+            )}
+
+            <div className="grid gap-6 md:grid-cols-2">
+              <div className="space-y-4">
                 <div>
-                  <p className="text-sm font-medium text-gray-900">FedEx</p>
-                  <p className="text-sm text-gray-500">
-                    {carriersConfig.fedex.configured
-                      ? 'Configured'
-                      : 'Not configured - set FEDEX_CLIENT_ID, FEDEX_CLIENT_SECRET, FEDEX_ACCOUNT_NUMBER'}
-                  </p>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Company Name
+                  </label>
+                  <input
+                    type="text"
+                    value={slipForm.companyName}
+                    onChange={(e) => setSlipForm({ ...slipForm, companyName: e.target.value })}
+                    required
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  />
+                  <p className="mt-1 text-xs text-gray-500">Printed at the top when there is no logo</p>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Header Text
+                  </label>
+                  <textarea
+                    value={slipForm.headerText}
+                    onChange={(e) => setSlipForm({ ...slipForm, headerText: e.target.value })}
+                    rows={2}
+                    placeholder="support@example.com · example.com"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Footer Text
+                  </label>
+                  <textarea
+                    value={slipForm.footerText}
+                    onChange={(e) => setSlipForm({ ...slipForm, footerText: e.target.value })}
+                    rows={2}
+                    placeholder="Thank you for your order!"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  />
                 </div>
               </div>
-              <div className="flex items-center gap-3">
-                {fedexTestResult && (
-                  <span className={`text-sm ${fedexTestResult.success ? 'text-green-600' : 'text-red-600'}`}>
-                    {fedexTestResult.message}
-                  </span>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Logo
+                </label>
+                {packingSlipTemplate.logoUrl && !removeSlipLogo ? (
+                  <div className="mb-3 flex items-center gap-4">
+                    {/* eslint-disable-next-line @next/next/no-img-element */}
+                    <img
+                      src={packingSlipTemplate.logoUrl}
+                      alt="Packing slip logo"
+                      className="max-h-16 max-w-48 object-contain border border-gray-200 rounded p-1"
+                    />
+                    <button
+                      type="button"
+                      onClick={() => setRemoveSlipLogo(true)}
+                      className="text-sm text-red-600 hover:text-red-800"
+                    >
+                      Remove
+                    </button>
+                  </div>
+                ) : (
+                  <p className="mb-3 text-sm text-gray-500">
+                    {removeSlipLogo ? 'The logo is removed when you save.' : 'No logo uploaded.'}
+                  </p>
                 )}
-                <button
-                  onClick={handleTestFedex}
-                  disabled={fedexTestLoading || !carriersConfig.fedex.configured}
-                  className="inline-flex items-center gap-2 px-3 py-1.5 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
-                >
-                  {fedexTestLoading ? (
-                    <RefreshCw className="h-4 w-4 animate-spin" />
-                  ) : (
-                    'Test Connection'
-                  )}
-                </button>
+                <input
+                  ref={slipLogoInput}
+                  type="file"
+                  accept="image/png,image/jpeg"
+                  onChange={(e) => setSlipLogo(e.target.files?.[0] ?? null)}
+                  className="block w-full text-sm text-gray-700 file:mr-3 file:px-3 file:py-1.5 file:rounded-lg file:border-0 file:bg-gray-100 file:text-sm file:font-medium hover:file:bg-gray-200"
+                />
+                <p className="mt-1 text-xs text-gray-500">PNG or JPEG, up to 1 MB</p>
               </div>
             </div>
-          </div>
+
+            <div className="flex items-center justify-end gap-3 pt-2">
+              {slipSaved && (
+                <span className="inline-flex items-center gap-1 text-sm text-green-700">
+                  <CheckCircle className="h-4 w-4" />
+                  Saved
+                </span>
+              )}
+              <a
+                href="/api/packing-slip-template/preview"
+                target="_blank"
+                rel="noopener noreferrer"
+                title="A sample order's slip in the saved layout"
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+              >
+                Preview
+              </a>
+              <button
+                type="submit"
+                disabled={slipLoading}
+                className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                {slipLoading ? 'Saving...' : 'Save'}
+              </button>
+            </div>
+          </form>
         </section>
 
-        {/* Warehouse Section */}
+        {/* Shipping Rules Section */}
         <section className="bg-white rounded-xl shadow-sm border border-gray-200">
-          <div className="px-6 py-4 border-b border-gray-200">
+          <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
             <div className="flex items-center gap-3">
-              <MapPin className="h-5 w-5 text-gray-500" />
-              <h2 className="font-semibold text-gray-900">Warehouse Address</h2>
+              <Signpost className="h-5 w-5 text-gray-500" />
+              <h2 className="font-semibold text-gray-900">Shipping Rules</h2>
             </div>
+            <button
+              onClick={openAddRuleModal}
+              className="inline-flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 transition-colors"
+            >
+              <Plus className="h-4 w-4" />
+              Add Rule
+            </button>
           </div>
-          <div className="p-6">
-            {warehouseAddress.address1 ? (
-              <div className="space-y-2">
-                {warehouseAddress.name && (
-                  <p className="text-sm font-medium text-gray-900">{warehouseAddress.name}</p>
-                )}
-                <p className="text-sm text-gray-700">{warehouseAddress.address1}</p>
-                {warehouseAddress.address2 && (
-                  <p className="text-sm text-gray-700">{warehouseAddress.address2}</p>
-                )}
-                <p className="text-sm text-gray-700">
-                  {warehouseAddress.city}, {warehouseAddress.state} {warehouseAddress.zip}
-                </p>
-                <p className="text-sm text-gray-700">{warehouseAddress.country}</p>
-                {warehouseAddress.phone && (
-                  <p className="text-sm text-gray-500">{warehouseAddress.phone}</p>
-                )}
-              </div>
-            ) : (
-              <div className="flex items-center gap-3 text-amber-600">
-                <AlertCircle className="h-5 w-5" />
-                <p className="text-sm">Warehouse address not configured</p>
-              </div>
-            )}
-            <p className="mt-4 text-xs text-gray-400">
-              To update warehouse address, edit the environment variables:
-              WAREHOUSE_NAME, WAREHOUSE_ADDRESS1, WAREHOUSE_ADDRESS2, WAREHOUSE_CITY,
-              WAREHOUSE_STATE, WAREHOUSE_ZIP, WAREHOUSE_COUNTRY, WAREHOUSE_PHONE
-            </p>
-          </div>
+          {shippingRules.length === 0 ? (
+            <div className="p-6 flex items-center gap-3 text-gray-500">
+              <AlertCircle className="h-5 w-5" />
+              <p className="text-sm">
+                No rules yet. Packers choose every rate by hand until you add some.
+              </p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <p className="px-6 pt-4 text-sm text-gray-500">
+                Active rules are tried from the lowest priority; the first that matches picks the rate.
+              </p>
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                      Priority
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                      Rule
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                      Ships With
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                      Status
+                    </th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">
+                      Actions
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {shippingRules.map((rule) => (
+                    <tr key={rule.id} className="hover:bg-gray-50">
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">
+                        {rule.priority}
+                      </td>
+                      <td className="px-6 py-4 text-sm">
+                        <p className="font-medium text-gray-900">{rule.name}</p>
+                        <p className="text-xs text-gray-500">{describeConditions(rule)}</p>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">
+                        {describeChoice(rule)}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <span
+                          className={`inline-flex px-2.5 py-0.5 rounded-full text-xs font-medium ${
+                            rule.isActive
+                              ? 'bg-green-100 text-green-800'
+                              : 'bg-gray-100 text-gray-800'
+                          }`}
+                        >
+                          {rule.isActive ? 'Active' : 'Inactive'}
+                        </span>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-right">
+                        <div className="flex items-center justify-end gap-2">
+                          <button
+                            onClick={() => openEditRuleModal(rule)}
+                            className="p-1.5 text-gray-500 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+                            title="Edit rule"
+                          >
+                            <Edit2 className="h-4 w-4" />
+                          </button>
+                          <button
+                            onClick={() => handleDeleteRule(rule.id)}
+                            className="p-1.5 text-gray-500 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                            title="Delete rule"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
         </section>
       </div>
 
@@ -782,6 +1814,752 @@ export function SettingsPageClient({
           </div>
         </div>
       )}
+
+      {/* Warehouse Modal */}
+      {showWarehouseModal && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center">
+          <div className="fixed inset-0 bg-black/50" onClick={() => setShowWarehouseModal(false)} />
+          <div className="relative bg-white rounded-xl shadow-xl max-w-lg w-full mx-4 p-6">
+            <button
+              onClick={() => setShowWarehouseModal(false)}
+              className="absolute top-4 right-4 text-gray-400 hover:text-gray-600"
+            >
+              <X className="h-5 w-5" />
+            </button>
+
+            <h3 className="text-lg font-semibold text-gray-900 mb-4">
+              {editingWarehouse ? 'Edit Warehouse' : 'Add Warehouse'}
+            </h3>
+
+            <form onSubmit={handleWarehouseSubmit} className="space-y-4">
+              <div className="grid grid-cols-3 gap-3">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Code
+                  </label>
+                  <input
+                    type="text"
+                    value={warehouseForm.code}
+                    onChange={(e) => setWarehouseForm({ ...warehouseForm, code: e.target.value })}
+                    required
+                    placeholder="LA"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm uppercase focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  />
+                </div>
+                <div className="col-span-2">
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Name
+                  </label>
+                  <input
+                    type="text"
+                    value={warehouseForm.name}
+                    onChange={(e) => setWarehouseForm({ ...warehouseForm, name: e.target.value })}
+                    required
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Address
+                </label>
+                <input
+                  type="text"
+                  value={warehouseForm.address1}
+                  onChange={(e) => setWarehouseForm({ ...warehouseForm, address1: e.target.value })}
+                  required
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                />
+                <input
+                  type="text"
+                  value={warehouseForm.address2}
+                  onChange={(e) => setWarehouseForm({ ...warehouseForm, address2: e.target.value })}
+                  placeholder="Suite, unit (optional)"
+                  className="mt-2 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+
+              <div className="grid grid-cols-3 gap-3">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    City
+                  </label>
+                  <input
+                    type="text"
+                    value={warehouseForm.city}
+                    onChange={(e) => setWarehouseForm({ ...warehouseForm, city: e.target.value })}
+                    required
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    State
+                  </label>
+                  <input
+                    type="text"
+                    value={warehouseForm.state}
+                    onChange={(e) => setWarehouseForm({ ...warehouseForm, state: e.target.value })}
+                    required
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    ZIP
+                  </label>
+                  <input
+                    type="text"
+                    value={warehouseForm.zip}
+                    onChange={(e) => setWarehouseForm({ ...warehouseForm, zip: e.target.value })}
+                    required
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Country
+                  </label>
+                  <input
+                    type="text"
+                    value={warehouseForm.country}
+                    onChange={(e) => setWarehouseForm({ ...warehouseForm, country: e.target.value })}
+                    required
+                    maxLength={2}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm uppercase focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Phone
+                  </label>
+                  <input
+                    type="tel"
+                    value={warehouseForm.phone}
+                    onChange={(e) => setWarehouseForm({ ...warehouseForm, phone: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  />
+                </div>
+              </div>
+
+              <div className="flex gap-6">
+                <label className="inline-flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={warehouseForm.isDefault}
+                    onChange={(e) => setWarehouseForm({ ...warehouseForm, isDefault: e.target.checked })}
+                    disabled={editingWarehouse?.isDefault}
+                    className="rounded border-gray-300"
+                  />
+                  Default warehouse
+                </label>
+                <label className="inline-flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={warehouseForm.isActive}
+                    onChange={(e) => setWarehouseForm({ ...warehouseForm, isActive: e.target.checked })}
+                    disabled={warehouseForm.isDefault}
+                    className="rounded border-gray-300"
+                  />
+                  Active
+                </label>
+              </div>
+
+              {warehouseError && (
+                <p className="text-sm text-red-600">{warehouseError}</p>
+              )}
+
+              <div className="flex justify-end gap-3 pt-4">
+                <button
+                  type="button"
+                  onClick={() => setShowWarehouseModal(false)}
+                  className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={warehouseLoading}
+                  className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+                >
+                  {warehouseLoading ? 'Saving...' : editingWarehouse ? 'Save Changes' : 'Add Warehouse'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+      {/* Box Modal */}
+      {showBoxModal && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center">
+          <div className="fixed inset-0 bg-black/50" onClick={() => setShowBoxModal(false)} />
+          <div className="relative bg-white rounded-xl shadow-xl max-w-lg w-full mx-4 p-6">
+            <button
+              onClick={() => setShowBoxModal(false)}
+              className="absolute top-4 right-4 text-gray-400 hover:text-gray-600"
+            >
+              <X className="h-5 w-5" />
+            </button>
+
+            <h3 className="text-lg font-semibold text-gray-900 mb-4">
+              {editingBox ? 'Edit Box' : 'Add Box'}
+            </h3>
+
+            <form onSubmit={handleBoxSubmit} className="space-y-4">
+              <div className="grid grid-cols-3 gap-3">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Code
+                  </label>
+                  <input
+                    type="text"
+                    value={boxForm.code}
+                    onChange={(e) => setBoxForm({ ...boxForm, code: e.target.value })}
+                    required
+                    placeholder="M1"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm uppercase focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  />
+                </div>
+                <div className="col-span-2">
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Name
+                  </label>
+                  <input
+                    type="text"
+                    value={boxForm.name}
+                    onChange={(e) => setBoxForm({ ...boxForm, name: e.target.value })}
+                    required
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Inside Dimensions (L × W × H, in)
+                </label>
+                <div className="grid grid-cols-3 gap-3">
+                  {(['length', 'width', 'height'] as const).map((field) => (
+                    <input
+                      key={field}
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={boxForm[field]}
+                      onChange={(e) => setBoxForm({ ...boxForm, [field]: e.target.value })}
+                      required
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    />
+                  ))}
+                </div>
+              </div>
+
+              <div className="grid grid-cols-3 gap-3">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Tare (lb)
+                  </label>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={boxForm.tareWeight}
+                    onChange={(e) => setBoxForm({ ...boxForm, tareWeight: e.target.value })}
+                    required
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Max Weight (lb)
+                  </label>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={boxForm.maxWeight}
+                    onChange={(e) => setBoxForm({ ...boxForm, maxWeight: e.target.value })}
+                    placeholder="No limit"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Cost ($)
+                  </label>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={boxForm.cost}
+                    onChange={(e) => setBoxForm({ ...boxForm, cost: e.target.value })}
+                    required
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  />
+                </div>
+              </div>
+
+              <label className="inline-flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={boxForm.isActive}
+                  onChange={(e) => setBoxForm({ ...boxForm, isActive: e.target.checked })}
+                  className="rounded border-gray-300"
+                />
+                Active (used for cartonization)
+              </label>
+
+              {boxError && (
+                <p className="text-sm text-red-600">{boxError}</p>
+              )}
+
+              <div className="flex justify-end gap-3 pt-4">
+                <button
+                  type="button"
+                  onClick={() => setShowBoxModal(false)}
+                  className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={boxLoading}
+                  className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+                >
+                  {boxLoading ? 'Saving...' : editingBox ? 'Save Changes' : 'Add Box'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+      {/* Printer Modal */}
+      {showPrinterModal && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center">
+          <div className="fixed inset-0 bg-black/50" onClick={() => setShowPrinterModal(false)} />
+          <div className="relative bg-white rounded-xl shadow-xl max-w-lg w-full mx-4 p-6">
+            <button
+              onClick={() => setShowPrinterModal(false)}
+              className="absolute top-4 right-4 text-gray-400 hover:text-gray-600"
+            >
+              <X className="h-5 w-5" />
+            </button>
+
+            <h3 className="text-lg font-semibold text-gray-900 mb-4">
+              {editingPrinter ? 'Edit Printer' : 'Add Printer'}
+            </h3>
+
+            <form onSubmit={handlePrinterSubmit} className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Name
+                </label>
+                <input
+                  type="text"
+                  value={printerForm.name}
+                  onChange={(e) => setPrinterForm({ ...printerForm, name: e.target.value })}
+                  required
+                  placeholder="Pack Station 1"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Protocol
+                  </label>
+                  <select
+                    value={printerForm.protocol}
+                    onChange={(e) => setPrinterProtocol(e.target.value as NetworkPrinter['protocol'])}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  >
+                    <option value="RAW">Raw TCP (port 9100)</option>
+                    <option value="IPP">IPP</option>
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Format
+                  </label>
+                  <select
+                    value={printerForm.format}
+                    onChange={(e) =>
+                      setPrinterForm({ ...printerForm, format: e.target.value as NetworkPrinter['format'] })
+                    }
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  >
+                    <option value="ZPL">ZPL (thermal)</option>
+                    <option value="PDF">PDF</option>
+                  </select>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-3 gap-3">
+                <div className="col-span-2">
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Host
+                  </label>
+                  <input
+                    type="text"
+                    value={printerForm.host}
+                    onChange={(e) => setPrinterForm({ ...printerForm, host: e.target.value })}
+                    required
+                    placeholder="192.168.1.50"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm font-mono focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Port
+                  </label>
+                  <input
+                    type="number"
+                    min="1"
+                    max="65535"
+                    value={printerForm.port}
+                    onChange={(e) => setPrinterForm({ ...printerForm, port: e.target.value })}
+                    required
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  />
+                </div>
+              </div>
+
+              {printerForm.protocol === 'IPP' && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    IPP Path
+                  </label>
+                  <input
+                    type="text"
+                    value={printerForm.ippPath}
+                    onChange={(e) => setPrinterForm({ ...printerForm, ippPath: e.target.value })}
+                    placeholder="/ipp/print"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm font-mono focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  />
+                  <p className="mt-1 text-xs text-gray-500">
+                    For a CUPS queue, /printers/&lt;queue name&gt;
+                  </p>
+                </div>
+              )}
+
+              <label className="inline-flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={printerForm.isActive}
+                  onChange={(e) => setPrinterForm({ ...printerForm, isActive: e.target.checked })}
+                  className="rounded border-gray-300"
+                />
+                Active (offered at the fulfillment screen)
+              </label>
+
+              {printerError && (
+                <p className="text-sm text-red-600">{printerError}</p>
+              )}
+
+              <div className="flex justify-end gap-3 pt-4">
+                <button
+                  type="button"
+                  onClick={() => setShowPrinterModal(false)}
+                  className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={printerLoading}
+                  className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+                >
+                  {printerLoading ? 'Saving...' : editingPrinter ? 'Save Changes' : 'Add Printer'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+      {/* Shipping Rule Modal */}
+      {showRuleModal && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center">
+          <div className="fixed inset-0 bg-black/50" onClick={() => setShowRuleModal(false)} />
+          <div className="relative bg-white rounded-xl shadow-xl max-w-2xl w-full mx-4 p-6 max-h-[90vh] overflow-y-auto">
+            <button
+              onClick={() => setShowRuleModal(false)}
+              className="absolute top-4 right-4 text-gray-400 hover:text-gray-600"
+            >
+              <X className="h-5 w-5" />
+            </button>
+
+            <h3 className="text-lg font-semibold text-gray-900 mb-4">
+              {editingRule ? 'Edit Rule' : 'Add Rule'}
+            </h3>
+
+            <form onSubmit={handleRuleSubmit} className="space-y-4">
+              <div className="grid grid-cols-4 gap-3">
+                <div className="col-span-3">
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Name
+                  </label>
+                  <input
+                    type="text"
+                    value={ruleForm.name}
+                    onChange={(e) => setRuleForm({ ...ruleForm, name: e.target.value })}
+                    required
+                    placeholder="Heavy orders go Ground"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Priority
+                  </label>
+                  <input
+                    type="number"
+                    step="1"
+                    value={ruleForm.priority}
+                    onChange={(e) => setRuleForm({ ...ruleForm, priority: e.target.value })}
+                    required
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  />
+                </div>
+              </div>
+
+              <div>
+                <p className="text-sm font-medium text-gray-900">When the order matches</p>
+                <p className="text-xs text-gray-500">Leave a condition empty to match every order. Lists are comma separated.</p>
+              </div>
+
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Countries
+                  </label>
+                  <input
+                    type="text"
+                    value={ruleForm.countries}
+                    onChange={(e) => setRuleForm({ ...ruleForm, countries: e.target.value })}
+                    placeholder="US, CA"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    States
+                  </label>
+                  <input
+                    type="text"
+                    value={ruleForm.states}
+                    onChange={(e) => setRuleForm({ ...ruleForm, states: e.target.value })}
+                    placeholder="CA, OR, WA"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-4 gap-3">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Min Weight (lb)
+                  </label>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={ruleForm.minWeight}
+                    onChange={(e) => setRuleForm({ ...ruleForm, minWeight: e.target.value })}
+                    placeholder="Any"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Max Weight (lb)
+                  </label>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={ruleForm.maxWeight}
+                    onChange={(e) => setRuleForm({ ...ruleForm, maxWeight: e.target.value })}
+                    placeholder="Any"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Min Total ($)
+                  </label>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={ruleForm.minOrderTotal}
+                    onChange={(e) => setRuleForm({ ...ruleForm, minOrderTotal: e.target.value })}
+                    placeholder="Any"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Max Total ($)
+                  </label>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={ruleForm.maxOrderTotal}
+                    onChange={(e) => setRuleForm({ ...ruleForm, maxOrderTotal: e.target.value })}
+                    placeholder="Any"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Contains SKU
+                  </label>
+                  <input
+                    type="text"
+                    value={ruleForm.skus}
+                    onChange={(e) => setRuleForm({ ...ruleForm, skus: e.target.value })}
+                    placeholder="Any"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Shopify Shipping Method
+                  </label>
+                  <input
+                    type="text"
+                    value={ruleForm.shippingMethods}
+                    onChange={(e) => setRuleForm({ ...ruleForm, shippingMethods: e.target.value })}
+                    placeholder="Express"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  />
+                </div>
+              </div>
+
+              <div>
+                <p className="text-sm font-medium text-gray-900">Ship with</p>
+                <div className="mt-2 flex gap-6">
+                  <label className="inline-flex items-center gap-2 text-sm text-gray-700">
+                    <input
+                      type="radio"
+                      checked={ruleForm.action === 'SERVICE'}
+                      onChange={() => setRuleForm({ ...ruleForm, action: 'SERVICE' })}
+                    />
+                    A specific service
+                  </label>
+                  <label className="inline-flex items-center gap-2 text-sm text-gray-700">
+                    <input
+                      type="radio"
+                      checked={ruleForm.action === 'CHEAPEST'}
+                      onChange={() => setRuleForm({ ...ruleForm, action: 'CHEAPEST' })}
+                    />
+                    The cheapest rate
+                  </label>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Carrier
+                  </label>
+                  <select
+                    value={ruleForm.carrier}
+                    onChange={(e) => setRuleForm({ ...ruleForm, carrier: e.target.value, serviceCode: '' })}
+                    required={ruleForm.action === 'SERVICE'}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  >
+                    <option value="">{ruleForm.action === 'SERVICE' ? 'Select a carrier' : 'Any carrier'}</option>
+                    {carriersConfig.map((carrier) => (
+                      <option key={carrier.id} value={carrier.id}>
+                        {carrier.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                {ruleForm.action === 'SERVICE' ? (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Service
+                    </label>
+                    <select
+                      value={ruleForm.serviceCode}
+                      onChange={(e) => setRuleForm({ ...ruleForm, serviceCode: e.target.value })}
+                      required
+                      disabled={!ruleForm.carrier}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    >
+                      <option value="">Select a service</option>
+                      {carriersConfig
+                        .find((carrier) => carrier.id === ruleForm.carrier)
+                        ?.services.map((service) => (
+                          <option key={service.code} value={service.code}>
+                            {service.name}
+                          </option>
+                        ))}
+                    </select>
+                  </div>
+                ) : (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Max Transit Days
+                    </label>
+                    <input
+                      type="number"
+                      min="1"
+                      step="1"
+                      value={ruleForm.maxTransitDays}
+                      onChange={(e) => setRuleForm({ ...ruleForm, maxTransitDays: e.target.value })}
+                      placeholder="No limit"
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    />
+                  </div>
+                )}
+              </div>
+
+              <label className="inline-flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={ruleForm.isActive}
+                  onChange={(e) => setRuleForm({ ...ruleForm, isActive: e.target.checked })}
+                  className="rounded border-gray-300"
+                />
+                Active
+              </label>
+
+              {ruleError && (
+                <p className="text-sm text-red-600">{ruleError}</p>
+              )}
+
+              <div className="flex justify-end gap-3 pt-4">
+                <button
+                  type="button"
+                  onClick={() => setShowRuleModal(false)}
+                  className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={ruleLoading}
+                  className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+                >
+                  {ruleLoading ? 'Saving...' : editingRule ? 'Save Changes' : 'Add Rule'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
     </div>
   )
 }
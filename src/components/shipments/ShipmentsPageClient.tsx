@@ -10,8 +10,17 @@ import {
   Package,
   Calendar,
   DollarSign,
+  AlertTriangle,
+  RefreshCw,
+  Loader2,
+  Eye,
+  RotateCcw,
 } from 'lucide-react'
 
+type TrackingStatus = 'LABEL_CREATED' | 'IN_TRANSIT' | 'OUT_FOR_DELIVERY' | 'DELIVERED' | 'EXCEPTION'
+
+type CarrierMode = 'PRODUCTION' | 'SANDBOX' | 'MOCK'
+
 interface Shipment {
   id: string
   createdAt: string
@@ -19,30 +28,50 @@ interface Shipment {
   orderNumber: string
   customerName: string
   carrier: string
+  carrierMode: CarrierMode
   service: string
   trackingNumber: string | null
+  trackingUrl: string | null
   shipmentCost: string
   shippedBy: string
   labelUrl: string | null
+  labelFormat: string | null // "PNG", "PDF" or "ZPL"
+  voided: boolean
+  trackingStatus: TrackingStatus
+  trackingUpdatedAt: string | null
+  deliveredAt: string | null
 }
 
 interface ShipmentsPageClientProps {
   shipments: Shipment[]
   totalShippingCost: string
+  exceptionCount: number
   currentRange: string
   currentFrom?: string
   currentTo?: string
   currentSearch?: string
+  currentStatus?: TrackingStatus
+  defaultPrinter: string | null // name of the user's network printer
 }
 
-function getTrackingUrl(carrier: string, trackingNumber: string): string {
-  if (carrier === 'UPS') {
-    return `https://www.ups.com/track?tracknum=${trackingNumber}`
-  }
-  if (carrier === 'FedEx') {
-    return `https://www.fedex.com/fedextrack/?trknbr=${trackingNumber}`
-  }
-  return '#'
+const carrierColors: Record<string, string> = {
+  UPS: 'bg-amber-100 text-amber-800',
+  FedEx: 'bg-purple-100 text-purple-800',
+  USPS: 'bg-sky-100 text-sky-800',
+}
+
+// Production labels get no badge
+const carrierModeConfig: Record<Exclude<CarrierMode, 'PRODUCTION'>, { label: string; color: string }> = {
+  SANDBOX: { label: 'Sandbox', color: 'bg-yellow-100 text-yellow-800' },
+  MOCK: { label: 'Mock', color: 'bg-fuchsia-100 text-fuchsia-800' },
+}
+
+const trackingStatusConfig: Record<TrackingStatus, { label: string; color: string }> = {
+  LABEL_CREATED: { label: 'Label Created', color: 'bg-gray-100 text-gray-800' },
+  IN_TRANSIT: { label: 'In Transit', color: 'bg-blue-100 text-blue-800' },
+  OUT_FOR_DELIVERY: { label: 'Out for Delivery', color: 'bg-indigo-100 text-indigo-800' },
+  DELIVERED: { label: 'Delivered', color: 'bg-green-100 text-green-800' },
+  EXCEPTION: { label: 'Exception', color: 'bg-red-100 text-red-800' },
 }
 
 function formatDate(dateString: string): string {
@@ -66,10 +95,13 @@ function formatCurrency(amount: string): string {
 export function ShipmentsPageClient({
   shipments,
   totalShippingCost,
+  exceptionCount,
   currentRange,
   currentFrom,
   currentTo,
   currentSearch,
+  currentStatus,
+  defaultPrinter,
 }: ShipmentsPageClientProps) {
   const router = useRouter()
   const searchParams = useSearchParams()
@@ -77,6 +109,10 @@ export function ShipmentsPageClient({
   const [range, setRange] = useState(currentRange)
   const [customFrom, setCustomFrom] = useState(currentFrom || '')
   const [customTo, setCustomTo] = useState(currentTo || '')
+  const [isRefreshing, setIsRefreshing] = useState(false)
+  const [refreshMessage, setRefreshMessage] = useState<string | null>(null)
+  const [refreshError, setRefreshError] = useState<string | null>(null)
+  const [reprintingId, setReprintingId] = useState<string | null>(null)
 
   const updateFilters = (newParams: Record<string, string | undefined>) => {
     const params = new URLSearchParams(searchParams.toString())
@@ -124,6 +160,47 @@ export function ShipmentsPageClient({
     window.open(labelUrl, '_blank')
   }
 
+  const handleReprint = async (shipmentId: string) => {
+    setReprintingId(shipmentId)
+
+    try {
+      const response = await fetch(`/api/shipping/label/${shipmentId}/print`, { method: 'POST' })
+      if (!response.ok) {
+        const data = await response.json()
+        alert(data.error || 'Failed to print label')
+      }
+    } catch {
+      alert('Failed to print label')
+    } finally {
+      setReprintingId(null)
+    }
+  }
+
+  const handleRefreshTracking = async () => {
+    setIsRefreshing(true)
+    setRefreshError(null)
+    setRefreshMessage(null)
+
+    try {
+      const response = await fetch('/api/tracking/refresh', { method: 'POST' })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to refresh tracking')
+      }
+
+      setRefreshMessage(
+        `Checked ${data.checked} shipment${data.checked !== 1 ? 's' : ''}, ${data.updated} updated` +
+          (data.errors.length > 0 ? `, ${data.errors.length} could not be tracked` : '')
+      )
+      router.refresh()
+    } catch (err) {
+      setRefreshError(err instanceof Error ? err.message : 'Failed to refresh tracking')
+    } finally {
+      setIsRefreshing(false)
+    }
+  }
+
   const rangeOptions = [
     { value: 'today', label: 'Today' },
     { value: '7days', label: 'Last 7 Days' },
@@ -134,13 +211,38 @@ export function ShipmentsPageClient({
   return (
     <div>
       {/* Header */}
-      <div className="mb-6">
-        <h1 className="text-2xl font-bold text-gray-900">Shipments</h1>
-        <p className="mt-1 text-sm text-gray-500">
-          View and manage all shipments
-        </p>
+      <div className="mb-6 flex items-start justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Shipments</h1>
+          <p className="mt-1 text-sm text-gray-500">
+            View and manage all shipments
+          </p>
+        </div>
+        <button
+          onClick={handleRefreshTracking}
+          disabled={isRefreshing}
+          className="inline-flex items-center gap-2 px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          {isRefreshing ? (
+            <Loader2 className="h-4 w-4 animate-spin" />
+          ) : (
+            <RefreshCw className="h-4 w-4" />
+          )}
+          Refresh Tracking
+        </button>
       </div>
 
+      {refreshMessage && (
+        <div className="mb-6 p-3 bg-green-50 border border-green-200 rounded-lg text-sm text-green-700">
+          {refreshMessage}
+        </div>
+      )}
+      {refreshError && (
+        <div className="mb-6 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+          {refreshError}
+        </div>
+      )}
+
       {/* Stats Card */}
       <div className="mb-6 bg-white rounded-xl shadow-sm border border-gray-200 p-6">
         <div className="flex items-center justify-between">
@@ -156,9 +258,20 @@ export function ShipmentsPageClient({
             <DollarSign className="h-6 w-6 text-green-600" />
           </div>
         </div>
-        <p className="mt-2 text-sm text-gray-500">
-          {shipments.length} shipment{shipments.length !== 1 ? 's' : ''}
-        </p>
+        <div className="mt-2 flex items-center gap-4">
+          <p className="text-sm text-gray-500">
+            {shipments.length} shipment{shipments.length !== 1 ? 's' : ''}
+          </p>
+          {exceptionCount > 0 && (
+            <button
+              onClick={() => updateFilters({ status: 'EXCEPTION' })}
+              className="inline-flex items-center gap-1 text-sm font-medium text-red-600 hover:text-red-800"
+            >
+              <AlertTriangle className="h-4 w-4" />
+              {exceptionCount} exception{exceptionCount !== 1 ? 's' : ''}
+            </button>
+          )}
+        </div>
       </div>
 
       {/* Filters */}
@@ -178,6 +291,20 @@ export function ShipmentsPageClient({
             </div>
           </form>
 
+          {/* Tracking Status */}
+          <select
+            value={currentStatus || ''}
+            onChange={(e) => updateFilters({ status: e.target.value || undefined })}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          >
+            <option value="">All Statuses</option>
+            {Object.entries(trackingStatusConfig).map(([value, { label }]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+
           {/* Date Range */}
           <div className="flex items-center gap-2">
             <Calendar className="h-4 w-4 text-gray-400" />
@@ -255,6 +382,9 @@ export function ShipmentsPageClient({
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Tracking #
                 </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Status
+                </th>
                 <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Cost
                 </th>
@@ -269,16 +399,16 @@ export function ShipmentsPageClient({
             <tbody className="bg-white divide-y divide-gray-200">
               {shipments.length === 0 ? (
                 <tr>
-                  <td colSpan={9} className="px-6 py-12 text-center">
+                  <td colSpan={10} className="px-6 py-12 text-center">
                     <Package className="mx-auto h-12 w-12 text-gray-300" />
                     <p className="mt-4 text-sm text-gray-500">
-                      No shipments found for the selected period.
+                      No shipments found for the selected filters.
                     </p>
                   </td>
                 </tr>
               ) : (
                 shipments.map((shipment) => (
-                  <tr key={shipment.id} className="hover:bg-gray-50">
+                  <tr key={shipment.id} className={`hover:bg-gray-50 ${shipment.voided ? 'opacity-60' : ''}`}>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                       {formatDate(shipment.createdAt)}
                     </td>
@@ -296,13 +426,25 @@ export function ShipmentsPageClient({
                     <td className="px-6 py-4 whitespace-nowrap">
                       <span
                         className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
-                          shipment.carrier === 'UPS'
-                            ? 'bg-amber-100 text-amber-800'
-                            : 'bg-purple-100 text-purple-800'
+                          carrierColors[shipment.carrier] || 'bg-gray-100 text-gray-800'
                         }`}
                       >
                         {shipment.carrier}
                       </span>
+                      {shipment.carrierMode !== 'PRODUCTION' && (
+                        <span
+                          className={`ml-2 inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
+                            carrierModeConfig[shipment.carrierMode].color
+                          }`}
+                        >
+                          {carrierModeConfig[shipment.carrierMode].label}
+                        </span>
+                      )}
+                      {shipment.voided && (
+                        <span className="ml-2 inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-700">
+                          Voided
+                        </span>
+                      )}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                       {shipment.service}
@@ -310,7 +452,7 @@ export function ShipmentsPageClient({
                     <td className="px-6 py-4 whitespace-nowrap">
                       {shipment.trackingNumber ? (
                         <a
-                          href={getTrackingUrl(shipment.carrier, shipment.trackingNumber)}
+                          href={shipment.trackingUrl || '#'}
                           target="_blank"
                           rel="noopener noreferrer"
                           className="inline-flex items-center gap-1 text-sm font-mono text-blue-600 hover:text-blue-800"
@@ -322,20 +464,66 @@ export function ShipmentsPageClient({
                         <span className="text-sm text-gray-400">N/A</span>
                       )}
                     </td>
-                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 text-right">
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      {!shipment.voided && (
+                        <span
+                          title={
+                            shipment.trackingUpdatedAt
+                              ? `Checked ${formatDate(shipment.trackingUpdatedAt)}`
+                              : 'Not checked yet'
+                          }
+                          className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
+                            trackingStatusConfig[shipment.trackingStatus].color
+                          }`}
+                        >
+                          {trackingStatusConfig[shipment.trackingStatus].label}
+                        </span>
+                      )}
+                      {shipment.deliveredAt && (
+                        <p className="mt-1 text-xs text-gray-500">{formatDate(shipment.deliveredAt)}</p>
+                      )}
+                    </td>
+                    <td
+                      className={`px-6 py-4 whitespace-nowrap text-sm text-right ${
+                        shipment.voided ? 'text-gray-400 line-through' : 'text-gray-900'
+                      }`}
+                    >
                       {formatCurrency(shipment.shipmentCost)}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                       {shipment.shippedBy}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-right">
-                      {shipment.labelUrl && (
+                      {shipment.labelUrl && !shipment.voided && (
                         <button
                           onClick={() => handlePrintLabel(shipment.labelUrl!)}
                           className="inline-flex items-center gap-1 px-3 py-1.5 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
                         >
                           <Printer className="h-4 w-4" />
-                          Print Label
+                          {shipment.labelFormat === 'ZPL' ? 'Print ZPL' : 'Print Label'}
+                        </button>
+                      )}
+                      {shipment.labelFormat === 'ZPL' && !shipment.voided && (
+                        <button
+                          onClick={() => handlePrintLabel(`/api/shipping/label/${shipment.id}/preview`)}
+                          title="Preview label"
+                          className="ml-2 inline-flex items-center px-2 py-1.5 text-sm text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+                        >
+                          <Eye className="h-4 w-4" />
+                        </button>
+                      )}
+                      {defaultPrinter && shipment.labelUrl && !shipment.voided && (
+                        <button
+                          onClick={() => handleReprint(shipment.id)}
+                          disabled={reprintingId !== null}
+                          title={`Reprint on ${defaultPrinter}`}
+                          className="ml-2 inline-flex items-center px-2 py-1.5 text-sm text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50"
+                        >
+                          {reprintingId === shipment.id ? (
+                            <Loader2 className="h-4 w-4 animate-spin" />
+                          ) : (
+                            <RotateCcw className="h-4 w-4" />
+                          )}
                         </button>
                       )}
                     </td>
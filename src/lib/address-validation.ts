@@ -0,0 +1,310 @@
+/**
+ * Address validation
+ *
+ * An order's shipping address is checked with the carriers before a label is
+ * rated: UPS Address Validation, then FedEx address resolution, whichever
+ * first gives an answer. The check runs when an order comes in from Shopify
+ * or its address changes, and when the fulfillment screen opens an order that
+ * hasn't been checked yet.
+ *
+ * The result is stored on the order:
+ * - VALID: the carrier found the address as written
+ * - SUGGESTED: the carrier found it written differently (a missing ZIP+4, a
+ *   misspelt street). The carrier's version can replace the order's.
+ * - INVALID: the carrier found nothing like it, the parcel likely won't arrive
+ * - UNVERIFIED: no carrier could check it, e.g. the country isn't covered
+ *
+ * The carrier also says whether the address is a home or a business, which
+ * rates and labels are then bought with instead of leaving the carrier to
+ * guess (and bill a residential surcharge later).
+ */
+
+import { prisma } from '@/src/lib/db'
+import { Prisma, type AddressStatus, type AddressType, type Order } from '@/app/generated/prisma/client'
+import { getEnabledCarriers, type CarrierAddress, type CarrierAddressCheck } from '@/src/lib/carriers'
+
+export interface AddressCheckView {
+  status: AddressStatus
+  type: AddressType
+  suggestion: CarrierAddress | null
+  message: string | null
+  carrier: string | null
+  checkedAt: string | null
+}
+
+type OrderAddress = Pick<
+  Order,
+  | 'shippingAddress1'
+  | 'shippingAddress2'
+  | 'shippingCity'
+  | 'shippingState'
+  | 'shippingZip'
+  | 'shippingCountry'
+>
+
+// Written to an order whose address is new or changed, so it is checked again
+export const UNCHECKED_ADDRESS = {
+  addressStatus: 'UNCHECKED',
+  addressType: 'UNKNOWN',
+  addressSuggestion: Prisma.DbNull,
+  addressMessage: null,
+  addressCarrier: null,
+  addressCheckedAt: null,
+} satisfies Prisma.OrderUpdateInput
+
+// USPS standard abbreviations, so "123 Main Street" matches "123 MAIN ST"
+const ABBREVIATIONS: Record<string, string> = {
+  ALLEY: 'ALY',
+  APARTMENT: 'APT',
+  AVENUE: 'AVE',
+  BOULEVARD: 'BLVD',
+  BUILDING: 'BLDG',
+  CIRCLE: 'CIR',
+  COURT: 'CT',
+  DRIVE: 'DR',
+  EAST: 'E',
+  EXPRESSWAY: 'EXPY',
+  FLOOR: 'FL',
+  HIGHWAY: 'HWY',
+  LANE: 'LN',
+  NORTH: 'N',
+  NORTHEAST: 'NE',
+  NORTHWEST: 'NW',
+  PARKWAY: 'PKWY',
+  PLACE: 'PL',
+  ROAD: 'RD',
+  ROOM: 'RM',
+  ROUTE: 'RTE',
+  SOUTH: 'S',
+  SOUTHEAST: 'SE',
+  SOUTHWEST: 'SW',
+  SQUARE: 'SQ',
+  STREET: 'ST',
+  SUITE: 'STE',
+  TERRACE: 'TER',
+  TRAIL: 'TRL',
+  WEST: 'W',
+}
+
+/**
+ * The order's shipping address as carriers take it
+ */
+export function toCarrierAddress(order: OrderAddress): CarrierAddress {
+  return {
+    addressLine1: order.shippingAddress1,
+    addressLine2: order.shippingAddress2 || undefined,
+    city: order.shippingCity,
+    state: order.shippingState,
+    postalCode: order.shippingZip,
+    countryCode: order.shippingCountry,
+  }
+}
+
+/**
+ * Whether the shipping address differs between two versions of an order
+ */
+export function isAddressChanged(before: OrderAddress, after: OrderAddress): boolean {
+  return (
+    before.shippingAddress1 !== after.shippingAddress1 ||
+    (before.shippingAddress2 || '') !== (after.shippingAddress2 || '') ||
+    before.shippingCity !== after.shippingCity ||
+    before.shippingState !== after.shippingState ||
+    before.shippingZip !== after.shippingZip ||
+    before.shippingCountry !== after.shippingCountry
+  )
+}
+
+/**
+ * The residential flag to rate and ship with, left out while unknown
+ */
+export function toResidential(type: AddressType): boolean | undefined {
+  if (type === 'RESIDENTIAL') return true
+  if (type === 'COMMERCIAL') return false
+  return undefined
+}
+
+/**
+ * The suggested address stored on the order, if there is one
+ */
+export function readAddressSuggestion(value: Prisma.JsonValue | null): CarrierAddress | null {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return null
+  const { addressLine1, addressLine2, city, state, postalCode, countryCode } = value
+  if (
+    typeof addressLine1 !== 'string' ||
+    typeof city !== 'string' ||
+    typeof state !== 'string' ||
+    typeof postalCode !== 'string' ||
+    typeof countryCode !== 'string'
+  ) {
+    return null
+  }
+  return {
+    addressLine1,
+    addressLine2: typeof addressLine2 === 'string' ? addressLine2 : undefined,
+    city,
+    state,
+    postalCode,
+    countryCode,
+  }
+}
+
+/**
+ * The stored check, for the fulfillment screen
+ */
+export function toAddressCheckView(
+  order: Pick<
+    Order,
+    | 'addressStatus'
+    | 'addressType'
+    | 'addressSuggestion'
+    | 'addressMessage'
+    | 'addressCarrier'
+    | 'addressCheckedAt'
+  >
+): AddressCheckView {
+  return {
+    status: order.addressStatus,
+    type: order.addressType,
+    suggestion: readAddressSuggestion(order.addressSuggestion),
+    message: order.addressMessage,
+    carrier: order.addressCarrier,
+    checkedAt: order.addressCheckedAt?.toISOString() ?? null,
+  }
+}
+
+function normalizeText(value: string | undefined): string {
+  return (value ?? '')
+    .toUpperCase()
+    .replace(/[.,#'-]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((word) => ABBREVIATIONS[word] ?? word)
+    .join(' ')
+}
+
+/**
+ * Whether the carrier's version is the same address, ignoring case,
+ * punctuation, abbreviations and a ZIP+4 the customer left out
+ */
+function isSameAddress(given: CarrierAddress, candidate: CarrierAddress): boolean {
+  const street = (address: CarrierAddress) =>
+    normalizeText(`${address.addressLine1} ${address.addressLine2 ?? ''}`)
+  const postalCode = (address: CarrierAddress) => {
+    const code = address.postalCode.replace(/\s/g, '').toUpperCase()
+    return address.countryCode.toUpperCase() === 'US' ? code.slice(0, 5) : code
+  }
+
+  return (
+    street(given) === street(candidate) &&
+    normalizeText(given.city) === normalizeText(candidate.city) &&
+    normalizeText(given.state) === normalizeText(candidate.state) &&
+    postalCode(given) === postalCode(candidate)
+  )
+}
+
+/**
+ * Ask the enabled carriers that validate addresses, in turn, until one
+ * answers
+ *
+ * @returns The first answer and who gave it, or every carrier's error
+ */
+async function checkWithCarriers(
+  address: CarrierAddress
+): Promise<{ check?: CarrierAddressCheck; carrier?: string; errors: string[] }> {
+  const errors: string[] = []
+
+  for (const carrier of getEnabledCarriers()) {
+    if (!carrier.validateAddress) continue
+
+    const result = await carrier.validateAddress(address)
+    if (result.check) {
+      return { check: result.check, carrier: carrier.name, errors }
+    }
+    errors.push(`${carrier.name}: ${result.error ?? 'No answer'}`)
+  }
+
+  return { errors }
+}
+
+/**
+ * Check an order's shipping address with the carriers and store the result
+ *
+ * @returns The stored result, or an error if the order wasn't found
+ */
+export async function validateOrderAddress(
+  orderId: string
+): Promise<{ check?: AddressCheckView; error?: string }> {
+  const order = await prisma.order.findUnique({ where: { id: orderId } })
+  if (!order) {
+    return { error: 'Order not found' }
+  }
+
+  const address = toCarrierAddress(order)
+  const { check, carrier, errors } = await checkWithCarriers(address)
+
+  let status: AddressStatus
+  let suggestion: CarrierAddress | null = null
+  let message = check?.message ?? null
+
+  if (!check) {
+    status = 'UNVERIFIED'
+    message = errors.length > 0 ? errors.join('; ') : 'No carrier that validates addresses is configured'
+  } else if (check.match === 'NOT_FOUND' || !check.candidate) {
+    status = 'INVALID'
+    message = message ?? `${carrier} could not find this address`
+  } else if (check.match === 'FOUND' && isSameAddress(address, check.candidate)) {
+    status = 'VALID'
+  } else {
+    status = 'SUGGESTED'
+    suggestion = check.candidate
+  }
+
+  // Only while the order still has the address that was checked; an address
+  // changed in the meantime gets its own check and this result is dropped
+  const { count } = await prisma.order.updateMany({
+    where: {
+      id: order.id,
+      shippingAddress1: order.shippingAddress1,
+      shippingAddress2: order.shippingAddress2,
+      shippingCity: order.shippingCity,
+      shippingState: order.shippingState,
+      shippingZip: order.shippingZip,
+      shippingCountry: order.shippingCountry,
+    },
+    data: {
+      addressStatus: status,
+      addressType: check && status !== 'INVALID' ? check.type : 'UNKNOWN',
+      addressSuggestion: suggestion ? { ...suggestion } : Prisma.DbNull,
+      addressMessage: message,
+      addressCarrier: carrier ?? null,
+      addressCheckedAt: new Date(),
+    },
+  })
+
+  const updated = await prisma.order.findUnique({ where: { id: order.id } })
+  if (!updated) {
+    return { error: 'Order not found' }
+  }
+  if (count === 0) {
+    console.log(`[Address] ${order.orderNumber}: address changed during the check, result dropped`)
+    return { check: toAddressCheckView(updated) }
+  }
+
+  console.log(`[Address] ${order.orderNumber}: ${status}${carrier ? ` (${carrier})` : ''}`)
+  return { check: toAddressCheckView(updated) }
+}
+
+/**
+ * Check the addresses of orders that came in or changed, one at a time.
+ * Failures are logged, the orders stay unchecked until the fulfillment screen
+ * opens them.
+ */
+export async function validateOrderAddresses(orderIds: string[]): Promise<void> {
+  for (const orderId of orderIds) {
+    try {
+      await validateOrderAddress(orderId)
+    } catch (error) {
+      console.error(`[Address] Failed to check order ${orderId}:`, error)
+    }
+  }
+}
@@ -11,9 +11,11 @@ export const authConfig: NextAuthConfig = {
       const isAuthApi = nextUrl.pathname.startsWith('/api/auth')
       const isWebhook = nextUrl.pathname.startsWith('/api/webhooks')
       const isPublicApi = nextUrl.pathname.startsWith('/api/shopify/register-webhooks')
+      // Checks its own session or CRON_SECRET so a scheduler can call it
+      const isTrackingRefresh = nextUrl.pathname.startsWith('/api/tracking/refresh')
 
       // Allow public routes
-      if (isAuthApi || isWebhook || isPublicApi) {
+      if (isAuthApi || isWebhook || isPublicApi || isTrackingRefresh) {
         return true
       }
 
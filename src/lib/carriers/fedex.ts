@@ -3,6 +3,11 @@
  *
  * Uses OAuth 2.0 client_credentials flow for authentication.
  * Production API: https://apis.fedex.com
+ * Sandbox API: https://apis-sandbox.fedex.com
+ *
+ * FEDEX_MODE picks production, sandbox (default) or mock; see src/lib/carriers/mode.ts.
+ * Outside production FEDEX_BASE_URL overrides the API host, e.g. to use
+ * scripts/mock-carrier-server.ts.
  *
  * Required environment variables:
  *   - FEDEX_API_KEY (client_id)
@@ -10,8 +15,15 @@
  *   - FEDEX_ACCOUNT_NUMBER
  */
 
-const FEDEX_BASE_URL = 'https://apis.fedex.com'
-const FEDEX_OAUTH_URL = `${FEDEX_BASE_URL}/oauth/token`
+import type { CarrierMode, TrackingStatus } from '@/app/generated/prisma/client'
+import type { ShipFromAddress } from '@/src/lib/warehouses'
+import type { CarrierAddress, CarrierAddressCheck, CustomsDeclaration } from '@/src/lib/carriers'
+import { readBaseUrlOverride, readCarrierMode } from '@/src/lib/carriers/mode'
+
+const FEDEX_BASE_URLS = {
+  PRODUCTION: 'https://apis.fedex.com',
+  SANDBOX: 'https://apis-sandbox.fedex.com',
+}
 
 // In-memory token cache
 let cachedToken: {
@@ -40,6 +52,21 @@ function getConfig(): FedExConfig | null {
   return { apiKey, secretKey, accountNumber }
 }
 
+/**
+ * FedEx mode from FEDEX_MODE
+ */
+export function getMode(): CarrierMode {
+  return readCarrierMode('FEDEX_MODE')
+}
+
+function getBaseUrl(): string {
+  const mode = getMode()
+  return (
+    readBaseUrlOverride('FEDEX_BASE_URL', mode) ??
+    (mode === 'PRODUCTION' ? FEDEX_BASE_URLS.PRODUCTION : FEDEX_BASE_URLS.SANDBOX)
+  )
+}
+
 /**
  * Check if FedEx integration is configured
  */
@@ -57,7 +84,7 @@ async function fetchAccessToken(config: FedExConfig): Promise<string> {
     client_secret: config.secretKey,
   })
 
-  const response = await fetch(FEDEX_OAUTH_URL, {
+  const response = await fetch(`${getBaseUrl()}/oauth/token`, {
     method: 'POST',
     headers: {
       'Content-Type': 'application/x-www-form-urlencoded',
@@ -111,7 +138,7 @@ async function fedexRequest<T>(
 ): Promise<T> {
   const accessToken = await getAccessToken()
 
-  const url = endpoint.startsWith('http') ? endpoint : `${FEDEX_BASE_URL}${endpoint}`
+  const url = endpoint.startsWith('http') ? endpoint : `${getBaseUrl()}${endpoint}`
 
   const response = await fetch(url, {
     ...options,
@@ -242,6 +269,10 @@ export const FEDEX_SERVICES: Record<string, string> = {
   FEDEX_FREIGHT_PRIORITY: 'FedEx Freight Priority',
   GROUND_HOME_DELIVERY: 'FedEx Ground Home Delivery',
   SMART_POST: 'FedEx SmartPost',
+  FEDEX_INTERNATIONAL_PRIORITY: 'FedEx International Priority',
+  INTERNATIONAL_ECONOMY: 'FedEx International Economy',
+  FEDEX_INTERNATIONAL_CONNECT_PLUS: 'FedEx International Connect Plus',
+  FEDEX_INTERNATIONAL_GROUND: 'FedEx International Ground', // to Canada
 }
 
 // ============================================================================
@@ -265,11 +296,13 @@ export interface GetRatesResponse {
 /**
  * Get shipping rates from FedEx
  *
+ * @param params.shipFrom - Address of the warehouse the parcel leaves from
  * @param params.shipTo - Customer's shipping address
  * @param params.packages - Array of packages with weight and optional dimensions
  * @returns Object with rates array (sorted by price) and optional error message
  */
 export async function getRates(params: {
+  shipFrom: ShipFromAddress
   shipTo: {
     city: string
     state: string
@@ -289,14 +322,15 @@ export async function getRates(params: {
     return { rates: [], error: 'FedEx is not configured' }
   }
 
-  // Get warehouse address from environment
-  const warehouseCity = process.env.WAREHOUSE_CITY || ''
-  const warehouseState = process.env.WAREHOUSE_STATE || ''
-  const warehouseZip = process.env.WAREHOUSE_ZIP || ''
-  const warehouseCountry = process.env.WAREHOUSE_COUNTRY || 'US'
+  const {
+    city: warehouseCity,
+    state: warehouseState,
+    postalCode: warehouseZip,
+    countryCode: warehouseCountry,
+  } = params.shipFrom
 
   if (!warehouseCity || !warehouseState || !warehouseZip) {
-    return { rates: [], error: 'Warehouse address not configured in environment' }
+    return { rates: [], error: 'Ship-from warehouse address is incomplete' }
   }
 
   try {
@@ -453,13 +487,52 @@ export interface FedExShipmentRequest {
       imageType: 'PNG' | 'PDF' | 'ZPLII'
       labelStockType: 'PAPER_4X6' | 'PAPER_4X675' | 'STOCK_4X6' | 'STOCK_4X675'
     }
+    customsClearanceDetail?: FedExCustomsClearanceDetail // international shipments only
+    shipmentSpecialServices?: {
+      specialServiceTypes: string[]
+      returnShipmentDetail?: {
+        returnType: 'PRINT_RETURN_LABEL'
+      }
+    }
+    totalPackageCount?: number // required for multi-piece shipments
     requestedPackageLineItems: Array<{
+      sequenceNumber?: number
       weight: FedExWeight
       dimensions?: FedExDimensions
     }>
   }
 }
 
+export interface FedExMoney {
+  amount: number
+  currency: string
+}
+
+export interface FedExCustomsClearanceDetail {
+  dutiesPayment: {
+    paymentType: 'SENDER' | 'RECIPIENT'
+  }
+  commercialInvoice: {
+    shipmentPurpose: 'SOLD' | 'GIFT' | 'SAMPLE' | 'REPAIR_AND_RETURN'
+    customerReferences?: Array<{
+      customerReferenceType: 'INVOICE_NUMBER'
+      value: string
+    }>
+  }
+  totalCustomsValue: FedExMoney
+  commodities: Array<{
+    description: string
+    countryOfManufacture: string
+    harmonizedCode: string
+    quantity: number
+    quantityUnits: string
+    numberOfPieces: number
+    unitPrice: FedExMoney
+    customsValue: FedExMoney // of every unit together
+    weight: FedExWeight
+  }>
+}
+
 export interface FedExShipmentResponse {
   transactionId: string
   output: {
@@ -496,11 +569,15 @@ export interface FedExShipmentResponse {
 }
 
 export interface CreateShipmentResult {
-  trackingNumber: string
-  labelBase64: string
+  trackingNumber: string // master tracking number
+  labelBase64: string // label of the first package
   labelFormat: 'PNG' | 'PDF' | 'ZPLII'
   cost: number
   currency: string
+  packages: Array<{
+    trackingNumber: string
+    labelBase64: string
+  }> // one per package, in the order they were requested
 }
 
 export interface CreateShipmentResponse {
@@ -512,13 +589,18 @@ export interface CreateShipmentResponse {
  * Create a shipment and generate a shipping label
  *
  * @param params.serviceCode - FedEx service code (e.g., 'FEDEX_GROUND')
+ * @param params.shipFrom - Address of the warehouse the parcel leaves from
  * @param params.shipTo - Customer's shipping address
  * @param params.packages - Array of packages with weight and dimensions
  * @param params.labelFormat - Label format: 'PNG' (default), 'PDF', or 'ZPLII' (thermal printers)
+ * @param params.customs - Contents of an international shipment; duties are billed to the recipient
+ * @param params.returnLabel - Print a return label instead: the customer ships
+ *   to the warehouse, billed to the account
  * @returns Object with shipment details or error message
  */
 export async function createShipment(params: {
   serviceCode: string
+  shipFrom: ShipFromAddress
   shipTo: {
     name: string
     addressLine1: string
@@ -537,24 +619,27 @@ export async function createShipment(params: {
     height?: number
   }>
   labelFormat?: 'PNG' | 'PDF' | 'ZPLII'
+  customs?: CustomsDeclaration
+  returnLabel?: boolean
 }): Promise<CreateShipmentResponse> {
   const config = getConfig()
   if (!config) {
     return { error: 'FedEx is not configured' }
   }
 
-  // Get warehouse address from environment
-  const warehouseName = process.env.WAREHOUSE_NAME || 'BoxNCase Warehouse'
-  const warehouseAddress1 = process.env.WAREHOUSE_ADDRESS1 || ''
-  const warehouseAddress2 = process.env.WAREHOUSE_ADDRESS2 || ''
-  const warehouseCity = process.env.WAREHOUSE_CITY || ''
-  const warehouseState = process.env.WAREHOUSE_STATE || ''
-  const warehouseZip = process.env.WAREHOUSE_ZIP || ''
-  const warehouseCountry = process.env.WAREHOUSE_COUNTRY || 'US'
-  const warehousePhone = process.env.WAREHOUSE_PHONE || ''
+  const {
+    name: warehouseName,
+    addressLine1: warehouseAddress1,
+    addressLine2: warehouseAddress2,
+    city: warehouseCity,
+    state: warehouseState,
+    postalCode: warehouseZip,
+    countryCode: warehouseCountry,
+    phone: warehousePhone,
+  } = params.shipFrom
 
   if (!warehouseAddress1 || !warehouseCity || !warehouseState || !warehouseZip) {
-    return { error: 'Warehouse address not fully configured in environment' }
+    return { error: 'Ship-from warehouse address is incomplete' }
   }
 
   try {
@@ -571,8 +656,9 @@ export async function createShipment(params: {
     }
 
     // Build packages
-    const requestedPackageLineItems = params.packages.map((pkg) => {
+    const requestedPackageLineItems = params.packages.map((pkg, index) => {
       const item: FedExShipmentRequest['requestedShipment']['requestedPackageLineItems'][0] = {
+        sequenceNumber: index + 1,
         weight: {
           units: 'LB',
           value: Math.max(0.1, pkg.weight),
@@ -593,42 +679,74 @@ export async function createShipment(params: {
 
     const labelImageType = params.labelFormat || 'PNG'
 
+    let customsClearanceDetail: FedExCustomsClearanceDetail | undefined
+    if (params.customs) {
+      const { currency, commodities, invoiceNumber } = params.customs
+      const lineValue = (commodity: (typeof commodities)[number]) =>
+        Math.round(commodity.unitValue * commodity.quantity * 100) / 100
+
+      customsClearanceDetail = {
+        dutiesPayment: { paymentType: 'RECIPIENT' },
+        commercialInvoice: {
+          shipmentPurpose: 'SOLD',
+          customerReferences: [{ customerReferenceType: 'INVOICE_NUMBER', value: invoiceNumber }],
+        },
+        totalCustomsValue: {
+          amount: commodities.reduce((sum, commodity) => sum + lineValue(commodity), 0),
+          currency,
+        },
+        commodities: commodities.map((commodity) => ({
+          description: commodity.description.slice(0, 450),
+          countryOfManufacture: commodity.countryOfOrigin,
+          harmonizedCode: commodity.hsCode,
+          quantity: commodity.quantity,
+          quantityUnits: 'PCS',
+          numberOfPieces: 1,
+          unitPrice: { amount: commodity.unitValue, currency },
+          customsValue: { amount: lineValue(commodity), currency },
+          weight: { units: 'LB', value: Math.max(0.1, commodity.weight) },
+        })),
+      }
+    }
+
+    const warehouseParty = {
+      contact: {
+        personName: warehouseName,
+        phoneNumber: warehousePhone || undefined,
+        companyName: warehouseName,
+      },
+      address: {
+        streetLines: shipperStreetLines,
+        city: warehouseCity,
+        stateOrProvinceCode: warehouseState,
+        postalCode: warehouseZip,
+        countryCode: warehouseCountry,
+      },
+    }
+    const customerParty = {
+      contact: {
+        personName: params.shipTo.name,
+        phoneNumber: params.shipTo.phone || undefined,
+      },
+      address: {
+        streetLines: recipientStreetLines,
+        city: params.shipTo.city,
+        stateOrProvinceCode: params.shipTo.state,
+        postalCode: params.shipTo.postalCode,
+        countryCode: params.shipTo.countryCode,
+        residential: params.shipTo.residential,
+      },
+    }
+
     const requestBody: FedExShipmentRequest = {
       accountNumber: {
         value: config.accountNumber,
       },
       labelResponseOptions: 'LABEL',
       requestedShipment: {
-        shipper: {
-          contact: {
-            personName: warehouseName,
-            phoneNumber: warehousePhone || undefined,
-            companyName: warehouseName,
-          },
-          address: {
-            streetLines: shipperStreetLines,
-            city: warehouseCity,
-            stateOrProvinceCode: warehouseState,
-            postalCode: warehouseZip,
-            countryCode: warehouseCountry,
-          },
-        },
-        recipients: [
-          {
-            contact: {
-              personName: params.shipTo.name,
-              phoneNumber: params.shipTo.phone || undefined,
-            },
-            address: {
-              streetLines: recipientStreetLines,
-              city: params.shipTo.city,
-              stateOrProvinceCode: params.shipTo.state,
-              postalCode: params.shipTo.postalCode,
-              countryCode: params.shipTo.countryCode,
-              residential: params.shipTo.residential,
-            },
-          },
-        ],
+        // A return travels the other way, still billed to the account
+        shipper: params.returnLabel ? customerParty : warehouseParty,
+        recipients: [params.returnLabel ? warehouseParty : customerParty],
         pickupType: 'DROPOFF_AT_FEDEX_LOCATION',
         serviceType: params.serviceCode,
         packagingType: 'YOUR_PACKAGING',
@@ -645,13 +763,24 @@ export async function createShipment(params: {
         labelSpecification: {
           labelFormatType: 'COMMON2D',
           imageType: labelImageType,
-          labelStockType: 'PAPER_4X6',
+          // Thermal labels print on label stock
+          labelStockType: labelImageType === 'ZPLII' ? 'STOCK_4X6' : 'PAPER_4X6',
         },
+        customsClearanceDetail,
+        shipmentSpecialServices: params.returnLabel
+          ? {
+              specialServiceTypes: ['RETURN_SHIPMENT'],
+              returnShipmentDetail: { returnType: 'PRINT_RETURN_LABEL' },
+            }
+          : undefined,
+        totalPackageCount: requestedPackageLineItems.length,
         requestedPackageLineItems,
       },
     }
 
-    console.log(`[FedEx] Creating shipment with service ${params.serviceCode}...`)
+    console.log(
+      `[FedEx] Creating ${params.returnLabel ? 'return ' : ''}shipment with service ${params.serviceCode}...`
+    )
 
     const response = await fedexRequest<FedExShipmentResponse>('/ship/v1/shipments', {
       method: 'POST',
@@ -659,15 +788,22 @@ export async function createShipment(params: {
     })
 
     const shipment = response.output.transactionShipments[0]
-    const pieceResponse = shipment.pieceResponses[0]
-    const trackingNumber = pieceResponse.trackingNumber || shipment.masterTrackingNumber
+    const trackingNumber =
+      shipment.masterTrackingNumber || shipment.pieceResponses[0]?.trackingNumber
 
-    // Get the label (base64 encoded)
-    const labelDoc = pieceResponse.packageDocuments.find(
-      (doc) => doc.encodedLabel || doc.url
-    )
+    // Get each package's label (base64 encoded)
+    const packages: CreateShipmentResult['packages'] = []
+    for (const piece of shipment.pieceResponses) {
+      const labelDoc = piece.packageDocuments.find((doc) => doc.encodedLabel || doc.url)
+
+      if (!labelDoc?.encodedLabel) {
+        return { error: 'No label data returned from FedEx' }
+      }
 
-    if (!labelDoc?.encodedLabel) {
+      packages.push({ trackingNumber: piece.trackingNumber, labelBase64: labelDoc.encodedLabel })
+    }
+
+    if (packages.length === 0) {
       return { error: 'No label data returned from FedEx' }
     }
 
@@ -681,15 +817,18 @@ export async function createShipment(params: {
       currency = rateDetail.currency
     }
 
-    console.log(`[FedEx] Shipment created: ${trackingNumber}`)
+    console.log(
+      `[FedEx] Shipment created: ${trackingNumber} (${packages.length} package${packages.length !== 1 ? 's' : ''})`
+    )
 
     return {
       shipment: {
         trackingNumber,
-        labelBase64: labelDoc.encodedLabel,
+        labelBase64: packages[0].labelBase64,
         labelFormat: labelImageType,
         cost,
         currency,
+        packages,
       },
     }
   } catch (error) {
@@ -699,6 +838,292 @@ export async function createShipment(params: {
   }
 }
 
+// ============================================================================
+// Cancel API
+// ============================================================================
+
+export interface FedExCancelResponse {
+  transactionId: string
+  output: {
+    cancelledShipment: boolean
+    cancelledHistory?: boolean
+    message?: string
+  }
+}
+
+/**
+ * Cancel a shipment so its postage is refunded. Only works before the
+ * parcel has been scanned by FedEx.
+ *
+ * Endpoint: PUT /ship/v1/shipments/cancel
+ *
+ * @param trackingNumber - Master tracking number; every package is cancelled
+ * @returns Whether the shipment was cancelled, or an error message
+ */
+export async function cancelShipment(
+  trackingNumber: string
+): Promise<{ voided: boolean; error?: string }> {
+  const config = getConfig()
+  if (!config) {
+    return { voided: false, error: 'FedEx is not configured' }
+  }
+
+  try {
+    console.log(`[FedEx] Cancelling shipment ${trackingNumber}...`)
+
+    const response = await fedexRequest<FedExCancelResponse>('/ship/v1/shipments/cancel', {
+      method: 'PUT',
+      body: JSON.stringify({
+        accountNumber: { value: config.accountNumber },
+        trackingNumber,
+        emailShipment: false,
+        deletionControl: 'DELETE_ALL_PACKAGES',
+      }),
+    })
+
+    if (!response.output.cancelledShipment) {
+      return {
+        voided: false,
+        error: `FedEx could not cancel the shipment${response.output.message ? `: ${response.output.message}` : ''}`,
+      }
+    }
+
+    console.log(`[FedEx] Shipment ${trackingNumber} cancelled`)
+    return { voided: true }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown FedEx error'
+    console.error('[FedEx] Failed to cancel shipment:', message)
+    return { voided: false, error: `FedEx error: ${message}` }
+  }
+}
+
+// ============================================================================
+// Tracking API
+// ============================================================================
+
+export interface FedExTrackResponse {
+  transactionId: string
+  output: {
+    completeTrackResults: Array<{
+      trackingNumber: string
+      trackResults: Array<{
+        scanEvents?: Array<{
+          date: string // ISO 8601 with the scan location's offset
+          eventType: string // DL delivered, OD out for delivery, DE delivery exception, ...
+          eventDescription: string
+          exceptionDescription?: string
+          derivedStatusCode?: string
+          scanLocation?: {
+            city?: string
+            stateOrProvinceCode?: string
+            countryCode?: string
+          }
+        }>
+        error?: {
+          code: string
+          message: string
+        }
+      }>
+    }>
+  }
+}
+
+export interface TrackingEvent {
+  status: TrackingStatus
+  code: string
+  description: string
+  location: string | null
+  occurredAt: Date
+}
+
+export interface GetTrackingResponse {
+  events: TrackingEvent[]
+  error?: string
+}
+
+function toTrackingStatus(eventType: string): TrackingStatus {
+  switch (eventType) {
+    case 'DL':
+      return 'DELIVERED'
+    case 'OD':
+      return 'OUT_FOR_DELIVERY'
+    case 'DE': // delivery exception
+    case 'SE': // shipment exception
+    case 'CA': // cancelled
+    case 'RS': // return to shipper
+      return 'EXCEPTION'
+    case 'OC': // shipment information sent to FedEx
+      return 'LABEL_CREATED'
+    default:
+      return 'IN_TRANSIT'
+  }
+}
+
+/**
+ * Get the scan history of a package
+ *
+ * Endpoint: POST /track/v1/trackingnumbers
+ *
+ * @param trackingNumber - Package tracking number
+ * @returns Tracking events, newest first, or an error message
+ */
+export async function getTracking(trackingNumber: string): Promise<GetTrackingResponse> {
+  const config = getConfig()
+  if (!config) {
+    return { events: [], error: 'FedEx is not configured' }
+  }
+
+  try {
+    const response = await fedexRequest<FedExTrackResponse>('/track/v1/trackingnumbers', {
+      method: 'POST',
+      body: JSON.stringify({
+        includeDetailedScans: true,
+        trackingInfo: [{ trackingNumberInfo: { trackingNumber } }],
+      }),
+    })
+
+    const result = response.output.completeTrackResults[0]?.trackResults[0]
+    if (result?.error) {
+      return { events: [], error: `FedEx error: ${result.error.message}` }
+    }
+
+    const events: TrackingEvent[] = (result?.scanEvents || []).map((scan) => {
+      const location = [
+        scan.scanLocation?.city,
+        scan.scanLocation?.stateOrProvinceCode,
+        scan.scanLocation?.countryCode,
+      ]
+        .filter(Boolean)
+        .join(', ')
+
+      return {
+        status: toTrackingStatus(scan.eventType),
+        code: scan.eventType,
+        description: scan.exceptionDescription
+          ? `${scan.eventDescription}: ${scan.exceptionDescription}`
+          : scan.eventDescription,
+        location: location || null,
+        occurredAt: new Date(scan.date),
+      }
+    })
+
+    return { events }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown FedEx error'
+    console.error('[FedEx] Failed to get tracking:', message)
+    return { events: [], error: `FedEx error: ${message}` }
+  }
+}
+
+// ============================================================================
+// Address Validation API
+// ============================================================================
+
+export interface FedExAddressResolveResponse {
+  transactionId: string
+  output: {
+    resolvedAddresses: Array<{
+      streetLinesToken: string[]
+      city: string
+      stateOrProvinceCode: string
+      postalCode: string
+      countryCode: string
+      classification: 'BUSINESS' | 'RESIDENTIAL' | 'MIXED' | 'UNKNOWN'
+      // Flags come back as the strings 'true' and 'false'
+      attributes: Record<string, string>
+      customerMessages?: Array<{
+        code: string
+        message: string
+      }>
+    }>
+    alerts?: Array<{
+      code: string
+      message: string
+    }>
+  }
+}
+
+/**
+ * Resolve an address against FedEx's address data and classify it as a home
+ * or a business
+ *
+ * Endpoint: POST /address/v1/addresses/resolve
+ *
+ * @param address - Address to check
+ * @returns What FedEx found, or an error message
+ */
+export async function validateAddress(
+  address: CarrierAddress
+): Promise<{ check?: CarrierAddressCheck; error?: string }> {
+  const config = getConfig()
+  if (!config) {
+    return { error: 'FedEx is not configured' }
+  }
+
+  try {
+    const response = await fedexRequest<FedExAddressResolveResponse>(
+      '/address/v1/addresses/resolve',
+      {
+        method: 'POST',
+        body: JSON.stringify({
+          addressesToValidate: [
+            {
+              address: {
+                streetLines: [address.addressLine1, address.addressLine2].filter(Boolean),
+                city: address.city,
+                stateOrProvinceCode: address.state,
+                postalCode: address.postalCode,
+                countryCode: address.countryCode,
+              },
+            },
+          ],
+        }),
+      }
+    )
+
+    const resolved = response.output.resolvedAddresses[0]
+    if (!resolved) {
+      return { error: 'FedEx error: No address in the response' }
+    }
+
+    // Resolved: FedEx matched the street; DPV: the postal service delivers there
+    const { Resolved, DPV } = resolved.attributes
+    const match = Resolved === 'true' && DPV !== 'false'
+      ? 'FOUND'
+      : Resolved === 'true'
+        ? 'AMBIGUOUS'
+        : 'NOT_FOUND'
+
+    return {
+      check: {
+        match,
+        candidate:
+          match === 'NOT_FOUND'
+            ? null
+            : {
+                addressLine1: resolved.streetLinesToken[0] ?? '',
+                addressLine2: resolved.streetLinesToken[1],
+                city: resolved.city,
+                state: resolved.stateOrProvinceCode,
+                postalCode: resolved.postalCode,
+                countryCode: resolved.countryCode,
+              },
+        type:
+          resolved.classification === 'RESIDENTIAL'
+            ? 'RESIDENTIAL'
+            : resolved.classification === 'BUSINESS'
+              ? 'COMMERCIAL'
+              : 'UNKNOWN',
+        message: resolved.customerMessages?.map((m) => m.message).join('; ') || undefined,
+      },
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown FedEx error'
+    console.error('[FedEx] Failed to validate address:', message)
+    return { error: `FedEx error: ${message}` }
+  }
+}
+
 /**
  * Test the FedEx connection by requesting an OAuth token
  */
@@ -0,0 +1,404 @@
+/**
+ * Carrier registry
+ *
+ * Each carrier module is wrapped in a CarrierAdapter with the same shape, so
+ * the shipping routes can work through the enabled carriers in a loop instead
+ * of branching on the carrier name. Supporting a new carrier means writing its
+ * module and registering an adapter below.
+ *
+ * In mock mode an adapter answers from src/lib/carriers/mock.ts instead of
+ * calling the carrier.
+ */
+
+import type { CarrierMode, LabelFormat, TrackingStatus } from '@/app/generated/prisma/client'
+import type { ShipFromAddress } from '@/src/lib/warehouses'
+import * as ups from '@/src/lib/carriers/ups'
+import * as fedex from '@/src/lib/carriers/fedex'
+import * as usps from '@/src/lib/carriers/usps'
+import {
+  checkMockAddress,
+  createMockShipment,
+  getMockRates,
+  randomDigits,
+  type MockService,
+} from '@/src/lib/carriers/mock'
+
+export interface CarrierPackage {
+  weight: number // in lbs
+  length?: number // in inches
+  width?: number // in inches
+  height?: number // in inches
+}
+
+export interface CarrierAddress {
+  addressLine1: string
+  addressLine2?: string
+  city: string
+  state: string
+  postalCode: string
+  countryCode: string
+}
+
+// What a carrier's address check found, see src/lib/address-validation.ts
+export interface CarrierAddressCheck {
+  match: 'FOUND' | 'AMBIGUOUS' | 'NOT_FOUND'
+  candidate: CarrierAddress | null // the carrier's version of the address
+  type: 'RESIDENTIAL' | 'COMMERCIAL' | 'UNKNOWN'
+  message?: string
+}
+
+// One line of a customs declaration, built by src/lib/customs.ts
+export interface CustomsCommodity {
+  description: string
+  hsCode: string // Harmonized System code, digits only
+  countryOfOrigin: string // ISO 3166-1 alpha-2
+  quantity: number
+  unitValue: number // declared value of one unit
+  weight: number // in lbs, all units together
+}
+
+// What an international shipment contains and is worth
+export interface CustomsDeclaration {
+  invoiceNumber: string
+  invoiceDate: Date
+  currency: string
+  commodities: CustomsCommodity[]
+}
+
+export interface CarrierRate {
+  serviceCode: string
+  serviceName: string
+  totalCharge: number
+  currency: string
+  transitDays?: number // business days
+  deliveryDate?: string
+}
+
+export interface CarrierShipment {
+  trackingNumber: string // lead package's tracking number
+  labelBase64: string // label of the first package
+  labelFormat: string // "PNG", "PDF" or "ZPL"
+  cost: number
+  currency: string
+  packages: Array<{
+    trackingNumber: string
+    labelBase64: string
+  }> // one per package, in the order they were requested
+}
+
+// Where a customer sends a return from, see src/lib/returns.ts
+export interface CarrierReturnSender extends CarrierAddress {
+  name: string
+  phone?: string
+}
+
+export interface CarrierTrackingEvent {
+  status: TrackingStatus
+  code: string // carrier's own event code
+  description: string
+  location: string | null
+  occurredAt: Date
+}
+
+export interface CarrierAdapter {
+  id: string // stored on Shipment.carrier
+  name: string
+  requiredEnv: string[] // environment variables the carrier needs
+  services: Record<string, string> // service code to name
+  modeEnv: string // environment variable holding the mode
+  getMode(): CarrierMode
+  isConfigured(): boolean // credentials are set
+  isEnabled(): boolean // configured, or in mock mode
+  getRates(params: {
+    shipFrom: ShipFromAddress
+    shipTo: {
+      name?: string
+      city: string
+      state: string
+      postalCode: string
+      countryCode: string
+      residential?: boolean // unknown when left out
+    }
+    packages: CarrierPackage[]
+  }): Promise<{ rates: CarrierRate[]; error?: string }>
+  createShipment(params: {
+    serviceCode: string
+    labelFormat: LabelFormat // IMAGE is the carrier's own PNG or PDF
+    shipFrom: ShipFromAddress
+    shipTo: {
+      name: string
+      addressLine1: string
+      addressLine2?: string
+      city: string
+      state: string
+      postalCode: string
+      countryCode: string
+      phone?: string
+      residential?: boolean
+    }
+    packages: CarrierPackage[]
+    customs?: CustomsDeclaration // parcels leaving the ship-from country
+  }): Promise<{ shipment?: CarrierShipment; error?: string }>
+  // Carriers with prepaid return labels: the customer sends the packages back
+  // to returnTo, the account pays
+  createReturnShipment?(params: {
+    serviceCode: string
+    labelFormat: LabelFormat
+    returnTo: ShipFromAddress
+    returnFrom: CarrierReturnSender
+    packages: CarrierPackage[]
+  }): Promise<{ shipment?: CarrierShipment; error?: string }>
+  // Tracking numbers of every package, the lead package first
+  voidShipment(trackingNumbers: string[]): Promise<{ voided: boolean; error?: string }>
+  getTracking(trackingNumber: string): Promise<{ events: CarrierTrackingEvent[]; error?: string }>
+  // Carriers with an address API, for the countries they cover
+  validateAddress?(address: CarrierAddress): Promise<{ check?: CarrierAddressCheck; error?: string }>
+  testConnection(): Promise<{ success: boolean; error?: string }>
+  getTrackingUrl(trackingNumber: string): string
+  estimateTransitDays(serviceCode: string): number // used when a rate has no estimate
+}
+
+// What a carrier module provides; mode handling is added by createAdapter
+interface CarrierDefinition extends Omit<CarrierAdapter, 'isEnabled'> {
+  mock: {
+    services: MockService[]
+    trackingNumber(): string
+  }
+}
+
+/**
+ * Answer from the mock carrier while the carrier is in mock mode
+ */
+function createAdapter({ mock, ...definition }: CarrierDefinition): CarrierAdapter {
+  const isMock = () => definition.getMode() === 'MOCK'
+
+  return {
+    ...definition,
+    isEnabled: () => isMock() || definition.isConfigured(),
+    getRates: async (params) =>
+      isMock() ? { rates: getMockRates(mock.services, params.packages) } : definition.getRates(params),
+    createShipment: async (params) =>
+      isMock()
+        ? {
+            shipment: createMockShipment(mock.trackingNumber, params.packages.length, params.labelFormat),
+          }
+        : definition.createShipment(params),
+    createReturnShipment:
+      definition.createReturnShipment &&
+      (async (params) =>
+        isMock()
+          ? {
+              shipment: createMockShipment(mock.trackingNumber, params.packages.length, params.labelFormat),
+            }
+          : definition.createReturnShipment!(params)),
+    voidShipment: async (trackingNumbers) =>
+      isMock() ? { voided: true } : definition.voidShipment(trackingNumbers),
+    getTracking: async (trackingNumber) =>
+      isMock() ? { events: [] } : definition.getTracking(trackingNumber),
+    validateAddress:
+      definition.validateAddress &&
+      (async (address) =>
+        isMock() ? { check: checkMockAddress(address) } : definition.validateAddress!(address)),
+    testConnection: async () => (isMock() ? { success: true } : definition.testConnection()),
+  }
+}
+
+// Transit days by service code when UPS doesn't return an estimate
+const UPS_TRANSIT_DAYS: Record<string, number> = {
+  '01': 1, // Next Day Air
+  '02': 2, // 2nd Day Air
+  '03': 5, // Ground
+  '12': 3, // 3 Day Select
+  '13': 1, // Next Day Air Saver
+  '14': 1, // Next Day Air Early
+  '59': 2, // 2nd Day Air A.M.
+  '07': 2, // Worldwide Express
+  '08': 5, // Worldwide Expedited
+  '11': 5, // Standard
+  '54': 1, // Worldwide Express Plus
+  '65': 3, // Saver
+}
+
+const FEDEX_TRANSIT_DAYS: Record<string, number> = {
+  FEDEX_GROUND: 5,
+  FEDEX_HOME_DELIVERY: 5,
+  GROUND_HOME_DELIVERY: 5,
+  FEDEX_EXPRESS_SAVER: 3,
+  FEDEX_2_DAY: 2,
+  FEDEX_2_DAY_AM: 2,
+  STANDARD_OVERNIGHT: 1,
+  PRIORITY_OVERNIGHT: 1,
+  FIRST_OVERNIGHT: 1,
+  FEDEX_INTERNATIONAL_PRIORITY: 3,
+  INTERNATIONAL_ECONOMY: 5,
+  FEDEX_INTERNATIONAL_CONNECT_PLUS: 5,
+  FEDEX_INTERNATIONAL_GROUND: 7,
+}
+
+const USPS_TRANSIT_DAYS: Record<string, number> = {
+  USPS_GROUND_ADVANTAGE: 5,
+  PRIORITY_MAIL: 3,
+  PRIORITY_MAIL_EXPRESS: 2,
+}
+
+// Used for services missing from the tables above
+const DEFAULT_TRANSIT_DAYS = 5
+
+const upsAdapter = createAdapter({
+  id: 'UPS',
+  name: 'UPS',
+  requiredEnv: ['UPS_CLIENT_ID', 'UPS_CLIENT_SECRET', 'UPS_ACCOUNT_NUMBER'],
+  services: ups.UPS_SERVICES,
+  modeEnv: 'UPS_MODE',
+  getMode: ups.getMode,
+  isConfigured: ups.isConfigured,
+  async getRates(params) {
+    const result = await ups.getRates(params)
+    return {
+      rates: result.rates.map((rate) => ({
+        serviceCode: rate.serviceCode,
+        serviceName: rate.serviceName,
+        totalCharge: rate.totalCharge,
+        currency: rate.currency,
+        transitDays: rate.businessDaysInTransit,
+        deliveryDate: rate.estimatedDeliveryDate,
+      })),
+      error: result.error,
+    }
+  },
+  createShipment: (params) =>
+    ups.createShipment({ ...params, labelFormat: params.labelFormat === 'ZPL' ? 'ZPL' : 'PNG' }),
+  createReturnShipment: (params) =>
+    ups.createShipment({
+      serviceCode: params.serviceCode,
+      labelFormat: params.labelFormat === 'ZPL' ? 'ZPL' : 'PNG',
+      shipFrom: params.returnTo,
+      shipTo: params.returnFrom,
+      packages: params.packages,
+      returnLabel: true,
+    }),
+  // Voiding the lead package voids the whole shipment
+  voidShipment: ([trackingNumber]) => ups.voidShipment(trackingNumber),
+  getTracking: ups.getTracking,
+  validateAddress: ups.validateAddress,
+  testConnection: ups.testConnection,
+  getTrackingUrl: (trackingNumber) => `https://www.ups.com/track?tracknum=${trackingNumber}`,
+  estimateTransitDays: (serviceCode) => UPS_TRANSIT_DAYS[serviceCode] || DEFAULT_TRANSIT_DAYS,
+  mock: {
+    services: [
+      { code: '03', name: 'UPS Ground', basePrice: 8.99, transitDays: 5 },
+      { code: '02', name: 'UPS 2nd Day Air', basePrice: 24.99, transitDays: 2 },
+    ],
+    trackingNumber: () => `1Z${randomDigits(16)}`,
+  },
+})
+
+const fedexAdapter = createAdapter({
+  id: 'FedEx',
+  name: 'FedEx',
+  requiredEnv: ['FEDEX_API_KEY', 'FEDEX_SECRET_KEY', 'FEDEX_ACCOUNT_NUMBER'],
+  services: fedex.FEDEX_SERVICES,
+  modeEnv: 'FEDEX_MODE',
+  getMode: fedex.getMode,
+  isConfigured: fedex.isConfigured,
+  async getRates(params) {
+    const result = await fedex.getRates(params)
+    return {
+      rates: result.rates.map((rate) => ({
+        serviceCode: rate.serviceCode,
+        serviceName: rate.serviceName,
+        totalCharge: rate.totalCharge,
+        currency: rate.currency,
+        transitDays: rate.transitDays,
+        deliveryDate: rate.deliveryDate,
+      })),
+      error: result.error,
+    }
+  },
+  async createShipment(params) {
+    const result = await fedex.createShipment({
+      ...params,
+      labelFormat: params.labelFormat === 'ZPL' ? 'ZPLII' : 'PNG',
+    })
+    // FedEx calls it ZPLII
+    return result.shipment?.labelFormat === 'ZPLII'
+      ? { shipment: { ...result.shipment, labelFormat: 'ZPL' } }
+      : result
+  },
+  async createReturnShipment(params) {
+    const result = await fedex.createShipment({
+      serviceCode: params.serviceCode,
+      labelFormat: params.labelFormat === 'ZPL' ? 'ZPLII' : 'PNG',
+      shipFrom: params.returnTo,
+      shipTo: params.returnFrom,
+      packages: params.packages,
+      returnLabel: true,
+    })
+    return result.shipment?.labelFormat === 'ZPLII'
+      ? { shipment: { ...result.shipment, labelFormat: 'ZPL' } }
+      : result
+  },
+  voidShipment: ([trackingNumber]) => fedex.cancelShipment(trackingNumber),
+  getTracking: fedex.getTracking,
+  validateAddress: fedex.validateAddress,
+  testConnection: fedex.testConnection,
+  getTrackingUrl: (trackingNumber) => `https://www.fedex.com/fedextrack/?trknbr=${trackingNumber}`,
+  estimateTransitDays: (serviceCode) => FEDEX_TRANSIT_DAYS[serviceCode] || DEFAULT_TRANSIT_DAYS,
+  mock: {
+    services: [
+      { code: 'FEDEX_GROUND', name: 'FedEx Ground', basePrice: 9.49, transitDays: 5 },
+      { code: 'FEDEX_2_DAY', name: 'FedEx 2Day', basePrice: 22.99, transitDays: 2 },
+    ],
+    trackingNumber: () => randomDigits(12),
+  },
+})
+
+const uspsAdapter = createAdapter({
+  id: 'USPS',
+  name: 'USPS',
+  requiredEnv: ['USPS_CLIENT_ID', 'USPS_CLIENT_SECRET', 'USPS_CRID', 'USPS_MID', 'USPS_ACCOUNT_NUMBER'],
+  services: usps.USPS_SERVICES,
+  modeEnv: 'USPS_MODE',
+  getMode: usps.getMode,
+  isConfigured: usps.isConfigured,
+  getRates: usps.getRates,
+  createShipment: (params) =>
+    usps.createShipment({ ...params, labelFormat: params.labelFormat === 'ZPL' ? 'ZPL' : 'PDF' }),
+  // Every package has its own label
+  voidShipment: usps.cancelLabels,
+  getTracking: usps.getTracking,
+  testConnection: usps.testConnection,
+  getTrackingUrl: (trackingNumber) =>
+    `https://tools.usps.com/go/TrackConfirmAction?tLabels=${trackingNumber}`,
+  estimateTransitDays: (serviceCode) => USPS_TRANSIT_DAYS[serviceCode] || DEFAULT_TRANSIT_DAYS,
+  mock: {
+    services: [
+      { code: 'USPS_GROUND_ADVANTAGE', name: 'USPS Ground Advantage', basePrice: 6.49, transitDays: 5 },
+      { code: 'PRIORITY_MAIL', name: 'USPS Priority Mail', basePrice: 10.49, transitDays: 3 },
+    ],
+    trackingNumber: () => `9400${randomDigits(18)}`,
+  },
+})
+
+const carriers: CarrierAdapter[] = [upsAdapter, fedexAdapter, uspsAdapter]
+
+/**
+ * Every registered carrier, configured or not
+ */
+export function getCarriers(): CarrierAdapter[] {
+  return carriers
+}
+
+/**
+ * Carriers that can quote and buy labels: credentials set, or in mock mode
+ */
+export function getEnabledCarriers(): CarrierAdapter[] {
+  return carriers.filter((carrier) => carrier.isEnabled())
+}
+
+/**
+ * Look up a carrier by the id stored on shipments
+ */
+export function getCarrier(id: string): CarrierAdapter | null {
+  return carriers.find((carrier) => carrier.id === id) ?? null
+}
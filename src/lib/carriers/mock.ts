@@ -0,0 +1,100 @@
+/**
+ * Mock carrier
+ *
+ * Carriers in mock mode never call out: rates are made up from the package
+ * weights and labels are a placeholder image, or a ZPL label printing the
+ * tracking number. Used for development and demos;
+ * shipments bought this way are stamped MOCK.
+ */
+
+import type { LabelFormat } from '@/app/generated/prisma/client'
+import type {
+  CarrierAddress,
+  CarrierAddressCheck,
+  CarrierPackage,
+  CarrierRate,
+  CarrierShipment,
+} from '@/src/lib/carriers'
+
+export interface MockService {
+  code: string
+  name: string
+  basePrice: number // for a package up to 2 lbs
+  transitDays: number
+}
+
+// Base64 of a simple 1x1 PNG
+export const MOCK_LABEL_BASE64 =
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNk+M9QDwADhgGAWjR9awAAAABJRU5ErkJggg=='
+
+/**
+ * Rates for the carrier's services, scaled by the total weight
+ */
+export function getMockRates(services: MockService[], packages: CarrierPackage[]): CarrierRate[] {
+  const weight = packages.reduce((sum, pkg) => sum + pkg.weight, 0)
+  const weightMultiplier = Math.max(1, weight / 2)
+
+  return services.map((service) => ({
+    serviceCode: service.code,
+    serviceName: service.name,
+    totalCharge: Math.round(service.basePrice * weightMultiplier * 100) / 100,
+    currency: 'USD',
+    transitDays: service.transitDays,
+  }))
+}
+
+/**
+ * A ZPL label that prints the tracking number
+ */
+export function mockZplLabel(trackingNumber: string): string {
+  const zpl = `^XA^FO50,50^A0N,40,40^FDMOCK LABEL^FS^FO50,120^BCN,100,Y,N,N^FD${trackingNumber}^FS^XZ`
+  return Buffer.from(zpl).toString('base64')
+}
+
+/**
+ * A placeholder label for each package
+ *
+ * @param trackingNumber - Makes a tracking number in the carrier's format
+ */
+export function createMockShipment(
+  trackingNumber: () => string,
+  packageCount: number,
+  labelFormat: LabelFormat
+): CarrierShipment {
+  const packages = Array.from({ length: packageCount }, () => {
+    const number = trackingNumber()
+    return {
+      trackingNumber: number,
+      labelBase64: labelFormat === 'ZPL' ? mockZplLabel(number) : MOCK_LABEL_BASE64,
+    }
+  })
+
+  return {
+    trackingNumber: packages[0].trackingNumber,
+    labelBase64: packages[0].labelBase64,
+    labelFormat: labelFormat === 'ZPL' ? 'ZPL' : 'PNG',
+    cost: Math.round((Math.random() * 20 + 10) * packageCount * 100) / 100,
+    currency: 'USD',
+    packages,
+  }
+}
+
+/**
+ * Every address is found as given. Suites and floors are offices, the rest
+ * homes.
+ */
+export function checkMockAddress(address: CarrierAddress): CarrierAddressCheck {
+  const lines = `${address.addressLine1} ${address.addressLine2 ?? ''}`
+  return {
+    match: 'FOUND',
+    candidate: address,
+    type: /\b(suite|ste|floor|fl)\b/i.test(lines) ? 'COMMERCIAL' : 'RESIDENTIAL',
+  }
+}
+
+/**
+ * Random digits, for mock tracking numbers
+ */
+export function randomDigits(length: number): string {
+  return Array.from({ length }, () => Math.floor(Math.random() * 10)).join('')
+}
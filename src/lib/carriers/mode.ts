@@ -0,0 +1,58 @@
+/**
+ * Carrier modes
+ *
+ * Each carrier runs in one mode, set by its *_MODE environment variable:
+ *   - production: real labels, billed to the account
+ *   - sandbox: the carrier's test environment (default)
+ *   - mock: no carrier calls at all; rates and labels are made up
+ *
+ * The mode is stamped on every shipment so test labels can't pass for real ones.
+ *
+ * Outside production a carrier's *_BASE_URL can point it at a stand-in such as
+ * scripts/mock-carrier-server.ts.
+ */
+
+import type { CarrierMode } from '@/app/generated/prisma/client'
+
+const MODES: CarrierMode[] = ['PRODUCTION', 'SANDBOX', 'MOCK']
+
+/**
+ * Read a carrier's mode from the environment
+ *
+ * @param envVar - e.g. 'UPS_MODE'
+ */
+export function readCarrierMode(envVar: string): CarrierMode {
+  const value = process.env[envVar]?.trim().toUpperCase()
+  if (!value) {
+    return 'SANDBOX'
+  }
+
+  const mode = MODES.find((m) => m === value)
+  if (!mode) {
+    console.warn(`[Carriers] Unknown ${envVar} "${process.env[envVar]}", using sandbox. Use production, sandbox or mock.`)
+    return 'SANDBOX'
+  }
+
+  return mode
+}
+
+/**
+ * Read a carrier's base URL override from the environment. Ignored in
+ * production, so real labels always come from the carrier.
+ *
+ * @param envVar - e.g. 'UPS_BASE_URL'
+ * @returns The URL without a trailing slash, or null to use the carrier's own
+ */
+export function readBaseUrlOverride(envVar: string, mode: CarrierMode): string | null {
+  const value = process.env[envVar]?.trim()
+  if (!value) {
+    return null
+  }
+
+  if (mode === 'PRODUCTION') {
+    console.warn(`[Carriers] Ignoring ${envVar} in production mode`)
+    return null
+  }
+
+  return value.replace(/\/+$/, '')
+}
@@ -3,6 +3,11 @@
  *
  * Uses OAuth 2.0 client_credentials flow for authentication.
  * Production API: https://onlinetools.ups.com
+ * Sandbox API: https://wwwcie.ups.com
+ *
+ * UPS_MODE picks production, sandbox (default) or mock; see src/lib/carriers/mode.ts.
+ * Outside production UPS_BASE_URL overrides the API host, e.g. to use
+ * scripts/mock-carrier-server.ts.
  *
  * Required environment variables:
  *   - UPS_CLIENT_ID
@@ -10,8 +15,15 @@
  *   - UPS_ACCOUNT_NUMBER
  */
 
-const UPS_BASE_URL = 'https://onlinetools.ups.com'
-const UPS_OAUTH_URL = `${UPS_BASE_URL}/security/v1/oauth/token`
+import type { CarrierMode, TrackingStatus } from '@/app/generated/prisma/client'
+import type { ShipFromAddress } from '@/src/lib/warehouses'
+import type { CarrierAddress, CarrierAddressCheck, CustomsDeclaration } from '@/src/lib/carriers'
+import { readBaseUrlOverride, readCarrierMode } from '@/src/lib/carriers/mode'
+
+const UPS_BASE_URLS = {
+  PRODUCTION: 'https://onlinetools.ups.com',
+  SANDBOX: 'https://wwwcie.ups.com',
+}
 
 // In-memory token cache
 let cachedToken: {
@@ -40,6 +52,21 @@ function getConfig(): UPSConfig | null {
   return { clientId, clientSecret, accountNumber }
 }
 
+/**
+ * UPS mode from UPS_MODE
+ */
+export function getMode(): CarrierMode {
+  return readCarrierMode('UPS_MODE')
+}
+
+function getBaseUrl(): string {
+  const mode = getMode()
+  return (
+    readBaseUrlOverride('UPS_BASE_URL', mode) ??
+    (mode === 'PRODUCTION' ? UPS_BASE_URLS.PRODUCTION : UPS_BASE_URLS.SANDBOX)
+  )
+}
+
 /**
  * Check if UPS integration is configured
  */
@@ -55,7 +82,7 @@ async function fetchAccessToken(config: UPSConfig): Promise<string> {
     `${config.clientId}:${config.clientSecret}`
   ).toString('base64')
 
-  const response = await fetch(UPS_OAUTH_URL, {
+  const response = await fetch(`${getBaseUrl()}/security/v1/oauth/token`, {
     method: 'POST',
     headers: {
       'Content-Type': 'application/x-www-form-urlencoded',
@@ -110,7 +137,7 @@ async function upsRequest<T>(
 ): Promise<T> {
   const accessToken = await getAccessToken()
 
-  const url = endpoint.startsWith('http') ? endpoint : `${UPS_BASE_URL}${endpoint}`
+  const url = endpoint.startsWith('http') ? endpoint : `${getBaseUrl()}${endpoint}`
 
   const response = await fetch(url, {
     ...options,
@@ -163,6 +190,7 @@ export interface UPSAddress {
   stateProvinceCode: string
   postalCode: string
   countryCode: string
+  residentialAddressIndicator?: string // present, even empty, for a home
 }
 
 export interface UPSPackage {
@@ -274,6 +302,10 @@ export const UPS_SERVICES: Record<string, string> = {
   '14': 'UPS Next Day Air Early',
   '59': 'UPS 2nd Day Air A.M.',
   '65': 'UPS Saver',
+  '07': 'UPS Worldwide Express',
+  '08': 'UPS Worldwide Expedited',
+  '11': 'UPS Standard', // to Canada and Mexico
+  '54': 'UPS Worldwide Express Plus',
 }
 
 // ============================================================================
@@ -297,17 +329,20 @@ export interface GetRatesResponse {
 /**
  * Get shipping rates from UPS using the Shop option (returns all available services)
  *
+ * @param params.shipFrom - Address of the warehouse the parcel leaves from
  * @param params.shipTo - Customer's shipping address
  * @param params.packages - Array of packages with weight and optional dimensions
  * @returns Object with rates array (sorted by price) and optional error message
  */
 export async function getRates(params: {
+  shipFrom: ShipFromAddress
   shipTo: {
     name?: string
     city: string
     state: string
     postalCode: string
     countryCode: string
+    residential?: boolean
   }
   packages: Array<{
     weight: number // in lbs
@@ -321,15 +356,16 @@ export async function getRates(params: {
     return { rates: [], error: 'UPS is not configured' }
   }
 
-  // Get warehouse address from environment
-  const warehouseName = process.env.WAREHOUSE_NAME || 'BoxNCase Warehouse'
-  const warehouseCity = process.env.WAREHOUSE_CITY || ''
-  const warehouseState = process.env.WAREHOUSE_STATE || ''
-  const warehouseZip = process.env.WAREHOUSE_ZIP || ''
-  const warehouseCountry = process.env.WAREHOUSE_COUNTRY || 'US'
+  const {
+    name: warehouseName,
+    city: warehouseCity,
+    state: warehouseState,
+    postalCode: warehouseZip,
+    countryCode: warehouseCountry,
+  } = params.shipFrom
 
   if (!warehouseCity || !warehouseState || !warehouseZip) {
-    return { rates: [], error: 'Warehouse address not configured in environment' }
+    return { rates: [], error: 'Ship-from warehouse address is incomplete' }
   }
 
   try {
@@ -381,6 +417,7 @@ export async function getRates(params: {
               stateProvinceCode: params.shipTo.state,
               postalCode: params.shipTo.postalCode,
               countryCode: params.shipTo.countryCode,
+              residentialAddressIndicator: params.shipTo.residential ? '' : undefined,
             },
           },
           ShipFrom: {
@@ -510,6 +547,12 @@ export interface UPSShipmentRequest {
         Code: string
         Description?: string
       }
+      ShipmentServiceOptions?: {
+        InternationalForms?: UPSInternationalForms
+      }
+      ReturnService?: {
+        Code: string // '9' = Print Return Label
+      }
       Package: Array<{
         Description?: string
         Packaging: {
@@ -539,6 +582,35 @@ export interface UPSShipmentRequest {
   }
 }
 
+// Customs data of an international shipment, sent as a commercial invoice
+export interface UPSInternationalForms {
+  FormType: string // '01' = Invoice
+  InvoiceNumber: string
+  InvoiceDate: string // YYYYMMDD
+  ReasonForExport: string
+  CurrencyCode: string
+  Contacts: {
+    SoldTo: {
+      Name: string
+      Address: UPSAddress & { addressLine: string[] }
+    }
+  }
+  Product: Array<{
+    Description: string[] // up to 3 lines of 35 characters
+    CommodityCode: string
+    OriginCountryCode: string
+    Unit: {
+      Number: string
+      Value: string // of one unit
+      UnitOfMeasurement: { Code: string }
+    }
+    ProductWeight: {
+      UnitOfMeasurement: { Code: string }
+      Weight: string
+    }
+  }>
+}
+
 export interface UPSShipmentResponse {
   ShipmentResponse: {
     Response: {
@@ -555,25 +627,32 @@ export interface UPSShipmentResponse {
         }
       }
       ShipmentIdentificationNumber: string
-      PackageResults: Array<{
-        TrackingNumber: string
-        ShippingLabel: {
-          ImageFormat: {
-            Code: string
-          }
-          GraphicImage: string // Base64 encoded
-        }
-      }>
+      // A single object when the shipment has one package
+      PackageResults: UPSPackageResult | UPSPackageResult[]
     }
   }
 }
 
+export interface UPSPackageResult {
+  TrackingNumber: string
+  ShippingLabel: {
+    ImageFormat: {
+      Code: string
+    }
+    GraphicImage: string // Base64 encoded
+  }
+}
+
 export interface CreateShipmentResult {
-  trackingNumber: string
-  labelBase64: string // Base64 encoded label image
+  trackingNumber: string // first package's tracking number
+  labelBase64: string // Base64 encoded label image of the first package
   labelFormat: 'PNG' | 'GIF' | 'ZPL'
   cost: number
   currency: string
+  packages: Array<{
+    trackingNumber: string
+    labelBase64: string
+  }> // one per package, in the order they were requested
 }
 
 export interface CreateShipmentResponse {
@@ -587,13 +666,18 @@ export interface CreateShipmentResponse {
  * Endpoint: POST /api/shipments/v2403/ship
  *
  * @param params.serviceCode - UPS service code (e.g., '03' for Ground)
+ * @param params.shipFrom - Address of the warehouse the parcel leaves from
  * @param params.shipTo - Customer's shipping address
  * @param params.packages - Array of packages with weight and dimensions
  * @param params.labelFormat - Label format: 'PNG' (default), 'GIF', or 'ZPL' (thermal printers)
+ * @param params.customs - Contents of an international shipment, sent as a commercial invoice
+ * @param params.returnLabel - Print a return label instead: the parcel goes from
+ *   the customer back to the warehouse, billed to the account
  * @returns Object with shipment details or error message
  */
 export async function createShipment(params: {
   serviceCode: string
+  shipFrom: ShipFromAddress
   shipTo: {
     name: string
     addressLine1: string
@@ -603,6 +687,7 @@ export async function createShipment(params: {
     postalCode: string
     countryCode: string
     phone?: string
+    residential?: boolean
   }
   packages: Array<{
     weight: number // in lbs
@@ -612,24 +697,27 @@ export async function createShipment(params: {
     description?: string
   }>
   labelFormat?: 'PNG' | 'GIF' | 'ZPL'
+  customs?: CustomsDeclaration
+  returnLabel?: boolean
 }): Promise<CreateShipmentResponse> {
   const config = getConfig()
   if (!config) {
     return { error: 'UPS is not configured' }
   }
 
-  // Get warehouse address from environment
-  const warehouseName = process.env.WAREHOUSE_NAME || 'BoxNCase Warehouse'
-  const warehouseAddress1 = process.env.WAREHOUSE_ADDRESS1 || ''
-  const warehouseAddress2 = process.env.WAREHOUSE_ADDRESS2 || ''
-  const warehouseCity = process.env.WAREHOUSE_CITY || ''
-  const warehouseState = process.env.WAREHOUSE_STATE || ''
-  const warehouseZip = process.env.WAREHOUSE_ZIP || ''
-  const warehouseCountry = process.env.WAREHOUSE_COUNTRY || 'US'
-  const warehousePhone = process.env.WAREHOUSE_PHONE || ''
+  const {
+    name: warehouseName,
+    addressLine1: warehouseAddress1,
+    addressLine2: warehouseAddress2,
+    city: warehouseCity,
+    state: warehouseState,
+    postalCode: warehouseZip,
+    countryCode: warehouseCountry,
+    phone: warehousePhone,
+  } = params.shipFrom
 
   if (!warehouseAddress1 || !warehouseCity || !warehouseState || !warehouseZip) {
-    return { error: 'Warehouse address not fully configured in environment' }
+    return { error: 'Ship-from warehouse address is incomplete' }
   }
 
   try {
@@ -668,6 +756,42 @@ export async function createShipment(params: {
       return upsPackage
     })
 
+    const shipToAddressFields = {
+      addressLine: shipToAddress,
+      city: params.shipTo.city,
+      stateProvinceCode: params.shipTo.state,
+      postalCode: params.shipTo.postalCode,
+      countryCode: params.shipTo.countryCode,
+      residentialAddressIndicator: params.shipTo.residential ? '' : undefined,
+    }
+
+    // Customs needs a description of the goods, not the order
+    const description = params.customs
+      ? params.customs.commodities
+          .map((commodity) => commodity.description)
+          .join(', ')
+          .slice(0, 50)
+      : params.returnLabel
+        ? 'BoxNCase Return'
+        : 'BoxNCase Order'
+
+    const warehouseParty = {
+      Name: warehouseName,
+      Phone: warehousePhone ? { Number: warehousePhone } : undefined,
+      Address: {
+        addressLine: shipFromAddress,
+        city: warehouseCity,
+        stateProvinceCode: warehouseState,
+        postalCode: warehouseZip,
+        countryCode: warehouseCountry,
+      },
+    }
+    const customerParty = {
+      Name: params.shipTo.name,
+      Phone: params.shipTo.phone ? { Number: params.shipTo.phone } : undefined,
+      Address: shipToAddressFields,
+    }
+
     const requestBody: UPSShipmentRequest = {
       ShipmentRequest: {
         Request: {
@@ -677,7 +801,7 @@ export async function createShipment(params: {
           },
         },
         Shipment: {
-          Description: 'BoxNCase Order',
+          Description: description,
           Shipper: {
             Name: warehouseName,
             ShipperNumber: config.accountNumber,
@@ -690,28 +814,9 @@ export async function createShipment(params: {
               countryCode: warehouseCountry,
             },
           },
-          ShipTo: {
-            Name: params.shipTo.name,
-            Phone: params.shipTo.phone ? { Number: params.shipTo.phone } : undefined,
-            Address: {
-              addressLine: shipToAddress,
-              city: params.shipTo.city,
-              stateProvinceCode: params.shipTo.state,
-              postalCode: params.shipTo.postalCode,
-              countryCode: params.shipTo.countryCode,
-            },
-          },
-          ShipFrom: {
-            Name: warehouseName,
-            Phone: warehousePhone ? { Number: warehousePhone } : undefined,
-            Address: {
-              addressLine: shipFromAddress,
-              city: warehouseCity,
-              stateProvinceCode: warehouseState,
-              postalCode: warehouseZip,
-              countryCode: warehouseCountry,
-            },
-          },
+          // A return travels the other way, the shipper still pays
+          ShipTo: params.returnLabel ? warehouseParty : customerParty,
+          ShipFrom: params.returnLabel ? customerParty : warehouseParty,
           PaymentInformation: {
             ShipmentCharge: [
               {
@@ -726,6 +831,35 @@ export async function createShipment(params: {
             Code: params.serviceCode,
             Description: UPS_SERVICES[params.serviceCode],
           },
+          ShipmentServiceOptions: params.customs
+            ? {
+                InternationalForms: {
+                  FormType: '01', // Invoice
+                  InvoiceNumber: params.customs.invoiceNumber,
+                  InvoiceDate: params.customs.invoiceDate.toISOString().slice(0, 10).replace(/-/g, ''),
+                  ReasonForExport: 'SALE',
+                  CurrencyCode: params.customs.currency,
+                  Contacts: {
+                    SoldTo: { Name: params.shipTo.name, Address: shipToAddressFields },
+                  },
+                  Product: params.customs.commodities.map((commodity) => ({
+                    Description: [commodity.description.slice(0, 35)],
+                    CommodityCode: commodity.hsCode,
+                    OriginCountryCode: commodity.countryOfOrigin,
+                    Unit: {
+                      Number: String(commodity.quantity),
+                      Value: commodity.unitValue.toFixed(2),
+                      UnitOfMeasurement: { Code: 'PCS' },
+                    },
+                    ProductWeight: {
+                      UnitOfMeasurement: { Code: 'LBS' },
+                      Weight: Math.max(0.1, commodity.weight).toFixed(1),
+                    },
+                  })),
+                },
+              }
+            : undefined,
+          ReturnService: params.returnLabel ? { Code: '9' } : undefined,
           Package: packages,
         },
         LabelSpecification: {
@@ -740,7 +874,9 @@ export async function createShipment(params: {
       },
     }
 
-    console.log(`[UPS] Creating shipment with service ${params.serviceCode}...`)
+    console.log(
+      `[UPS] Creating ${params.returnLabel ? 'return ' : ''}shipment with service ${params.serviceCode}...`
+    )
 
     const response = await upsRequest<UPSShipmentResponse>('/api/shipments/v2403/ship', {
       method: 'POST',
@@ -748,9 +884,14 @@ export async function createShipment(params: {
     })
 
     const results = response.ShipmentResponse.ShipmentResults
-    const packageResult = results.PackageResults[0]
+    const packageResults = Array.isArray(results.PackageResults)
+      ? results.PackageResults
+      : [results.PackageResults]
+    const packageResult = packageResults[0]
 
-    console.log(`[UPS] Shipment created: ${packageResult.TrackingNumber}`)
+    console.log(
+      `[UPS] Shipment created: ${packageResult.TrackingNumber} (${packageResults.length} package${packageResults.length !== 1 ? 's' : ''})`
+    )
 
     return {
       shipment: {
@@ -759,6 +900,10 @@ export async function createShipment(params: {
         labelFormat: packageResult.ShippingLabel.ImageFormat.Code as 'PNG' | 'GIF' | 'ZPL',
         cost: parseFloat(results.ShipmentCharges.TotalCharges.MonetaryValue),
         currency: results.ShipmentCharges.TotalCharges.CurrencyCode,
+        packages: packageResults.map((pkg) => ({
+          trackingNumber: pkg.TrackingNumber,
+          labelBase64: pkg.ShippingLabel.GraphicImage,
+        })),
       },
     }
   } catch (error) {
@@ -768,6 +913,325 @@ export async function createShipment(params: {
   }
 }
 
+// ============================================================================
+// Void API
+// ============================================================================
+
+export interface UPSVoidResponse {
+  VoidShipmentResponse: {
+    Response: {
+      ResponseStatus: {
+        Code: string
+        Description: string
+      }
+    }
+    SummaryResult: {
+      Status: {
+        Code: string // '1' when voided
+        Description: string
+      }
+    }
+  }
+}
+
+/**
+ * Void a shipment so its postage is refunded. Only works before the
+ * parcel has been scanned by UPS.
+ *
+ * Endpoint: DELETE /api/shipments/v2403/void/cancel/{shipmentIdentificationNumber}
+ *
+ * @param trackingNumber - Shipment identification number (the lead package's tracking number)
+ * @returns Whether the shipment was voided, or an error message
+ */
+export async function voidShipment(
+  trackingNumber: string
+): Promise<{ voided: boolean; error?: string }> {
+  const config = getConfig()
+  if (!config) {
+    return { voided: false, error: 'UPS is not configured' }
+  }
+
+  try {
+    console.log(`[UPS] Voiding shipment ${trackingNumber}...`)
+
+    const response = await upsRequest<UPSVoidResponse>(
+      `/api/shipments/v2403/void/cancel/${encodeURIComponent(trackingNumber)}`,
+      { method: 'DELETE' }
+    )
+
+    const status = response.VoidShipmentResponse.SummaryResult.Status
+    if (status.Code !== '1') {
+      return { voided: false, error: `UPS could not void the shipment: ${status.Description}` }
+    }
+
+    console.log(`[UPS] Shipment ${trackingNumber} voided`)
+    return { voided: true }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown UPS error'
+    console.error('[UPS] Failed to void shipment:', message)
+    return { voided: false, error: `UPS error: ${message}` }
+  }
+}
+
+// ============================================================================
+// Tracking API
+// ============================================================================
+
+export interface UPSTrackResponse {
+  trackResponse: {
+    shipment: Array<{
+      inquiryNumber: string
+      package?: Array<{
+        trackingNumber: string
+        activity?: Array<{
+          location?: {
+            address?: {
+              city?: string
+              stateProvince?: string
+              countryCode?: string
+            }
+          }
+          status: {
+            type: string // D delivered, I in transit, M manifest, X exception, ...
+            description: string
+            code: string
+            statusCode?: string
+          }
+          date: string // YYYYMMDD
+          time: string // HHMMSS
+        }>
+      }>
+      warnings?: Array<{
+        code: string
+        message: string
+      }>
+    }>
+  }
+}
+
+export interface TrackingEvent {
+  status: TrackingStatus
+  code: string
+  description: string
+  location: string | null
+  occurredAt: Date
+}
+
+export interface GetTrackingResponse {
+  events: TrackingEvent[]
+  error?: string
+}
+
+// UPS status code for "Out For Delivery Today"
+const OUT_FOR_DELIVERY_CODE = '021'
+
+function toTrackingStatus(status: { type: string; description: string; statusCode?: string }): TrackingStatus {
+  switch (status.type) {
+    case 'D':
+      return 'DELIVERED'
+    case 'X':
+    case 'RS': // returned to shipper
+      return 'EXCEPTION'
+    case 'M':
+    case 'MV':
+      return 'LABEL_CREATED'
+  }
+
+  if (status.statusCode === OUT_FOR_DELIVERY_CODE || /out for delivery/i.test(status.description)) {
+    return 'OUT_FOR_DELIVERY'
+  }
+
+  return 'IN_TRANSIT'
+}
+
+/**
+ * Get the scan history of a package
+ *
+ * Endpoint: GET /api/track/v1/details/{inquiryNumber}
+ *
+ * @param trackingNumber - Package tracking number
+ * @returns Tracking events, newest first, or an error message
+ */
+export async function getTracking(trackingNumber: string): Promise<GetTrackingResponse> {
+  const config = getConfig()
+  if (!config) {
+    return { events: [], error: 'UPS is not configured' }
+  }
+
+  try {
+    const response = await upsRequest<UPSTrackResponse>(
+      `/api/track/v1/details/${encodeURIComponent(trackingNumber)}?locale=en_US&returnSignature=false`
+    )
+
+    const shipment = response.trackResponse.shipment[0]
+    const warning = shipment?.warnings?.[0]
+    if (warning) {
+      return { events: [], error: `UPS error: ${warning.message}` }
+    }
+
+    const activity = shipment?.package?.[0]?.activity || []
+
+    const events: TrackingEvent[] = activity.map((a) => {
+      const address = a.location?.address
+      const location = [address?.city, address?.stateProvince, address?.countryCode]
+        .filter(Boolean)
+        .join(', ')
+
+      // UPS reports local time at the scan location without an offset
+      const d = a.date
+      const t = a.time.padStart(6, '0')
+      const occurredAt = new Date(
+        `${d.slice(0, 4)}-${d.slice(4, 6)}-${d.slice(6, 8)}T${t.slice(0, 2)}:${t.slice(2, 4)}:${t.slice(4, 6)}`
+      )
+
+      return {
+        status: toTrackingStatus(a.status),
+        code: a.status.code,
+        description: a.status.description,
+        location: location || null,
+        occurredAt,
+      }
+    })
+
+    return { events }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown UPS error'
+    console.error('[UPS] Failed to get tracking:', message)
+    return { events: [], error: `UPS error: ${message}` }
+  }
+}
+
+// ============================================================================
+// Address Validation API
+// ============================================================================
+
+export interface UPSAddressKeyFormat {
+  AddressLine: string | string[]
+  PoliticalDivision2: string // city
+  PoliticalDivision1: string // state
+  PostcodePrimaryLow: string
+  PostcodeExtendedLow?: string
+  CountryCode: string
+}
+
+export interface UPSAddressValidationResponse {
+  XAVResponse: {
+    ValidAddressIndicator?: string
+    AmbiguousAddressIndicator?: string
+    NoCandidatesIndicator?: string
+    AddressClassification?: {
+      Code: string // '0' unknown, '1' commercial, '2' residential
+      Description: string
+    }
+    // A single candidate comes back as an object, several as an array
+    Candidate?: UPSAddressCandidate | UPSAddressCandidate[]
+  }
+}
+
+interface UPSAddressCandidate {
+  AddressClassification?: {
+    Code: string
+    Description: string
+  }
+  AddressKeyFormat: UPSAddressKeyFormat
+}
+
+// Countries the address validation API covers
+const UPS_VALIDATION_COUNTRIES = ['US', 'PR']
+
+function toAddressType(code: string | undefined): CarrierAddressCheck['type'] {
+  if (code === '1') return 'COMMERCIAL'
+  if (code === '2') return 'RESIDENTIAL'
+  return 'UNKNOWN'
+}
+
+/**
+ * Check an address against UPS's address database and classify it as a home
+ * or a business
+ *
+ * Endpoint: POST /api/addressvalidation/v2/3 (request option 3: validation
+ * and classification)
+ *
+ * @param address - Address to check, US or Puerto Rico only
+ * @returns What UPS found, or an error message
+ */
+export async function validateAddress(
+  address: CarrierAddress
+): Promise<{ check?: CarrierAddressCheck; error?: string }> {
+  const config = getConfig()
+  if (!config) {
+    return { error: 'UPS is not configured' }
+  }
+  if (!UPS_VALIDATION_COUNTRIES.includes(address.countryCode.toUpperCase())) {
+    return { error: `UPS does not validate addresses in ${address.countryCode}` }
+  }
+
+  try {
+    const response = await upsRequest<UPSAddressValidationResponse>(
+      '/api/addressvalidation/v2/3?regionalrequestindicator=false&maximumcandidatelistsize=5',
+      {
+        method: 'POST',
+        body: JSON.stringify({
+          XAVRequest: {
+            AddressKeyFormat: {
+              AddressLine: [address.addressLine1, address.addressLine2].filter(
+                (line): line is string => !!line
+              ),
+              PoliticalDivision2: address.city,
+              PoliticalDivision1: address.state,
+              PostcodePrimaryLow: address.postalCode.slice(0, 5),
+              CountryCode: address.countryCode,
+            },
+          },
+        }),
+      }
+    )
+
+    const result = response.XAVResponse
+    const candidates = [result.Candidate ?? []].flat()
+    const first = candidates[0]
+    const match = result.ValidAddressIndicator !== undefined
+      ? 'FOUND'
+      : result.AmbiguousAddressIndicator !== undefined && first
+        ? 'AMBIGUOUS'
+        : 'NOT_FOUND'
+
+    let candidate: CarrierAddress | null = null
+    if (match !== 'NOT_FOUND' && first) {
+      const key = first.AddressKeyFormat
+      const lines = [key.AddressLine].flat()
+      candidate = {
+        addressLine1: lines[0] ?? '',
+        addressLine2: lines[1],
+        city: key.PoliticalDivision2,
+        state: key.PoliticalDivision1,
+        postalCode: key.PostcodeExtendedLow
+          ? `${key.PostcodePrimaryLow}-${key.PostcodeExtendedLow}`
+          : key.PostcodePrimaryLow,
+        countryCode: key.CountryCode,
+      }
+    }
+
+    return {
+      check: {
+        match,
+        candidate,
+        type: toAddressType(first?.AddressClassification?.Code ?? result.AddressClassification?.Code),
+        message:
+          match === 'NOT_FOUND'
+            ? 'UPS found no address like this'
+            : match === 'AMBIGUOUS'
+              ? 'UPS could not match the address exactly'
+              : undefined,
+      },
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown UPS error'
+    console.error('[UPS] Failed to validate address:', message)
+    return { error: `UPS error: ${message}` }
+  }
+}
+
 /**
  * Test the UPS connection by requesting an OAuth token
  */
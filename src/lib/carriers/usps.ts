@@ -0,0 +1,805 @@
+/**
+ * USPS API Service
+ *
+ * Uses OAuth 2.0 client_credentials flow for authentication.
+ * Production API: https://apis.usps.com
+ * Sandbox API: https://apis-tem.usps.com
+ *
+ * Labels are paid from an Enterprise Payment System (EPS) account. USPS has
+ * no multi-package shipments, so every package is rated and labelled on its
+ * own and the first package's tracking number leads the shipment.
+ *
+ * USPS_MODE picks production, sandbox (default) or mock; see src/lib/carriers/mode.ts.
+ *
+ * Required environment variables:
+ *   - USPS_CLIENT_ID
+ *   - USPS_CLIENT_SECRET
+ *   - USPS_CRID (Customer Registration ID)
+ *   - USPS_MID (Mailer ID)
+ *   - USPS_ACCOUNT_NUMBER (EPS account)
+ */
+
+import type { CarrierMode, TrackingStatus } from '@/app/generated/prisma/client'
+import type { ShipFromAddress } from '@/src/lib/warehouses'
+import { readCarrierMode } from '@/src/lib/carriers/mode'
+
+const USPS_BASE_URLS = {
+  PRODUCTION: 'https://apis.usps.com',
+  SANDBOX: 'https://apis-tem.usps.com',
+}
+
+// In-memory token cache
+let cachedToken: {
+  accessToken: string
+  expiresAt: number // Unix timestamp in ms
+} | null = null
+
+interface USPSConfig {
+  clientId: string
+  clientSecret: string
+  crid: string
+  mid: string
+  accountNumber: string
+}
+
+function getConfig(): USPSConfig | null {
+  const clientId = process.env.USPS_CLIENT_ID
+  const clientSecret = process.env.USPS_CLIENT_SECRET
+  const crid = process.env.USPS_CRID
+  const mid = process.env.USPS_MID
+  const accountNumber = process.env.USPS_ACCOUNT_NUMBER
+
+  if (!clientId || !clientSecret || !crid || !mid || !accountNumber) {
+    console.warn(
+      '[USPS] Missing credentials. Set USPS_CLIENT_ID, USPS_CLIENT_SECRET, USPS_CRID, USPS_MID, and USPS_ACCOUNT_NUMBER in environment.'
+    )
+    return null
+  }
+
+  return { clientId, clientSecret, crid, mid, accountNumber }
+}
+
+/**
+ * USPS mode from USPS_MODE
+ */
+export function getMode(): CarrierMode {
+  return readCarrierMode('USPS_MODE')
+}
+
+function getBaseUrl(): string {
+  return getMode() === 'PRODUCTION' ? USPS_BASE_URLS.PRODUCTION : USPS_BASE_URLS.SANDBOX
+}
+
+/**
+ * Check if USPS integration is configured
+ */
+export function isConfigured(): boolean {
+  return getConfig() !== null
+}
+
+/**
+ * Fetch a new OAuth access token from USPS
+ */
+async function fetchAccessToken(config: USPSConfig): Promise<string> {
+  const response = await fetch(`${getBaseUrl()}/oauth2/v3/token`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      grant_type: 'client_credentials',
+      client_id: config.clientId,
+      client_secret: config.clientSecret,
+    }),
+  })
+
+  if (!response.ok) {
+    const errorText = await response.text()
+    console.error('[USPS] OAuth token request failed:', response.status, errorText)
+    throw new Error(`USPS OAuth failed: ${response.status} ${response.statusText}`)
+  }
+
+  const data = await response.json()
+
+  // Cache the token with expiry (subtract 60 seconds buffer)
+  const expiresIn = data.expires_in || 3600 // Default 1 hour
+  cachedToken = {
+    accessToken: data.access_token,
+    expiresAt: Date.now() + (expiresIn - 60) * 1000,
+  }
+
+  console.log(`[USPS] OAuth token obtained, expires in ${expiresIn} seconds`)
+  return data.access_token
+}
+
+/**
+ * Get a valid access token, refreshing if expired
+ */
+async function getAccessToken(): Promise<string> {
+  const config = getConfig()
+  if (!config) {
+    throw new Error('USPS is not configured')
+  }
+
+  // Check if cached token is still valid
+  if (cachedToken && Date.now() < cachedToken.expiresAt) {
+    return cachedToken.accessToken
+  }
+
+  // Fetch new token
+  return fetchAccessToken(config)
+}
+
+/**
+ * Make an authenticated API request to USPS
+ */
+async function uspsRequest<T>(
+  endpoint: string,
+  options: RequestInit = {}
+): Promise<T> {
+  const accessToken = await getAccessToken()
+
+  const url = endpoint.startsWith('http') ? endpoint : `${getBaseUrl()}${endpoint}`
+
+  const response = await fetch(url, {
+    ...options,
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${accessToken}`,
+      ...options.headers,
+    },
+  })
+
+  if (!response.ok) {
+    let errorBody: unknown
+    try {
+      errorBody = await response.json()
+    } catch {
+      errorBody = await response.text()
+    }
+    console.error(`[USPS] API Error ${response.status}:`, errorBody)
+    throw new USPSError(
+      `USPS API error: ${response.status} ${response.statusText}`,
+      response.status,
+      errorBody
+    )
+  }
+
+  return response.json()
+}
+
+export class USPSError extends Error {
+  status: number
+  details?: unknown
+
+  constructor(message: string, status: number, details?: unknown) {
+    super(message)
+    this.name = 'USPSError'
+    this.status = status
+    this.details = details
+  }
+}
+
+/**
+ * Get a payment authorization token so labels are charged to the EPS account
+ */
+async function getPaymentToken(config: USPSConfig): Promise<string> {
+  const role = {
+    CRID: config.crid,
+    MID: config.mid,
+    manifestMID: config.mid,
+    accountType: 'EPS',
+    accountNumber: config.accountNumber,
+  }
+
+  const response = await uspsRequest<{ paymentAuthorizationToken: string }>(
+    '/payments/v3/payment-authorization',
+    {
+      method: 'POST',
+      body: JSON.stringify({
+        roles: [
+          { roleName: 'PAYER', ...role },
+          { roleName: 'LABEL_OWNER', ...role },
+        ],
+      }),
+    }
+  )
+
+  return response.paymentAuthorizationToken
+}
+
+// Mailing date in the format USPS expects (YYYY-MM-DD)
+function mailingDate(): string {
+  return new Date().toISOString().slice(0, 10)
+}
+
+// USPS wants 5-digit ZIP codes with the +4 sent separately
+function splitZip(postalCode: string): { ZIPCode: string; ZIPPlus4?: string } {
+  const [zip, plus4] = postalCode.split('-')
+  return plus4 ? { ZIPCode: zip.slice(0, 5), ZIPPlus4: plus4 } : { ZIPCode: zip.slice(0, 5) }
+}
+
+// ============================================================================
+// Rate API Types
+// ============================================================================
+
+export interface USPSBaseRatesRequest {
+  originZIPCode: string
+  destinationZIPCode: string
+  weight: number // in lbs
+  length: number // in inches
+  width: number // in inches
+  height: number // in inches
+  mailClass: string
+  processingCategory: 'MACHINABLE' | 'NONSTANDARD'
+  rateIndicator: string // 'SP' single piece
+  destinationEntryFacilityType: 'NONE'
+  priceType: 'COMMERCIAL' | 'RETAIL'
+  mailingDate: string
+  accountType: 'EPS'
+  accountNumber: string
+}
+
+export interface USPSBaseRatesResponse {
+  totalBasePrice: number
+  rates: Array<{
+    SKU: string
+    description: string
+    priceType: string
+    price: number
+    weight: number
+    mailClass: string
+    zone?: string
+  }>
+}
+
+// Domestic mail classes we rate, by USPS mail class code
+export const USPS_SERVICES: Record<string, string> = {
+  USPS_GROUND_ADVANTAGE: 'USPS Ground Advantage',
+  PRIORITY_MAIL: 'USPS Priority Mail',
+  PRIORITY_MAIL_EXPRESS: 'USPS Priority Mail Express',
+}
+
+// ============================================================================
+// Rate API
+// ============================================================================
+
+export interface RateResult {
+  serviceCode: string
+  serviceName: string
+  totalCharge: number
+  currency: string
+}
+
+export interface GetRatesResponse {
+  rates: RateResult[]
+  error?: string
+}
+
+/**
+ * Get domestic commercial rates for each USPS mail class. A shipment's price
+ * is the sum of its packages' prices; classes that can't take one of the
+ * packages (too heavy or too large) are left out.
+ *
+ * Endpoint: POST /prices/v3/base-rates/search
+ *
+ * @param params.shipFrom - Address of the warehouse the parcel leaves from
+ * @param params.shipTo - Customer's shipping address
+ * @param params.packages - Array of packages with weight and optional dimensions
+ * @returns Object with rates array (sorted by price) and optional error message
+ */
+export async function getRates(params: {
+  shipFrom: ShipFromAddress
+  shipTo: {
+    postalCode: string
+    countryCode: string
+  }
+  packages: Array<{
+    weight: number // in lbs
+    length?: number // in inches
+    width?: number // in inches
+    height?: number // in inches
+  }>
+}): Promise<GetRatesResponse> {
+  const config = getConfig()
+  if (!config) {
+    return { rates: [], error: 'USPS is not configured' }
+  }
+
+  if (!params.shipFrom.postalCode) {
+    return { rates: [], error: 'Ship-from warehouse address is incomplete' }
+  }
+
+  if (params.shipTo.countryCode !== 'US') {
+    return { rates: [], error: 'USPS rates are only available for domestic shipments' }
+  }
+
+  try {
+    console.log('[USPS] Requesting rates...')
+
+    const results: RateResult[] = []
+    const errors: string[] = []
+
+    for (const [mailClass, serviceName] of Object.entries(USPS_SERVICES)) {
+      try {
+        const prices = await Promise.all(
+          params.packages.map((pkg) => {
+            const requestBody: USPSBaseRatesRequest = {
+              originZIPCode: splitZip(params.shipFrom.postalCode).ZIPCode,
+              destinationZIPCode: splitZip(params.shipTo.postalCode).ZIPCode,
+              weight: Math.max(0.1, pkg.weight),
+              length: Math.max(1, pkg.length || 1),
+              width: Math.max(1, pkg.width || 1),
+              height: Math.max(1, pkg.height || 1),
+              mailClass,
+              processingCategory: 'MACHINABLE',
+              rateIndicator: 'SP',
+              destinationEntryFacilityType: 'NONE',
+              priceType: 'COMMERCIAL',
+              mailingDate: mailingDate(),
+              accountType: 'EPS',
+              accountNumber: config.accountNumber,
+            }
+
+            return uspsRequest<USPSBaseRatesResponse>('/prices/v3/base-rates/search', {
+              method: 'POST',
+              body: JSON.stringify(requestBody),
+            })
+          })
+        )
+
+        results.push({
+          serviceCode: mailClass,
+          serviceName,
+          totalCharge: Math.round(prices.reduce((sum, p) => sum + p.totalBasePrice, 0) * 100) / 100,
+          currency: 'USD',
+        })
+      } catch (error) {
+        errors.push(`${serviceName}: ${error instanceof Error ? error.message : 'Unknown error'}`)
+      }
+    }
+
+    if (results.length === 0 && errors.length > 0) {
+      return { rates: [], error: `USPS error: ${errors.join('; ')}` }
+    }
+
+    console.log(`[USPS] Got ${results.length} rates`)
+    return { rates: results.sort((a, b) => a.totalCharge - b.totalCharge) }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown USPS error'
+    console.error('[USPS] Failed to get rates:', message)
+    return { rates: [], error: `USPS error: ${message}` }
+  }
+}
+
+// ============================================================================
+// Shipping Label API Types
+// ============================================================================
+
+export interface USPSLabelAddress {
+  firstName?: string
+  lastName?: string
+  firm?: string
+  streetAddress: string
+  secondaryAddress?: string
+  city: string
+  state: string
+  ZIPCode: string
+  ZIPPlus4?: string
+  phone?: string
+}
+
+export interface USPSLabelRequest {
+  imageInfo: {
+    imageType: 'PDF' | 'ZPL203DPI'
+    labelType: '4X6LABEL'
+    receiptOption: 'NONE'
+  }
+  toAddress: USPSLabelAddress
+  fromAddress: USPSLabelAddress
+  packageDescription: {
+    mailClass: string
+    rateIndicator: string
+    weightUOM: 'lb'
+    weight: number
+    dimensionsUOM: 'in'
+    length: number
+    width: number
+    height: number
+    processingCategory: 'MACHINABLE' | 'NONSTANDARD'
+    mailingDate: string
+    destinationEntryFacilityType: 'NONE'
+  }
+}
+
+export interface USPSLabelResponse {
+  labelMetadata: {
+    trackingNumber: string
+    postage: number
+    SKU?: string
+    zone?: string
+  }
+  labelImage: string // Base64 encoded
+}
+
+export interface CreateShipmentResult {
+  trackingNumber: string // first package's tracking number
+  labelBase64: string // label of the first package
+  labelFormat: 'PDF' | 'ZPL'
+  cost: number
+  currency: string
+  packages: Array<{
+    trackingNumber: string
+    labelBase64: string
+  }> // one per package, in the order they were requested
+}
+
+export interface CreateShipmentResponse {
+  shipment?: CreateShipmentResult
+  error?: string
+}
+
+/**
+ * Buy a label for each package
+ *
+ * Endpoint: POST /labels/v3/label
+ *
+ * @param params.serviceCode - USPS mail class (e.g., 'USPS_GROUND_ADVANTAGE')
+ * @param params.shipFrom - Address of the warehouse the parcel leaves from
+ * @param params.shipTo - Customer's shipping address
+ * @param params.packages - Array of packages with weight and dimensions
+ * @param params.labelFormat - Label format: 'PDF' (default) or 'ZPL' (thermal printers)
+ * @returns Object with shipment details or error message
+ */
+export async function createShipment(params: {
+  serviceCode: string
+  shipFrom: ShipFromAddress
+  shipTo: {
+    name: string
+    addressLine1: string
+    addressLine2?: string
+    city: string
+    state: string
+    postalCode: string
+    countryCode: string
+    phone?: string
+  }
+  packages: Array<{
+    weight: number // in lbs
+    length?: number // in inches
+    width?: number // in inches
+    height?: number // in inches
+  }>
+  labelFormat?: 'PDF' | 'ZPL'
+}): Promise<CreateShipmentResponse> {
+  const config = getConfig()
+  if (!config) {
+    return { error: 'USPS is not configured' }
+  }
+
+  const { shipFrom, shipTo } = params
+
+  if (!shipFrom.addressLine1 || !shipFrom.city || !shipFrom.state || !shipFrom.postalCode) {
+    return { error: 'Ship-from warehouse address is incomplete' }
+  }
+
+  if (shipTo.countryCode !== 'US') {
+    return { error: 'USPS labels are only available for domestic shipments' }
+  }
+
+  try {
+    const labelFormat = params.labelFormat || 'PDF'
+    const [firstName, ...lastNames] = shipTo.name.trim().split(/\s+/)
+
+    const toAddress: USPSLabelAddress = {
+      firstName,
+      lastName: lastNames.join(' ') || undefined,
+      streetAddress: shipTo.addressLine1,
+      secondaryAddress: shipTo.addressLine2,
+      city: shipTo.city,
+      state: shipTo.state,
+      ...splitZip(shipTo.postalCode),
+      phone: shipTo.phone,
+    }
+
+    const fromAddress: USPSLabelAddress = {
+      firm: shipFrom.name,
+      streetAddress: shipFrom.addressLine1,
+      secondaryAddress: shipFrom.addressLine2,
+      city: shipFrom.city,
+      state: shipFrom.state,
+      ...splitZip(shipFrom.postalCode),
+      phone: shipFrom.phone,
+    }
+
+    console.log(`[USPS] Creating shipment with mail class ${params.serviceCode}...`)
+
+    const paymentToken = await getPaymentToken(config)
+
+    const packages: CreateShipmentResult['packages'] = []
+    let cost = 0
+
+    for (const pkg of params.packages) {
+      const requestBody: USPSLabelRequest = {
+        imageInfo: {
+          imageType: labelFormat === 'ZPL' ? 'ZPL203DPI' : 'PDF',
+          labelType: '4X6LABEL',
+          receiptOption: 'NONE',
+        },
+        toAddress,
+        fromAddress,
+        packageDescription: {
+          mailClass: params.serviceCode,
+          rateIndicator: 'SP',
+          weightUOM: 'lb',
+          weight: Math.max(0.1, pkg.weight),
+          dimensionsUOM: 'in',
+          length: Math.max(1, pkg.length || 1),
+          width: Math.max(1, pkg.width || 1),
+          height: Math.max(1, pkg.height || 1),
+          processingCategory: 'MACHINABLE',
+          mailingDate: mailingDate(),
+          destinationEntryFacilityType: 'NONE',
+        },
+      }
+
+      // Each package is its own label; when one fails the ones already
+      // bought are cancelled so their postage isn't lost
+      let response: USPSLabelResponse
+      try {
+        response = await uspsRequest<USPSLabelResponse>('/labels/v3/label', {
+          method: 'POST',
+          headers: {
+            Accept: 'application/vnd.usps.labels+json',
+            'X-Payment-Authorization-Token': paymentToken,
+          },
+          body: JSON.stringify(requestBody),
+        })
+        if (!response.labelImage) {
+          throw new Error('No label data returned from USPS')
+        }
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown USPS error'
+        console.error(`[USPS] Failed to create label for package ${packages.length + 1}:`, message)
+        if (packages.length === 0) {
+          return { error: `USPS error: ${message}` }
+        }
+
+        const bought = packages.map((bought) => bought.trackingNumber)
+        const cancelled = await cancelLabels(bought)
+        return {
+          error: cancelled.voided
+            ? `USPS error: ${message}. Cancelled the labels already bought: ${bought.join(', ')}.`
+            : `USPS error: ${message}. Labels ${bought.join(', ')} were bought but could not be cancelled, cancel them with USPS.`,
+        }
+      }
+
+      packages.push({
+        trackingNumber: response.labelMetadata.trackingNumber,
+        labelBase64: response.labelImage,
+      })
+      cost += response.labelMetadata.postage
+    }
+
+    if (packages.length === 0) {
+      return { error: 'No label data returned from USPS' }
+    }
+
+    console.log(
+      `[USPS] Shipment created: ${packages[0].trackingNumber} (${packages.length} package${packages.length !== 1 ? 's' : ''})`
+    )
+
+    return {
+      shipment: {
+        trackingNumber: packages[0].trackingNumber,
+        labelBase64: packages[0].labelBase64,
+        labelFormat,
+        cost: Math.round(cost * 100) / 100,
+        currency: 'USD',
+        packages,
+      },
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown USPS error'
+    console.error('[USPS] Failed to create shipment:', message)
+    return { error: `USPS error: ${message}` }
+  }
+}
+
+// ============================================================================
+// Cancel API
+// ============================================================================
+
+export interface USPSCancelResponse {
+  trackingNumber: string
+  status: string // 'CANCELED' once the refund is accepted
+}
+
+/**
+ * Cancel the labels of a shipment so their postage is refunded. Only works
+ * before the packages have been scanned by USPS.
+ *
+ * Endpoint: DELETE /labels/v3/label/{trackingNumber}
+ *
+ * Every label is tried, and one USPS already cancelled counts as cancelled, so
+ * a retry after a partial failure can finish the job.
+ *
+ * @param trackingNumbers - Tracking number of every package in the shipment
+ * @returns Whether every label was cancelled, or which weren't and why
+ */
+export async function cancelLabels(
+  trackingNumbers: string[]
+): Promise<{ voided: boolean; error?: string }> {
+  const config = getConfig()
+  if (!config) {
+    return { voided: false, error: 'USPS is not configured' }
+  }
+
+  let paymentToken: string
+  try {
+    paymentToken = await getPaymentToken(config)
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown USPS error'
+    console.error('[USPS] Failed to cancel labels:', message)
+    return { voided: false, error: `USPS error: ${message}` }
+  }
+
+  const failures: string[] = []
+  for (const trackingNumber of trackingNumbers) {
+    console.log(`[USPS] Cancelling label ${trackingNumber}...`)
+
+    try {
+      const response = await uspsRequest<USPSCancelResponse>(
+        `/labels/v3/label/${encodeURIComponent(trackingNumber)}`,
+        {
+          method: 'DELETE',
+          headers: { 'X-Payment-Authorization-Token': paymentToken },
+        }
+      )
+
+      if (response.status !== 'CANCELED') {
+        failures.push(`${trackingNumber}: ${response.status}`)
+      }
+    } catch (error) {
+      if (isAlreadyCancelled(error)) {
+        console.log(`[USPS] Label ${trackingNumber} was already cancelled`)
+        continue
+      }
+      const message = error instanceof Error ? error.message : 'Unknown USPS error'
+      console.error(`[USPS] Failed to cancel label ${trackingNumber}:`, message)
+      failures.push(`${trackingNumber}: ${message}`)
+    }
+  }
+
+  if (failures.length > 0) {
+    return { voided: false, error: `USPS could not cancel ${failures.length === 1 ? 'label' : 'labels'} ${failures.join('; ')}` }
+  }
+
+  console.log(`[USPS] Labels cancelled: ${trackingNumbers.join(', ')}`)
+  return { voided: true }
+}
+
+// USPS answers a second cancel of the same label with an error saying so
+function isAlreadyCancelled(error: unknown): boolean {
+  return (
+    error instanceof USPSError &&
+    /already\s+(been\s+)?(cancel|refund)/i.test(JSON.stringify(error.details ?? ''))
+  )
+}
+
+// ============================================================================
+// Tracking API
+// ============================================================================
+
+export interface USPSTrackingResponse {
+  trackingNumber: string
+  trackingEvents?: Array<{
+    eventType: string
+    eventTimestamp: string // ISO 8601
+    eventCode: string
+    eventCity?: string
+    eventState?: string
+    eventCountry?: string
+  }>
+}
+
+export interface TrackingEvent {
+  status: TrackingStatus
+  code: string
+  description: string
+  location: string | null
+  occurredAt: Date
+}
+
+export interface GetTrackingResponse {
+  events: TrackingEvent[]
+  error?: string
+}
+
+// USPS event codes for parcels that won't be delivered without help
+const EXCEPTION_CODES = new Set([
+  '02', // notice left
+  '04', // refused
+  '05', // undeliverable as addressed
+  '09', // return to sender
+  '21', // no such number
+  '22', // insufficient address
+  '23', // moved, left no address
+  '44', // customer recall
+])
+
+function toTrackingStatus(eventCode: string): TrackingStatus {
+  switch (eventCode) {
+    case '01':
+      return 'DELIVERED'
+    case 'OF':
+      return 'OUT_FOR_DELIVERY'
+    case 'GX': // shipping label created
+    case 'MA': // manifest acknowledged
+      return 'LABEL_CREATED'
+  }
+
+  return EXCEPTION_CODES.has(eventCode) ? 'EXCEPTION' : 'IN_TRANSIT'
+}
+
+/**
+ * Get the scan history of a package
+ *
+ * Endpoint: GET /tracking/v3/tracking/{trackingNumber}
+ *
+ * @param trackingNumber - Package tracking number
+ * @returns Tracking events, newest first, or an error message
+ */
+export async function getTracking(trackingNumber: string): Promise<GetTrackingResponse> {
+  const config = getConfig()
+  if (!config) {
+    return { events: [], error: 'USPS is not configured' }
+  }
+
+  try {
+    const response = await uspsRequest<USPSTrackingResponse>(
+      `/tracking/v3/tracking/${encodeURIComponent(trackingNumber)}?expand=DETAIL`
+    )
+
+    const events: TrackingEvent[] = (response.trackingEvents || []).map((event) => {
+      const location = [event.eventCity, event.eventState, event.eventCountry]
+        .filter(Boolean)
+        .join(', ')
+
+      return {
+        status: toTrackingStatus(event.eventCode),
+        code: event.eventCode,
+        description: event.eventType,
+        location: location || null,
+        occurredAt: new Date(event.eventTimestamp),
+      }
+    })
+
+    return { events }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown USPS error'
+    console.error('[USPS] Failed to get tracking:', message)
+    return { events: [], error: `USPS error: ${message}` }
+  }
+}
+
+/**
+ * Test the USPS connection by requesting an OAuth token
+ */
+export async function testConnection(): Promise<{
+  success: boolean
+  error?: string
+}> {
+  try {
+    const config = getConfig()
+    if (!config) {
+      return { success: false, error: 'USPS credentials not configured' }
+    }
+
+    await getAccessToken()
+    return { success: true }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return { success: false, error: message }
+  }
+}
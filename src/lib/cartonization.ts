@@ -0,0 +1,300 @@
+/**
+ * Cartonization
+ *
+ * Chooses boxes from the catalog for the units going out. Units are placed one
+ * at a time, largest first, at the lowest free corner of the box in whichever
+ * of their six orientations fits. Everything goes in the smallest box that
+ * holds it all; when no box does, the box that takes the most is filled and
+ * the rest packed again. A unit too big for every box ships in its own
+ * packaging.
+ *
+ * The result is a suggestion; packers can change boxes at the ship screen.
+ */
+
+import { prisma } from '@/src/lib/db'
+import { getDefaultPackage, MIN_WEIGHT, type PackageInput } from '@/src/lib/fulfillment'
+
+export interface CartonBox {
+  id: string
+  code: string
+  name: string
+  length: number // inside, in inches
+  width: number // inside, in inches
+  height: number // inside, in inches
+  tareWeight: number // in lbs
+  maxWeight: number | null // in lbs
+}
+
+export interface Carton extends PackageInput {
+  boxId: string | null
+  boxName: string | null // null for a unit in its own packaging, or an empty catalog
+}
+
+type Contents = Parameters<typeof getDefaultPackage>[0]
+
+interface Unit {
+  weight: number
+  dims: [number, number, number] // longest side first
+  volume: number
+}
+
+interface Placement {
+  x: number
+  y: number
+  z: number
+  l: number
+  w: number
+  h: number
+}
+
+// Slack for dimensions that don't add up exactly in floating point
+const EPSILON = 0.001
+
+function boxVolume(box: CartonBox): number {
+  return box.length * box.width * box.height
+}
+
+function toUnits(contents: Contents): Unit[] {
+  const units: Unit[] = []
+
+  for (const { quantity, product } of contents) {
+    if (!product || quantity <= 0) continue
+
+    const dims = [Number(product.length), Number(product.width), Number(product.height)].sort(
+      (a, b) => b - a
+    ) as [number, number, number]
+    const volume = dims[0] * dims[1] * dims[2]
+
+    for (let i = 0; i < quantity; i++) {
+      units.push({ weight: Number(product.weight), dims, volume })
+    }
+  }
+
+  // Largest first leaves the small units to fill the gaps
+  return units.sort((a, b) => b.volume - a.volume || b.dims[0] - a.dims[0])
+}
+
+function orientations([a, b, c]: [number, number, number]): Array<[number, number, number]> {
+  return [
+    [a, b, c],
+    [a, c, b],
+    [b, a, c],
+    [b, c, a],
+    [c, a, b],
+    [c, b, a],
+  ]
+}
+
+function overlaps(a: Placement, b: Placement): boolean {
+  return (
+    a.x < b.x + b.l - EPSILON &&
+    b.x < a.x + a.l - EPSILON &&
+    a.y < b.y + b.w - EPSILON &&
+    b.y < a.y + a.w - EPSILON &&
+    a.z < b.z + b.h - EPSILON &&
+    b.z < a.z + a.h - EPSILON
+  )
+}
+
+function covers(p: Placement, point: { x: number; y: number; z: number }): boolean {
+  return (
+    point.x > p.x - EPSILON &&
+    point.x < p.x + p.l - EPSILON &&
+    point.y > p.y - EPSILON &&
+    point.y < p.y + p.w - EPSILON &&
+    point.z > p.z - EPSILON &&
+    point.z < p.z + p.h - EPSILON
+  )
+}
+
+/**
+ * Find the first free corner, lowest first, where the unit fits in some
+ * orientation
+ */
+function findPlacement(
+  box: CartonBox,
+  points: Array<{ x: number; y: number; z: number }>,
+  placed: Placement[],
+  unit: Unit
+): { placement: Placement; pointIndex: number } | null {
+  for (const [pointIndex, point] of points.entries()) {
+    for (const [l, w, h] of orientations(unit.dims)) {
+      if (
+        point.x + l > box.length + EPSILON ||
+        point.y + w > box.width + EPSILON ||
+        point.z + h > box.height + EPSILON
+      ) {
+        continue
+      }
+
+      const placement = { ...point, l, w, h }
+      if (!placed.some((p) => overlaps(p, placement))) {
+        return { placement, pointIndex }
+      }
+    }
+  }
+
+  return null
+}
+
+/**
+ * Place units in a box in order, skipping any that don't fit or would take
+ * it over its weight limit
+ *
+ * @returns The units that went in
+ */
+function packBox(box: CartonBox, units: Unit[]): Unit[] {
+  const placed: Placement[] = []
+  const packed: Unit[] = []
+  let points = [{ x: 0, y: 0, z: 0 }]
+  let weight = box.tareWeight
+
+  for (const unit of units) {
+    if (box.maxWeight !== null && weight + unit.weight > box.maxWeight + EPSILON) continue
+
+    // Units without dimensions don't take up room
+    if (unit.volume === 0) {
+      packed.push(unit)
+      weight += unit.weight
+      continue
+    }
+
+    const found = findPlacement(box, points, placed, unit)
+    if (!found) continue
+
+    const { placement: p, pointIndex } = found
+    placed.push(p)
+    packed.push(unit)
+    weight += unit.weight
+
+    // The corners the unit opens up, bottom of the box first. Corners now
+    // covered by a unit can never be used again.
+    points = [
+      ...points.filter((_, i) => i !== pointIndex),
+      { x: p.x + p.l, y: p.y, z: p.z },
+      { x: p.x, y: p.y + p.w, z: p.z },
+      { x: p.x, y: p.y, z: p.z + p.h },
+    ]
+      .filter((point) => !placed.some((q) => covers(q, point)))
+      .sort((a, b) => a.z - b.z || a.y - b.y || a.x - b.x)
+  }
+
+  return packed
+}
+
+/**
+ * Whether every unit goes in the box
+ */
+function fitsAll(box: CartonBox, units: Unit[]): boolean {
+  const volume = units.reduce((sum, unit) => sum + unit.volume, 0)
+  const weight = units.reduce((sum, unit) => sum + unit.weight, box.tareWeight)
+
+  if (volume > boxVolume(box) + EPSILON) return false
+  if (box.maxWeight !== null && weight > box.maxWeight + EPSILON) return false
+
+  return packBox(box, units).length === units.length
+}
+
+function toCarton(box: CartonBox, units: Unit[]): Carton {
+  const weight = units.reduce((sum, unit) => sum + unit.weight, box.tareWeight)
+
+  return {
+    weight: Math.max(MIN_WEIGHT, Math.round(weight * 100) / 100),
+    length: box.length,
+    width: box.width,
+    height: box.height,
+    boxId: box.id,
+    boxName: box.name,
+  }
+}
+
+/**
+ * Pack the units into as few, as small boxes from the catalog as possible
+ */
+export function cartonize(contents: Contents, boxes: CartonBox[]): Carton[] {
+  const sorted = [...boxes].sort((a, b) => boxVolume(a) - boxVolume(b))
+  const cartons: Carton[] = []
+  let remaining: Unit[] = []
+
+  for (const unit of toUnits(contents)) {
+    if (sorted.some((box) => fitsAll(box, [unit]))) {
+      remaining.push(unit)
+    } else {
+      // Too big or heavy for every box
+      cartons.push({
+        weight: Math.max(MIN_WEIGHT, Math.round(unit.weight * 100) / 100),
+        length: unit.dims[0],
+        width: unit.dims[1],
+        height: unit.dims[2],
+        boxId: null,
+        boxName: null,
+      })
+    }
+  }
+
+  while (remaining.length > 0) {
+    const all = sorted.find((box) => fitsAll(box, remaining))
+    if (all) {
+      cartons.push(toCarton(all, remaining))
+      break
+    }
+
+    // Fill whichever box takes the most, then move what went in to the
+    // smallest box that still holds it
+    let packed: Unit[] = []
+    let packedVolume = 0
+    for (const box of sorted) {
+      const units = packBox(box, remaining)
+      const volume = units.reduce((sum, unit) => sum + unit.volume, 0)
+      if (volume > packedVolume || packed.length === 0) {
+        packed = units
+        packedVolume = volume
+      }
+    }
+
+    const box = sorted.find((b) => fitsAll(b, packed))
+    if (!box || packed.length === 0) break
+
+    cartons.push(toCarton(box, packed))
+    remaining = remaining.filter((unit) => !packed.includes(unit))
+  }
+
+  return cartons
+}
+
+/**
+ * Active boxes in the catalog, smallest first
+ */
+export async function getActiveBoxes(): Promise<CartonBox[]> {
+  const boxes = await prisma.shippingBox.findMany({
+    where: { isActive: true },
+  })
+
+  return boxes
+    .map((box) => ({
+      id: box.id,
+      code: box.code,
+      name: box.name,
+      length: Number(box.length),
+      width: Number(box.width),
+      height: Number(box.height),
+      tareWeight: Number(box.tareWeight),
+      maxWeight: box.maxWeight !== null ? Number(box.maxWeight) : null,
+    }))
+    .sort((a, b) => boxVolume(a) - boxVolume(b))
+}
+
+/**
+ * Suggested boxes for the units going out. Falls back to a single box sized
+ * from the products when the catalog is empty.
+ */
+export async function planCartons(contents: Contents): Promise<Carton[]> {
+  const boxes = await getActiveBoxes()
+  const cartons = boxes.length > 0 ? cartonize(contents, boxes) : []
+
+  if (cartons.length === 0) {
+    return [{ ...getDefaultPackage(contents), boxId: null, boxName: null }]
+  }
+
+  return cartons
+}
@@ -0,0 +1,307 @@
+/**
+ * Customs
+ *
+ * A parcel leaving the ship-from warehouse's country needs a customs
+ * declaration: a line per item with what it is, its HS code, where it was
+ * made and what it is worth. The lines are built from the order items being
+ * shipped and go to the carrier with the label request. The same lines print
+ * as the commercial invoice that travels with the parcel, stored next to the
+ * label.
+ *
+ * HS code and country of origin come from the product page. The declared
+ * value defaults to what the customer paid and the description to the
+ * product name.
+ */
+
+import { PDFDocument } from 'pdf-lib'
+import type { Prisma } from '@/app/generated/prisma/client'
+import type { CustomsCommodity, CustomsDeclaration } from '@/src/lib/carriers'
+import type { ShipFromAddress } from '@/src/lib/warehouses'
+import {
+  GRAY,
+  MARGIN,
+  PAGE_WIDTH,
+  createPageWriter,
+  embedFonts,
+  wrapText,
+  type FontSet,
+  type PageWriter,
+} from '@/src/lib/pdf-pages'
+
+// 6 digits are shared by every country, some add up to 4 more
+const HS_CODE_PATTERN = /^\d{6,10}$/
+const COUNTRY_PATTERN = /^[A-Z]{2}$/
+
+// Table columns: left edge of each, the money columns are right aligned
+const COLUMNS = {
+  description: MARGIN,
+  hsCode: MARGIN + 200,
+  origin: MARGIN + 280,
+  qtyRight: MARGIN + 365,
+  unitValueRight: MARGIN + 445,
+  totalRight: PAGE_WIDTH - MARGIN,
+}
+
+export interface CommercialInvoice {
+  declaration: CustomsDeclaration
+  exporter: ShipFromAddress
+  consignee: string[] // name and address lines
+  carrier: string
+  service: string
+  trackingNumber: string
+  packageCount: number
+}
+
+/**
+ * Whether a parcel crosses a border and needs customs data
+ */
+export function isInternational(fromCountry: string, toCountry: string): boolean {
+  return fromCountry.trim().toUpperCase() !== toCountry.trim().toUpperCase()
+}
+
+/**
+ * An HS code as carriers take it, digits only: "4202.32.10" becomes
+ * "42023210"
+ *
+ * @returns The code, or null if it isn't 6 to 10 digits
+ */
+export function normalizeHsCode(value: string): string | null {
+  const digits = value.replace(/[\s.-]/g, '')
+  return HS_CODE_PATTERN.test(digits) ? digits : null
+}
+
+/**
+ * A country of origin as a two-letter ISO code, or null if it isn't one
+ */
+export function normalizeCountryCode(value: string): string | null {
+  const code = value.trim().toUpperCase()
+  return COUNTRY_PATTERN.test(code) ? code : null
+}
+
+/**
+ * The declaration of what is being shipped
+ *
+ * @returns The declaration, or the items missing customs data
+ */
+export function buildCustomsDeclaration(params: {
+  orderNumber: string
+  currency: string
+  lines: Array<{
+    item: { sku: string; name: string; price: Prisma.Decimal }
+    product: {
+      weight: Prisma.Decimal
+      hsCode: string | null
+      countryOfOrigin: string | null
+      customsValue: Prisma.Decimal | null
+      customsDescription: string | null
+    } | null
+    quantity: number
+  }>
+}): { declaration?: CustomsDeclaration; missing?: string[] } {
+  const missing: string[] = []
+  const commodities: CustomsCommodity[] = []
+
+  for (const { item, product, quantity } of params.lines) {
+    if (quantity <= 0) continue
+    if (!product) {
+      missing.push(`${item.sku}: Product not in system`)
+      continue
+    }
+
+    const gaps = [
+      !product.hsCode && 'HS code',
+      !product.countryOfOrigin && 'country of origin',
+    ].filter(Boolean)
+    if (gaps.length > 0) {
+      missing.push(`${item.sku}: No ${gaps.join(' or ')}`)
+      continue
+    }
+
+    commodities.push({
+      description: product.customsDescription || item.name,
+      hsCode: product.hsCode!,
+      countryOfOrigin: product.countryOfOrigin!,
+      quantity,
+      unitValue: Number(product.customsValue ?? item.price),
+      weight: Number(product.weight) * quantity,
+    })
+  }
+
+  if (missing.length > 0) {
+    return { missing }
+  }
+
+  return {
+    declaration: {
+      invoiceNumber: params.orderNumber.replace(/^#/, ''),
+      invoiceDate: new Date(),
+      currency: params.currency,
+      commodities,
+    },
+  }
+}
+
+function formatMoney(amount: number, currency: string): string {
+  return `${amount.toFixed(2)} ${currency}`
+}
+
+function drawHeader(writer: PageWriter, invoice: CommercialInvoice) {
+  const { declaration, exporter } = invoice
+  const top = writer.y
+  const right = PAGE_WIDTH - MARGIN
+
+  writer.y -= 18
+  writer.textRight('COMMERCIAL INVOICE', right, { size: 18, bold: true })
+  writer.y -= 20
+  writer.textRight(`Invoice ${declaration.invoiceNumber}`, right, { size: 12, bold: true })
+  writer.y -= 15
+  writer.textRight(
+    declaration.invoiceDate.toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
+    }),
+    right
+  )
+  const rightBottom = writer.y
+
+  // Left: the exporter, i.e. the warehouse the parcel leaves from
+  writer.y = top
+  writer.text('EXPORTER', MARGIN, { size: 8, bold: true, color: GRAY })
+  const exporterLines = [
+    exporter.name,
+    exporter.addressLine1,
+    exporter.addressLine2,
+    `${exporter.city}, ${exporter.state} ${exporter.postalCode}`,
+    exporter.countryCode,
+    exporter.phone && `Phone ${exporter.phone}`,
+  ].filter((line): line is string => !!line)
+  exporterLines.forEach((line, index) => {
+    writer.y -= 14
+    writer.text(line, MARGIN, { bold: index === 0 })
+  })
+
+  writer.y = Math.min(rightBottom, writer.y) - 28
+}
+
+function drawParties(writer: PageWriter, invoice: CommercialInvoice) {
+  const top = writer.y
+  const weight = invoice.declaration.commodities.reduce((sum, c) => sum + c.weight, 0)
+
+  writer.text('CONSIGNEE / SOLD TO', MARGIN, { size: 8, bold: true, color: GRAY })
+  invoice.consignee.forEach((line, index) => {
+    writer.y -= 14
+    writer.text(line, MARGIN, { bold: index === 0 })
+  })
+  const leftBottom = writer.y
+
+  const x = MARGIN + 260
+  writer.y = top
+  writer.text('SHIPMENT', x, { size: 8, bold: true, color: GRAY })
+  for (const line of [
+    `${invoice.carrier} ${invoice.service}`,
+    `Tracking ${invoice.trackingNumber}`,
+    `${invoice.packageCount} package${invoice.packageCount !== 1 ? 's' : ''}, ${weight.toFixed(1)} lbs`,
+    'Reason for export: Sale',
+    'Terms: DAP, duties paid by the consignee',
+  ]) {
+    writer.y -= 14
+    writer.text(line, x)
+  }
+
+  writer.y = Math.min(leftBottom, writer.y) - 28
+}
+
+function drawTableHeader(writer: PageWriter) {
+  writer.rect(MARGIN, writer.y - 6, PAGE_WIDTH - 2 * MARGIN, 20, { fill: true })
+  writer.y += 1
+  writer.text('DESCRIPTION', COLUMNS.description + 4, { size: 8, bold: true })
+  writer.text('HS CODE', COLUMNS.hsCode, { size: 8, bold: true })
+  writer.text('ORIGIN', COLUMNS.origin, { size: 8, bold: true })
+  writer.textRight('QTY', COLUMNS.qtyRight, { size: 8, bold: true })
+  writer.textRight('UNIT VALUE', COLUMNS.unitValueRight, { size: 8, bold: true })
+  writer.textRight('TOTAL', COLUMNS.totalRight - 4, { size: 8, bold: true })
+  writer.y -= 22
+}
+
+function drawCommodities(writer: PageWriter, invoice: CommercialInvoice, fonts: FontSet) {
+  const { currency, commodities, invoiceNumber } = invoice.declaration
+  drawTableHeader(writer)
+
+  let total = 0
+  for (const commodity of commodities) {
+    const lineTotal = commodity.unitValue * commodity.quantity
+    total += lineTotal
+
+    const descriptionLines = wrapText(
+      commodity.description,
+      fonts.regular,
+      10,
+      COLUMNS.hsCode - COLUMNS.description - 12
+    )
+    const rowHeight = descriptionLines.length * 13 + 6
+
+    if (writer.ensureSpace(rowHeight)) {
+      writer.text(`Invoice ${invoiceNumber} (continued)`, MARGIN, { size: 9, color: GRAY })
+      writer.y -= 24
+      drawTableHeader(writer)
+    }
+
+    const rowTop = writer.y
+    writer.text(commodity.hsCode, COLUMNS.hsCode, { size: 9 })
+    writer.text(commodity.countryOfOrigin, COLUMNS.origin, { size: 9 })
+    writer.textRight(String(commodity.quantity), COLUMNS.qtyRight)
+    writer.textRight(commodity.unitValue.toFixed(2), COLUMNS.unitValueRight)
+    writer.textRight(lineTotal.toFixed(2), COLUMNS.totalRight - 4)
+    descriptionLines.forEach((line, index) => {
+      writer.y = rowTop - index * 13
+      writer.text(line, COLUMNS.description + 4)
+    })
+
+    writer.y = rowTop - rowHeight + 10
+    writer.line()
+    writer.y -= 14
+  }
+
+  writer.textRight(`Total value: ${formatMoney(total, currency)}`, COLUMNS.totalRight - 4, {
+    size: 11,
+    bold: true,
+  })
+  writer.y -= 36
+}
+
+function drawDeclaration(writer: PageWriter, fonts: FontSet) {
+  const statement = wrapText(
+    'I declare that the information on this invoice is true and correct and that the contents of this shipment are as stated above.',
+    fonts.regular,
+    9,
+    PAGE_WIDTH - 2 * MARGIN
+  )
+  writer.ensureSpace(statement.length * 12 + 60)
+
+  for (const line of statement) {
+    writer.text(line, MARGIN, { size: 9 })
+    writer.y -= 12
+  }
+  writer.y -= 36
+  writer.text('Signature: ______________________________', MARGIN)
+  writer.text('Date: ________________', MARGIN + 300)
+}
+
+/**
+ * A commercial invoice as a one-copy letter-size PDF
+ */
+export async function renderCommercialInvoice(invoice: CommercialInvoice): Promise<Uint8Array> {
+  const document = await PDFDocument.create()
+  document.setTitle(`Commercial invoice ${invoice.declaration.invoiceNumber}`)
+
+  const fonts = await embedFonts(document)
+  const writer = createPageWriter(document, fonts)
+  writer.newPage()
+  drawHeader(writer, invoice)
+  drawParties(writer, invoice)
+  drawCommodities(writer, invoice, fonts)
+  drawDeclaration(writer, fonts)
+
+  return document.save()
+}
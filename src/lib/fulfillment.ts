@@ -0,0 +1,340 @@
+/**
+ * Partial fulfillment helpers
+ *
+ * A shipment carries its own order lines and quantities (ShipmentItem), so an
+ * order can go out in several shipments as stock comes in. OrderItem.shippedQuantity
+ * tracks what has left the building; the order stays PROCESSING until every
+ * unit has shipped. A shipment can go out in several boxes (ShipmentPackage),
+ * each with its own tracking number and label.
+ *
+ * Voiding a shipment's label undoes all of this: the units go back to the bins
+ * they were taken from and the order reopens.
+ */
+
+import { Prisma, TransactionType, type OrderStatus } from '@/app/generated/prisma/client'
+import {
+  changeLocationStock,
+  removeStockFromLocations,
+  syncOrderAllocation,
+} from '@/src/lib/inventory'
+
+type Tx = Prisma.TransactionClient
+
+export interface ShipmentLine {
+  orderItemId: string
+  quantity: number
+}
+
+/**
+ * Units of an order line that haven't shipped yet
+ */
+export function getUnshippedQuantity(item: {
+  quantity: number
+  shippedQuantity: number
+}): number {
+  return Math.max(0, item.quantity - item.shippedQuantity)
+}
+
+/**
+ * The status an order goes back to when it is reopened: PROCESSING while a
+ * shipment still stands, so it isn't picked again as if nothing had gone out,
+ * otherwise PENDING
+ *
+ * @param excludeShipmentId - A shipment being voided, no longer counted
+ */
+export async function getReopenedStatus(
+  tx: Tx,
+  orderId: string,
+  excludeShipmentId?: string
+): Promise<'PENDING' | 'PROCESSING'> {
+  const shipments = await tx.shipment.count({
+    where: {
+      orderId,
+      voidedAt: null,
+      ...(excludeShipmentId && { id: { not: excludeShipmentId } }),
+    },
+  })
+  return shipments > 0 ? 'PROCESSING' : 'PENDING'
+}
+
+/**
+ * The status an existing order takes from a Shopify update. Picking, holds
+ * and partial shipments are tracked here, so an order unfulfilled in Shopify
+ * isn't moved back to PENDING; Shopify only ships or cancels it, and a
+ * partial fulfillment there starts a pending order.
+ */
+export function resolveShopifyStatus(current: OrderStatus, incoming: OrderStatus): OrderStatus {
+  if (incoming === 'SHIPPED' || incoming === 'CANCELLED') {
+    return incoming
+  }
+  if (incoming === 'PROCESSING' && current === 'PENDING') {
+    return incoming
+  }
+  return current
+}
+
+/**
+ * Check the lines a shipment should carry against what is left to ship.
+ * Without a selection, everything not yet shipped goes.
+ *
+ * @returns The lines to ship, or an error message
+ */
+export function resolveShipmentLines(
+  items: Array<{ id: string; name: string; quantity: number; shippedQuantity: number }>,
+  requested?: ShipmentLine[] | null
+): { lines: ShipmentLine[]; error?: string } {
+  if (!requested) {
+    const lines = items
+      .map((item) => ({ orderItemId: item.id, quantity: getUnshippedQuantity(item) }))
+      .filter((line) => line.quantity > 0)
+
+    return lines.length > 0 ? { lines } : { lines, error: 'Nothing left to ship' }
+  }
+
+  const lines: ShipmentLine[] = []
+  for (const line of requested) {
+    if (line.quantity <= 0) continue
+
+    const item = items.find((i) => i.id === line.orderItemId)
+    if (!item) {
+      return { lines: [], error: 'Shipment includes an item that is not on this order' }
+    }
+
+    const unshipped = getUnshippedQuantity(item)
+    if (line.quantity > unshipped) {
+      return {
+        lines: [],
+        error: `${item.name}: only ${unshipped} left to ship`,
+      }
+    }
+
+    lines.push({ orderItemId: item.id, quantity: line.quantity })
+  }
+
+  if (lines.length === 0) {
+    return { lines, error: 'Select at least one item to ship' }
+  }
+
+  return { lines }
+}
+
+/**
+ * Record what a shipment carries: shipment lines, shipped quantities and the
+ * stock taken from the warehouse's bins. Moves the order to SHIPPED once every
+ * unit is out, otherwise keeps it PROCESSING, and releases the shipped units'
+ * reservations.
+ *
+ * @returns Whether the order is now fully shipped
+ * @throws When a line would ship more units than were ordered
+ */
+export async function recordShipmentItems(
+  tx: Tx,
+  params: {
+    orderId: string
+    shipmentId: string
+    lines: ShipmentLine[]
+    warehouseId: string
+    userId: string
+    notes?: string | null
+  }
+): Promise<{ fullyShipped: boolean }> {
+  const { orderId, shipmentId, lines, warehouseId, userId, notes } = params
+
+  for (const line of lines) {
+    const item = await tx.orderItem.update({
+      where: { id: line.orderItemId },
+      data: { shippedQuantity: { increment: line.quantity } },
+      select: { productId: true, name: true, quantity: true, shippedQuantity: true },
+    })
+
+    // Another shipment got there first; throwing rolls this one back
+    if (item.shippedQuantity > item.quantity) {
+      throw new Error(
+        `${item.name}: only ${item.quantity - (item.shippedQuantity - line.quantity)} left to ship`
+      )
+    }
+
+    await tx.shipmentItem.create({
+      data: {
+        shipmentId,
+        orderItemId: line.orderItemId,
+        quantity: line.quantity,
+      },
+    })
+
+    if (item.productId) {
+      await removeStockFromLocations(tx, {
+        productId: item.productId,
+        quantity: line.quantity,
+        type: TransactionType.SHIPPED,
+        notes,
+        userId,
+        warehouseId,
+        shipmentId,
+      })
+    }
+  }
+
+  const items = await tx.orderItem.findMany({
+    where: { orderId },
+    select: { quantity: true, shippedQuantity: true },
+  })
+  const fullyShipped = items.every((item) => getUnshippedQuantity(item) === 0)
+
+  await tx.order.update({
+    where: { id: orderId },
+    data: { status: fullyShipped ? 'SHIPPED' : 'PROCESSING', warehouseId },
+  })
+  await syncOrderAllocation(tx, orderId)
+
+  return { fullyShipped }
+}
+
+/**
+ * Undo recordShipmentItems for a voided shipment: take its units off the
+ * shipped quantities, put them back in the bins they left from and reopen the
+ * order. The order goes back to PENDING, or stays PROCESSING when an earlier
+ * shipment still stands, and reserves the units again.
+ *
+ * @returns Whether the stock could be traced back to its bins. Shipments
+ *   recorded before stock moves were linked to them can't be, and need a
+ *   manual adjustment.
+ */
+export async function reverseShipmentItems(
+  tx: Tx,
+  params: {
+    orderId: string
+    shipmentId: string
+    userId: string
+    notes?: string | null
+  }
+): Promise<{ restocked: boolean }> {
+  const { orderId, shipmentId, userId, notes } = params
+
+  const items = await tx.shipmentItem.findMany({
+    where: { shipmentId },
+    select: { orderItemId: true, quantity: true },
+  })
+
+  for (const item of items) {
+    await tx.orderItem.update({
+      where: { id: item.orderItemId },
+      data: { shippedQuantity: { decrement: item.quantity } },
+    })
+  }
+
+  await tx.order.update({
+    where: { id: orderId },
+    data: { status: await getReopenedStatus(tx, orderId, shipmentId) },
+  })
+
+  const taken = await tx.inventoryTransaction.findMany({
+    where: { shipmentId, type: TransactionType.SHIPPED, quantity: { lt: 0 } },
+    select: { productId: true, locationId: true, quantity: true },
+  })
+
+  for (const transaction of taken) {
+    if (!transaction.locationId) continue
+
+    await changeLocationStock(tx, {
+      productId: transaction.productId,
+      locationId: transaction.locationId,
+      quantity: -transaction.quantity,
+      type: TransactionType.SHIPPED,
+      notes,
+      userId,
+      shipmentId,
+    })
+  }
+
+  await syncOrderAllocation(tx, orderId)
+
+  return { restocked: items.length === 0 || taken.length > 0 }
+}
+
+export interface PackageInput {
+  weight: number // in lbs
+  length: number // in inches
+  width: number // in inches
+  height: number // in inches
+  boxId?: string | null // catalog box, null for a custom one
+}
+
+// Box used when the products don't have dimensions
+const DEFAULT_BOX = {
+  length: 12,
+  width: 10,
+  height: 6,
+}
+
+// Minimum weight for shipping
+export const MIN_WEIGHT = 0.5
+
+/**
+ * One box for the given units: their combined weight in the largest product's
+ * dimensions. Used when the box catalog is empty.
+ */
+export function getDefaultPackage(
+  contents: Array<{
+    quantity: number
+    product: {
+      weight: Prisma.Decimal
+      length: Prisma.Decimal
+      width: Prisma.Decimal
+      height: Prisma.Decimal
+    } | null
+  }>
+): PackageInput {
+  let weight = 0
+  let length = 0
+  let width = 0
+  let height = 0
+
+  for (const { quantity, product } of contents) {
+    if (!product || quantity <= 0) continue
+
+    weight += Number(product.weight) * quantity
+    length = Math.max(length, Number(product.length))
+    width = Math.max(width, Number(product.width))
+    height = Math.max(height, Number(product.height))
+  }
+
+  return {
+    weight: Math.max(MIN_WEIGHT, Math.round(weight * 100) / 100),
+    length: length > 0 ? length : DEFAULT_BOX.length,
+    width: width > 0 ? width : DEFAULT_BOX.width,
+    height: height > 0 ? height : DEFAULT_BOX.height,
+  }
+}
+
+/**
+ * Check the boxes entered for a multi-package shipment
+ *
+ * @returns The packages, or an error message
+ */
+export function validatePackages(
+  packages: Array<Partial<PackageInput>>
+): { packages: PackageInput[]; error?: string } {
+  if (packages.length === 0) {
+    return { packages: [], error: 'Add at least one package' }
+  }
+
+  const valid: PackageInput[] = []
+  for (const [index, pkg] of packages.entries()) {
+    const weight = Number(pkg.weight)
+    const length = Number(pkg.length)
+    const width = Number(pkg.width)
+    const height = Number(pkg.height)
+
+    if (!(weight > 0)) {
+      return { packages: [], error: `Package ${index + 1}: weight must be greater than 0` }
+    }
+    if (!(length > 0 && width > 0 && height > 0)) {
+      return { packages: [], error: `Package ${index + 1}: enter length, width and height` }
+    }
+
+    valid.push({ weight, length, width, height, boxId: pkg.boxId || null })
+  }
+
+  return { packages: valid }
+}
@@ -0,0 +1,362 @@
+/**
+ * Location-aware stock helpers
+ *
+ * Stock is held per bin in LocationStock. Product.currentStock is the sum of a
+ * product's bins and must only be changed through these helpers so the two
+ * never drift apart. All functions take a transaction client so callers can
+ * combine them with their own writes atomically.
+ *
+ * Open orders reserve units through OrderItem.allocatedQuantity, covering
+ * whatever hasn't shipped yet. The product keeps the totals: allocatedStock
+ * (reserved) and availableStock (on hand minus reserved), which is what can
+ * still be promised to new orders.
+ */
+
+import { Prisma, TransactionType, OrderStatus } from '@/app/generated/prisma/client'
+
+type Tx = Prisma.TransactionClient
+
+export interface LocationParts {
+  zone: string
+  aisle: string
+  shelf: string
+  bin: string
+}
+
+/**
+ * Build the canonical location code (e.g. "A-01-03-B") from its parts
+ */
+export function formatLocationCode(parts: LocationParts): string {
+  return [parts.zone, parts.aisle, parts.shelf, parts.bin]
+    .map((part) => part.trim().toUpperCase())
+    .join('-')
+}
+
+export interface StockLevels {
+  onHand: number
+  allocated: number
+  available: number
+}
+
+/**
+ * On-hand, allocated and available quantities for a product
+ */
+export function getStockLevels(product: {
+  currentStock: number
+  allocatedStock: number
+}): StockLevels {
+  return {
+    onHand: product.currentStock,
+    allocated: product.allocatedStock,
+    available: product.currentStock - product.allocatedStock,
+  }
+}
+
+/**
+ * Lock a product's row until the transaction ends. Totals read from the
+ * returned row, or summed after it, can't be changed by anyone else before
+ * they're written back.
+ */
+async function lockProduct(tx: Tx, productId: string) {
+  return tx.product.update({
+    where: { id: productId },
+    data: { updatedAt: new Date() },
+    select: { allocatedStock: true, availableStock: true },
+  })
+}
+
+/**
+ * Recalculate Product.currentStock (and availableStock) from the product's bins
+ */
+export async function syncProductStock(tx: Tx, productId: string): Promise<number> {
+  // Lock first, so a transaction changing another bin waits for this one and
+  // then sums the bins with its change included
+  const { allocatedStock } = await lockProduct(tx, productId)
+
+  const total = await tx.locationStock.aggregate({
+    where: { productId },
+    _sum: { quantity: true },
+  })
+
+  const currentStock = total._sum.quantity ?? 0
+
+  await tx.product.update({
+    where: { id: productId },
+    data: { currentStock, availableStock: currentStock - allocatedStock },
+  })
+
+  return currentStock
+}
+
+/**
+ * Add (or with a negative quantity, remove) units in a single bin and record
+ * the inventory transaction.
+ *
+ * @returns The bin quantity and product total after the change
+ */
+export async function changeLocationStock(
+  tx: Tx,
+  params: {
+    productId: string
+    locationId: string
+    quantity: number
+    type: TransactionType
+    notes?: string | null
+    userId: string
+    shipmentId?: string | null
+    returnId?: string | null
+    purchaseOrderLineId?: string | null
+  }
+): Promise<{ locationQuantity: number; currentStock: number }> {
+  const {
+    productId,
+    locationId,
+    quantity,
+    type,
+    notes,
+    userId,
+    shipmentId,
+    returnId,
+    purchaseOrderLineId,
+  } = params
+
+  // Increment in the database so concurrent moves on the same bin can't
+  // overwrite each other; going below zero throws and rolls the caller back
+  const { quantity: locationQuantity } = await tx.locationStock.upsert({
+    where: { productId_locationId: { productId, locationId } },
+    update: { quantity: { increment: quantity } },
+    create: { productId, locationId, quantity },
+    select: { quantity: true },
+  })
+  if (locationQuantity < 0) {
+    throw new InsufficientStockError(
+      `Only ${locationQuantity - quantity} units in this location`
+    )
+  }
+
+  await tx.inventoryTransaction.create({
+    data: {
+      productId,
+      locationId,
+      quantity,
+      type,
+      notes,
+      userId,
+      shipmentId,
+      returnId,
+      purchaseOrderLineId,
+    },
+  })
+
+  const currentStock = await syncProductStock(tx, productId)
+
+  // New units go to orders that are still waiting for them
+  if (quantity > 0) {
+    await allocateBackorders(tx, productId)
+  }
+
+  return { locationQuantity, currentStock }
+}
+
+/**
+ * Take units out of a product's bins, emptying bins in location order until
+ * the requested quantity is covered. Used when shipping, where the picker
+ * isn't asked for a bin. Pass warehouseId to only draw from that building.
+ *
+ * @returns The bins the units were taken from
+ */
+export async function removeStockFromLocations(
+  tx: Tx,
+  params: {
+    productId: string
+    quantity: number
+    type: TransactionType
+    notes?: string | null
+    userId: string
+    warehouseId?: string | null
+    shipmentId?: string | null
+  }
+): Promise<Array<{ locationId: string; quantity: number }>> {
+  const { productId, quantity, type, notes, userId, warehouseId, shipmentId } = params
+
+  const bins = await tx.locationStock.findMany({
+    where: {
+      productId,
+      quantity: { gt: 0 },
+      ...(warehouseId ? { location: { warehouseId } } : {}),
+    },
+    include: { location: { select: { code: true } } },
+    orderBy: { location: { code: 'asc' } },
+  })
+
+  const available = bins.reduce((sum, b) => sum + b.quantity, 0)
+  if (available < quantity) {
+    throw new InsufficientStockError(
+      `Need ${quantity}, only ${available} in stock`
+    )
+  }
+
+  const taken: Array<{ locationId: string; quantity: number }> = []
+  let remaining = quantity
+
+  for (const bin of bins) {
+    if (remaining === 0) break
+
+    const take = Math.min(bin.quantity, remaining)
+
+    // Only take what the bin still holds; another move may have emptied it
+    // since it was read, and throwing rolls the caller back
+    const { count } = await tx.locationStock.updateMany({
+      where: { id: bin.id, quantity: { gte: take } },
+      data: { quantity: { decrement: take } },
+    })
+    if (count === 0) {
+      throw new InsufficientStockError(
+        `${bin.location.code} no longer holds ${take} units`
+      )
+    }
+
+    await tx.inventoryTransaction.create({
+      data: {
+        productId,
+        locationId: bin.locationId,
+        quantity: -take,
+        type,
+        notes,
+        userId,
+        shipmentId,
+      },
+    })
+
+    taken.push({ locationId: bin.locationId, quantity: take })
+    remaining -= take
+  }
+
+  await syncProductStock(tx, productId)
+
+  return taken
+}
+
+// Orders in these statuses hold their stock; all others release it
+const ALLOCATING_STATUSES: OrderStatus[] = ['PENDING', 'PROCESSING', 'ON_HOLD']
+
+/**
+ * Move an order line's reservation towards `target` units. Increases are
+ * capped at what the product still has available.
+ *
+ * @returns The line's allocated quantity after the change
+ */
+async function setItemAllocation(
+  tx: Tx,
+  item: { id: string; productId: string; allocatedQuantity: number },
+  target: number
+): Promise<number> {
+  let delta = target - item.allocatedQuantity
+
+  if (delta > 0) {
+    // Two orders reserving at once would otherwise both see the same units
+    const product = await lockProduct(tx, item.productId)
+    delta = Math.min(delta, Math.max(0, product.availableStock))
+  }
+
+  if (delta === 0) return item.allocatedQuantity
+
+  await tx.orderItem.update({
+    where: { id: item.id },
+    data: { allocatedQuantity: { increment: delta } },
+  })
+
+  await tx.product.update({
+    where: { id: item.productId },
+    data: {
+      allocatedStock: { increment: delta },
+      availableStock: { decrement: delta },
+    },
+  })
+
+  return item.allocatedQuantity + delta
+}
+
+/**
+ * Bring an order's reservations in line with its status: open orders reserve
+ * their unshipped quantities (as far as stock allows), cancelled and shipped
+ * orders release everything they hold. Call after creating an order, changing its
+ * status or lines, and as part of shipping it.
+ *
+ * @returns True when every line linked to a product is fully reserved
+ */
+export async function syncOrderAllocation(tx: Tx, orderId: string): Promise<boolean> {
+  const order = await tx.order.findUnique({
+    where: { id: orderId },
+    select: {
+      status: true,
+      orderItems: {
+        select: {
+          id: true,
+          productId: true,
+          quantity: true,
+          allocatedQuantity: true,
+          shippedQuantity: true,
+        },
+        orderBy: { createdAt: 'asc' },
+      },
+    },
+  })
+
+  if (!order) return false
+
+  const holdsStock = ALLOCATING_STATUSES.includes(order.status)
+  let fullyAllocated = true
+
+  for (const item of order.orderItems) {
+    if (!item.productId) continue
+
+    const target = holdsStock ? item.quantity - item.shippedQuantity : 0
+    const allocated = await setItemAllocation(
+      tx,
+      { id: item.id, productId: item.productId, allocatedQuantity: item.allocatedQuantity },
+      target
+    )
+
+    if (allocated < target) fullyAllocated = false
+  }
+
+  return fullyAllocated
+}
+
+/**
+ * Hand newly available units of a product to open order lines that are short,
+ * oldest order first
+ */
+export async function allocateBackorders(tx: Tx, productId: string): Promise<void> {
+  const shortLines = await tx.orderItem.findMany({
+    where: {
+      productId,
+      order: { status: { in: ALLOCATING_STATUSES } },
+      allocatedQuantity: { lt: tx.orderItem.fields.quantity },
+    },
+    select: { id: true, quantity: true, allocatedQuantity: true, shippedQuantity: true },
+    orderBy: { order: { createdAt: 'asc' } },
+  })
+
+  for (const line of shortLines) {
+    const unshipped = line.quantity - line.shippedQuantity
+    if (line.allocatedQuantity >= unshipped) continue
+
+    const allocated = await setItemAllocation(
+      tx,
+      { id: line.id, productId, allocatedQuantity: line.allocatedQuantity },
+      unshipped
+    )
+
+    // Nothing left to hand out
+    if (allocated < unshipped) break
+  }
+}
+
+export class InsufficientStockError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'InsufficientStockError'
+  }
+}
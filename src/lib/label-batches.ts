@@ -0,0 +1,318 @@
+/**
+ * Label batches
+ *
+ * Buys labels for many orders in one job. Orders are worked through one at a
+ * time by whoever has the batch open, so progress survives a closed tab and a
+ * failed order is recorded against it instead of stopping the rest. Each
+ * order ships with the rate its shipping rule picks, or the cheapest one.
+ *
+ * The labels of every purchased order come back as one document, in batch
+ * order, ready to print in one go: a PDF of 4x6 pages, or for ZPL batches one
+ * ZPL job for the thermal printer.
+ */
+
+import { prisma } from '@/src/lib/db'
+import type { CarrierMode, LabelBatchOrderStatus, LabelFormat } from '@/app/generated/prisma/client'
+import { getOrderWarehouse, toShipFromAddress } from '@/src/lib/warehouses'
+import { getPackedLines } from '@/src/lib/packing'
+import { planCartons } from '@/src/lib/cartonization'
+import { selectRate, toRuleOrder } from '@/src/lib/shipping-rules'
+import { purchaseLabel, quoteRates } from '@/src/lib/labels'
+import { toResidential } from '@/src/lib/address-validation'
+import { labelsToPdf, labelsToZpl, toLabelFiles, type LabelFile } from '@/src/lib/label-documents'
+
+export interface LabelBatchView {
+  id: string
+  batchNumber: number
+  status: 'RUNNING' | 'COMPLETED'
+  labelFormat: LabelFormat
+  createdBy: string
+  createdAt: string
+  orders: Array<{
+    id: string
+    orderId: string
+    orderNumber: string
+    customerName: string
+    status: LabelBatchOrderStatus
+    ruleName: string | null
+    error: string | null
+    shipment: {
+      carrier: string
+      mode: CarrierMode
+      service: string
+      trackingNumber: string | null
+      cost: string | null
+      voided: boolean
+    } | null
+  }>
+}
+
+// An order still being bought after this long was cut off
+const STALE_PURCHASE_MS = 5 * 60 * 1000
+
+/**
+ * The batch and where each of its orders has got, for the batch page
+ */
+export async function getLabelBatch(batchId: string): Promise<LabelBatchView | null> {
+  const batch = await prisma.labelBatch.findUnique({
+    where: { id: batchId },
+    include: {
+      createdBy: { select: { name: true } },
+      orders: {
+        orderBy: { sequence: 'asc' },
+        include: {
+          order: { select: { orderNumber: true, customerName: true } },
+          shipment: {
+            select: {
+              carrier: true,
+              carrierMode: true,
+              service: true,
+              trackingNumber: true,
+              shipmentCost: true,
+              voidedAt: true,
+            },
+          },
+        },
+      },
+    },
+  })
+  if (!batch) return null
+
+  return {
+    id: batch.id,
+    batchNumber: batch.batchNumber,
+    status: batch.status,
+    labelFormat: batch.labelFormat,
+    createdBy: batch.createdBy.name,
+    createdAt: batch.createdAt.toISOString(),
+    orders: batch.orders.map((bo) => ({
+      id: bo.id,
+      orderId: bo.orderId,
+      orderNumber: bo.order.orderNumber,
+      customerName: bo.order.customerName,
+      status: bo.status,
+      ruleName: bo.ruleName,
+      error: bo.error,
+      shipment: bo.shipment
+        ? {
+            carrier: bo.shipment.carrier,
+            mode: bo.shipment.carrierMode,
+            service: bo.shipment.service,
+            trackingNumber: bo.shipment.trackingNumber,
+            cost: bo.shipment.shipmentCost?.toString() ?? null,
+            voided: bo.shipment.voidedAt !== null,
+          }
+        : null,
+    })),
+  }
+}
+
+/**
+ * Quote the packed boxes and pick the rate to buy
+ *
+ * @returns The rate and the rule that picked it, or why there is none
+ */
+async function chooseBatchRate(orderId: string) {
+  const order = await prisma.order.findUnique({
+    where: { id: orderId },
+    include: { orderItems: { include: { product: true } } },
+  })
+  if (!order) {
+    return { error: 'Order not found' }
+  }
+  if (order.status !== 'PENDING' && order.status !== 'PROCESSING') {
+    return { error: `Order is ${order.status.toLowerCase().replace('_', ' ')}` }
+  }
+
+  const packed = await getPackedLines(order.id)
+  if (!packed) {
+    return { error: 'Items have not been verified at the pack station' }
+  }
+
+  // Nobody is looking at the order to notice the warning on its page
+  if (order.addressStatus === 'INVALID') {
+    return { error: `Shipping address could not be found${order.addressMessage ? `: ${order.addressMessage}` : ''}` }
+  }
+
+  const warehouse = await getOrderWarehouse(order)
+  if (!warehouse) {
+    return { error: 'No warehouse configured' }
+  }
+
+  const packages = await planCartons(
+    order.orderItems.map((item) => ({
+      quantity: packed.lines.find((line) => line.orderItemId === item.id)?.quantity ?? 0,
+      product: item.product,
+    }))
+  )
+
+  const { rates, errors } = await quoteRates({
+    shipFrom: toShipFromAddress(warehouse),
+    shipTo: {
+      city: order.shippingCity,
+      state: order.shippingState,
+      postalCode: order.shippingZip,
+      countryCode: order.shippingCountry,
+      residential: toResidential(order.addressType),
+    },
+    packages,
+  })
+  if (rates.length === 0) {
+    return { error: ['Unable to get shipping rates', ...errors].join(': ') }
+  }
+
+  const selection = await selectRate(toRuleOrder(order, packages), rates)
+  if (!selection) {
+    return { rate: rates[0], packages, ruleName: null }
+  }
+
+  const rate = rates.find((r) => r.id === selection.rateId)
+  if (!rate) {
+    return { error: `Rule "${selection.ruleName}" matched but none of the rates satisfies it` }
+  }
+  return { rate, packages, ruleName: selection.ruleName }
+}
+
+/**
+ * Buy the label of the batch's next waiting order
+ *
+ * @returns False once no order is left waiting; the batch completes when
+ * none is being bought either
+ */
+export async function processNextBatchOrder(batchId: string, userId: string): Promise<boolean> {
+  const next = await prisma.labelBatchOrder.findFirst({
+    where: { batchId, status: 'PENDING' },
+    orderBy: { sequence: 'asc' },
+    include: { batch: { select: { labelFormat: true } } },
+  })
+
+  if (!next) {
+    // A purchase cut off part way (e.g. a closed server) is left for a person
+    // to check: the carrier may have sold the label
+    await prisma.labelBatchOrder.updateMany({
+      where: {
+        batchId,
+        status: 'PURCHASING',
+        updatedAt: { lt: new Date(Date.now() - STALE_PURCHASE_MS) },
+      },
+      data: {
+        status: 'FAILED',
+        error: 'Interrupted while buying the label. Check the order before buying again.',
+      },
+    })
+
+    const purchasing = await prisma.labelBatchOrder.count({
+      where: { batchId, status: 'PURCHASING' },
+    })
+    if (purchasing === 0) {
+      await prisma.labelBatch.updateMany({
+        where: { id: batchId, status: 'RUNNING' },
+        data: { status: 'COMPLETED', completedAt: new Date() },
+      })
+    }
+    return false
+  }
+
+  // Claim the order so a second open tab can't buy it twice
+  const claimed = await prisma.labelBatchOrder.updateMany({
+    where: { id: next.id, status: 'PENDING' },
+    data: { status: 'PURCHASING' },
+  })
+  if (claimed.count === 0) {
+    return true
+  }
+
+  try {
+    const choice = await chooseBatchRate(next.orderId)
+    if (choice.error || !choice.rate) {
+      await prisma.labelBatchOrder.update({
+        where: { id: next.id },
+        data: { status: 'FAILED', error: choice.error },
+      })
+      return true
+    }
+
+    const { label, failure } = await purchaseLabel({
+      orderId: next.orderId,
+      carrierId: choice.rate.carrier,
+      serviceCode: choice.rate.serviceCode,
+      serviceName: choice.rate.service,
+      packages: choice.packages,
+      labelFormat: next.batch.labelFormat,
+      userId,
+    })
+
+    await prisma.labelBatchOrder.update({
+      where: { id: next.id },
+      data: label
+        ? { status: 'PURCHASED', ruleName: choice.ruleName, shipmentId: label.id, error: null }
+        : {
+            status: 'FAILED',
+            ruleName: choice.ruleName,
+            error: [failure?.error, ...(failure?.details ?? [])].filter(Boolean).join(': '),
+          },
+    })
+  } catch (error) {
+    console.error('[Label Batch] Error:', error)
+    await prisma.labelBatchOrder.update({
+      where: { id: next.id },
+      data: {
+        status: 'FAILED',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+    })
+  }
+
+  return true
+}
+
+/**
+ * The label of every box of the batch's purchased orders, in batch order.
+ * Voided labels are left out.
+ */
+async function getBatchLabels(batchId: string): Promise<LabelFile[]> {
+  const batchOrders = await prisma.labelBatchOrder.findMany({
+    where: { batchId, status: 'PURCHASED', shipment: { voidedAt: null } },
+    orderBy: { sequence: 'asc' },
+    select: {
+      shipment: {
+        select: {
+          labelFormat: true,
+          trackingNumber: true,
+          labelKey: true,
+          labelData: true,
+          packages: {
+            orderBy: { sequence: 'asc' },
+            select: { trackingNumber: true, labelKey: true, labelData: true },
+          },
+        },
+      },
+    },
+  })
+
+  const labels: LabelFile[] = []
+  for (const { shipment } of batchOrders) {
+    if (shipment) {
+      labels.push(...(await toLabelFiles(shipment)))
+    }
+  }
+  return labels
+}
+
+/**
+ * Every label of the batch as one PDF of 4x6 pages
+ *
+ * @returns The PDF, and the tracking numbers of labels that couldn't be added
+ */
+export async function mergeBatchLabels(batchId: string) {
+  return labelsToPdf(await getBatchLabels(batchId))
+}
+
+/**
+ * The batch's ZPL labels as one print job for a thermal printer
+ *
+ * @returns The ZPL, and the tracking numbers of labels in other formats
+ */
+export async function mergeBatchZpl(batchId: string) {
+  return labelsToZpl(await getBatchLabels(batchId))
+}
@@ -0,0 +1,270 @@
+/**
+ * Label documents
+ *
+ * Carriers hand back one label per box, as a PNG, PDF or ZPL. Labels are kept
+ * in storage (src/lib/storage) and shipments only hold their keys. These
+ * helpers store and read labels, and put them together into one document a
+ * printer takes: a PDF of 4x6 pages for desktop printers, or one ZPL job for
+ * thermal printers.
+ *
+ * Labels bought before storage existed are still base64 in the database
+ * until `npm run labels:migrate-storage` moves them, so readers fall back to
+ * labelData.
+ */
+
+import { randomUUID } from 'node:crypto'
+import { PDFDocument, degrees } from 'pdf-lib'
+import { renderZpl } from '@/src/lib/zpl'
+import { getStorage, type StoredFile } from '@/src/lib/storage'
+
+export interface LabelFile {
+  format: string // "PNG", "PDF", "ZPL", ...
+  trackingNumber: string
+  data: Buffer
+}
+
+// Where a shipment's or a box's label is
+export interface StoredLabel {
+  labelKey: string | null
+  labelData: string | null // base64, only on labels not moved to storage yet
+}
+
+// A label page is 4x6 inches
+const PAGE_WIDTH = 4 * 72
+const PAGE_HEIGHT = 6 * 72
+
+/**
+ * Content type and file extension of a label format
+ */
+export function labelContentType(labelFormat: string | null): {
+  contentType: string
+  extension: string
+} {
+  switch ((labelFormat || 'PNG').toUpperCase()) {
+    case 'PNG':
+      return { contentType: 'image/png', extension: 'png' }
+    case 'GIF':
+      return { contentType: 'image/gif', extension: 'gif' }
+    case 'ZPL':
+      // ZPL is a text-based format for thermal printers, served as is
+      return { contentType: 'x-application/zpl', extension: 'zpl' }
+    case 'PDF':
+      return { contentType: 'application/pdf', extension: 'pdf' }
+    case 'JPG':
+    case 'JPEG':
+      return { contentType: 'image/jpeg', extension: 'jpg' }
+    default:
+      return { contentType: 'application/octet-stream', extension: 'bin' }
+  }
+}
+
+/**
+ * Put a shipment's labels in storage
+ *
+ * @param labels.lead - Base64 label of the shipment, usually the first box's
+ * @param labels.packages - Base64 label of each box, in box order
+ * @param labels.invoice - Commercial invoice PDF of an international shipment
+ * @returns The storage key of the lead label, of each box's label and of the
+ * invoice, null where there was none
+ */
+export async function storeShipmentLabels(labels: {
+  format: string | null
+  lead: string | null
+  packages: Array<string | null>
+  invoice?: Uint8Array | null
+}): Promise<{
+  labelKey: string | null
+  packageKeys: Array<string | null>
+  invoiceKey: string | null
+}> {
+  const storage = getStorage()
+  const { contentType, extension } = labelContentType(labels.format)
+  const folder = `labels/${randomUUID()}`
+
+  const packageKeys: Array<string | null> = []
+  for (const [index, label] of labels.packages.entries()) {
+    if (!label) {
+      packageKeys.push(null)
+      continue
+    }
+    const key = `${folder}/${index + 1}.${extension}`
+    await storage.put(key, Buffer.from(label, 'base64'), contentType)
+    packageKeys.push(key)
+  }
+
+  // The lead label is the first box's label on every carrier; stored once
+  let labelKey: string | null = null
+  if (labels.lead && labels.lead === labels.packages[0]) {
+    labelKey = packageKeys[0]
+  } else if (labels.lead) {
+    labelKey = `${folder}/label.${extension}`
+    await storage.put(labelKey, Buffer.from(labels.lead, 'base64'), contentType)
+  }
+
+  let invoiceKey: string | null = null
+  if (labels.invoice) {
+    invoiceKey = `${folder}/invoice.pdf`
+    await storage.put(invoiceKey, Buffer.from(labels.invoice), 'application/pdf')
+  }
+
+  return { labelKey, packageKeys, invoiceKey }
+}
+
+/**
+ * A stored label's bytes, or null if there is none
+ */
+export async function readLabel(label: StoredLabel): Promise<Buffer | null> {
+  if (label.labelKey) {
+    return getStorage().get(label.labelKey)
+  }
+  return label.labelData ? Buffer.from(label.labelData, 'base64') : null
+}
+
+/**
+ * A stored label as a stream, to send it on without loading it whole
+ */
+export async function openLabel(label: StoredLabel): Promise<StoredFile | null> {
+  if (label.labelKey) {
+    return getStorage().getStream(label.labelKey)
+  }
+  if (!label.labelData) return null
+
+  const data = Buffer.from(label.labelData, 'base64')
+  return { body: new Blob([new Uint8Array(data)]).stream(), size: data.length }
+}
+
+/**
+ * Size in bytes of a stored label, or null if there is none
+ */
+export async function getLabelSize(label: StoredLabel): Promise<number | null> {
+  if (label.labelKey) {
+    return getStorage().getSize(label.labelKey)
+  }
+  return label.labelData ? Buffer.byteLength(label.labelData, 'base64') : null
+}
+
+/**
+ * The label of each box of a shipment, the lead box first
+ */
+export async function toLabelFiles(
+  shipment: StoredLabel & {
+    labelFormat: string | null
+    trackingNumber: string | null
+    packages: Array<StoredLabel & { trackingNumber: string | null }>
+  }
+): Promise<LabelFile[]> {
+  const format = (shipment.labelFormat || 'PNG').toUpperCase()
+  // Older shipments only have the lead label
+  const labels =
+    shipment.packages.length > 0
+      ? shipment.packages
+      : [
+          {
+            trackingNumber: shipment.trackingNumber,
+            labelKey: shipment.labelKey,
+            labelData: shipment.labelData,
+          },
+        ]
+
+  const files: LabelFile[] = []
+  for (const label of labels) {
+    const data = await readLabel(label)
+    if (data) {
+      files.push({
+        format,
+        trackingNumber: label.trackingNumber ?? shipment.trackingNumber ?? 'unknown',
+        data,
+      })
+    }
+  }
+  return files
+}
+
+/**
+ * Labels as one PDF of 4x6 pages. PNG and JPEG labels get a page each, turned
+ * to portrait if need be; PDF labels keep their own pages and ZPL labels are
+ * rendered to pages, or skipped when ZPL rendering isn't set up.
+ *
+ * @returns The PDF, and the tracking numbers of labels that couldn't be added
+ */
+export async function labelsToPdf(
+  labels: LabelFile[]
+): Promise<{ pdf: Uint8Array; skipped: string[]; pageCount: number }> {
+  const document = await PDFDocument.create()
+  const skipped: string[] = []
+
+  for (const label of labels) {
+    if (label.format === 'PDF' || label.format === 'ZPL') {
+      let bytes = label.data
+      if (label.format === 'ZPL') {
+        const rendered = await renderZpl(label.data, 'pdf')
+        if (!rendered.data) {
+          skipped.push(label.trackingNumber)
+          continue
+        }
+        bytes = rendered.data
+      }
+
+      const source = await PDFDocument.load(bytes)
+      const pages = await document.copyPages(source, source.getPageIndices())
+      pages.forEach((page) => document.addPage(page))
+      continue
+    }
+
+    if (label.format !== 'PNG' && label.format !== 'JPG' && label.format !== 'JPEG') {
+      skipped.push(label.trackingNumber)
+      continue
+    }
+
+    const image =
+      label.format === 'PNG' ? await document.embedPng(label.data) : await document.embedJpg(label.data)
+    const page = document.addPage([PAGE_WIDTH, PAGE_HEIGHT])
+
+    // Landscape labels are turned a quarter so they fill the page
+    const landscape = image.width > image.height
+    const boxWidth = landscape ? PAGE_HEIGHT : PAGE_WIDTH
+    const boxHeight = landscape ? PAGE_WIDTH : PAGE_HEIGHT
+    const scale = Math.min(boxWidth / image.width, boxHeight / image.height)
+    const width = image.width * scale
+    const height = image.height * scale
+
+    if (landscape) {
+      page.drawImage(image, {
+        x: (PAGE_WIDTH + height) / 2,
+        y: (PAGE_HEIGHT - width) / 2,
+        width,
+        height,
+        rotate: degrees(90),
+      })
+    } else {
+      page.drawImage(image, {
+        x: (PAGE_WIDTH - width) / 2,
+        y: (PAGE_HEIGHT - height) / 2,
+        width,
+        height,
+      })
+    }
+  }
+
+  return { pdf: await document.save(), skipped, pageCount: document.getPageCount() }
+}
+
+/**
+ * ZPL labels as one print job; labels in other formats are left out
+ *
+ * @returns The ZPL, and the tracking numbers of labels in other formats
+ */
+export function labelsToZpl(labels: LabelFile[]): {
+  zpl: Buffer
+  skipped: string[]
+  labelCount: number
+} {
+  const zplLabels = labels.filter((label) => label.format === 'ZPL')
+
+  return {
+    // Each label is a complete ^XA...^XZ block, so they print back to back
+    zpl: Buffer.concat(zplLabels.flatMap((label) => [label.data, Buffer.from('\n')])),
+    skipped: labels.filter((label) => label.format !== 'ZPL').map((label) => label.trackingNumber),
+    labelCount: zplLabels.length,
+  }
+}
@@ -0,0 +1,500 @@
+/**
+ * Quoting and buying labels
+ *
+ * Shared by the fulfillment screen, which buys one order's label at a time,
+ * and label batches, which buy many in one job. A label always ships exactly
+ * what the order's last finished pack pass put in the box.
+ */
+
+import { prisma } from '@/src/lib/db'
+import { Prisma, type CarrierMode, type LabelFormat } from '@/app/generated/prisma/client'
+import {
+  getCarrier,
+  getEnabledCarriers,
+  type CarrierAdapter,
+  type CarrierShipment,
+  type CustomsDeclaration,
+} from '@/src/lib/carriers'
+import { createFulfillment } from '@/src/lib/shopify'
+import { syncOrderAllocation } from '@/src/lib/inventory'
+import {
+  getOrderWarehouse,
+  getWarehouseStock,
+  toShipFromAddress,
+  type ShipFromAddress,
+} from '@/src/lib/warehouses'
+import { getPackedLines } from '@/src/lib/packing'
+import { recordShipmentItems, validatePackages, type PackageInput } from '@/src/lib/fulfillment'
+import { planCartons } from '@/src/lib/cartonization'
+import { storeShipmentLabels } from '@/src/lib/label-documents'
+import { buildCustomsDeclaration, isInternational, renderCommercialInvoice } from '@/src/lib/customs'
+import { toResidential } from '@/src/lib/address-validation'
+
+export interface ShippingRate {
+  id: string
+  carrier: string // CarrierAdapter id
+  mode: CarrierMode // labels from SANDBOX and MOCK aren't real
+  service: string
+  serviceCode: string
+  price: number
+  currency: string
+  estimatedDays: number
+  estimatedDelivery: string
+}
+
+export interface PurchasedLabel {
+  id: string // shipment id
+  trackingNumber: string
+  labelUrl: string
+  carrier: string
+  mode: CarrierMode
+  service: string
+  labelFormat: string // "PNG", "PDF" or "ZPL"
+  invoiceUrl: string | null // commercial invoice of an international shipment
+  cost: number
+  currency: string
+  packages: Array<{
+    sequence: number
+    trackingNumber: string
+    labelUrl: string
+  }>
+  fullyShipped: boolean
+  shopifyFulfillmentId: string | null
+}
+
+// Why a label couldn't be bought; status is the HTTP status to answer with
+export interface PurchaseFailure {
+  error: string
+  status: number
+  details?: string[]
+}
+
+function addBusinessDays(date: Date, days: number): Date {
+  const result = new Date(date)
+  let added = 0
+  while (added < days) {
+    result.setDate(result.getDate() + 1)
+    // Skip weekends
+    if (result.getDay() !== 0 && result.getDay() !== 6) {
+      added++
+    }
+  }
+  return result
+}
+
+function formatDate(date: Date): string {
+  return date.toLocaleDateString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+  })
+}
+
+/**
+ * Void a label that was bought but couldn't be kept, with every package's
+ * tracking number
+ */
+async function voidBoughtLabel(
+  carrier: CarrierAdapter,
+  shipment: CarrierShipment
+): Promise<{ voided: boolean; error?: string }> {
+  const packageNumbers = shipment.packages.flatMap((pkg) =>
+    pkg.trackingNumber && pkg.trackingNumber !== shipment.trackingNumber
+      ? [pkg.trackingNumber]
+      : []
+  )
+  return carrier
+    .voidShipment([shipment.trackingNumber, ...packageNumbers])
+    .catch((error) => ({ voided: false, error: String(error) }))
+}
+
+/**
+ * Ask every enabled carrier for rates at once
+ *
+ * @returns The rates, cheapest first, and the carriers that failed to quote
+ */
+export async function quoteRates(params: {
+  shipFrom: ShipFromAddress
+  shipTo: { city: string; state: string; postalCode: string; countryCode: string; residential?: boolean }
+  packages: PackageInput[]
+}): Promise<{ rates: ShippingRate[]; errors: string[]; carriers: CarrierAdapter[] }> {
+  const carriers = getEnabledCarriers()
+  const results = await Promise.allSettled(carriers.map((carrier) => carrier.getRates(params)))
+
+  const rates: ShippingRate[] = []
+  const errors: string[] = []
+  const today = new Date()
+
+  results.forEach((result, index) => {
+    const carrier = carriers[index]
+
+    if (result.status === 'rejected') {
+      errors.push(`${carrier.name}: ${result.reason}`)
+      return
+    }
+
+    if (result.value.error) {
+      errors.push(`${carrier.name}: ${result.value.error}`)
+    }
+    for (const rate of result.value.rates) {
+      const estimatedDays = rate.transitDays || carrier.estimateTransitDays(rate.serviceCode)
+      rates.push({
+        id: `${carrier.id.toLowerCase()}-${rate.serviceCode}`,
+        carrier: carrier.id,
+        mode: carrier.getMode(),
+        service: rate.serviceName,
+        serviceCode: rate.serviceCode,
+        price: rate.totalCharge,
+        currency: rate.currency,
+        estimatedDays,
+        estimatedDelivery: rate.deliveryDate || formatDate(addBusinessDays(today, estimatedDays)),
+      })
+    }
+  })
+
+  rates.sort((a, b) => a.price - b.price)
+
+  return { rates, errors, carriers }
+}
+
+/**
+ * Buy a label for what was packed, take the units out of stock and tell Shopify
+ *
+ * @param params.packages - Boxes to ship, defaults to the cartonization result
+ */
+export async function purchaseLabel(params: {
+  orderId: string
+  carrierId: string
+  serviceCode: string
+  serviceName?: string
+  packages?: Array<Partial<PackageInput>>
+  labelFormat: LabelFormat
+  userId: string
+}): Promise<{ label?: PurchasedLabel; failure?: PurchaseFailure }> {
+  const fail = (error: string, status = 400, details?: string[]) => ({
+    failure: { error, status, details },
+  })
+
+  const carrier = getCarrier(params.carrierId)
+  if (!carrier) {
+    return fail('Invalid carrier')
+  }
+  if (!carrier.isEnabled()) {
+    return fail(`${carrier.name} is not configured`)
+  }
+
+  // Pick up any stock that arrived since the order was placed
+  await prisma.$transaction((tx) => syncOrderAllocation(tx, params.orderId))
+
+  const order = await prisma.order.findUnique({
+    where: { id: params.orderId },
+    include: {
+      orderItems: {
+        include: {
+          product: true,
+        },
+      },
+    },
+  })
+
+  if (!order) {
+    return fail('Order not found', 404)
+  }
+  if (order.status === 'SHIPPED') {
+    return fail('Order already shipped')
+  }
+  if (order.status === 'CANCELLED') {
+    return fail('Cannot ship a cancelled order')
+  }
+
+  const warehouse = await getOrderWarehouse(order)
+  if (!warehouse) {
+    return fail('No warehouse configured')
+  }
+
+  // Every unit must be scanned at the pack station before a label is bought,
+  // and the shipment carries exactly what was packed
+  const packed = await getPackedLines(order.id)
+  if (!packed) {
+    return fail('Items have not been verified at the pack station')
+  }
+
+  const shipmentItems = packed.lines.flatMap((line) => {
+    const item = order.orderItems.find((i) => i.id === line.orderItemId)
+    return item ? [{ item, quantity: line.quantity }] : []
+  })
+
+  // Check stock availability in the ship-from warehouse
+  const stockIssues: string[] = []
+  for (const { item, quantity } of shipmentItems) {
+    if (!item.product) {
+      stockIssues.push(`${item.name}: Product not in system`)
+      continue
+    }
+    if (item.allocatedQuantity < quantity) {
+      stockIssues.push(`${item.name}: Need ${quantity}, only ${item.allocatedQuantity} reserved`)
+      continue
+    }
+    const inWarehouse = await getWarehouseStock(item.product.id, warehouse.id)
+    if (inWarehouse < quantity) {
+      stockIssues.push(`${item.name}: Need ${quantity}, only ${inWarehouse} in ${warehouse.name}`)
+    }
+  }
+
+  if (stockIssues.length > 0) {
+    return fail('Stock issues', 400, stockIssues)
+  }
+
+  // Boxes entered in the UI, or boxes from the catalog for everything packed
+  let packages: PackageInput[]
+  if (params.packages) {
+    const validated = validatePackages(params.packages)
+    if (validated.error) {
+      return fail(validated.error)
+    }
+    packages = validated.packages
+
+    const boxIds = [...new Set(packages.flatMap((pkg) => (pkg.boxId ? [pkg.boxId] : [])))]
+    const knownBoxes = await prisma.shippingBox.count({ where: { id: { in: boxIds } } })
+    if (knownBoxes !== boxIds.length) {
+      return fail('Unknown shipping box')
+    }
+  } else {
+    packages = await planCartons(
+      shipmentItems.map(({ item, quantity }) => ({ quantity, product: item.product }))
+    )
+  }
+
+  const shipTo = {
+    name: order.customerName,
+    addressLine1: order.shippingAddress1,
+    addressLine2: order.shippingAddress2 || undefined,
+    city: order.shippingCity,
+    state: order.shippingState,
+    postalCode: order.shippingZip,
+    countryCode: order.shippingCountry,
+    residential: toResidential(order.addressType),
+  }
+
+  // Parcels crossing a border declare what is in them
+  let customs: CustomsDeclaration | undefined
+  if (isInternational(warehouse.country, order.shippingCountry)) {
+    const built = buildCustomsDeclaration({
+      orderNumber: order.orderNumber,
+      currency: order.currency,
+      lines: shipmentItems.map(({ item, quantity }) => ({ item, product: item.product, quantity })),
+    })
+    if (!built.declaration) {
+      return fail('Customs data missing, add it on the product page', 400, built.missing)
+    }
+    customs = built.declaration
+  }
+
+  console.log(`[Purchase] Creating ${carrier.id} shipment for order ${order.orderNumber} from ${warehouse.code}`)
+
+  const shipFrom = toShipFromAddress(warehouse)
+  const carrierMode = carrier.getMode()
+  const result = await carrier.createShipment({
+    serviceCode: params.serviceCode,
+    labelFormat: params.labelFormat,
+    shipFrom,
+    shipTo,
+    packages,
+    customs,
+  })
+
+  if (result.error || !result.shipment) {
+    return fail(result.error || `Failed to create ${carrier.name} shipment`, 500)
+  }
+  const shipmentResult = result.shipment
+  const service = params.serviceName || params.serviceCode
+
+  console.log(`[Purchase] Shipment created: ${shipmentResult.trackingNumber}`)
+
+  // The label is paid for; without it (and the invoice customs asks for)
+  // stored the parcel can't go out
+  let storedLabels: Awaited<ReturnType<typeof storeShipmentLabels>>
+  try {
+    const invoice = customs
+      ? await renderCommercialInvoice({
+          declaration: customs,
+          exporter: shipFrom,
+          consignee: [
+            shipTo.name,
+            shipTo.addressLine1,
+            shipTo.addressLine2,
+            `${shipTo.city}, ${shipTo.state} ${shipTo.postalCode}`,
+            shipTo.countryCode,
+          ].filter((line): line is string => !!line),
+          carrier: carrier.name,
+          service,
+          trackingNumber: shipmentResult.trackingNumber,
+          packageCount: packages.length,
+        })
+      : null
+
+    storedLabels = await storeShipmentLabels({
+      format: shipmentResult.labelFormat,
+      lead: shipmentResult.labelBase64,
+      packages: shipmentResult.packages.map((pkg) => pkg.labelBase64),
+      invoice,
+    })
+  } catch (error) {
+    // Nothing has been recorded yet, so voiding the label undoes the purchase
+    console.error(`[Purchase] Failed to store label ${shipmentResult.trackingNumber}:`, error)
+
+    const voided = await voidBoughtLabel(carrier, shipmentResult)
+    if (!voided.voided) {
+      console.error(`[Purchase] Failed to void label ${shipmentResult.trackingNumber}:`, voided.error)
+      return fail(
+        `${carrier.name} label ${shipmentResult.trackingNumber} was bought but could not be stored. Void it with ${carrier.name} before buying again.`,
+        500
+      )
+    }
+
+    return fail(`Could not store the label. The ${carrier.name} label was voided; try again.`, 500)
+  }
+
+  // Use a transaction to ensure atomic operation
+  let dbResult: { id: string; fullyShipped: boolean }
+  try {
+    dbResult = await prisma.$transaction(async (tx) => {
+      // 1. Create the shipment record
+      const shipment = await tx.shipment.create({
+        data: {
+          orderId: order.id,
+          carrier: carrier.id,
+          carrierMode,
+          service,
+          trackingNumber: shipmentResult.trackingNumber,
+          labelUrl: `/api/shipping/label/${order.id}`, // Will be updated after we have the ID
+          labelKey: storedLabels.labelKey,
+          labelFormat: shipmentResult.labelFormat,
+          invoiceKey: storedLabels.invoiceKey,
+          shipmentCost: new Prisma.Decimal(shipmentResult.cost),
+          shippedByUserId: params.userId,
+          warehouseId: warehouse.id,
+        },
+      })
+
+      // Update label URL with actual shipment ID
+      await tx.shipment.update({
+        where: { id: shipment.id },
+        data: { labelUrl: `/api/shipping/label/${shipment.id}` },
+      })
+
+      // One row per box with its own tracking number and label
+      await tx.shipmentPackage.createMany({
+        data: packages.map((pkg, index) => ({
+          shipmentId: shipment.id,
+          sequence: index + 1,
+          trackingNumber: shipmentResult.packages[index]?.trackingNumber ?? null,
+          labelKey: storedLabels.packageKeys[index] ?? null,
+          weight: new Prisma.Decimal(pkg.weight),
+          length: new Prisma.Decimal(pkg.length),
+          width: new Prisma.Decimal(pkg.width),
+          height: new Prisma.Decimal(pkg.height),
+          boxId: pkg.boxId ?? null,
+        })),
+      })
+
+      // 2. Record the packed lines, take the units out of their bins and
+      //    update the order (SHIPPED once nothing is left, else PROCESSING)
+      const { fullyShipped } = await recordShipmentItems(tx, {
+        orderId: order.id,
+        shipmentId: shipment.id,
+        lines: packed.lines,
+        warehouseId: warehouse.id,
+        userId: params.userId,
+        notes: `Shipped for order ${order.orderNumber} via ${carrier.name}`,
+      })
+
+      // 3. The pack pass is used up by this shipment. A concurrent purchase
+      //    that used it first makes this one roll back.
+      const claimed = await tx.packVerification.updateMany({
+        where: { id: packed.verificationId, shipmentId: null },
+        data: { shipmentId: shipment.id },
+      })
+      if (claimed.count === 0) {
+        throw new Error('These packed items were already shipped in another shipment')
+      }
+
+      return { ...shipment, fullyShipped }
+    })
+  } catch (error) {
+    // Stock moved or another purchase used the pack pass after the checks
+    // above; the label is paid for, so take it back before giving up
+    const reason =
+      error instanceof Prisma.PrismaClientKnownRequestError
+        ? 'the database rejected it'
+        : error instanceof Error
+          ? error.message
+          : 'Unknown error'
+    console.error(`[Purchase] Failed to record label ${shipmentResult.trackingNumber}:`, error)
+
+    const voided = await voidBoughtLabel(carrier, shipmentResult)
+    if (!voided.voided) {
+      console.error(`[Purchase] Failed to void label ${shipmentResult.trackingNumber}:`, voided.error)
+      return fail(
+        `${carrier.name} label ${shipmentResult.trackingNumber} was bought but could not be recorded (${reason}). Void it with ${carrier.name} before buying again.`,
+        500
+      )
+    }
+
+    return fail(`Could not record the shipment: ${reason}. The ${carrier.name} label was voided.`, 409)
+  }
+
+  console.log(
+    `[Purchase] Order ${order.orderNumber} ${dbResult.fullyShipped ? 'marked as shipped' : 'partially shipped'}`
+  )
+
+  // 4. Try to create fulfillment in Shopify (don't fail if this fails)
+  let shopifyFulfillmentId: string | null = null
+  try {
+    if (order.shopifyOrderId) {
+      const shopifyFulfillment = await createFulfillment(
+        order.shopifyOrderId,
+        shipmentResult.trackingNumber,
+        carrier.name,
+        carrier.getTrackingUrl(shipmentResult.trackingNumber),
+        shipmentItems.map(({ item, quantity }) => ({
+          lineItemId: item.shopifyLineItemId,
+          quantity,
+        }))
+      )
+      console.log(`[Purchase] Shopify fulfillment created: ${shopifyFulfillment.id}`)
+      shopifyFulfillmentId = String(shopifyFulfillment.id)
+
+      // Kept so the fulfillment can be cancelled if the label is voided
+      await prisma.shipment.update({
+        where: { id: dbResult.id },
+        data: { shopifyFulfillmentId },
+      })
+    }
+  } catch (error) {
+    console.error('[Purchase] Failed to create Shopify fulfillment:', error)
+    // Don't fail the whole operation if Shopify sync fails
+  }
+
+  return {
+    label: {
+      id: dbResult.id,
+      trackingNumber: shipmentResult.trackingNumber,
+      labelUrl: `/api/shipping/label/${dbResult.id}`,
+      carrier: carrier.id,
+      mode: carrierMode,
+      service,
+      labelFormat: shipmentResult.labelFormat,
+      invoiceUrl: storedLabels.invoiceKey ? `/api/shipping/invoice/${dbResult.id}` : null,
+      cost: shipmentResult.cost,
+      currency: shipmentResult.currency,
+      packages: shipmentResult.packages.map((pkg, index) => ({
+        sequence: index + 1,
+        trackingNumber: pkg.trackingNumber,
+        labelUrl: `/api/shipping/label/${dbResult.id}?package=${index + 1}`,
+      })),
+      fullyShipped: dbResult.fullyShipped,
+      shopifyFulfillmentId,
+    },
+  }
+}
@@ -0,0 +1,241 @@
+/**
+ * Shipping address changes
+ *
+ * Staff change an order's shipping address in the WMS when a customer writes
+ * in with a correction, or take the correction a carrier suggested. Every
+ * change needs a reason and keeps the address it replaced, so the order page
+ * shows how the address came to be what it is. The new address is checked
+ * with the carriers again.
+ *
+ * A change can also be sent to Shopify. One that isn't would be undone by the
+ * next orders/updated webhook or order sync, so the order is marked as edited
+ * and Shopify's address is ignored from then on, until a later change is sent
+ * to Shopify.
+ */
+
+import { prisma } from '@/src/lib/db'
+import type { Order, Prisma } from '@/app/generated/prisma/client'
+import { updateOrderShippingAddress } from '@/src/lib/shopify'
+import { normalizeCountryCode } from '@/src/lib/customs'
+import {
+  UNCHECKED_ADDRESS,
+  isAddressChanged,
+  readAddressSuggestion,
+  validateOrderAddress,
+  type AddressCheckView,
+} from '@/src/lib/address-validation'
+
+// Fields of an address as sent by the edit form
+export interface AddressInput {
+  address1?: string
+  address2?: string | null
+  city?: string
+  state?: string
+  zip?: string
+  country?: string
+}
+
+type OrderAddressFields = Pick<
+  Order,
+  | 'shippingAddress1'
+  | 'shippingAddress2'
+  | 'shippingCity'
+  | 'shippingState'
+  | 'shippingZip'
+  | 'shippingCountry'
+>
+
+const ADDRESS_FIELDS = [
+  'shippingAddress1',
+  'shippingAddress2',
+  'shippingCity',
+  'shippingState',
+  'shippingZip',
+  'shippingCountry',
+] as const satisfies ReadonlyArray<keyof OrderAddressFields>
+
+/**
+ * Check an address sent by the edit form
+ *
+ * @returns The order's address fields, or an error message
+ */
+export function validateAddressInput(input: AddressInput): { data?: OrderAddressFields; error?: string } {
+  const address1 = input.address1?.trim()
+  const city = input.city?.trim()
+  const state = input.state?.trim().toUpperCase() ?? ''
+  const zip = input.zip?.trim().toUpperCase()
+  if (!address1 || !city || !zip) {
+    return { error: 'Address, city and postal code are required' }
+  }
+
+  const country = normalizeCountryCode(input.country ?? '')
+  if (!country) {
+    return { error: 'Country must be a two-letter code, e.g. US' }
+  }
+  if ((country === 'US' || country === 'CA') && !state) {
+    return { error: 'State or province is required' }
+  }
+
+  return {
+    data: {
+      shippingAddress1: address1,
+      shippingAddress2: input.address2?.trim() || null,
+      shippingCity: city,
+      shippingState: state,
+      shippingZip: zip,
+      shippingCountry: country,
+    },
+  }
+}
+
+/**
+ * Order fields to update an order with from Shopify. An address changed in
+ * the WMS is kept; a changed Shopify address is checked again.
+ *
+ * @returns The fields, and whether the address changed
+ */
+export function toShopifyOrderUpdate<T extends OrderAddressFields>(
+  existing: OrderAddressFields & Pick<Order, 'addressEditedAt'>,
+  incoming: T
+): { data: Prisma.OrderUpdateInput; addressChanged: boolean } {
+  if (existing.addressEditedAt) {
+    const data: Prisma.OrderUpdateInput = { ...incoming }
+    for (const field of ADDRESS_FIELDS) {
+      delete data[field]
+    }
+    return { data, addressChanged: false }
+  }
+
+  const addressChanged = isAddressChanged(existing, incoming)
+  return {
+    data: addressChanged ? { ...incoming, ...UNCHECKED_ADDRESS } : incoming,
+    addressChanged,
+  }
+}
+
+/**
+ * Change an order's shipping address, keeping the old one in its history
+ *
+ * @param params.pushToShopify - Also change the address in Shopify
+ * @returns The new address check, and why Shopify couldn't be updated if it
+ * couldn't; or an error message if nothing was changed
+ */
+export async function changeOrderAddress(params: {
+  orderId: string
+  address: AddressInput
+  reason: string
+  pushToShopify: boolean
+  userId: string
+}): Promise<{ check?: AddressCheckView | null; shopifyError?: string; error?: string }> {
+  const reason = params.reason.trim()
+  if (!reason) {
+    return { error: 'A reason is required' }
+  }
+
+  const { data: address, error } = validateAddressInput(params.address)
+  if (error || !address) {
+    return { error }
+  }
+
+  const order = await prisma.order.findUnique({ where: { id: params.orderId } })
+  if (!order) {
+    return { error: 'Order not found' }
+  }
+  if (order.status === 'SHIPPED' || order.status === 'CANCELLED') {
+    return { error: `Cannot change the address of a ${order.status.toLowerCase()} order` }
+  }
+  if (!isAddressChanged(order, address)) {
+    return { error: 'The address is unchanged' }
+  }
+
+  // Shopify first, so the change records whether it got there
+  let shopifyError: string | undefined
+  if (params.pushToShopify) {
+    try {
+      await updateOrderShippingAddress(order.shopifyOrderId, {
+        address1: address.shippingAddress1,
+        address2: address.shippingAddress2,
+        city: address.shippingCity,
+        provinceCode: address.shippingState,
+        zip: address.shippingZip,
+        countryCode: address.shippingCountry,
+      })
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Unknown error'
+      console.error(`[Address] Failed to update ${order.orderNumber} in Shopify:`, message)
+      shopifyError = `Address changed here, but not in Shopify: ${message}`
+    }
+  }
+  const pushed = params.pushToShopify && !shopifyError
+
+  await prisma.$transaction([
+    prisma.orderAddressChange.create({
+      data: {
+        orderId: order.id,
+        address1: order.shippingAddress1,
+        address2: order.shippingAddress2,
+        city: order.shippingCity,
+        state: order.shippingState,
+        zip: order.shippingZip,
+        country: order.shippingCountry,
+        reason,
+        pushedToShopify: pushed,
+        changedByUserId: params.userId,
+      },
+    }),
+    prisma.order.update({
+      where: { id: order.id },
+      data: {
+        ...address,
+        ...UNCHECKED_ADDRESS,
+        // Shopify has the same address now, so its updates can apply again
+        addressEditedAt: pushed ? null : new Date(),
+      },
+    }),
+  ])
+
+  console.log(`[Address] ${order.orderNumber}: address changed${pushed ? ' here and in Shopify' : ''}`)
+
+  // The order page checks it on the next view if the carriers don't answer
+  const validated = await validateOrderAddress(order.id).catch((err) => {
+    console.error(`[Address] Failed to check ${order.orderNumber}:`, err)
+    return null
+  })
+
+  return { check: validated?.check ?? null, shopifyError }
+}
+
+/**
+ * Replace the order's shipping address with the carrier's suggestion
+ *
+ * @returns The new address check, or an error message
+ */
+export async function applyAddressSuggestion(
+  orderId: string,
+  userId: string
+): Promise<{ check?: AddressCheckView | null; error?: string }> {
+  const order = await prisma.order.findUnique({ where: { id: orderId } })
+  if (!order) {
+    return { error: 'Order not found' }
+  }
+
+  const suggestion = readAddressSuggestion(order.addressSuggestion)
+  if (order.addressStatus !== 'SUGGESTED' || !suggestion) {
+    return { error: 'There is no suggested address to use' }
+  }
+
+  return changeOrderAddress({
+    orderId,
+    address: {
+      address1: suggestion.addressLine1,
+      address2: suggestion.addressLine2,
+      city: suggestion.city,
+      state: suggestion.state,
+      zip: suggestion.postalCode,
+      country: suggestion.countryCode,
+    },
+    reason: `Corrected as suggested by ${order.addressCarrier ?? 'the carrier'}`,
+    pushToShopify: false,
+    userId,
+  })
+}
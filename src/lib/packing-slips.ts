@@ -0,0 +1,421 @@
+/**
+ * Packing slips
+ *
+ * A letter-size PDF that goes in the box: who the order is for, what is in it
+ * with the bin each item is picked from, and the gift message if the customer
+ * left one. The logo, company name and texts come from the packing slip
+ * template in settings.
+ *
+ * Slips list what is left to ship, so a second box of a split order gets its
+ * own slip. Once everything has shipped they list the whole order again.
+ */
+
+import { PDFDocument, type PDFImage } from 'pdf-lib'
+import { prisma } from '@/src/lib/db'
+import { getStorage } from '@/src/lib/storage'
+import { getDefaultWarehouse } from '@/src/lib/warehouses'
+import {
+  GRAY,
+  MARGIN,
+  PAGE_WIDTH,
+  createPageWriter,
+  embedFonts,
+  wrapText,
+  type FontSet,
+  type PageWriter,
+} from '@/src/lib/pdf-pages'
+
+export interface PackingSlipTemplateView {
+  companyName: string
+  headerText: string | null
+  footerText: string | null
+  logoKey: string | null
+}
+
+export interface PackingSlip {
+  orderNumber: string
+  orderDate: Date
+  tote: string | null // when printed for a pick batch
+  shippingMethod: string | null
+  shipTo: string[]
+  shipFrom: string[] | null
+  giftNote: string | null
+  lines: Array<{
+    sku: string
+    name: string
+    quantity: number
+    bins: string[] // where to pick it, empty when the warehouse is short
+  }>
+}
+
+const DEFAULT_TEMPLATE: PackingSlipTemplateView = {
+  companyName: 'BoxNCase',
+  headerText: null,
+  footerText: 'Thank you for your order!',
+  logoKey: null,
+}
+
+// The logo is scaled down to fit
+export const LOGO_MAX_BYTES = 1024 * 1024
+export const LOGO_CONTENT_TYPES: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+}
+
+const LOGO_WIDTH = 180
+const LOGO_HEIGHT = 60
+
+// Table columns: left edge of each, quantity is right aligned to the margin
+const COLUMNS = { bin: MARGIN, sku: MARGIN + 100, item: MARGIN + 220, qtyRight: PAGE_WIDTH - MARGIN }
+
+export async function getPackingSlipTemplate(): Promise<PackingSlipTemplateView> {
+  const template = await prisma.packingSlipTemplate.findUnique({
+    where: { id: 'default' },
+  })
+  return template
+    ? {
+        companyName: template.companyName,
+        headerText: template.headerText,
+        footerText: template.footerText,
+        logoKey: template.logoKey,
+      }
+    : DEFAULT_TEMPLATE
+}
+
+function formatAddress(address: {
+  name?: string
+  address1: string
+  address2: string | null
+  city: string
+  state: string
+  zip: string
+  country: string
+}): string[] {
+  return [
+    address.name,
+    address.address1,
+    address.address2,
+    `${address.city}, ${address.state} ${address.zip}`,
+    address.country,
+  ].filter((line): line is string => !!line)
+}
+
+/**
+ * The packing slip of each order, in the order given
+ *
+ * @param totes - Tote of each order id, for pick batches
+ */
+export async function loadPackingSlips(
+  orderIds: string[],
+  totes?: Map<string, string>
+): Promise<PackingSlip[]> {
+  const orders = await prisma.order.findMany({
+    where: { id: { in: orderIds } },
+    include: {
+      warehouse: true,
+      orderItems: { orderBy: { createdAt: 'asc' } },
+    },
+  })
+
+  const defaultWarehouse = await getDefaultWarehouse()
+  const productIds = orders.flatMap((o) => o.orderItems.flatMap((i) => (i.productId ? [i.productId] : [])))
+  const stock = await prisma.locationStock.findMany({
+    where: { productId: { in: productIds }, quantity: { gt: 0 } },
+    select: {
+      productId: true,
+      quantity: true,
+      location: { select: { code: true, warehouseId: true } },
+    },
+    orderBy: { location: { code: 'asc' } },
+  })
+
+  const slips: PackingSlip[] = []
+  for (const orderId of orderIds) {
+    const order = orders.find((o) => o.id === orderId)
+    if (!order) continue
+
+    const warehouse = order.warehouse ?? defaultWarehouse
+    const remaining = order.orderItems.filter((item) => item.quantity > item.shippedQuantity)
+    const items = remaining.length > 0 ? remaining : order.orderItems
+
+    slips.push({
+      orderNumber: order.orderNumber,
+      orderDate: order.shopifyCreatedAt,
+      tote: totes?.get(order.id) ?? null,
+      shippingMethod: order.shippingMethod,
+      shipTo: formatAddress({
+        name: order.customerName,
+        address1: order.shippingAddress1,
+        address2: order.shippingAddress2,
+        city: order.shippingCity,
+        state: order.shippingState,
+        zip: order.shippingZip,
+        country: order.shippingCountry,
+      }),
+      shipFrom: warehouse ? formatAddress(warehouse) : null,
+      giftNote: order.giftNote,
+      lines: items.map((item) => {
+        const quantity = remaining.length > 0 ? item.quantity - item.shippedQuantity : item.quantity
+
+        // Bins are drawn down in code order, the same as the pick list
+        const bins: string[] = []
+        let needed = quantity
+        for (const bin of stock) {
+          if (needed <= 0) break
+          if (bin.productId !== item.productId || bin.location.warehouseId !== warehouse?.id) continue
+          bins.push(bin.location.code)
+          needed -= bin.quantity
+        }
+
+        return { sku: item.sku, name: item.name, quantity, bins }
+      }),
+    })
+  }
+  return slips
+}
+
+function drawHeader(
+  writer: PageWriter,
+  slip: PackingSlip,
+  template: PackingSlipTemplateView,
+  logo: PDFImage | null
+) {
+  const top = writer.y
+
+  // Left: logo, company name and header text
+  if (logo) {
+    const scale = Math.min(LOGO_WIDTH / logo.width, LOGO_HEIGHT / logo.height, 1)
+    writer.image(logo, MARGIN, logo.width * scale, logo.height * scale)
+    writer.y -= logo.height * scale + 16
+  } else {
+    writer.y -= 16
+  }
+  writer.text(template.companyName, MARGIN, { size: 14, bold: true })
+  if (template.headerText) {
+    for (const line of template.headerText.split(/\r?\n/)) {
+      writer.y -= 13
+      writer.text(line, MARGIN, { size: 9, color: GRAY })
+    }
+  }
+  const leftBottom = writer.y
+
+  // Right: title, order number and date
+  const right = PAGE_WIDTH - MARGIN
+  writer.y = top - 18
+  writer.textRight('PACKING SLIP', right, { size: 18, bold: true })
+  writer.y -= 20
+  writer.textRight(`Order ${slip.orderNumber}`, right, { size: 12, bold: true })
+  writer.y -= 15
+  writer.textRight(
+    slip.orderDate.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' }),
+    right
+  )
+  if (slip.tote) {
+    writer.y -= 15
+    writer.textRight(`Tote ${slip.tote}`, right, { bold: true })
+  }
+
+  writer.y = Math.min(leftBottom, writer.y) - 24
+}
+
+function drawAddresses(writer: PageWriter, slip: PackingSlip) {
+  const top = writer.y
+  const columns: Array<{ title: string; lines: string[]; x: number }> = [
+    { title: 'SHIP TO', lines: slip.shipTo, x: MARGIN },
+  ]
+  if (slip.shipFrom) {
+    columns.push({ title: 'SHIP FROM', lines: slip.shipFrom, x: MARGIN + 260 })
+  }
+
+  let bottom = top
+  for (const column of columns) {
+    writer.y = top
+    writer.text(column.title, column.x, { size: 8, bold: true, color: GRAY })
+    column.lines.forEach((line, index) => {
+      writer.y -= 14
+      writer.text(line, column.x, { size: 10, bold: index === 0 })
+    })
+    bottom = Math.min(bottom, writer.y)
+  }
+
+  writer.y = bottom
+  if (slip.shippingMethod) {
+    writer.y -= 20
+    writer.text(`Shipping: ${slip.shippingMethod}`, MARGIN, { size: 9, color: GRAY })
+  }
+  writer.y -= 24
+}
+
+function drawTableHeader(writer: PageWriter) {
+  writer.rect(MARGIN, writer.y - 6, PAGE_WIDTH - 2 * MARGIN, 20, { fill: true })
+  writer.y += 1
+  writer.text('BIN', COLUMNS.bin + 4, { size: 8, bold: true })
+  writer.text('SKU', COLUMNS.sku, { size: 8, bold: true })
+  writer.text('ITEM', COLUMNS.item, { size: 8, bold: true })
+  writer.textRight('QTY', COLUMNS.qtyRight - 4, { size: 8, bold: true })
+  writer.y -= 22
+}
+
+function drawLines(writer: PageWriter, slip: PackingSlip, fonts: FontSet) {
+  drawTableHeader(writer)
+
+  for (const line of slip.lines) {
+    const nameLines = wrapText(line.name, fonts.regular, 10, COLUMNS.qtyRight - 40 - COLUMNS.item)
+    const binLines = line.bins.length > 0 ? line.bins : ['—']
+    const rowHeight = Math.max(nameLines.length, binLines.length) * 13 + 6
+
+    if (writer.ensureSpace(rowHeight)) {
+      writer.text(`Order ${slip.orderNumber} (continued)`, MARGIN, { size: 9, color: GRAY })
+      writer.y -= 24
+      drawTableHeader(writer)
+    }
+
+    const rowTop = writer.y
+    binLines.forEach((bin, index) => {
+      writer.y = rowTop - index * 13
+      writer.text(bin, COLUMNS.bin + 4, { bold: true })
+    })
+    writer.y = rowTop
+    writer.text(line.sku, COLUMNS.sku, { size: 9 })
+    writer.textRight(String(line.quantity), COLUMNS.qtyRight - 4, { size: 11, bold: true })
+    nameLines.forEach((nameLine, index) => {
+      writer.y = rowTop - index * 13
+      writer.text(nameLine, COLUMNS.item)
+    })
+
+    writer.y = rowTop - rowHeight + 10
+    writer.line()
+    writer.y -= 14
+  }
+
+  const units = slip.lines.reduce((sum, line) => sum + line.quantity, 0)
+  writer.textRight(`${units} unit${units !== 1 ? 's' : ''}`, COLUMNS.qtyRight - 4, { bold: true })
+  writer.y -= 28
+}
+
+function drawGiftNote(writer: PageWriter, note: string, fonts: FontSet) {
+  const lines = wrapText(note, fonts.italic, 11, PAGE_WIDTH - 2 * MARGIN - 24)
+  const height = lines.length * 16 + 24
+  writer.ensureSpace(height)
+
+  writer.rect(MARGIN, writer.y - height + 12, PAGE_WIDTH - 2 * MARGIN, height)
+  writer.text('GIFT MESSAGE', MARGIN + 12, { size: 8, bold: true, color: GRAY })
+  for (const line of lines) {
+    writer.y -= 16
+    writer.text(line, MARGIN + 12, { size: 11, italic: true })
+  }
+  writer.y -= 30
+}
+
+function drawFooter(writer: PageWriter, footer: string, fonts: FontSet) {
+  const lines = wrapText(footer, fonts.regular, 9, PAGE_WIDTH - 2 * MARGIN)
+  writer.ensureSpace(lines.length * 12 + 12)
+
+  // At the bottom of the page, centred
+  writer.y = MARGIN + (lines.length - 1) * 12
+  for (const line of lines) {
+    const x = (PAGE_WIDTH - fonts.regular.widthOfTextAtSize(line, 9)) / 2
+    writer.text(line, x, { size: 9, color: GRAY })
+    writer.y -= 12
+  }
+}
+
+/**
+ * Packing slips as one PDF, each slip starting on a new page
+ */
+export async function renderPackingSlips(
+  slips: PackingSlip[],
+  template: PackingSlipTemplateView
+): Promise<Uint8Array> {
+  const document = await PDFDocument.create()
+  document.setTitle(slips.length === 1 ? `Packing slip ${slips[0].orderNumber}` : 'Packing slips')
+
+  const fonts = await embedFonts(document)
+
+  // A missing or broken logo leaves the company name on its own
+  let logo: PDFImage | null = null
+  if (template.logoKey) {
+    try {
+      const data = await getStorage().get(template.logoKey)
+      if (data) {
+        logo = template.logoKey.endsWith('.png')
+          ? await document.embedPng(data)
+          : await document.embedJpg(data)
+      }
+    } catch (error) {
+      console.error('[Packing Slips] Failed to load logo:', error)
+    }
+  }
+
+  const writer = createPageWriter(document, fonts)
+  for (const slip of slips) {
+    writer.newPage()
+    drawHeader(writer, slip, template, logo)
+    drawAddresses(writer, slip)
+    drawLines(writer, slip, fonts)
+    if (slip.giftNote) {
+      drawGiftNote(writer, slip.giftNote, fonts)
+    }
+    if (template.footerText) {
+      drawFooter(writer, template.footerText, fonts)
+    }
+  }
+
+  return document.save()
+}
+
+/**
+ * The packing slip of one order, or null if there is no such order
+ */
+export async function getOrderPackingSlip(orderId: string): Promise<Uint8Array | null> {
+  const slips = await loadPackingSlips([orderId])
+  if (slips.length === 0) return null
+  return renderPackingSlips(slips, await getPackingSlipTemplate())
+}
+
+/**
+ * The packing slips of a pick batch's orders, in tote order, or null if
+ * there is no such batch
+ */
+export async function getPickBatchPackingSlips(batchId: string): Promise<Uint8Array | null> {
+  const batch = await prisma.pickBatch.findUnique({
+    where: { id: batchId },
+    select: { orders: { orderBy: { tote: 'asc' }, select: { orderId: true, tote: true } } },
+  })
+  if (!batch) return null
+
+  const slips = await loadPackingSlips(
+    batch.orders.map((bo) => bo.orderId),
+    new Map(batch.orders.map((bo) => [bo.orderId, bo.tote]))
+  )
+  return renderPackingSlips(slips, await getPackingSlipTemplate())
+}
+
+/**
+ * A made-up order's packing slip, to check the template in settings
+ */
+export async function getSamplePackingSlip(): Promise<Uint8Array> {
+  const warehouse = await getDefaultWarehouse()
+  const sample: PackingSlip = {
+    orderNumber: '#1001',
+    orderDate: new Date(),
+    tote: null,
+    shippingMethod: 'Standard Shipping',
+    shipTo: formatAddress({
+      name: 'Jane Customer',
+      address1: '123 Main St',
+      address2: 'Apt 4',
+      city: 'Springfield',
+      state: 'IL',
+      zip: '62701',
+      country: 'US',
+    }),
+    shipFrom: warehouse ? formatAddress(warehouse) : null,
+    giftNote: 'Happy birthday! Love, Sam',
+    lines: [
+      { sku: 'CASE-001', name: 'Leather Phone Case', quantity: 2, bins: ['A-01-01'] },
+      { sku: 'SCRN-002', name: 'Glass Screen Protector', quantity: 1, bins: ['B-02-03'] },
+    ],
+  }
+  return renderPackingSlips([sample], await getPackingSlipTemplate())
+}
@@ -0,0 +1,205 @@
+/**
+ * Pack station verification
+ *
+ * Before a label can be bought the packer scans every unit going into the
+ * box. Scans are matched against the order's lines by product barcode or SKU
+ * and stored, rejected ones included, so there is a record of who packed the
+ * order, when, and what was scanned.
+ *
+ * A pass covers the units still to ship. It can be finished early to ship
+ * part of the order; whatever was scanned is what the next shipment carries.
+ */
+
+import { prisma } from '@/src/lib/db'
+import { getUnshippedQuantity, type ShipmentLine } from '@/src/lib/fulfillment'
+
+export interface PackLine {
+  orderItemId: string
+  sku: string
+  name: string
+  barcode: string | null
+  quantity: number
+  scanned: number
+}
+
+export interface PackProgress {
+  verificationId: string | null
+  lines: PackLine[]
+  complete: boolean
+  completedAt: Date | null
+}
+
+function normalizeCode(code: string): string {
+  return code.trim().toUpperCase()
+}
+
+function matchesLine(line: PackLine, code: string): boolean {
+  const scanned = normalizeCode(code)
+  return (
+    normalizeCode(line.sku) === scanned ||
+    (!!line.barcode && normalizeCode(line.barcode) === scanned)
+  )
+}
+
+async function getLatestVerification(orderId: string) {
+  return prisma.packVerification.findFirst({
+    // Passes that already went out in a shipment are done with
+    where: { orderId, shipmentId: null },
+    orderBy: { createdAt: 'desc' },
+    include: {
+      scans: {
+        where: { sku: { not: null } },
+        select: { sku: true },
+      },
+    },
+  })
+}
+
+/**
+ * The order's unshipped lines with how many units of each the current pass
+ * has scanned
+ */
+export async function getPackProgress(orderId: string): Promise<PackProgress> {
+  const items = await prisma.orderItem.findMany({
+    where: { orderId },
+    orderBy: { createdAt: 'asc' },
+    select: {
+      id: true,
+      sku: true,
+      name: true,
+      quantity: true,
+      shippedQuantity: true,
+      product: { select: { barcode: true } },
+    },
+  })
+
+  const lines: PackLine[] = items
+    .map((item) => ({
+      orderItemId: item.id,
+      sku: item.sku,
+      name: item.name,
+      barcode: item.product?.barcode ?? null,
+      quantity: getUnshippedQuantity(item),
+      scanned: 0,
+    }))
+    .filter((line) => line.quantity > 0)
+
+  const verification = await getLatestVerification(orderId)
+
+  // Accepted scans only store the SKU, so spread them over the order's lines
+  // in order in case a SKU appears on more than one line
+  for (const scan of verification?.scans ?? []) {
+    const line = lines.find((l) => l.sku === scan.sku && l.scanned < l.quantity)
+    if (line) line.scanned++
+  }
+
+  return {
+    verificationId: verification?.id ?? null,
+    lines,
+    complete: lines.length > 0 && lines.every((l) => l.scanned === l.quantity),
+    completedAt: verification?.completedAt ?? null,
+  }
+}
+
+/**
+ * What the finished pass put in the box, ready to go out in the next shipment
+ *
+ * @returns The packed lines, or null when packing hasn't been finished
+ */
+export async function getPackedLines(
+  orderId: string
+): Promise<{ verificationId: string; lines: ShipmentLine[] } | null> {
+  const progress = await getPackProgress(orderId)
+  if (!progress.verificationId || !progress.completedAt) return null
+
+  const lines = progress.lines
+    .filter((line) => line.scanned > 0)
+    .map((line) => ({ orderItemId: line.orderItemId, quantity: line.scanned }))
+
+  return lines.length > 0 ? { verificationId: progress.verificationId, lines } : null
+}
+
+/**
+ * Finish the current pass before every unit is scanned, to ship what's there
+ */
+export async function finishPackVerification(orderId: string): Promise<boolean> {
+  const progress = await getPackProgress(orderId)
+  const scanned = progress.lines.some((line) => line.scanned > 0)
+
+  if (!progress.verificationId || !scanned) return false
+
+  await prisma.packVerification.update({
+    where: { id: progress.verificationId },
+    data: { completedAt: new Date() },
+  })
+
+  return true
+}
+
+/**
+ * Start a fresh pass, discarding the scans of any earlier one
+ */
+export async function startPackVerification(orderId: string, userId: string): Promise<string> {
+  const verification = await prisma.packVerification.create({
+    data: { orderId, verifiedByUserId: userId },
+  })
+
+  return verification.id
+}
+
+/**
+ * Match a scanned code against the order and store the scan.
+ *
+ * @returns The updated progress, and the reason the scan was rejected if it was
+ */
+export async function recordPackScan(
+  orderId: string,
+  code: string,
+  userId: string
+): Promise<{ progress: PackProgress; error: string | null }> {
+  const progress = await getPackProgress(orderId)
+  const verificationId =
+    progress.verificationId ?? (await startPackVerification(orderId, userId))
+
+  const candidates = progress.lines.filter((line) => matchesLine(line, code))
+  const line = candidates.find((l) => l.scanned < l.quantity)
+
+  let error: string | null = null
+  if (candidates.length === 0) {
+    error = `${code.trim()} is not on this order`
+  } else if (!line) {
+    const ordered = candidates.reduce((sum, l) => sum + l.quantity, 0)
+    error = `Over-scan: all ${ordered} × ${candidates[0].sku} already scanned`
+  }
+
+  await prisma.packScan.create({
+    data: {
+      verificationId,
+      code: code.trim(),
+      sku: line?.sku ?? null,
+      error,
+    },
+  })
+
+  if (line) {
+    line.scanned++
+  }
+
+  const complete =
+    progress.lines.length > 0 && progress.lines.every((l) => l.scanned === l.quantity)
+  let completedAt = progress.completedAt
+
+  // Stamp the pass when this scan was the one that completed it
+  if (complete && line) {
+    completedAt = new Date()
+    await prisma.packVerification.update({
+      where: { id: verificationId },
+      data: { completedAt },
+    })
+  }
+
+  return {
+    progress: { ...progress, verificationId, complete, completedAt },
+    error,
+  }
+}
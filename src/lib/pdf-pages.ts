@@ -0,0 +1,140 @@
+/**
+ * Letter-size PDF pages
+ *
+ * Drawing helpers shared by the documents printed on office paper, packing
+ * slips and commercial invoices. They use the standard PDF fonts, so nothing
+ * has to be embedded from disk.
+ */
+
+import { PDFDocument, StandardFonts, rgb, type PDFFont, type PDFImage, type PDFPage } from 'pdf-lib'
+
+// Letter size, in points
+export const PAGE_WIDTH = 612
+export const PAGE_HEIGHT = 792
+export const MARGIN = 40
+
+export const GRAY = rgb(0.4, 0.4, 0.4)
+export const LIGHT_GRAY = rgb(0.93, 0.93, 0.93)
+export const BLACK = rgb(0, 0, 0)
+
+/**
+ * Text the standard PDF fonts can't draw (they only cover Latin-1) is
+ * replaced with "?"
+ */
+export function printable(font: PDFFont, text: string): string {
+  const supported = new Set(font.getCharacterSet())
+  return Array.from(text.replace(/\t/g, ' '))
+    .map((char) => (supported.has(char.codePointAt(0)!) ? char : '?'))
+    .join('')
+}
+
+export function wrapText(text: string, font: PDFFont, size: number, maxWidth: number): string[] {
+  const lines: string[] = []
+  for (const paragraph of printable(font, text).split(/\r?\n/)) {
+    let line = ''
+    for (const word of paragraph.split(' ')) {
+      const candidate = line ? `${line} ${word}` : word
+      if (!line || font.widthOfTextAtSize(candidate, size) <= maxWidth) {
+        line = candidate
+      } else {
+        lines.push(line)
+        line = word
+      }
+    }
+    lines.push(line)
+  }
+  return lines
+}
+
+export type FontSet = { regular: PDFFont; bold: PDFFont; italic: PDFFont }
+
+export interface TextOptions {
+  size?: number
+  bold?: boolean
+  italic?: boolean
+  color?: ReturnType<typeof rgb>
+}
+
+/**
+ * Draws a document page by page. y is where the next line goes, from the
+ * bottom of the page as in PDF.
+ */
+export function createPageWriter(document: PDFDocument, fonts: FontSet) {
+  let page: PDFPage | null = null
+  const currentPage = () => {
+    if (!page) throw new Error('No page started')
+    return page
+  }
+
+  const writer = {
+    y: 0,
+
+    newPage() {
+      page = document.addPage([PAGE_WIDTH, PAGE_HEIGHT])
+      writer.y = PAGE_HEIGHT - MARGIN
+    },
+
+    // Start a new page unless there is room left on this one
+    ensureSpace(height: number): boolean {
+      if (writer.y - height < MARGIN) {
+        writer.newPage()
+        return true
+      }
+      return false
+    },
+
+    text(value: string, x: number, options: TextOptions = {}) {
+      const font = options.bold ? fonts.bold : options.italic ? fonts.italic : fonts.regular
+      currentPage().drawText(printable(font, value), {
+        x,
+        y: writer.y,
+        size: options.size ?? 10,
+        font,
+        color: options.color ?? BLACK,
+      })
+    },
+
+    textRight(value: string, right: number, options: TextOptions = {}) {
+      const font = options.bold ? fonts.bold : fonts.regular
+      const width = font.widthOfTextAtSize(printable(font, value), options.size ?? 10)
+      writer.text(value, right - width, options)
+    },
+
+    rect(x: number, y: number, width: number, height: number, options: { fill?: boolean } = {}) {
+      currentPage().drawRectangle({
+        x,
+        y,
+        width,
+        height,
+        ...(options.fill ? { color: LIGHT_GRAY } : { borderColor: GRAY, borderWidth: 0.75 }),
+      })
+    },
+
+    line() {
+      currentPage().drawLine({
+        start: { x: MARGIN, y: writer.y },
+        end: { x: PAGE_WIDTH - MARGIN, y: writer.y },
+        thickness: 0.5,
+        color: GRAY,
+      })
+    },
+
+    image(image: PDFImage, x: number, width: number, height: number) {
+      currentPage().drawImage(image, { x, y: writer.y - height, width, height })
+    },
+  }
+  return writer
+}
+
+export type PageWriter = ReturnType<typeof createPageWriter>
+
+/**
+ * Helvetica in the styles the documents use
+ */
+export async function embedFonts(document: PDFDocument): Promise<FontSet> {
+  return {
+    regular: await document.embedFont(StandardFonts.Helvetica),
+    bold: await document.embedFont(StandardFonts.HelveticaBold),
+    italic: await document.embedFont(StandardFonts.HelveticaOblique),
+  }
+}
@@ -0,0 +1,162 @@
+/**
+ * Batch (wave) picking helpers
+ *
+ * A pick batch groups pending orders from one warehouse so they can be picked
+ * in a single walk. Each order gets its own tote; the pick list consolidates
+ * all lines by bin and says how many units go into each tote.
+ */
+
+import { prisma } from '@/src/lib/db'
+import type { PickBatchStatus } from '@/app/generated/prisma/client'
+import { getUnshippedQuantity } from '@/src/lib/fulfillment'
+
+// Each status can only move forward one step
+export const NEXT_BATCH_STATUS: Record<PickBatchStatus, PickBatchStatus | null> = {
+  OPEN: 'PICKING',
+  PICKING: 'PICKED',
+  PICKED: 'PACKED',
+  PACKED: null,
+}
+
+export function toteLabel(index: number): string {
+  return `T${index + 1}`
+}
+
+export interface PickListLine {
+  locationCode: string | null // null when the warehouse is short
+  productId: string
+  sku: string
+  name: string
+  quantity: number
+  totes: Array<{ tote: string; orderNumber: string; quantity: number }>
+}
+
+/**
+ * Build the consolidated pick list for a batch, sorted by bin so the picker
+ * walks the warehouse once. Bins are drawn down in the same order stock is
+ * removed at ship time. Lines the warehouse can't cover are returned last
+ * with no location.
+ */
+export async function buildPickList(batchId: string): Promise<PickListLine[]> {
+  const batch = await prisma.pickBatch.findUniqueOrThrow({
+    where: { id: batchId },
+    select: {
+      warehouseId: true,
+      orders: {
+        orderBy: { tote: 'asc' },
+        select: {
+          tote: true,
+          order: {
+            select: {
+              orderNumber: true,
+              orderItems: {
+                where: { productId: { not: null } },
+                select: {
+                  productId: true,
+                  quantity: true,
+                  shippedQuantity: true,
+                  product: { select: { sku: true, name: true } },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+  })
+
+  // Group what each product needs, per tote
+  const needs = new Map<
+    string,
+    {
+      sku: string
+      name: string
+      totes: Array<{ tote: string; orderNumber: string; quantity: number }>
+    }
+  >()
+
+  for (const batchOrder of batch.orders) {
+    for (const item of batchOrder.order.orderItems) {
+      // Units an earlier shipment took aren't picked again
+      const quantity = getUnshippedQuantity(item)
+      if (!item.productId || !item.product || quantity === 0) continue
+
+      const need = needs.get(item.productId) ?? {
+        sku: item.product.sku,
+        name: item.product.name,
+        totes: [],
+      }
+      need.totes.push({
+        tote: batchOrder.tote,
+        orderNumber: batchOrder.order.orderNumber,
+        quantity,
+      })
+      needs.set(item.productId, need)
+    }
+  }
+
+  const bins = await prisma.locationStock.findMany({
+    where: {
+      productId: { in: [...needs.keys()] },
+      quantity: { gt: 0 },
+      location: { warehouseId: batch.warehouseId },
+    },
+    select: { productId: true, quantity: true, location: { select: { code: true } } },
+    orderBy: { location: { code: 'asc' } },
+  })
+
+  const lines: PickListLine[] = []
+
+  for (const [productId, need] of needs) {
+    const productBins = bins.filter((b) => b.productId === productId)
+    const pending = need.totes.map((t) => ({ ...t }))
+    let toteIndex = 0
+
+    // Walk bins and totes together, splitting totes across bins when needed
+    for (const bin of productBins) {
+      let binRemaining = bin.quantity
+      const line: PickListLine = {
+        locationCode: bin.location.code,
+        productId,
+        sku: need.sku,
+        name: need.name,
+        quantity: 0,
+        totes: [],
+      }
+
+      while (binRemaining > 0 && toteIndex < pending.length) {
+        const tote = pending[toteIndex]
+        const take = Math.min(binRemaining, tote.quantity)
+
+        line.totes.push({ tote: tote.tote, orderNumber: tote.orderNumber, quantity: take })
+        line.quantity += take
+        binRemaining -= take
+        tote.quantity -= take
+
+        if (tote.quantity === 0) toteIndex++
+      }
+
+      if (line.quantity > 0) lines.push(line)
+      if (toteIndex >= pending.length) break
+    }
+
+    const short = pending.slice(toteIndex).filter((t) => t.quantity > 0)
+    if (short.length > 0) {
+      lines.push({
+        locationCode: null,
+        productId,
+        sku: need.sku,
+        name: need.name,
+        quantity: short.reduce((sum, t) => sum + t.quantity, 0),
+        totes: short,
+      })
+    }
+  }
+
+  return lines.sort((a, b) => {
+    if (a.locationCode === b.locationCode) return a.sku.localeCompare(b.sku)
+    if (a.locationCode === null) return 1
+    if (b.locationCode === null) return -1
+    return a.locationCode.localeCompare(b.locationCode)
+  })
+}
@@ -0,0 +1,263 @@
+/**
+ * Network printing
+ *
+ * Labels go straight from the server to a printer on the warehouse network,
+ * with no browser print dialog. A printer takes either ZPL (thermal label
+ * printers) or PDF, reached one of two ways:
+ *
+ * - RAW: the document is written to a TCP socket, usually port 9100. Every
+ *   Zebra and most office printers listen there.
+ * - IPP: an IPP/1.1 Print-Job request over HTTP, usually port 631, for
+ *   printers and print servers (e.g. CUPS) that only speak IPP.
+ *
+ * Labels are converted to what the printer takes: images and PDFs can go to a
+ * PDF printer, but only ZPL labels can go to a ZPL printer.
+ */
+
+import net from 'node:net'
+import { PDFDocument, StandardFonts } from 'pdf-lib'
+import type { Printer, PrinterFormat, PrinterProtocol } from '@/app/generated/prisma/client'
+import { labelsToPdf, labelsToZpl, type LabelFile } from '@/src/lib/label-documents'
+import { printable } from '@/src/lib/pdf-pages'
+
+// Fields of a printer as sent by the settings form
+export interface PrinterInput {
+  name?: string
+  host?: string
+  port?: number | string | null
+  protocol?: string
+  ippPath?: string | null
+  format?: string
+  isActive?: boolean
+}
+
+export interface PrinterData {
+  name: string
+  host: string
+  port: number
+  protocol: PrinterProtocol
+  ippPath: string | null
+  format: PrinterFormat
+  isActive: boolean
+}
+
+const DEFAULT_PORTS: Record<PrinterProtocol, number> = {
+  RAW: 9100,
+  IPP: 631,
+}
+
+const DEFAULT_IPP_PATH = '/ipp/print'
+
+// Give up on a printer that doesn't answer
+const PRINT_TIMEOUT_MS = 15000
+
+/**
+ * Check a printer sent by the settings form
+ *
+ * @returns The printer's fields, or an error message
+ */
+export function validatePrinter(input: PrinterInput): { data?: PrinterData; error?: string } {
+  const name = input.name?.trim()
+  const host = input.host?.trim()
+  if (!name || !host) {
+    return { error: 'Name and host are required' }
+  }
+  if (/[\s/]/.test(host)) {
+    return { error: 'Host must be a hostname or IP address' }
+  }
+
+  if (input.protocol !== 'RAW' && input.protocol !== 'IPP') {
+    return { error: 'Protocol must be RAW or IPP' }
+  }
+  if (input.format !== 'ZPL' && input.format !== 'PDF') {
+    return { error: 'Format must be ZPL or PDF' }
+  }
+
+  const port =
+    input.port === null || input.port === undefined || input.port === ''
+      ? DEFAULT_PORTS[input.protocol]
+      : Number(input.port)
+  if (!(Number.isInteger(port) && port > 0 && port < 65536)) {
+    return { error: 'Port must be a whole number from 1 to 65535' }
+  }
+
+  const ippPath = input.protocol === 'IPP' ? input.ippPath?.trim() || DEFAULT_IPP_PATH : null
+  if (ippPath && !ippPath.startsWith('/')) {
+    return { error: 'IPP path must start with /' }
+  }
+
+  return {
+    data: {
+      name,
+      host,
+      port,
+      protocol: input.protocol,
+      ippPath,
+      format: input.format,
+      isActive: input.isActive !== false,
+    },
+  }
+}
+
+/**
+ * Write the document to the printer's socket
+ */
+function sendRaw(host: string, port: number, document: Buffer): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const socket = net.createConnection({ host, port })
+    socket.setTimeout(PRINT_TIMEOUT_MS)
+
+    socket.on('connect', () => socket.end(document))
+    socket.on('timeout', () => socket.destroy(new Error(`No answer from ${host}:${port}`)))
+    socket.on('error', reject)
+    socket.on('close', (hadError) => {
+      if (!hadError) resolve()
+    })
+  })
+}
+
+/**
+ * One attribute of an IPP request: value tag, name and value
+ */
+function ippAttribute(tag: number, name: string, value: string): Buffer {
+  const nameBytes = Buffer.from(name)
+  const valueBytes = Buffer.from(value)
+  const header = Buffer.alloc(1 + 2)
+  header.writeUInt8(tag, 0)
+  header.writeUInt16BE(nameBytes.length, 1)
+  const valueLength = Buffer.alloc(2)
+  valueLength.writeUInt16BE(valueBytes.length, 0)
+  return Buffer.concat([header, nameBytes, valueLength, valueBytes])
+}
+
+/**
+ * Send the document as an IPP Print-Job request
+ */
+async function sendIpp(
+  printer: { host: string; port: number; ippPath: string | null; format: PrinterFormat },
+  document: Buffer,
+  jobName: string
+): Promise<void> {
+  const path = printer.ippPath || DEFAULT_IPP_PATH
+
+  // Version 1.1, operation Print-Job (0x0002), request id 1
+  const header = Buffer.from([0x01, 0x01, 0x00, 0x02, 0x00, 0x00, 0x00, 0x01])
+  const attributes = Buffer.concat([
+    Buffer.from([0x01]), // operation attributes
+    ippAttribute(0x47, 'attributes-charset', 'utf-8'),
+    ippAttribute(0x48, 'attributes-natural-language', 'en'),
+    ippAttribute(0x45, 'printer-uri', `ipp://${printer.host}:${printer.port}${path}`),
+    ippAttribute(0x42, 'requesting-user-name', 'boxncase-wms'),
+    ippAttribute(0x42, 'job-name', jobName),
+    ippAttribute(
+      0x49,
+      'document-format',
+      printer.format === 'PDF' ? 'application/pdf' : 'application/octet-stream'
+    ),
+    Buffer.from([0x03]), // end of attributes
+  ])
+
+  const response = await fetch(`http://${printer.host}:${printer.port}${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/ipp' },
+    body: new Uint8Array(Buffer.concat([header, attributes, document])),
+    signal: AbortSignal.timeout(PRINT_TIMEOUT_MS),
+  })
+
+  if (!response.ok) {
+    throw new Error(`IPP request failed: HTTP ${response.status}`)
+  }
+
+  // Status codes 0x0000-0x00FF are successful
+  const body = Buffer.from(await response.arrayBuffer())
+  const statusCode = body.length >= 4 ? body.readUInt16BE(2) : 0xffff
+  if (statusCode > 0x00ff) {
+    throw new Error(`Printer refused the job (IPP status 0x${statusCode.toString(16).padStart(4, '0')})`)
+  }
+}
+
+/**
+ * Send a document that is already in the printer's format
+ */
+export async function sendToPrinter(
+  printer: Pick<Printer, 'name' | 'host' | 'port' | 'protocol' | 'ippPath' | 'format'>,
+  document: Buffer,
+  jobName: string
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    if (printer.protocol === 'IPP') {
+      await sendIpp(printer, document, jobName)
+    } else {
+      await sendRaw(printer.host, printer.port, document)
+    }
+
+    console.log(`[Printing] Sent ${jobName} to ${printer.name} (${document.length} bytes)`)
+    return { success: true }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    console.error(`[Printing] Failed to print on ${printer.name}:`, message)
+    return { success: false, error: `Could not print on ${printer.name}: ${message}` }
+  }
+}
+
+/**
+ * Print labels on a printer, converted to the format it takes
+ */
+export async function printLabels(
+  printer: Pick<Printer, 'name' | 'host' | 'port' | 'protocol' | 'ippPath' | 'format'>,
+  labels: LabelFile[],
+  jobName: string
+): Promise<{ success: boolean; error?: string }> {
+  if (labels.length === 0) {
+    return { success: false, error: 'No labels to print' }
+  }
+
+  let document: Buffer
+  if (printer.format === 'ZPL') {
+    const { zpl, skipped } = labelsToZpl(labels)
+    if (skipped.length > 0) {
+      return {
+        success: false,
+        error: `${printer.name} prints ZPL, but the label is ${labels[0].format}. Buy labels in ZPL to print them there.`,
+      }
+    }
+    document = zpl
+  } else {
+    const { pdf, skipped } = await labelsToPdf(labels)
+    if (skipped.length > 0) {
+      return { success: false, error: `Could not convert labels ${skipped.join(', ')} to PDF` }
+    }
+    document = Buffer.from(pdf)
+  }
+
+  return sendToPrinter(printer, document, jobName)
+}
+
+/**
+ * A small label to check a printer is reachable and set up right, in the
+ * printer's own format
+ */
+export async function printTestLabel(
+  printer: Pick<Printer, 'name' | 'host' | 'port' | 'protocol' | 'ippPath' | 'format'>
+): Promise<{ success: boolean; error?: string }> {
+  const document =
+    printer.format === 'ZPL'
+      ? Buffer.from(`^XA^FO50,50^A0N,40,40^FDTEST PRINT^FS^FO50,110^A0N,30,30^FD${printer.name}^FS^XZ`)
+      : await renderTestPage(printer.name)
+  return sendToPrinter(printer, document, `Test print for ${printer.name}`)
+}
+
+/**
+ * A 4x6 PDF page with the printer's name, for PDF printers
+ */
+async function renderTestPage(printerName: string): Promise<Buffer> {
+  const pdf = await PDFDocument.create()
+  const font = await pdf.embedFont(StandardFonts.Helvetica)
+  const bold = await pdf.embedFont(StandardFonts.HelveticaBold)
+
+  const page = pdf.addPage([4 * 72, 6 * 72])
+  page.drawText('TEST PRINT', { x: 18, y: 6 * 72 - 48, size: 28, font: bold })
+  page.drawText(printable(font, printerName), { x: 18, y: 6 * 72 - 76, size: 14, font, maxWidth: 4 * 72 - 36 })
+
+  return Buffer.from(await pdf.save())
+}
@@ -0,0 +1,368 @@
+/**
+ * Purchase orders
+ *
+ * A purchase order lists what was ordered from a supplier, at what unit cost,
+ * for delivery to one warehouse. Receiving books units against a PO line, so
+ * what arrived can be compared with what was ordered: each receipt adds to the
+ * line's received quantity and its RECEIVED transaction points at the line.
+ *
+ * A PO is OPEN until the first units arrive, PARTIAL while lines are short and
+ * CLOSED once every line is received in full. A delivery that will never be
+ * completed is closed by hand, short. Receiving more than a line ordered must
+ * be accepted explicitly.
+ *
+ * The discrepancy report lists lines received over, lines closed short and
+ * lines still short past their expected date.
+ */
+
+import { prisma } from '@/src/lib/db'
+import { Prisma, type PurchaseOrderStatus } from '@/app/generated/prisma/client'
+
+type Tx = Prisma.TransactionClient
+
+// A new purchase order as sent by the form
+export interface PurchaseOrderInput {
+  supplierId: string
+  warehouseId: string
+  expectedAt?: string | null // YYYY-MM-DD
+  notes?: string | null
+  lines: Array<{ productId: string; quantity: number; unitCost: number }>
+}
+
+// A PO line units can be received against, for the receiving screen
+export interface ReceivableLine {
+  id: string
+  poNumber: string
+  supplierName: string
+  warehouseId: string
+  quantityOrdered: number
+  quantityReceived: number
+  expectedAt: string | null
+}
+
+export type DiscrepancyKind = 'OVER' | 'SHORT' | 'LATE'
+
+export interface Discrepancy {
+  lineId: string
+  kind: DiscrepancyKind
+  purchaseOrderId: string
+  poNumber: string
+  supplierName: string
+  sku: string
+  productName: string
+  quantityOrdered: number
+  quantityReceived: number
+  variance: number // received minus ordered
+  costVariance: number // variance at the line's unit cost
+  currency: string
+  expectedAt: string | null
+}
+
+/**
+ * The number a purchase order is known by, e.g. "PO-12"
+ */
+export function formatPurchaseOrderNumber(poNumber: number): string {
+  return `PO-${poNumber}`
+}
+
+/**
+ * Check a purchase order sent by the form
+ *
+ * @returns The order's fields, or an error message
+ */
+export function validatePurchaseOrderInput(input: PurchaseOrderInput): {
+  data?: {
+    supplierId: string
+    warehouseId: string
+    expectedAt: Date | null
+    notes: string | null
+    lines: Array<{ productId: string; quantityOrdered: number; unitCost: Prisma.Decimal }>
+  }
+  error?: string
+} {
+  if (!input.supplierId) {
+    return { error: 'Supplier is required' }
+  }
+  if (!input.warehouseId) {
+    return { error: 'Warehouse is required' }
+  }
+
+  let expectedAt: Date | null = null
+  if (input.expectedAt) {
+    expectedAt = new Date(`${input.expectedAt}T00:00:00Z`)
+    if (isNaN(expectedAt.getTime())) {
+      return { error: 'Expected date is not a valid date' }
+    }
+  }
+
+  if (input.lines.length === 0) {
+    return { error: 'Add at least one product' }
+  }
+
+  const productIds = new Set<string>()
+  for (const [index, line] of input.lines.entries()) {
+    if (!line.productId) {
+      return { error: `Line ${index + 1}: choose a product` }
+    }
+    if (productIds.has(line.productId)) {
+      return { error: `Line ${index + 1}: product is already on this order` }
+    }
+    productIds.add(line.productId)
+
+    if (!Number.isInteger(line.quantity) || line.quantity <= 0) {
+      return { error: `Line ${index + 1}: quantity must be a whole number greater than 0` }
+    }
+    if (!Number.isFinite(line.unitCost) || line.unitCost < 0) {
+      return { error: `Line ${index + 1}: unit cost must be 0 or more` }
+    }
+  }
+
+  return {
+    data: {
+      supplierId: input.supplierId,
+      warehouseId: input.warehouseId,
+      expectedAt,
+      notes: input.notes?.trim() || null,
+      lines: input.lines.map((line) => ({
+        productId: line.productId,
+        quantityOrdered: line.quantity,
+        unitCost: new Prisma.Decimal(line.unitCost),
+      })),
+    },
+  }
+}
+
+/**
+ * Place a purchase order
+ *
+ * @returns The new order's id, or an error message
+ */
+export async function createPurchaseOrder(
+  input: PurchaseOrderInput,
+  userId: string
+): Promise<{ purchaseOrderId?: string; error?: string }> {
+  const { data, error } = validatePurchaseOrderInput(input)
+  if (error || !data) {
+    return { error }
+  }
+
+  const supplier = await prisma.supplier.findUnique({ where: { id: data.supplierId } })
+  if (!supplier?.isActive) {
+    return { error: 'Supplier not found' }
+  }
+  const warehouse = await prisma.warehouse.findUnique({ where: { id: data.warehouseId } })
+  if (!warehouse?.isActive) {
+    return { error: 'Warehouse not found' }
+  }
+  const products = await prisma.product.count({
+    where: { id: { in: data.lines.map((line) => line.productId) } },
+  })
+  if (products !== data.lines.length) {
+    return { error: 'Some products could not be found' }
+  }
+
+  const created = await prisma.purchaseOrder.create({
+    data: {
+      supplierId: data.supplierId,
+      warehouseId: data.warehouseId,
+      expectedAt: data.expectedAt,
+      notes: data.notes,
+      createdByUserId: userId,
+      lines: { create: data.lines },
+    },
+  })
+
+  console.log(
+    `[Purchasing] ${formatPurchaseOrderNumber(created.poNumber)} placed with ${supplier.name}`
+  )
+
+  return { purchaseOrderId: created.id }
+}
+
+/**
+ * Lines of open and partly received purchase orders for a product, the
+ * earliest expected first
+ */
+export async function getReceivableLines(productId: string): Promise<ReceivableLine[]> {
+  const lines = await prisma.purchaseOrderLine.findMany({
+    where: { productId, purchaseOrder: { status: { not: 'CLOSED' } } },
+    include: {
+      purchaseOrder: {
+        select: {
+          poNumber: true,
+          warehouseId: true,
+          expectedAt: true,
+          supplier: { select: { name: true } },
+        },
+      },
+    },
+    orderBy: [
+      { purchaseOrder: { expectedAt: { sort: 'asc', nulls: 'last' } } },
+      { purchaseOrder: { poNumber: 'asc' } },
+    ],
+  })
+
+  return lines.map((line) => ({
+    id: line.id,
+    poNumber: formatPurchaseOrderNumber(line.purchaseOrder.poNumber),
+    supplierName: line.purchaseOrder.supplier.name,
+    warehouseId: line.purchaseOrder.warehouseId,
+    quantityOrdered: line.quantityOrdered,
+    quantityReceived: line.quantityReceived,
+    expectedAt: line.purchaseOrder.expectedAt?.toISOString() ?? null,
+  }))
+}
+
+/**
+ * Recalculate a purchase order's status from its lines. A PO closed by hand
+ * stays closed.
+ */
+async function syncPurchaseOrderStatus(tx: Tx, purchaseOrderId: string): Promise<PurchaseOrderStatus> {
+  const order = await tx.purchaseOrder.findUniqueOrThrow({
+    where: { id: purchaseOrderId },
+    select: {
+      status: true,
+      lines: { select: { quantityOrdered: true, quantityReceived: true } },
+    },
+  })
+  if (order.status === 'CLOSED') return order.status
+
+  const complete = order.lines.every((line) => line.quantityReceived >= line.quantityOrdered)
+  const started = order.lines.some((line) => line.quantityReceived > 0)
+  const status: PurchaseOrderStatus = complete ? 'CLOSED' : started ? 'PARTIAL' : 'OPEN'
+
+  if (status !== order.status) {
+    await tx.purchaseOrder.update({
+      where: { id: purchaseOrderId },
+      data: { status, closedAt: status === 'CLOSED' ? new Date() : null },
+    })
+  }
+
+  return status
+}
+
+/**
+ * Add received units to a PO line and update the order's status. The caller
+ * puts the units into a bin in the same transaction.
+ *
+ * @param params.acceptOverReceipt - Take more units than the line has left
+ * @throws OverReceiptError when the units exceed what's left and weren't accepted
+ */
+export async function recordPurchaseOrderReceipt(
+  tx: Tx,
+  params: { lineId: string; quantity: number; acceptOverReceipt: boolean }
+): Promise<{ poNumber: string; status: PurchaseOrderStatus }> {
+  const line = await tx.purchaseOrderLine.findUnique({
+    where: { id: params.lineId },
+    include: { purchaseOrder: { select: { id: true, poNumber: true, status: true } } },
+  })
+  if (!line) {
+    throw new PurchaseOrderReceiptError('Purchase order line not found')
+  }
+
+  const poNumber = formatPurchaseOrderNumber(line.purchaseOrder.poNumber)
+  if (line.purchaseOrder.status === 'CLOSED') {
+    throw new PurchaseOrderReceiptError(`${poNumber} is closed`)
+  }
+
+  // Increment first and check what came back, so two receipts at once can't
+  // both fit in what was left; throwing rolls this one back
+  const updated = await tx.purchaseOrderLine.update({
+    where: { id: line.id },
+    data: { quantityReceived: { increment: params.quantity } },
+    select: { quantityOrdered: true, quantityReceived: true },
+  })
+
+  if (updated.quantityReceived > updated.quantityOrdered && !params.acceptOverReceipt) {
+    const remaining = updated.quantityOrdered - (updated.quantityReceived - params.quantity)
+    throw new OverReceiptError(
+      `${poNumber} has ${Math.max(0, remaining)} left to receive on this line. ` +
+        `Accept the over-receipt to take ${params.quantity}.`
+    )
+  }
+
+  const status = await syncPurchaseOrderStatus(tx, line.purchaseOrder.id)
+  return { poNumber, status }
+}
+
+/**
+ * Close a purchase order that won't be delivered in full; what is missing
+ * shows on the discrepancy report
+ *
+ * @returns An error message if it couldn't be closed
+ */
+export async function closePurchaseOrder(purchaseOrderId: string): Promise<{ error?: string }> {
+  const { count } = await prisma.purchaseOrder.updateMany({
+    where: { id: purchaseOrderId, status: { not: 'CLOSED' } },
+    data: { status: 'CLOSED', closedAt: new Date() },
+  })
+  if (count === 0) {
+    return { error: 'Purchase order is already closed' }
+  }
+  return {}
+}
+
+/**
+ * Lines where receiving didn't match the order: received over, closed short,
+ * or still short after the expected date. Newest orders first.
+ */
+export async function getDiscrepancies(now = new Date()): Promise<Discrepancy[]> {
+  const orders = await prisma.purchaseOrder.findMany({
+    where: {
+      OR: [{ status: { not: 'OPEN' } }, { expectedAt: { lt: now } }],
+    },
+    orderBy: { createdAt: 'desc' },
+    take: 500,
+    include: {
+      supplier: { select: { name: true } },
+      lines: { include: { product: { select: { sku: true, name: true } } } },
+    },
+  })
+
+  const discrepancies: Discrepancy[] = []
+  for (const order of orders) {
+    const late = order.status !== 'CLOSED' && !!order.expectedAt && order.expectedAt < now
+
+    for (const line of order.lines) {
+      const variance = line.quantityReceived - line.quantityOrdered
+
+      let kind: DiscrepancyKind | null = null
+      if (variance > 0) kind = 'OVER'
+      else if (variance < 0 && order.status === 'CLOSED') kind = 'SHORT'
+      else if (variance < 0 && late) kind = 'LATE'
+      if (!kind) continue
+
+      discrepancies.push({
+        lineId: line.id,
+        kind,
+        purchaseOrderId: order.id,
+        poNumber: formatPurchaseOrderNumber(order.poNumber),
+        supplierName: order.supplier.name,
+        sku: line.product.sku,
+        productName: line.product.name,
+        quantityOrdered: line.quantityOrdered,
+        quantityReceived: line.quantityReceived,
+        variance,
+        costVariance: Math.round(variance * Number(line.unitCost) * 100) / 100,
+        currency: order.currency,
+        expectedAt: order.expectedAt?.toISOString() ?? null,
+      })
+    }
+  }
+
+  return discrepancies
+}
+
+export class PurchaseOrderReceiptError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'PurchaseOrderReceiptError'
+  }
+}
+
+export class OverReceiptError extends PurchaseOrderReceiptError {
+  constructor(message: string) {
+    super(message)
+    this.name = 'OverReceiptError'
+  }
+}
@@ -0,0 +1,444 @@
+/**
+ * Customer returns
+ *
+ * A return (RMA) authorizes a customer to send back units of a shipped order:
+ * which lines and how many, up to what shipped and isn't on another return
+ * already. UPS and FedEx can sell a prepaid return label for it, which is
+ * sent to the customer. Return labels are only billed once the carrier scans
+ * them, so a cancelled return's label needs no void.
+ *
+ * When the parcel arrives each line is received with what came back and what
+ * was done with it. Only restocked units go back into a bin and into stock,
+ * as RETURNED transactions linked to the return. Damaged and discarded units
+ * are recorded on the return and never counted.
+ */
+
+import { prisma } from '@/src/lib/db'
+import {
+  Prisma,
+  TransactionType,
+  type LabelFormat,
+  type ReturnDisposition,
+} from '@/app/generated/prisma/client'
+import { getCarrier } from '@/src/lib/carriers'
+import { changeLocationStock } from '@/src/lib/inventory'
+import { getOrderWarehouse, toShipFromAddress } from '@/src/lib/warehouses'
+import { getDefaultPackage } from '@/src/lib/fulfillment'
+import { isInternational } from '@/src/lib/customs'
+import { storeShipmentLabels } from '@/src/lib/label-documents'
+
+// A line of a new return
+export interface ReturnLineInput {
+  orderItemId: string
+  quantity: number
+}
+
+// What arrived for one line of a return
+export interface ReceivedLineInput {
+  itemId: string // CustomerReturnItem id
+  receivedQuantity: number
+  disposition: ReturnDisposition | null // required when anything arrived
+  locationId?: string | null // bin for restocked units
+}
+
+/**
+ * The number a return is known by, e.g. "RMA-12"
+ */
+export function formatReturnNumber(returnNumber: number): string {
+  return `RMA-${returnNumber}`
+}
+
+/**
+ * Units of each order line that can still be returned: shipped, less what
+ * open returns authorize and received returns got back
+ *
+ * @returns Returnable units by order item id
+ */
+export async function getReturnableQuantities(
+  orderId: string,
+  db: Prisma.TransactionClient = prisma
+): Promise<Map<string, number>> {
+  const items = await db.orderItem.findMany({
+    where: { orderId },
+    select: {
+      id: true,
+      shippedQuantity: true,
+      returnItems: {
+        where: { customerReturn: { status: { not: 'CANCELLED' } } },
+        select: {
+          quantity: true,
+          receivedQuantity: true,
+          customerReturn: { select: { status: true } },
+        },
+      },
+    },
+  })
+
+  return new Map(
+    items.map((item) => {
+      const returned = item.returnItems.reduce(
+        (sum, line) =>
+          sum + (line.customerReturn.status === 'RECEIVED' ? line.receivedQuantity ?? 0 : line.quantity),
+        0
+      )
+      return [item.id, Math.max(0, item.shippedQuantity - returned)]
+    })
+  )
+}
+
+/**
+ * Authorize a return of shipped units. The parcel goes back to the warehouse
+ * that shipped the order most recently.
+ *
+ * @returns The new return's id, or an error message
+ */
+export async function createReturn(params: {
+  orderId: string
+  lines: ReturnLineInput[]
+  reason: string
+  userId: string
+}): Promise<{ returnId?: string; error?: string }> {
+  const reason = params.reason.trim()
+  if (!reason) {
+    return { error: 'A reason is required' }
+  }
+
+  const lines = params.lines.filter((line) => line.quantity !== 0)
+  if (lines.length === 0) {
+    return { error: 'Select at least one item to return' }
+  }
+
+  const order = await prisma.order.findUnique({
+    where: { id: params.orderId },
+    include: {
+      orderItems: { select: { id: true, name: true } },
+      shipments: {
+        where: { voidedAt: null, warehouseId: { not: null } },
+        orderBy: { createdAt: 'desc' },
+        take: 1,
+        select: { warehouseId: true },
+      },
+    },
+  })
+  if (!order) {
+    return { error: 'Order not found' }
+  }
+
+  const seen = new Set<string>()
+  for (const line of lines) {
+    const item = order.orderItems.find((i) => i.id === line.orderItemId)
+    if (!item) {
+      return { error: 'Item is not on this order' }
+    }
+    if (seen.has(item.id)) {
+      return { error: `${item.name} is on the return more than once` }
+    }
+    seen.add(item.id)
+    if (!Number.isInteger(line.quantity) || line.quantity < 0) {
+      return { error: `${item.name}: quantity must be a whole number` }
+    }
+  }
+
+  const warehouseId = order.shipments[0]?.warehouseId ?? (await getOrderWarehouse(order))?.id
+  if (!warehouseId) {
+    return { error: 'No warehouse configured' }
+  }
+
+  const result = await prisma.$transaction(async (tx) => {
+    // Lock the order so two returns created at once can't both authorize
+    // the same units
+    await tx.order.update({ where: { id: order.id }, data: { updatedAt: new Date() } })
+
+    const returnable = await getReturnableQuantities(order.id, tx)
+    for (const line of lines) {
+      const item = order.orderItems.find((i) => i.id === line.orderItemId)!
+      const available = returnable.get(item.id) ?? 0
+      if (line.quantity > available) {
+        return {
+          error: `${item.name}: only ${available} shipped unit${available !== 1 ? 's' : ''} can be returned`,
+        }
+      }
+    }
+
+    const created = await tx.customerReturn.create({
+      data: {
+        orderId: order.id,
+        warehouseId,
+        reason,
+        createdByUserId: params.userId,
+        items: {
+          create: lines.map((line) => ({ orderItemId: line.orderItemId, quantity: line.quantity })),
+        },
+      },
+    })
+    return { created }
+  })
+
+  if (!result.created) {
+    return { error: result.error }
+  }
+  const { created } = result
+
+  console.log(`[Returns] ${formatReturnNumber(created.returnNumber)} created for order ${order.orderNumber}`)
+
+  return { returnId: created.id }
+}
+
+/**
+ * Buy a prepaid label for the customer to send the return back with, one
+ * box of the returned units' weight
+ *
+ * @returns An error message if no label was bought
+ */
+export async function purchaseReturnLabel(params: {
+  returnId: string
+  carrierId: string
+  serviceCode: string
+  labelFormat: LabelFormat
+}): Promise<{ error?: string }> {
+  const carrier = getCarrier(params.carrierId)
+  if (!carrier?.createReturnShipment) {
+    return { error: 'This carrier does not sell return labels' }
+  }
+  if (!carrier.isEnabled()) {
+    return { error: `${carrier.name} is not configured` }
+  }
+
+  const rma = await prisma.customerReturn.findUnique({
+    where: { id: params.returnId },
+    include: {
+      order: true,
+      warehouse: true,
+      items: { include: { orderItem: { include: { product: true } } } },
+    },
+  })
+  if (!rma) {
+    return { error: 'Return not found' }
+  }
+  if (rma.status !== 'OPEN') {
+    return { error: `Return is ${rma.status.toLowerCase()}` }
+  }
+  if (rma.trackingNumber) {
+    return { error: 'A return label was already bought' }
+  }
+
+  const { order, warehouse } = rma
+  if (isInternational(warehouse.country, order.shippingCountry)) {
+    return { error: `Return labels are only sold within ${warehouse.country}` }
+  }
+
+  // Claim the return by setting its carrier before paying, so two requests
+  // at once can't both buy a label; the claim is released if buying fails
+  const { count } = await prisma.customerReturn.updateMany({
+    where: { id: rma.id, status: 'OPEN', trackingNumber: null, carrier: null },
+    data: { carrier: carrier.id },
+  })
+  if (count === 0) {
+    return { error: 'A return label was already bought' }
+  }
+  const releaseClaim = () =>
+    prisma.customerReturn.updateMany({
+      where: { id: rma.id, trackingNumber: null },
+      data: { carrier: null },
+    })
+
+  const number = formatReturnNumber(rma.returnNumber)
+  console.log(`[Returns] Creating ${carrier.id} return label for ${number} to ${warehouse.code}`)
+
+  const carrierMode = carrier.getMode()
+  const result = await carrier.createReturnShipment({
+    serviceCode: params.serviceCode,
+    labelFormat: params.labelFormat,
+    returnTo: toShipFromAddress(warehouse),
+    returnFrom: {
+      name: order.customerName,
+      addressLine1: order.shippingAddress1,
+      addressLine2: order.shippingAddress2 || undefined,
+      city: order.shippingCity,
+      state: order.shippingState,
+      postalCode: order.shippingZip,
+      countryCode: order.shippingCountry,
+    },
+    packages: [
+      getDefaultPackage(
+        rma.items.map((item) => ({ quantity: item.quantity, product: item.orderItem.product }))
+      ),
+    ],
+  })
+
+  if (result.error || !result.shipment) {
+    await releaseClaim()
+    return { error: result.error || `Failed to create ${carrier.name} return label` }
+  }
+  const shipment = result.shipment
+
+  let labelKey: string | null
+  try {
+    const stored = await storeShipmentLabels({
+      format: shipment.labelFormat,
+      lead: shipment.labelBase64,
+      packages: [],
+    })
+    labelKey = stored.labelKey
+  } catch (error) {
+    console.error(`[Returns] Failed to store return label ${shipment.trackingNumber}:`, error)
+    await releaseClaim()
+    return {
+      error: `${carrier.name} return label ${shipment.trackingNumber} was bought but could not be stored. It is only billed if used.`,
+    }
+  }
+
+  await prisma.customerReturn.update({
+    where: { id: rma.id },
+    data: {
+      carrier: carrier.id,
+      service: carrier.services[params.serviceCode] ?? params.serviceCode,
+      carrierMode,
+      trackingNumber: shipment.trackingNumber,
+      labelKey,
+      labelFormat: shipment.labelFormat,
+      labelCost: new Prisma.Decimal(shipment.cost),
+    },
+  })
+
+  console.log(`[Returns] ${number}: return label ${shipment.trackingNumber}`)
+  return {}
+}
+
+/**
+ * Check in a return's parcel. Restocked units go back into the chosen bins of
+ * the return's warehouse; the rest is only recorded.
+ *
+ * @param params.lines - What arrived, by return line; lines left out arrived empty
+ * @returns An error message if nothing was received
+ */
+export async function receiveReturn(params: {
+  returnId: string
+  lines: ReceivedLineInput[]
+  userId: string
+}): Promise<{ error?: string }> {
+  const rma = await prisma.customerReturn.findUnique({
+    where: { id: params.returnId },
+    include: {
+      order: { select: { orderNumber: true } },
+      items: { include: { orderItem: { select: { name: true, productId: true } } } },
+    },
+  })
+  if (!rma) {
+    return { error: 'Return not found' }
+  }
+  if (rma.status !== 'OPEN') {
+    return { error: `Return is ${rma.status.toLowerCase()}` }
+  }
+
+  const received: Array<{
+    itemId: string
+    productId: string | null
+    receivedQuantity: number
+    disposition: ReturnDisposition | null
+    locationId: string | null
+  }> = []
+
+  for (const item of rma.items) {
+    const line = params.lines.find((l) => l.itemId === item.id)
+    const quantity = line?.receivedQuantity ?? 0
+    const name = item.orderItem.name
+
+    if (!Number.isInteger(quantity) || quantity < 0 || quantity > item.quantity) {
+      return { error: `${name}: received must be between 0 and ${item.quantity}` }
+    }
+    if (quantity > 0 && !line?.disposition) {
+      return { error: `${name}: choose what to do with the units` }
+    }
+
+    const disposition = quantity > 0 ? line!.disposition : null
+    const locationId = disposition === 'RESTOCK' ? line?.locationId || null : null
+    if (disposition === 'RESTOCK') {
+      if (!item.orderItem.productId) {
+        return { error: `${name}: product not in system, it can't be restocked` }
+      }
+      if (!locationId) {
+        return { error: `${name}: choose a bin to restock into` }
+      }
+    }
+
+    received.push({
+      itemId: item.id,
+      productId: item.orderItem.productId,
+      receivedQuantity: quantity,
+      disposition,
+      locationId,
+    })
+  }
+
+  if (received.every((line) => line.receivedQuantity === 0)) {
+    return { error: 'Nothing received; cancel the return instead' }
+  }
+
+  const binIds = [...new Set(received.flatMap((line) => (line.locationId ? [line.locationId] : [])))]
+  const bins = await prisma.location.count({
+    where: { id: { in: binIds }, warehouseId: rma.warehouseId },
+  })
+  if (bins !== binIds.length) {
+    return { error: "Restock into bins of the return's warehouse" }
+  }
+
+  const number = formatReturnNumber(rma.returnNumber)
+
+  const claimed = await prisma.$transaction(async (tx) => {
+    // Another receipt of the same return loses here
+    const { count } = await tx.customerReturn.updateMany({
+      where: { id: rma.id, status: 'OPEN' },
+      data: { status: 'RECEIVED', receivedAt: new Date(), receivedByUserId: params.userId },
+    })
+    if (count === 0) return false
+
+    for (const line of received) {
+      await tx.customerReturnItem.update({
+        where: { id: line.itemId },
+        data: {
+          receivedQuantity: line.receivedQuantity,
+          disposition: line.disposition,
+          locationId: line.locationId,
+        },
+      })
+
+      if (line.disposition === 'RESTOCK' && line.productId && line.locationId) {
+        await changeLocationStock(tx, {
+          productId: line.productId,
+          locationId: line.locationId,
+          quantity: line.receivedQuantity,
+          type: TransactionType.RETURNED,
+          notes: `Returned on ${number} for order ${rma.order.orderNumber}`,
+          userId: params.userId,
+          returnId: rma.id,
+        })
+      }
+    }
+
+    return true
+  })
+
+  if (!claimed) {
+    return { error: 'Return was already received' }
+  }
+
+  console.log(`[Returns] ${number} received`)
+  return {}
+}
+
+/**
+ * Cancel a return whose parcel hasn't arrived
+ *
+ * @returns An error message if it couldn't be cancelled
+ */
+export async function cancelReturn(returnId: string): Promise<{ error?: string }> {
+  const { count } = await prisma.customerReturn.updateMany({
+    where: { id: returnId, status: 'OPEN' },
+    data: { status: 'CANCELLED' },
+  })
+  if (count === 0) {
+    return { error: 'Only open returns can be cancelled' }
+  }
+  return {}
+}
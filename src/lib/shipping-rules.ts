@@ -0,0 +1,241 @@
+/**
+ * Shipping rules
+ *
+ * Admin-defined rules pick the rate for an order so packers don't have to.
+ * Active rules are tried by priority; the first one whose conditions all hold
+ * for the order decides, either naming a carrier service or asking for the
+ * cheapest rate that arrives within a number of days. Conditions left empty
+ * match every order.
+ *
+ * The choice is a pre-selection; packers can still ship with any rate.
+ */
+
+import { prisma } from '@/src/lib/db'
+import { Prisma, type ShippingRule } from '@/app/generated/prisma/client'
+import { getCarrier } from '@/src/lib/carriers'
+
+export interface RuleOrder {
+  country: string
+  state: string
+  weight: number // in lbs, all packages
+  total: number
+  skus: string[]
+  shippingMethod: string | null
+}
+
+export interface RuleRate {
+  id: string
+  carrier: string
+  serviceCode: string
+  price: number
+  estimatedDays: number
+}
+
+export interface RuleSelection {
+  ruleId: string
+  ruleName: string
+  rateId: string | null // null when none of the rates satisfies the rule
+}
+
+// Fields of a rule as sent by the settings form
+export interface ShippingRuleInput {
+  name?: string
+  priority?: number | string
+  isActive?: boolean
+  countries?: string[] | string // a list, or comma separated
+  states?: string[] | string
+  minWeight?: number | string | null
+  maxWeight?: number | string | null
+  minOrderTotal?: number | string | null
+  maxOrderTotal?: number | string | null
+  skus?: string[] | string
+  shippingMethods?: string[] | string
+  action?: string
+  carrier?: string | null
+  serviceCode?: string | null
+  maxTransitDays?: number | string | null
+}
+
+// The form's JSON isn't checked on the way in, so anything but text or a
+// list of text comes back as null
+function toList(value: unknown, upperCase = false): string[] | null {
+  const list = typeof value === 'string' ? value.split(',') : value ?? []
+  if (!Array.isArray(list) || !list.every((item) => typeof item === 'string')) {
+    return null
+  }
+  return list
+    .map((item) => (upperCase ? item.trim().toUpperCase() : item.trim()))
+    .filter(Boolean)
+}
+
+function toNumber(value: number | string | null | undefined): number | null {
+  return value === null || value === undefined || value === '' ? null : Number(value)
+}
+
+/**
+ * Check a rule sent by the settings form
+ *
+ * @returns The rule's fields, or an error message
+ */
+export function validateShippingRule(input: ShippingRuleInput): {
+  data?: Prisma.ShippingRuleCreateInput
+  error?: string
+} {
+  const name = typeof input.name === 'string' ? input.name.trim() : ''
+  if (!name) {
+    return { error: 'Name is required' }
+  }
+
+  if (input.action !== 'SERVICE' && input.action !== 'CHEAPEST') {
+    return { error: 'Choose a specific service or the cheapest rate' }
+  }
+
+  const carrier = input.carrier ? getCarrier(input.carrier) : null
+  if (input.carrier && !carrier) {
+    return { error: 'Invalid carrier' }
+  }
+
+  const serviceCode = (typeof input.serviceCode === 'string' && input.serviceCode.trim()) || null
+  if (input.action === 'SERVICE' && (!carrier || !serviceCode)) {
+    return { error: 'Choose the carrier and service to use' }
+  }
+
+  const priority = toNumber(input.priority) ?? 0
+  const maxTransitDays = input.action === 'CHEAPEST' ? toNumber(input.maxTransitDays) : null
+  if (!Number.isInteger(priority)) {
+    return { error: 'Priority must be a whole number' }
+  }
+  if (maxTransitDays !== null && !(Number.isInteger(maxTransitDays) && maxTransitDays > 0)) {
+    return { error: 'Max transit days must be a whole number greater than 0' }
+  }
+
+  const ranges = {
+    weight: [toNumber(input.minWeight), toNumber(input.maxWeight)],
+    'order total': [toNumber(input.minOrderTotal), toNumber(input.maxOrderTotal)],
+  }
+  for (const [label, [min, max]] of Object.entries(ranges)) {
+    if ((min !== null && !(min >= 0)) || (max !== null && !(max >= 0))) {
+      return { error: `Min and max ${label} must be 0 or more` }
+    }
+    if (min !== null && max !== null && min > max) {
+      return { error: `Min ${label} can't be more than max ${label}` }
+    }
+  }
+
+  const countries = toList(input.countries, true)
+  const states = toList(input.states, true)
+  const skus = toList(input.skus)
+  const shippingMethods = toList(input.shippingMethods)
+  if (!countries || !states || !skus || !shippingMethods) {
+    return { error: 'Countries, states, SKUs and shipping methods must be text or a list of text' }
+  }
+
+  const decimal = (value: number | null) => (value === null ? null : new Prisma.Decimal(value))
+
+  return {
+    data: {
+      name,
+      priority,
+      isActive: input.isActive !== false,
+      countries,
+      states,
+      minWeight: decimal(ranges.weight[0]),
+      maxWeight: decimal(ranges.weight[1]),
+      minOrderTotal: decimal(ranges['order total'][0]),
+      maxOrderTotal: decimal(ranges['order total'][1]),
+      skus,
+      shippingMethods,
+      action: input.action,
+      carrier: carrier?.id ?? null,
+      serviceCode: input.action === 'SERVICE' ? serviceCode : null,
+      maxTransitDays,
+    },
+  }
+}
+
+function matchesAny(values: string[], value: string | null): boolean {
+  if (values.length === 0) {
+    return true
+  }
+  return value !== null && values.some((v) => v.toLowerCase() === value.toLowerCase())
+}
+
+function withinRange(value: number, min: Prisma.Decimal | null, max: Prisma.Decimal | null): boolean {
+  return (min === null || value >= Number(min)) && (max === null || value <= Number(max))
+}
+
+/**
+ * The facts about an order that rules are matched against
+ */
+export function toRuleOrder(
+  order: {
+    shippingCountry: string
+    shippingState: string
+    totalPrice: Prisma.Decimal
+    shippingMethod: string | null
+    orderItems: Array<{ sku: string }>
+  },
+  packages: Array<{ weight: number }>
+): RuleOrder {
+  return {
+    country: order.shippingCountry,
+    state: order.shippingState,
+    weight: packages.reduce((sum, pkg) => sum + pkg.weight, 0),
+    total: Number(order.totalPrice),
+    skus: order.orderItems.map((item) => item.sku),
+    shippingMethod: order.shippingMethod,
+  }
+}
+
+/**
+ * Whether every condition of the rule holds for the order
+ */
+export function ruleMatches(rule: ShippingRule, order: RuleOrder): boolean {
+  return (
+    matchesAny(rule.countries, order.country) &&
+    matchesAny(rule.states, order.state) &&
+    withinRange(order.weight, rule.minWeight, rule.maxWeight) &&
+    withinRange(order.total, rule.minOrderTotal, rule.maxOrderTotal) &&
+    (rule.skus.length === 0 || order.skus.some((sku) => matchesAny(rule.skus, sku))) &&
+    matchesAny(rule.shippingMethods, order.shippingMethod)
+  )
+}
+
+/**
+ * The rate the rule asks for, or null when no rate satisfies it
+ */
+export function chooseRate<T extends RuleRate>(rule: ShippingRule, rates: T[]): T | null {
+  if (rule.action === 'SERVICE') {
+    return rates.find((rate) => rate.carrier === rule.carrier && rate.serviceCode === rule.serviceCode) ?? null
+  }
+
+  const eligible = rates.filter(
+    (rate) =>
+      (!rule.carrier || rate.carrier === rule.carrier) &&
+      (rule.maxTransitDays === null || rate.estimatedDays <= rule.maxTransitDays)
+  )
+  return eligible.reduce<T | null>((best, rate) => (!best || rate.price < best.price ? rate : best), null)
+}
+
+/**
+ * Find the first active rule matching the order and the rate it picks
+ *
+ * @returns The rule and its rate, or null when no rule matches
+ */
+export async function selectRate(order: RuleOrder, rates: RuleRate[]): Promise<RuleSelection | null> {
+  const rules = await prisma.shippingRule.findMany({
+    where: { isActive: true },
+    orderBy: [{ priority: 'asc' }, { createdAt: 'asc' }],
+  })
+
+  const rule = rules.find((r) => ruleMatches(r, order))
+  if (!rule) {
+    return null
+  }
+
+  return {
+    ruleId: rule.id,
+    ruleName: rule.name,
+    rateId: chooseRate(rule, rates)?.id ?? null,
+  }
+}
@@ -163,10 +163,19 @@ export interface ShopifyOrder {
     zip: string
     phone: string | null
   } | null
+  note: string | null
+  note_attributes: ShopifyNoteAttribute[]
   line_items: ShopifyLineItem[]
+  shipping_lines: ShopifyShippingLine[]
   fulfillments: ShopifyFulfillment[]
 }
 
+// Extra checkout fields, e.g. a gift message added by a gift app
+export interface ShopifyNoteAttribute {
+  name: string
+  value: string
+}
+
 export interface ShopifyLineItem {
   id: number
   product_id: number | null
@@ -179,6 +188,13 @@ export interface ShopifyLineItem {
   fulfillment_status: string | null
 }
 
+export interface ShopifyShippingLine {
+  id: number
+  title: string // shipping method the customer chose, e.g. "Express"
+  code: string | null
+  price: string
+}
+
 export interface ShopifyFulfillment {
   id: number
   order_id: number
@@ -188,6 +204,21 @@ export interface ShopifyFulfillment {
   tracking_company: string | null
 }
 
+/**
+ * The gift message of an order: a note attribute named like "Gift message"
+ * or "gift_note", else the order note the customer left at checkout
+ */
+export function getGiftNote(order: {
+  note?: string | null
+  note_attributes?: ShopifyNoteAttribute[] | null
+}): string | null {
+  const attribute = order.note_attributes?.find(
+    (a) => /gift/i.test(a.name) && String(a.value ?? '').trim()
+  )
+  const note = attribute ? String(attribute.value) : order.note
+  return note?.trim() || null
+}
+
 // API Functions
 
 /**
@@ -285,18 +316,61 @@ export async function fetchOrder(orderId: string | number): Promise<ShopifyOrder
   return data.order
 }
 
+/**
+ * Change an order's shipping address in Shopify. Name and phone are kept.
+ * @param orderId - Shopify order ID
+ * @param address - New address, with province and country as codes
+ */
+export async function updateOrderShippingAddress(
+  orderId: string | number,
+  address: {
+    address1: string
+    address2: string | null
+    city: string
+    provinceCode: string
+    zip: string
+    countryCode: string
+  }
+): Promise<void> {
+  console.log(`[Shopify] Updating shipping address of order ${orderId}...`)
+
+  await rateLimit()
+
+  await shopifyFetch<{ order: ShopifyOrder }>(`/orders/${orderId}.json`, {
+    method: 'PUT',
+    body: JSON.stringify({
+      order: {
+        id: Number(orderId),
+        shipping_address: {
+          address1: address.address1,
+          address2: address.address2 ?? '',
+          city: address.city,
+          province_code: address.provinceCode,
+          zip: address.zip,
+          country_code: address.countryCode,
+        },
+      },
+    }),
+  })
+
+  console.log(`[Shopify] Updated shipping address of order ${orderId}`)
+}
+
 /**
  * Create a fulfillment for an order (marks it as shipped in Shopify)
  * @param orderId - Shopify order ID
  * @param trackingNumber - Tracking number
  * @param carrier - Carrier name (e.g., "UPS", "FedEx")
  * @param trackingUrl - Tracking URL (optional)
+ * @param lineItems - Shopify line items and quantities in this shipment
+ *   (optional, defaults to everything still fulfillable)
  */
 export async function createFulfillment(
   orderId: string | number,
   trackingNumber: string,
   carrier: string,
-  trackingUrl?: string
+  trackingUrl?: string,
+  lineItems?: Array<{ lineItemId: string | number; quantity: number }>
 ): Promise<ShopifyFulfillment> {
   console.log(`[Shopify] Creating fulfillment for order ${orderId}...`)
 
@@ -307,6 +381,7 @@ export async function createFulfillment(
       status: string
       line_items: Array<{
         id: number
+        line_item_id: number
         fulfillable_quantity: number
       }>
     }>
@@ -320,16 +395,34 @@ export async function createFulfillment(
     throw new ShopifyAPIError('No open fulfillment orders found', 400)
   }
 
+  // Units still to fulfill per order line item, when only some are shipping
+  const remaining = lineItems
+    ? new Map(lineItems.map((li) => [String(li.lineItemId), li.quantity]))
+    : null
+
   // Build line items by fulfillment order
-  const lineItemsByFulfillmentOrder = openFulfillmentOrders.map((fo) => ({
-    fulfillment_order_id: fo.id,
-    fulfillment_order_line_items: fo.line_items
-      .filter((li) => li.fulfillable_quantity > 0)
-      .map((li) => ({
-        id: li.id,
-        quantity: li.fulfillable_quantity,
-      })),
-  }))
+  const lineItemsByFulfillmentOrder = openFulfillmentOrders
+    .map((fo) => ({
+      fulfillment_order_id: fo.id,
+      fulfillment_order_line_items: fo.line_items
+        .filter((li) => li.fulfillable_quantity > 0)
+        .map((li) => {
+          if (!remaining) {
+            return { id: li.id, quantity: li.fulfillable_quantity }
+          }
+
+          const key = String(li.line_item_id)
+          const quantity = Math.min(remaining.get(key) ?? 0, li.fulfillable_quantity)
+          remaining.set(key, (remaining.get(key) ?? 0) - quantity)
+          return { id: li.id, quantity }
+        })
+        .filter((li) => li.quantity > 0),
+    }))
+    .filter((fo) => fo.fulfillment_order_line_items.length > 0)
+
+  if (lineItemsByFulfillmentOrder.length === 0) {
+    throw new ShopifyAPIError('No fulfillable line items in this shipment', 400)
+  }
 
   const fulfillmentPayload = {
     fulfillment: {
@@ -357,6 +450,46 @@ export async function createFulfillment(
   return data.fulfillment
 }
 
+/**
+ * Find an order's fulfillment by tracking number
+ * @param orderId - Shopify order ID
+ * @param trackingNumber - Tracking number the fulfillment was created with
+ */
+export async function findFulfillment(
+  orderId: string | number,
+  trackingNumber: string
+): Promise<ShopifyFulfillment | null> {
+  const { data } = await shopifyFetch<{ fulfillments: ShopifyFulfillment[] }>(
+    `/orders/${orderId}/fulfillments.json`
+  )
+
+  return (
+    data.fulfillments.find(
+      (f) => f.tracking_number === trackingNumber && f.status !== 'cancelled'
+    ) ?? null
+  )
+}
+
+/**
+ * Cancel a fulfillment (puts its line items back to unfulfilled in Shopify)
+ * @param fulfillmentId - Shopify fulfillment ID
+ */
+export async function cancelFulfillment(
+  fulfillmentId: string | number
+): Promise<ShopifyFulfillment> {
+  console.log(`[Shopify] Cancelling fulfillment ${fulfillmentId}...`)
+
+  await rateLimit()
+
+  const { data } = await shopifyFetch<{ fulfillment: ShopifyFulfillment }>(
+    `/fulfillments/${fulfillmentId}/cancel.json`,
+    { method: 'POST' }
+  )
+
+  console.log(`[Shopify] Cancelled fulfillment ${fulfillmentId}`)
+  return data.fulfillment
+}
+
 /**
  * Test the Shopify connection
  */
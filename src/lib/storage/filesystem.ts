@@ -0,0 +1,65 @@
+/**
+ * Filesystem storage
+ *
+ * Each key is a file under the storage directory. Fine for one server with a
+ * backed-up disk; use S3 when the app runs on more than one machine.
+ */
+
+import { createReadStream } from 'node:fs'
+import { mkdir, readFile, rename, stat, writeFile } from 'node:fs/promises'
+import path from 'node:path'
+import { Readable } from 'node:stream'
+import { randomUUID } from 'node:crypto'
+import { assertValidKey, type StorageBackend } from '@/src/lib/storage'
+
+function isNotFound(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException)?.code === 'ENOENT'
+}
+
+export function createFilesystemStorage(directory: string): StorageBackend {
+  const root = path.resolve(directory)
+
+  const filePath = (key: string) => {
+    assertValidKey(key)
+    return path.join(root, ...key.split('/'))
+  }
+
+  return {
+    id: 'filesystem',
+
+    async put(key, data) {
+      const target = filePath(key)
+      await mkdir(path.dirname(target), { recursive: true })
+      // Written aside and renamed, so a reader never sees half a file
+      const temporary = `${target}.${randomUUID()}.tmp`
+      await writeFile(temporary, data)
+      await rename(temporary, target)
+    },
+
+    async get(key) {
+      try {
+        return await readFile(filePath(key))
+      } catch (error) {
+        if (isNotFound(error)) return null
+        throw error
+      }
+    },
+
+    async getStream(key) {
+      const size = await this.getSize(key)
+      if (size === null) return null
+
+      const stream = createReadStream(filePath(key))
+      return { body: Readable.toWeb(stream) as ReadableStream<Uint8Array>, size }
+    },
+
+    async getSize(key) {
+      try {
+        return (await stat(filePath(key))).size
+      } catch (error) {
+        if (isNotFound(error)) return null
+        throw error
+      }
+    },
+  }
+}
@@ -0,0 +1,56 @@
+/**
+ * Document storage
+ *
+ * Labels and other generated documents are kept out of the database, which
+ * only stores each file's key. STORAGE_BACKEND picks where the files go:
+ *
+ * - filesystem (default): under STORAGE_DIR, ./storage unless set
+ * - s3: a bucket on S3 or an S3-compatible service such as MinIO, see
+ *   src/lib/storage/s3.ts
+ *
+ * Keys are slash-separated paths like "labels/<id>/1.png". Files are written
+ * once and never changed.
+ */
+
+import { createFilesystemStorage } from '@/src/lib/storage/filesystem'
+import { createS3Storage } from '@/src/lib/storage/s3'
+
+export interface StoredFile {
+  body: ReadableStream<Uint8Array>
+  size: number | null // in bytes, when the backend knows it
+}
+
+export interface StorageBackend {
+  id: string
+  put(key: string, data: Buffer, contentType: string): Promise<void>
+  get(key: string): Promise<Buffer | null> // null if there is no such file
+  getStream(key: string): Promise<StoredFile | null>
+  getSize(key: string): Promise<number | null>
+}
+
+const KEY_PATTERN = /^[A-Za-z0-9_-][A-Za-z0-9._-]*(\/[A-Za-z0-9_-][A-Za-z0-9._-]*)*$/
+
+/**
+ * Keys end up in file paths, so they may only hold plain path segments
+ */
+export function assertValidKey(key: string): void {
+  if (!KEY_PATTERN.test(key) || key.split('/').includes('..')) {
+    throw new Error(`Invalid storage key: ${key}`)
+  }
+}
+
+let storage: StorageBackend | null = null
+
+export function getStorage(): StorageBackend {
+  if (!storage) {
+    const backend = process.env.STORAGE_BACKEND || 'filesystem'
+    if (backend === 'filesystem') {
+      storage = createFilesystemStorage(process.env.STORAGE_DIR || 'storage')
+    } else if (backend === 's3') {
+      storage = createS3Storage()
+    } else {
+      throw new Error(`Unknown STORAGE_BACKEND "${backend}", expected filesystem or s3`)
+    }
+  }
+  return storage
+}
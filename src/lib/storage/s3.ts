@@ -0,0 +1,106 @@
+/**
+ * S3 storage
+ *
+ * Files are objects in one bucket, on AWS S3 or any S3-compatible service.
+ *
+ * Environment variables:
+ *   S3_BUCKET              - bucket name (required)
+ *   S3_REGION              - defaults to us-east-1
+ *   S3_ENDPOINT            - for services other than AWS, e.g. http://localhost:9000
+ *   S3_ACCESS_KEY_ID       - falls back to the usual AWS credential chain
+ *   S3_SECRET_ACCESS_KEY
+ *   S3_FORCE_PATH_STYLE    - "true" for MinIO and most self-hosted services
+ *
+ * To try it against a local MinIO:
+ *   docker run -p 9000:9000 -p 9001:9001 minio/minio server /data --console-address :9001
+ * then create a bucket in the console at http://localhost:9001 (minioadmin /
+ * minioadmin) and set:
+ *   STORAGE_BACKEND=s3
+ *   S3_BUCKET=boxncase
+ *   S3_ENDPOINT=http://localhost:9000
+ *   S3_ACCESS_KEY_ID=minioadmin
+ *   S3_SECRET_ACCESS_KEY=minioadmin
+ *   S3_FORCE_PATH_STYLE=true
+ */
+
+import {
+  GetObjectCommand,
+  HeadObjectCommand,
+  NoSuchKey,
+  NotFound,
+  PutObjectCommand,
+  S3Client,
+} from '@aws-sdk/client-s3'
+import { assertValidKey, type StorageBackend } from '@/src/lib/storage'
+
+function isNotFound(error: unknown): boolean {
+  return error instanceof NoSuchKey || error instanceof NotFound
+}
+
+export function createS3Storage(): StorageBackend {
+  const bucket = process.env.S3_BUCKET
+  if (!bucket) {
+    throw new Error('S3_BUCKET is required when STORAGE_BACKEND is s3')
+  }
+
+  const client = new S3Client({
+    region: process.env.S3_REGION || 'us-east-1',
+    endpoint: process.env.S3_ENDPOINT || undefined,
+    forcePathStyle: process.env.S3_FORCE_PATH_STYLE === 'true',
+    credentials:
+      process.env.S3_ACCESS_KEY_ID && process.env.S3_SECRET_ACCESS_KEY
+        ? {
+            accessKeyId: process.env.S3_ACCESS_KEY_ID,
+            secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+          }
+        : undefined,
+  })
+
+  return {
+    id: 's3',
+
+    async put(key, data, contentType) {
+      assertValidKey(key)
+      await client.send(
+        new PutObjectCommand({ Bucket: bucket, Key: key, Body: data, ContentType: contentType })
+      )
+    },
+
+    async get(key) {
+      assertValidKey(key)
+      try {
+        const object = await client.send(new GetObjectCommand({ Bucket: bucket, Key: key }))
+        return object.Body ? Buffer.from(await object.Body.transformToByteArray()) : null
+      } catch (error) {
+        if (isNotFound(error)) return null
+        throw error
+      }
+    },
+
+    async getStream(key) {
+      assertValidKey(key)
+      try {
+        const object = await client.send(new GetObjectCommand({ Bucket: bucket, Key: key }))
+        if (!object.Body) return null
+        return {
+          body: object.Body.transformToWebStream() as ReadableStream<Uint8Array>,
+          size: object.ContentLength ?? null,
+        }
+      } catch (error) {
+        if (isNotFound(error)) return null
+        throw error
+      }
+    },
+
+    async getSize(key) {
+      assertValidKey(key)
+      try {
+        const head = await client.send(new HeadObjectCommand({ Bucket: bucket, Key: key }))
+        return head.ContentLength ?? null
+      } catch (error) {
+        if (isNotFound(error)) return null
+        throw error
+      }
+    },
+  }
+}
@@ -0,0 +1,179 @@
+/**
+ * Carrier tracking
+ *
+ * Shipments are polled against their carrier's tracking API until they're
+ * delivered. Every scan is kept as a TrackingEvent and the shipment takes the
+ * status of its latest one, so parcels that are stuck or have hit an exception
+ * show up on the shipments page. Multi-package shipments are tracked by their
+ * lead package.
+ */
+
+import { prisma } from '@/src/lib/db'
+import type { CarrierMode, TrackingStatus } from '@/app/generated/prisma/client'
+import { getCarrier, getEnabledCarriers, type CarrierTrackingEvent } from '@/src/lib/carriers'
+
+// Shipments older than this are no longer polled
+const POLL_WINDOW_DAYS = 30
+
+// Shipments polled per run, to stay inside carrier rate limits
+const POLL_BATCH_SIZE = 100
+
+/**
+ * Ask the shipment's carrier for its scans
+ *
+ * @returns The events, or null when the carrier isn't configured in the mode
+ *   the label was bought in. Mock labels can't be tracked.
+ */
+async function fetchTrackingEvents(
+  carrierId: string,
+  carrierMode: CarrierMode,
+  trackingNumber: string
+): Promise<{ events: CarrierTrackingEvent[]; error?: string } | null> {
+  const carrier = getCarrier(carrierId)
+  if (carrierMode === 'MOCK' || !carrier?.isConfigured() || carrier.getMode() !== carrierMode) {
+    return null
+  }
+  return carrier.getTracking(trackingNumber)
+}
+
+/**
+ * Status of the most recent event, or null without events
+ */
+export function deriveTrackingStatus(
+  events: Array<{ status: TrackingStatus; occurredAt: Date }>
+): TrackingStatus | null {
+  const latest = events.reduce<(typeof events)[number] | null>(
+    (acc, event) => (!acc || event.occurredAt > acc.occurredAt ? event : acc),
+    null
+  )
+  return latest?.status ?? null
+}
+
+/**
+ * Fetch a shipment's scans from the carrier, store the new ones and update
+ * its tracking status
+ *
+ * @returns The shipment's status and how many new events were stored, or an
+ *   error message. notFound is set when there is no such shipment.
+ */
+export async function refreshShipmentTracking(shipmentId: string): Promise<{
+  status: TrackingStatus | null
+  newEvents: number
+  error?: string
+  notFound?: boolean
+}> {
+  const shipment = await prisma.shipment.findUnique({
+    where: { id: shipmentId },
+    select: {
+      id: true,
+      carrier: true,
+      carrierMode: true,
+      trackingNumber: true,
+      trackingStatus: true,
+      shippedAt: true,
+      voidedAt: true,
+    },
+  })
+
+  if (!shipment) {
+    return { status: null, newEvents: 0, error: 'Shipment not found', notFound: true }
+  }
+
+  if (!shipment.trackingNumber || shipment.voidedAt) {
+    return { status: shipment.trackingStatus, newEvents: 0, error: 'Shipment has no active tracking number' }
+  }
+
+  const result = await fetchTrackingEvents(shipment.carrier, shipment.carrierMode, shipment.trackingNumber)
+  if (!result) {
+    return {
+      status: shipment.trackingStatus,
+      newEvents: 0,
+      error: `${shipment.carrier} tracking is not configured for ${shipment.carrierMode.toLowerCase()} labels`,
+    }
+  }
+  if (result.error) {
+    return { status: shipment.trackingStatus, newEvents: 0, error: result.error }
+  }
+
+  const events = result.events.filter((event) => !isNaN(event.occurredAt.getTime()))
+
+  const { count } = await prisma.trackingEvent.createMany({
+    data: events.map((event) => ({ shipmentId: shipment.id, ...event })),
+    skipDuplicates: true,
+  })
+
+  const status = deriveTrackingStatus(events) ?? shipment.trackingStatus
+  const delivered = events.find((event) => event.status === 'DELIVERED')
+
+  // First carrier scan after the label was printed
+  const firstScan = events
+    .filter((event) => event.status !== 'LABEL_CREATED')
+    .reduce<Date | null>((acc, event) => (!acc || event.occurredAt < acc ? event.occurredAt : acc), null)
+
+  await prisma.shipment.update({
+    where: { id: shipment.id },
+    data: {
+      trackingStatus: status,
+      trackingUpdatedAt: new Date(),
+      deliveredAt: status === 'DELIVERED' ? (delivered?.occurredAt ?? new Date()) : null,
+      shippedAt: shipment.shippedAt ?? firstScan,
+    },
+  })
+
+  return { status, newEvents: count }
+}
+
+/**
+ * Poll every recent shipment that hasn't been delivered, least recently
+ * checked first
+ *
+ * @returns How many shipments were checked and the errors for those that
+ *   couldn't be
+ */
+export async function refreshActiveShipments(): Promise<{
+  checked: number
+  updated: number
+  errors: string[]
+}> {
+  const since = new Date(Date.now() - POLL_WINDOW_DAYS * 24 * 60 * 60 * 1000)
+
+  // Only labels bought in the mode each carrier is in now can be tracked
+  const trackable = getEnabledCarriers()
+    .filter((carrier) => carrier.getMode() !== 'MOCK')
+    .map((carrier) => ({ carrier: carrier.id, carrierMode: carrier.getMode() }))
+  if (trackable.length === 0) {
+    return { checked: 0, updated: 0, errors: [] }
+  }
+
+  const shipments = await prisma.shipment.findMany({
+    where: {
+      OR: trackable,
+      trackingNumber: { not: null },
+      voidedAt: null,
+      trackingStatus: { not: 'DELIVERED' },
+      createdAt: { gte: since },
+    },
+    select: { id: true, trackingNumber: true },
+    orderBy: { trackingUpdatedAt: { sort: 'asc', nulls: 'first' } },
+    take: POLL_BATCH_SIZE,
+  })
+
+  let updated = 0
+  const errors: string[] = []
+
+  for (const shipment of shipments) {
+    try {
+      const result = await refreshShipmentTracking(shipment.id)
+      if (result.error) {
+        errors.push(`${shipment.trackingNumber}: ${result.error}`)
+      } else if (result.newEvents > 0) {
+        updated++
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error'
+      errors.push(`${shipment.trackingNumber}: ${message}`)
+    }
+  }
+
+  return { checked: shipments.length, updated, errors }
+}
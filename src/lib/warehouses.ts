@@ -0,0 +1,130 @@
+/**
+ * Warehouse helpers
+ *
+ * Each warehouse has its own ship-from address and its own bins. Orders are
+ * routed to a warehouse when they arrive and are rated and shipped from it;
+ * orders without one fall back to the default warehouse.
+ */
+
+import { prisma } from '@/src/lib/db'
+import type { Warehouse } from '@/app/generated/prisma/client'
+
+/**
+ * Ship-from address in the shape the carrier modules expect
+ */
+export interface ShipFromAddress {
+  name: string
+  addressLine1: string
+  addressLine2?: string
+  city: string
+  state: string
+  postalCode: string
+  countryCode: string
+  phone?: string
+}
+
+export function toShipFromAddress(warehouse: Warehouse): ShipFromAddress {
+  return {
+    name: warehouse.name,
+    addressLine1: warehouse.address1,
+    addressLine2: warehouse.address2 || undefined,
+    city: warehouse.city,
+    state: warehouse.state,
+    postalCode: warehouse.zip,
+    countryCode: warehouse.country,
+    phone: warehouse.phone || undefined,
+  }
+}
+
+/**
+ * The warehouse used when an order hasn't been assigned one
+ */
+export async function getDefaultWarehouse(): Promise<Warehouse | null> {
+  return prisma.warehouse.findFirst({
+    where: { isActive: true },
+    orderBy: [{ isDefault: 'desc' }, { createdAt: 'asc' }],
+  })
+}
+
+/**
+ * The warehouse an order ships from: its assigned warehouse, or the default
+ */
+export async function getOrderWarehouse(order: {
+  warehouseId: string | null
+}): Promise<Warehouse | null> {
+  if (order.warehouseId) {
+    const warehouse = await prisma.warehouse.findUnique({
+      where: { id: order.warehouseId },
+    })
+    if (warehouse) return warehouse
+  }
+
+  return getDefaultWarehouse()
+}
+
+/**
+ * Units of a product held in a warehouse's bins
+ */
+export async function getWarehouseStock(
+  productId: string,
+  warehouseId: string
+): Promise<number> {
+  const total = await prisma.locationStock.aggregate({
+    where: { productId, location: { warehouseId } },
+    _sum: { quantity: true },
+  })
+
+  return total._sum.quantity ?? 0
+}
+
+/**
+ * Pick the warehouse an order should ship from.
+ *
+ * Chooses the first active warehouse (default first) that can cover every
+ * line on its own so the order ships in one parcel. If none can, the order
+ * goes to the default warehouse and waits for stock there.
+ *
+ * @returns The warehouse id, or null when no warehouses exist
+ */
+export async function routeOrder(
+  items: Array<{ productId: string | null; quantity: number }>
+): Promise<string | null> {
+  const warehouses = await prisma.warehouse.findMany({
+    where: { isActive: true },
+    orderBy: [{ isDefault: 'desc' }, { createdAt: 'asc' }],
+    select: { id: true },
+  })
+
+  if (warehouses.length === 0) return null
+
+  // Sum quantities per product in case a product appears on several lines
+  const needed = new Map<string, number>()
+  for (const item of items) {
+    if (!item.productId) continue
+    needed.set(item.productId, (needed.get(item.productId) ?? 0) + item.quantity)
+  }
+
+  if (needed.size > 0) {
+    const stock = await prisma.locationStock.findMany({
+      where: {
+        productId: { in: [...needed.keys()] },
+        quantity: { gt: 0 },
+        location: { warehouseId: { in: warehouses.map((w) => w.id) } },
+      },
+      select: { productId: true, quantity: true, location: { select: { warehouseId: true } } },
+    })
+
+    for (const warehouse of warehouses) {
+      const canFulfill = [...needed].every(([productId, quantity]) => {
+        const onHand = stock
+          .filter((s) => s.productId === productId && s.location.warehouseId === warehouse.id)
+          .reduce((sum, s) => sum + s.quantity, 0)
+        return onHand >= quantity
+      })
+
+      if (canFulfill) return warehouse.id
+    }
+  }
+
+  return warehouses[0].id
+}
@@ -0,0 +1,63 @@
+/**
+ * ZPL previews
+ *
+ * Thermal labels are printer commands, not images, so to show one on screen
+ * or merge it into a PDF it is rendered by Labelary, which draws ZPL the way a
+ * 4x6, 203 dpi Zebra printer would. Printing to a thermal printer sends the
+ * raw ZPL and never needs it.
+ *
+ * A label carries the customer's name and address, so rendering is off until
+ * LABELARY_URL is set: a self-hosted Labelary instance, or
+ * https://api.labelary.com to accept sending labels to the public service.
+ * Without it previews are unavailable and ZPL labels are left out of merged
+ * PDFs.
+ */
+
+// 8 dots per mm is 203 dpi, what the packing stations' printers print at
+const PRINT_DENSITY = '8dpmm'
+const LABEL_SIZE = '4x6' // inches
+
+/**
+ * Whether a Labelary instance has been set up to render ZPL
+ */
+export function isZplRenderingEnabled(): boolean {
+  return !!process.env.LABELARY_URL
+}
+
+/**
+ * Render ZPL as a PNG of its first label, or a PDF with a page per label
+ */
+export async function renderZpl(
+  zpl: Buffer,
+  format: 'png' | 'pdf'
+): Promise<{ data?: Buffer; error?: string }> {
+  if (!isZplRenderingEnabled()) {
+    return { error: 'Preview unavailable: set LABELARY_URL to render ZPL labels' }
+  }
+
+  const baseUrl = process.env.LABELARY_URL!.replace(/\/+$/, '')
+  // PNGs are one label at a time; without an index the PDF has them all
+  const url = `${baseUrl}/v1/printers/${PRINT_DENSITY}/labels/${LABEL_SIZE}/${format === 'png' ? '0/' : ''}`
+
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        Accept: format === 'png' ? 'image/png' : 'application/pdf',
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: new Uint8Array(zpl),
+    })
+
+    if (!response.ok) {
+      const message = await response.text()
+      return { error: `Labelary error (${response.status}): ${message.slice(0, 200)}` }
+    }
+
+    return { data: Buffer.from(await response.arrayBuffer()) }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    console.error('[ZPL] Failed to render label:', message)
+    return { error: `Could not render the label: ${message}` }
+  }
+}